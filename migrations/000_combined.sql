@@ -1,5 +1,5 @@
 -- Remote Coding Agent - Combined Schema
--- Version: Combined (includes migrations 001-008)
+-- Version: Combined (includes migrations 001-011)
 -- Description: Complete database schema (idempotent - safe to run multiple times)
 
 -- ============================================================================
@@ -148,7 +148,7 @@ CREATE TABLE IF NOT EXISTS remote_agent_workflow_runs (
   conversation_id UUID REFERENCES remote_agent_conversations(id) ON DELETE CASCADE,
   codebase_id UUID REFERENCES remote_agent_codebases(id) ON DELETE SET NULL,
   current_step_index INTEGER DEFAULT 0,
-  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, completed, failed
+  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, completed, failed, interrupted, waiting_approval
   user_message TEXT NOT NULL,
   metadata JSONB DEFAULT '{}',
   started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -162,3 +162,52 @@ CREATE INDEX IF NOT EXISTS idx_workflow_runs_status
 
 COMMENT ON TABLE remote_agent_workflow_runs IS
   'Tracks workflow execution state for resumption and observability';
+
+-- ============================================================================
+-- Migration 009: Workflow Last Activity
+-- ============================================================================
+
+ALTER TABLE remote_agent_workflow_runs
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_last_activity
+  ON remote_agent_workflow_runs(last_activity_at)
+  WHERE status = 'running';
+
+-- ============================================================================
+-- Migration 010: Sub-workflow Parent Runs
+-- ============================================================================
+
+ALTER TABLE remote_agent_workflow_runs
+  ADD COLUMN IF NOT EXISTS parent_run_id UUID
+    REFERENCES remote_agent_workflow_runs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_parent
+  ON remote_agent_workflow_runs(parent_run_id)
+  WHERE parent_run_id IS NOT NULL;
+
+COMMENT ON COLUMN remote_agent_workflow_runs.parent_run_id IS
+  'Run that started this one through a sub-workflow step (NULL for top-level runs)';
+
+-- ============================================================================
+-- Migration 011: Token Usage
+-- ============================================================================
+
+ALTER TABLE remote_agent_conversations
+  ADD COLUMN IF NOT EXISTS input_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS output_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_read_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_write_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+ALTER TABLE remote_agent_codebases
+  ADD COLUMN IF NOT EXISTS input_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS output_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_read_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_write_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN remote_agent_conversations.cost_usd IS
+  'Total AI cost reported by the assistants (Codex reports no cost - tokens only)';
+COMMENT ON COLUMN remote_agent_codebases.cost_usd IS
+  'Total AI cost reported by the assistants (Codex reports no cost - tokens only)';
@@ -7,7 +7,7 @@ CREATE TABLE IF NOT EXISTS remote_agent_workflow_runs (
   conversation_id UUID REFERENCES remote_agent_conversations(id) ON DELETE CASCADE,
   codebase_id UUID REFERENCES remote_agent_codebases(id) ON DELETE SET NULL,
   current_step_index INTEGER DEFAULT 0,
-  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, completed, failed
+  status VARCHAR(20) NOT NULL DEFAULT 'running',  -- running, completed, failed, interrupted, waiting_approval
   user_message TEXT NOT NULL,
   metadata JSONB DEFAULT '{}',
   started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -0,0 +1,14 @@
+-- Migration: Add parent_run_id for sub-workflow steps
+-- A `workflow: <name>` step records its child run with a link to the calling run
+
+ALTER TABLE remote_agent_workflow_runs
+ADD COLUMN IF NOT EXISTS parent_run_id UUID
+  REFERENCES remote_agent_workflow_runs(id) ON DELETE CASCADE;
+
+-- Index for finding the children of a run (cancellation, history)
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_parent
+ON remote_agent_workflow_runs(parent_run_id)
+WHERE parent_run_id IS NOT NULL;
+
+COMMENT ON COLUMN remote_agent_workflow_runs.parent_run_id IS
+  'Run that started this one through a sub-workflow step (NULL for top-level runs)';
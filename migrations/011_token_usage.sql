@@ -0,0 +1,21 @@
+-- Migration: Add token usage and cost totals to conversations and codebases
+-- AI clients report usage on every query; totals are added as queries finish
+
+ALTER TABLE remote_agent_conversations
+  ADD COLUMN IF NOT EXISTS input_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS output_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_read_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_write_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+ALTER TABLE remote_agent_codebases
+  ADD COLUMN IF NOT EXISTS input_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS output_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_read_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cache_write_tokens BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN remote_agent_conversations.cost_usd IS
+  'Total AI cost reported by the assistants (Codex reports no cost - tokens only)';
+COMMENT ON COLUMN remote_agent_codebases.cost_usd IS
+  'Total AI cost reported by the assistants (Codex reports no cost - tokens only)';
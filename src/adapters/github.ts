@@ -925,7 +925,8 @@ ${userComment}`;
           contextToAppend,
           threadContext, // Pass comment history as thread context
           undefined, // parentConversationId
-          isolationHints
+          isolationHints,
+          senderUsername
         );
       } catch (error) {
         const err = error as Error;
@@ -92,6 +92,64 @@ describe('ClaudeClient', () => {
       expect(chunks[0]).toEqual({ type: 'result', sessionId: 'session-123-abc' });
     });
 
+    test('yields usage and cost on the result event', async () => {
+      mockQuery.mockImplementation(async function* () {
+        yield {
+          type: 'result',
+          session_id: 'session-123-abc',
+          total_cost_usd: 0.125,
+          usage: {
+            input_tokens: 1200,
+            output_tokens: 340,
+            cache_read_input_tokens: 5000,
+            cache_creation_input_tokens: 800,
+          },
+        };
+      });
+
+      const chunks = [];
+      for await (const chunk of client.sendQuery('test prompt', '/workspace')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0]).toEqual({
+        type: 'result',
+        sessionId: 'session-123-abc',
+        usage: {
+          inputTokens: 1200,
+          outputTokens: 340,
+          cacheReadTokens: 5000,
+          cacheWriteTokens: 800,
+          costUsd: 0.125,
+        },
+      });
+    });
+
+    test('yields the usage of each API response once, as it arrives', async () => {
+      const usage = {
+        input_tokens: 10,
+        output_tokens: 300,
+        cache_read_input_tokens: 4000,
+        cache_creation_input_tokens: 50,
+      };
+      mockQuery.mockImplementation(async function* () {
+        yield { type: 'assistant', message: { id: 'msg-1', usage, content: [] } };
+        yield { type: 'assistant', message: { id: 'msg-1', usage, content: [] } };
+        yield { type: 'assistant', message: { id: 'msg-2', usage, content: [] } };
+      });
+
+      const chunks = [];
+      for await (const chunk of client.sendQuery('test prompt', '/workspace')) {
+        chunks.push(chunk);
+      }
+
+      const expected = {
+        type: 'usage',
+        usage: { inputTokens: 10, outputTokens: 300, cacheReadTokens: 4000, cacheWriteTokens: 50 },
+      };
+      expect(chunks).toEqual([expected, expected]);
+    });
+
     test('handles multiple content blocks in one message', async () => {
       mockQuery.mockImplementation(async function* () {
         yield {
@@ -156,6 +214,46 @@ describe('ClaudeClient', () => {
       });
     });
 
+    test('forwards abort signal to the SDK abort controller', async () => {
+      mockQuery.mockImplementation(async function* () {
+        // Empty generator
+      });
+      const controller = new AbortController();
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _ of client.sendQuery('prompt', '/workspace', undefined, {
+        abortSignal: controller.signal,
+      })) {
+        // consume
+      }
+
+      const [{ options }] = mockQuery.mock.calls[0] as unknown as [
+        { options: { abortController?: AbortController } },
+      ];
+      expect(options.abortController?.signal.aborted).toBe(false);
+      controller.abort(new Error('Step timed out'));
+      expect(options.abortController?.signal.aborted).toBe(true);
+      expect(options.abortController?.signal.reason).toEqual(new Error('Step timed out'));
+    });
+
+    test('passes the model option when provided', async () => {
+      mockQuery.mockImplementation(async function* () {
+        // Empty generator
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _ of client.sendQuery('prompt', '/workspace', undefined, {
+        model: 'haiku',
+      })) {
+        // consume
+      }
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        prompt: 'prompt',
+        options: expect.objectContaining({ model: 'haiku' }),
+      });
+    });
+
     test('handles tool_use with empty input', async () => {
       mockQuery.mockImplementation(async function* () {
         yield {
@@ -14,7 +14,7 @@
  * - Not set: Auto-detect - use tokens if present in env, otherwise global auth
  */
 import { query, type Options } from '@anthropic-ai/claude-agent-sdk';
-import { IAssistantClient, MessageChunk } from '../types';
+import { IAssistantClient, MessageChunk, QueryOptions } from '../types';
 
 /**
  * Content block type for assistant messages
@@ -27,6 +27,16 @@ interface ContentBlock {
   input?: Record<string, unknown>;
 }
 
+/**
+ * Token usage as reported by the SDK on assistant and result messages
+ */
+interface SdkUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+}
+
 /**
  * Build environment for Claude subprocess
  *
@@ -113,11 +123,13 @@ export class ClaudeClient implements IAssistantClient {
    * @param prompt - User message or prompt
    * @param cwd - Working directory for Claude
    * @param resumeSessionId - Optional session ID to resume
+   * @param queryOptions - Optional abort signal (aborting stops the Claude Code process) and model
    */
   async *sendQuery(
     prompt: string,
     cwd: string,
-    resumeSessionId?: string
+    resumeSessionId?: string,
+    queryOptions?: QueryOptions
   ): AsyncGenerator<MessageChunk> {
     const options: Options = {
       cwd,
@@ -152,6 +164,28 @@ export class ClaudeClient implements IAssistantClient {
       },
     };
 
+    // SDK expects a controller - forward the caller's signal to it
+    const abortSignal = queryOptions?.abortSignal;
+    if (abortSignal) {
+      const abortController = new AbortController();
+      if (abortSignal.aborted) {
+        abortController.abort(abortSignal.reason);
+      } else {
+        abortSignal.addEventListener(
+          'abort',
+          () => {
+            abortController.abort(abortSignal.reason);
+          },
+          { once: true }
+        );
+      }
+      options.abortController = abortController;
+    }
+
+    if (queryOptions?.model) {
+      options.model = queryOptions.model;
+    }
+
     if (resumeSessionId) {
       options.resume = resumeSessionId;
       console.log(`[Claude] Resuming session: ${resumeSessionId}`);
@@ -159,14 +193,34 @@ export class ClaudeClient implements IAssistantClient {
       console.log(`[Claude] Starting new session in ${cwd}`);
     }
 
+    // An API response split into several assistant messages repeats its usage
+    const reportedMessageIds = new Set<string>();
+
     try {
       for await (const msg of query({ prompt, options })) {
         if (msg.type === 'assistant') {
           // Process assistant message content blocks
           // Type assertion needed: SDK's strict types require explicit handling
-          const message = msg as { message: { content: ContentBlock[] } };
+          const message = msg as {
+            message: { id?: string; content: ContentBlock[]; usage?: SdkUsage };
+          };
           const content = message.message.content;
 
+          // Usage of each API response as it arrives, so token budgets apply mid-query
+          const { id, usage } = message.message;
+          if (id && usage && !reportedMessageIds.has(id)) {
+            reportedMessageIds.add(id);
+            yield {
+              type: 'usage',
+              usage: {
+                inputTokens: usage.input_tokens,
+                outputTokens: usage.output_tokens,
+                cacheReadTokens: usage.cache_read_input_tokens,
+                cacheWriteTokens: usage.cache_creation_input_tokens,
+              },
+            };
+          }
+
           for (const block of content) {
             // Text blocks - assistant responses
             if (block.type === 'text' && block.text) {
@@ -183,9 +237,24 @@ export class ClaudeClient implements IAssistantClient {
             }
           }
         } else if (msg.type === 'result') {
-          // Extract session ID for persistence
-          const resultMsg = msg as { session_id?: string };
-          yield { type: 'result', sessionId: resultMsg.session_id };
+          // Extract session ID for persistence and the query's usage for cost accounting
+          const resultMsg = msg as {
+            session_id?: string;
+            total_cost_usd?: number;
+            usage?: unknown;
+          };
+          const usage = resultMsg.usage as SdkUsage | undefined;
+          yield {
+            type: 'result',
+            sessionId: resultMsg.session_id,
+            usage: usage && {
+              inputTokens: usage.input_tokens,
+              outputTokens: usage.output_tokens,
+              cacheReadTokens: usage.cache_read_input_tokens,
+              cacheWriteTokens: usage.cache_creation_input_tokens,
+              costUsd: resultMsg.total_cost_usd,
+            },
+          };
         }
         // Ignore other message types (system, thinking, tool_result, etc.)
       }
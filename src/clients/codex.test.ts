@@ -149,6 +149,45 @@ describe('CodexClient', () => {
       expect(mockStartThread).not.toHaveBeenCalled();
     });
 
+    test('passes abort signal to the turn', async () => {
+      mockRunStreamed.mockResolvedValue({
+        events: (async function* () {
+          yield { type: 'turn.completed' };
+        })(),
+      });
+      const controller = new AbortController();
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _ of client.sendQuery('test prompt', '/workspace', undefined, {
+        abortSignal: controller.signal,
+      })) {
+        // consume
+      }
+
+      expect(mockRunStreamed).toHaveBeenCalledWith('test prompt', { signal: controller.signal });
+    });
+
+    test('passes the model to the thread', async () => {
+      mockRunStreamed.mockResolvedValue({
+        events: (async function* () {
+          yield { type: 'turn.completed' };
+        })(),
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      for await (const _ of client.sendQuery('test prompt', '/workspace', undefined, {
+        model: 'gpt-5',
+      })) {
+        // consume
+      }
+
+      expect(mockStartThread).toHaveBeenCalledWith({
+        workingDirectory: '/workspace',
+        skipGitRepoCheck: true,
+        model: 'gpt-5',
+      });
+    });
+
     test('falls back to new thread when resume fails', async () => {
       mockResumeThread.mockImplementation(() => {
         throw new Error('Thread not found');
@@ -175,6 +214,28 @@ describe('CodexClient', () => {
       consoleSpy.mockRestore();
     });
 
+    test('yields token usage on the result chunk', async () => {
+      mockRunStreamed.mockResolvedValue({
+        events: (async function* () {
+          yield {
+            type: 'turn.completed',
+            usage: { input_tokens: 1500, cached_input_tokens: 1000, output_tokens: 200 },
+          };
+        })(),
+      });
+
+      const chunks = [];
+      for await (const chunk of client.sendQuery('test prompt', '/workspace')) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0]).toEqual({
+        type: 'result',
+        sessionId: 'new-thread-id',
+        usage: { inputTokens: 500, outputTokens: 200, cacheReadTokens: 1000, cacheWriteTokens: 0 },
+      });
+    });
+
     test('breaks on turn.completed event', async () => {
       mockRunStreamed.mockResolvedValue({
         events: (async function* () {
@@ -6,7 +6,8 @@
  * dynamic import workaround that was needed for CommonJS/Node.js.
  */
 import { Codex } from '@openai/codex-sdk';
-import { IAssistantClient, MessageChunk } from '../types';
+import type { Usage } from '@openai/codex-sdk';
+import { IAssistantClient, MessageChunk, QueryOptions } from '../types';
 
 // Singleton Codex instance
 let codexInstance: Codex | null = null;
@@ -32,13 +33,20 @@ export class CodexClient implements IAssistantClient {
    * @param prompt - User message or prompt
    * @param cwd - Working directory for Codex
    * @param resumeSessionId - Optional thread ID to resume
+   * @param queryOptions - Optional abort signal (aborting cancels the turn) and model
    */
   async *sendQuery(
     prompt: string,
     cwd: string,
-    resumeSessionId?: string
+    resumeSessionId?: string,
+    queryOptions?: QueryOptions
   ): AsyncGenerator<MessageChunk> {
     const codex = getCodex();
+    const threadOptions = {
+      workingDirectory: cwd,
+      skipGitRepoCheck: true,
+      ...(queryOptions?.model ? { model: queryOptions.model } : {}),
+    };
 
     // Get or create thread (synchronous operations!)
     let thread;
@@ -47,33 +55,24 @@ export class CodexClient implements IAssistantClient {
       try {
         // NOTE: resumeThread is synchronous, not async
         // IMPORTANT: Must pass options when resuming!
-        thread = codex.resumeThread(resumeSessionId, {
-          workingDirectory: cwd,
-          skipGitRepoCheck: true,
-        });
+        thread = codex.resumeThread(resumeSessionId, threadOptions);
       } catch (error) {
         console.error(
           `[Codex] Failed to resume thread ${resumeSessionId}, creating new one:`,
           error
         );
         // Fall back to creating new thread
-        thread = codex.startThread({
-          workingDirectory: cwd,
-          skipGitRepoCheck: true,
-        });
+        thread = codex.startThread(threadOptions);
       }
     } else {
       console.log(`[Codex] Starting new thread in ${cwd}`);
       // NOTE: startThread is synchronous, not async
-      thread = codex.startThread({
-        workingDirectory: cwd,
-        skipGitRepoCheck: true,
-      });
+      thread = codex.startThread(threadOptions);
     }
 
     try {
       // Run streamed query (this IS async)
-      const result = await thread.runStreamed(prompt);
+      const result = await thread.runStreamed(prompt, { signal: queryOptions?.abortSignal });
 
       // Process streaming events
       for await (const event of result.events) {
@@ -132,8 +131,18 @@ export class CodexClient implements IAssistantClient {
         // Handle turn.completed event
         if (event.type === 'turn.completed') {
           console.log('[Codex] Turn completed');
-          // Yield result with thread ID for persistence
-          yield { type: 'result', sessionId: thread.id ?? undefined };
+          // Yield result with thread ID for persistence - Codex counts cached tokens as input
+          const usage = event.usage as Usage | undefined;
+          yield {
+            type: 'result',
+            sessionId: thread.id ?? undefined,
+            usage: usage && {
+              inputTokens: usage.input_tokens - usage.cached_input_tokens,
+              outputTokens: usage.output_tokens,
+              cacheReadTokens: usage.cached_input_tokens,
+              cacheWriteTokens: 0,
+            },
+          };
           // CRITICAL: Break out of event loop - turn is complete!
           // Without this, the loop waits for stream to end (causes 90s timeout)
           break;
@@ -12,7 +12,15 @@ mock.module('./config-loader', () => ({
   readConfigFile: mockReadConfigFile,
 }));
 
-import { loadGlobalConfig, loadRepoConfig, loadConfig, clearConfigCache } from './config-loader';
+import {
+  loadGlobalConfig,
+  loadRepoConfig,
+  loadConfig,
+  clearConfigCache,
+  forgetRepoConfig,
+  reloadGlobalConfig,
+  reloadRepoConfig,
+} from './config-loader';
 
 describe('config-loader', () => {
   const originalEnv: Record<string, string | undefined> = {};
@@ -23,6 +31,8 @@ describe('config-loader', () => {
     'SLACK_STREAMING_MODE',
     'GITHUB_STREAMING_MODE',
     'MAX_CONCURRENT_CONVERSATIONS',
+    'WORKFLOW_INTERRUPTED_RUNS',
+    'WORKFLOW_ROUTER_CONFIDENCE_THRESHOLD',
     'WORKSPACE_PATH',
     'WORKTREE_BASE',
     'ARCHON_HOME',
@@ -137,6 +147,41 @@ concurrency:
     });
   });
 
+  describe('reloadGlobalConfig', () => {
+    test('keeps the previous config when the file is invalid', async () => {
+      mockReadConfigFile.mockResolvedValue('defaultAssistant: codex');
+      await loadGlobalConfig();
+
+      mockReadConfigFile.mockRejectedValue(new Error('YAML Parse error'));
+      const error = await reloadGlobalConfig();
+
+      expect(error).toContain('YAML Parse error');
+      expect((await loadGlobalConfig()).defaultAssistant).toBe('codex');
+
+      mockReadConfigFile.mockResolvedValue('defaultAssistant: claude');
+      expect(await reloadGlobalConfig()).toBeUndefined();
+      expect((await loadGlobalConfig()).defaultAssistant).toBe('claude');
+    });
+  });
+
+  describe('reloadRepoConfig', () => {
+    test('serves the reloaded config and keeps it when the file breaks', async () => {
+      mockReadConfigFile.mockResolvedValue('assistant: codex');
+      expect(await reloadRepoConfig('/test/repo')).toEqual([]);
+
+      mockReadConfigFile.mockRejectedValue(new Error('YAML Parse error'));
+      const errors = await reloadRepoConfig('/test/repo');
+
+      expect(errors[0]).toContain('YAML Parse error');
+      expect((await loadRepoConfig('/test/repo')).assistant).toBe('codex');
+      // Other repositories are still read from disk
+      expect(await loadRepoConfig('/other/repo')).toEqual({});
+
+      forgetRepoConfig('/test/repo');
+      expect(await loadRepoConfig('/test/repo')).toEqual({});
+    });
+  });
+
   describe('loadConfig', () => {
     test('returns defaults when no configs exist', async () => {
       const error = new Error('ENOENT') as NodeJS.ErrnoException;
@@ -149,6 +194,68 @@ concurrency:
       expect(config.streaming.telegram).toBe('stream');
       expect(config.streaming.github).toBe('batch');
       expect(config.concurrency.maxConversations).toBe(10);
+      expect(config.workflows.interruptedRuns).toBe('offer');
+    });
+
+    test('interrupted workflow handling from global config and env', async () => {
+      mockReadConfigFile.mockResolvedValue(`
+workflows:
+  interruptedRuns: resume
+`);
+
+      const config = await loadConfig();
+      expect(config.workflows.interruptedRuns).toBe('resume');
+
+      process.env.WORKFLOW_INTERRUPTED_RUNS = 'offer';
+      const overridden = await loadConfig();
+      expect(overridden.workflows.interruptedRuns).toBe('offer');
+    });
+
+    test('router confidence threshold from global config and env', async () => {
+      mockReadConfigFile.mockResolvedValue(`
+workflows:
+  routerConfidenceThreshold: 0.8
+`);
+
+      expect((await loadConfig()).workflows.routerConfidenceThreshold).toBe(0.8);
+
+      process.env.WORKFLOW_ROUTER_CONFIDENCE_THRESHOLD = '0.4';
+      expect((await loadConfig()).workflows.routerConfidenceThreshold).toBe(0.4);
+
+      // Out-of-range values keep the default
+      process.env.WORKFLOW_ROUTER_CONFIDENCE_THRESHOLD = '5';
+      mockReadConfigFile.mockResolvedValue('workflows:\n  routerConfidenceThreshold: 2\n');
+      clearConfigCache();
+      expect((await loadConfig()).workflows.routerConfidenceThreshold).toBe(0.6);
+    });
+
+    test('model registry from global config', async () => {
+      mockReadConfigFile.mockResolvedValue(`
+models:
+  fast: claude/haiku
+  alt: codex/gpt-5
+  broken: haiku
+`);
+
+      const config = await loadConfig();
+
+      expect(config.models).toEqual({ fast: 'claude/haiku', alt: 'codex/gpt-5' });
+    });
+
+    test('budget ceilings take the lower of global and repo config', async () => {
+      mockReadConfigFile.mockImplementation(async (path: string) => {
+        if (path.replace(/\\/g, '/').includes('/repo/.archon/config.yaml')) {
+          return 'budget:\n  maxCostUsd: 20\n  maxToolCalls: 100\n  maxTurns: -1\n';
+        }
+        return 'budget:\n  maxCostUsd: 5\n  maxTokens: 1000000\n  maxSteps: 3\n';
+      });
+
+      expect((await loadConfig()).budget).toEqual({ maxCostUsd: 5, maxTokens: 1_000_000 });
+      expect((await loadConfig('/test/repo')).budget).toEqual({
+        maxCostUsd: 5,
+        maxTokens: 1_000_000,
+        maxToolCalls: 100,
+      });
     });
 
     test('env vars override config files', async () => {
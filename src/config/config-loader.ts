@@ -20,7 +20,7 @@ import {
   getArchonWorkspacesPath,
   getArchonWorktreesPath,
 } from '../utils/archon-paths';
-import type { GlobalConfig, RepoConfig, MergedConfig } from './config-types';
+import type { BudgetConfig, GlobalConfig, RepoConfig, MergedConfig } from './config-types';
 
 /**
  * Parse YAML using Bun's native YAML parser
@@ -54,6 +54,23 @@ const DEFAULT_CONFIG_CONTENT = `# Archon Global Configuration
 # Concurrency settings
 # concurrency:
 #   maxConversations: 10
+
+# Workflow runs interrupted by a restart: resume automatically or offer to the user
+# workflows:
+#   interruptedRuns: offer
+#   routerConfidenceThreshold: 0.6   # Below it, ask which workflow to run
+
+# Named models for workflow steps (model: fast), as <provider>/<model>
+# models:
+#   fast: claude/haiku
+#   deep: claude/opus
+
+# Ceilings for every workflow run (a workflow's own budget: can only be lower)
+# budget:
+#   maxTokens: 2000000
+#   maxCostUsd: 20
+#   maxToolCalls: 500
+#   maxTurns: 300
 `;
 
 /**
@@ -102,34 +119,102 @@ export async function loadGlobalConfig(forceReload = false): Promise<GlobalConfi
 }
 
 /**
- * Load repository config from .archon/config.yaml
+ * Re-read the global config after ~/.archon/config.yaml changed (used by the config
+ * watcher). When the file cannot be loaded the previous config stays in use.
+ * @returns Why the file could not be loaded, or undefined when it loaded
+ */
+export async function reloadGlobalConfig(): Promise<string | undefined> {
+  const configPath = getArchonConfigPath();
+
+  try {
+    const content = await readConfigFile(configPath);
+    cachedGlobalConfig = (parseYaml(content) as GlobalConfig | null) ?? {};
+    return undefined;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === 'ENOENT') {
+      // Deleted - back to defaults
+      cachedGlobalConfig = {};
+      return undefined;
+    }
+    return `${configPath}: ${err.message}`;
+  }
+}
+
+/**
+ * Repo configs of watched repositories, keyed by repository path.
+ * Other repositories are read from disk on every load.
+ */
+const repoConfigSnapshots = new Map<string, RepoConfig>();
+
+/**
+ * Read repository config from .archon/config.yaml
  * Falls back to .claude/config.yaml for legacy support
- * Returns empty object if no config found
+ * Returns empty object if no config found, plus the files that failed to load
  */
-export async function loadRepoConfig(repoPath: string): Promise<RepoConfig> {
+async function readRepoConfig(repoPath: string): Promise<{ config: RepoConfig; errors: string[] }> {
   const configPaths = [
     join(repoPath, '.archon', 'config.yaml'),
     join(repoPath, '.claude', 'config.yaml'),
   ];
+  const errors: string[] = [];
 
   for (const configPath of configPaths) {
     try {
       const content = await readConfigFile(configPath);
-      return (parseYaml(content) as RepoConfig) ?? {};
+      return { config: (parseYaml(content) as RepoConfig) ?? {}, errors };
     } catch (error) {
       const err = error as NodeJS.ErrnoException;
       if (err.code === 'ENOENT') {
         // File doesn't exist - expected, try next path
         continue;
       }
-      // Unexpected error (syntax error, permission denied, etc) - log so users know their config has issues
-      console.warn(`[Config] Failed to load repo config from ${configPath}: ${err.message}`);
+      // Unexpected error (syntax error, permission denied, etc) - reported so users know their config has issues
+      errors.push(`${configPath}: ${err.message}`);
       continue;
     }
   }
 
   // No config found
-  return {};
+  return { config: {}, errors };
+}
+
+/**
+ * Load repository config from .archon/config.yaml
+ * Falls back to .claude/config.yaml for legacy support
+ * Returns empty object if no config found
+ */
+export async function loadRepoConfig(repoPath: string): Promise<RepoConfig> {
+  const snapshot = repoConfigSnapshots.get(repoPath);
+  if (snapshot) {
+    return snapshot;
+  }
+
+  const { config, errors } = await readRepoConfig(repoPath);
+  for (const error of errors) {
+    console.warn(`[Config] Failed to load repo config from ${error}`);
+  }
+  return config;
+}
+
+/**
+ * Re-read a repository's config and keep it for loadRepoConfig (used by the config
+ * watcher). When a config file cannot be loaded the previous config stays in use.
+ * @returns Load errors, as `<path>: <message>`
+ */
+export async function reloadRepoConfig(repoPath: string): Promise<string[]> {
+  const { config, errors } = await readRepoConfig(repoPath);
+  if (errors.length === 0 || !repoConfigSnapshots.has(repoPath)) {
+    repoConfigSnapshots.set(repoPath, config);
+  }
+  return errors;
+}
+
+/**
+ * Stop keeping a repository's config - loadRepoConfig reads it from disk again
+ */
+export function forgetRepoConfig(repoPath: string): void {
+  repoConfigSnapshots.delete(repoPath);
 }
 
 /**
@@ -152,6 +237,12 @@ function getDefaults(): MergedConfig {
     concurrency: {
       maxConversations: 10,
     },
+    workflows: {
+      interruptedRuns: 'offer',
+      routerConfidenceThreshold: 0.6,
+    },
+    models: {},
+    budget: {},
     commands: {
       folder: undefined,
       autoLoad: true,
@@ -162,6 +253,36 @@ function getDefaults(): MergedConfig {
   };
 }
 
+/**
+ * Check a router confidence threshold (0-1)
+ */
+function isValidConfidence(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+const BUDGET_CEILING_KEYS = ['maxTokens', 'maxCostUsd', 'maxToolCalls', 'maxTurns'] as const;
+
+/**
+ * Lower budget ceilings with the ones from a config file. Invalid limits are ignored.
+ * @param source - Config section for warnings (e.g. "budget")
+ */
+function applyBudgetCeilings(current: BudgetConfig, raw: unknown, source: string): BudgetConfig {
+  if (!raw || typeof raw !== 'object') {
+    console.warn(`[Config] Ignoring ${source}: expected a mapping of limits`);
+    return current;
+  }
+  const result = { ...current };
+  for (const [key, value] of Object.entries(raw)) {
+    const limit = BUDGET_CEILING_KEYS.find(name => name === key);
+    if (!limit || typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      console.warn(`[Config] Ignoring ${source}.${key}: expected a positive limit`);
+      continue;
+    }
+    result[limit] = Math.min(value, result[limit] ?? Infinity);
+  }
+  return result;
+}
+
 /**
  * Apply environment variable overrides
  */
@@ -212,6 +333,17 @@ function applyEnvOverrides(config: MergedConfig): MergedConfig {
     }
   }
 
+  // Interrupted workflow handling override
+  const interruptedRuns = process.env.WORKFLOW_INTERRUPTED_RUNS;
+  if (interruptedRuns === 'resume' || interruptedRuns === 'offer') {
+    config.workflows.interruptedRuns = interruptedRuns;
+  }
+
+  const routerThreshold = process.env.WORKFLOW_ROUTER_CONFIDENCE_THRESHOLD;
+  if (routerThreshold && isValidConfidence(Number(routerThreshold))) {
+    config.workflows.routerConfidenceThreshold = Number(routerThreshold);
+  }
+
   return config;
 }
 
@@ -250,6 +382,35 @@ function mergeGlobalConfig(defaults: MergedConfig, global: GlobalConfig): Merged
     result.concurrency.maxConversations = global.concurrency.maxConversations;
   }
 
+  // Workflow preferences
+  if (global.workflows?.interruptedRuns) {
+    result.workflows.interruptedRuns = global.workflows.interruptedRuns;
+  }
+  const routerThreshold = global.workflows?.routerConfidenceThreshold;
+  if (routerThreshold !== undefined) {
+    if (isValidConfidence(routerThreshold)) {
+      result.workflows.routerConfidenceThreshold = routerThreshold;
+    } else {
+      console.warn('[Config] Ignoring workflows.routerConfidenceThreshold: expected 0-1');
+    }
+  }
+
+  // Model registry - only `<provider>/<model>` strings are kept
+  if (global.models) {
+    for (const [name, spec] of Object.entries(global.models)) {
+      if (typeof spec === 'string' && spec.includes('/')) {
+        result.models[name] = spec;
+      } else {
+        console.warn(`[Config] Ignoring model '${name}': expected <provider>/<model>`);
+      }
+    }
+  }
+
+  // Workflow budget ceilings
+  if (global.budget !== undefined) {
+    result.budget = applyBudgetCeilings(result.budget, global.budget, 'budget');
+  }
+
   return result;
 }
 
@@ -281,6 +442,11 @@ function mergeRepoConfig(merged: MergedConfig, repo: RepoConfig): MergedConfig {
     };
   }
 
+  // Budget ceilings (can only lower the global ones)
+  if (repo.budget !== undefined) {
+    result.budget = applyBudgetCeilings(result.budget, repo.budget, 'budget');
+  }
+
   return result;
 }
 
@@ -311,10 +477,11 @@ export async function loadConfig(repoPath?: string): Promise<MergedConfig> {
 }
 
 /**
- * Clear cached global config (useful for testing)
+ * Clear cached global config and repo config snapshots (useful for testing)
  */
 export function clearConfigCache(): void {
   cachedGlobalConfig = null;
+  repoConfigSnapshots.clear();
 }
 
 /**
@@ -327,4 +494,18 @@ export function logConfig(config: MergedConfig): void {
   console.log(`  Discord Streaming: ${config.streaming.discord}`);
   console.log(`  Slack Streaming: ${config.streaming.slack}`);
   console.log(`  GitHub Streaming: ${config.streaming.github}`);
+  console.log(`  Interrupted Workflows: ${config.workflows.interruptedRuns}`);
+  console.log(
+    `  Router Confidence Threshold: ${String(config.workflows.routerConfidenceThreshold)}`
+  );
+  const modelNames = Object.keys(config.models);
+  if (modelNames.length > 0) {
+    console.log(`  Models: ${modelNames.join(', ')}`);
+  }
+  const ceilings = Object.entries(config.budget);
+  if (ceilings.length > 0) {
+    console.log(
+      `  Budget Ceilings: ${ceilings.map(([key, value]) => `${key}=${String(value)}`).join(', ')}`
+    );
+  }
 }
@@ -6,6 +6,20 @@
  * - Repository: .archon/config.yaml (project settings)
  */
 
+/**
+ * Spending ceilings for every workflow run - a workflow's own `budget:` can only be lower
+ */
+export interface BudgetConfig {
+  /** Input and output tokens per run, including cache writes */
+  maxTokens?: number;
+  /** Cost in USD per run (providers that report a cost) */
+  maxCostUsd?: number;
+  /** AI tool calls per run */
+  maxToolCalls?: number;
+  /** Assistant messages per run */
+  maxTurns?: number;
+}
+
 /**
  * Global configuration (non-secret user preferences)
  * Located at ~/.archon/config.yaml
@@ -60,6 +74,37 @@ export interface GlobalConfig {
      */
     maxConversations?: number;
   };
+
+  /**
+   * Workflow engine preferences
+   */
+  workflows?: {
+    /**
+     * What to do on startup with runs interrupted by a restart:
+     * 'resume' continues them automatically, 'offer' asks the user
+     * (`/workflow resume <id>` or `/workflow abandon <id>`)
+     * @default 'offer'
+     */
+    interruptedRuns?: 'resume' | 'offer';
+
+    /**
+     * Minimum AI router confidence (0-1) to start a workflow - below it the user is
+     * asked to choose between the top candidates
+     * @default 0.6
+     */
+    routerConfidenceThreshold?: number;
+  };
+
+  /**
+   * Named models for workflow steps (`model: fast`), as `<provider>/<model>`
+   * @example { fast: 'claude/haiku', deep: 'claude/opus', alt: 'codex/gpt-5' }
+   */
+  models?: Record<string, string>;
+
+  /**
+   * Ceilings for every workflow run
+   */
+  budget?: BudgetConfig;
 }
 
 /**
@@ -120,6 +165,11 @@ export interface RepoConfig {
      */
     copyDefaults?: boolean;
   };
+
+  /**
+   * Ceilings for workflow runs in this repository - can only lower the global ones
+   */
+  budget?: BudgetConfig;
 }
 
 /**
@@ -142,6 +192,15 @@ export interface MergedConfig {
   concurrency: {
     maxConversations: number;
   };
+  workflows: {
+    interruptedRuns: 'resume' | 'offer';
+    routerConfidenceThreshold: number;
+  };
+  models: Record<string, string>;
+  /**
+   * Lowest of the global and repository ceilings, per limit
+   */
+  budget: BudgetConfig;
   commands: {
     /**
      * Additional command folder to search (relative to repo root)
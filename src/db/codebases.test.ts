@@ -14,12 +14,15 @@ mock.module('./connection', () => ({
 import {
   createCodebase,
   getCodebase,
+  listCodebases,
   updateCodebaseCommands,
   getCodebaseCommands,
   registerCommand,
   findCodebaseByRepoUrl,
   findCodebaseByDefaultCwd,
   deleteCodebase,
+  addCodebaseUsage,
+  getCodebaseUsage,
 } from './codebases';
 
 describe('codebases', () => {
@@ -111,6 +114,19 @@ describe('codebases', () => {
     });
   });
 
+  describe('listCodebases', () => {
+    test('returns all codebases, oldest first', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([mockCodebase]));
+
+      const result = await listCodebases();
+
+      expect(result).toEqual([mockCodebase]);
+      expect(mockQuery).toHaveBeenCalledWith(
+        'SELECT * FROM remote_agent_codebases ORDER BY created_at'
+      );
+    });
+  });
+
   describe('updateCodebaseCommands', () => {
     test('serializes commands to JSON', async () => {
       mockQuery.mockResolvedValueOnce(createQueryResult([], 1));
@@ -346,4 +362,46 @@ describe('codebases', () => {
       expect(mockQuery).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe('codebase usage', () => {
+    test('adds a query to the totals, counting an unknown cost as zero', async () => {
+      await addCodebaseUsage('codebase-123', {
+        inputTokens: 500,
+        outputTokens: 200,
+        cacheReadTokens: 1000,
+        cacheWriteTokens: 0,
+      });
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('cost_usd = cost_usd + $5'), [
+        500,
+        200,
+        1000,
+        0,
+        0,
+        'codebase-123',
+      ]);
+    });
+
+    test('reads the totals as numbers', async () => {
+      mockQuery.mockResolvedValueOnce(
+        createQueryResult([
+          {
+            input_tokens: '1200',
+            output_tokens: '340',
+            cache_read_tokens: '50000',
+            cache_write_tokens: '800',
+            cost_usd: '0.125000',
+          },
+        ])
+      );
+
+      expect(await getCodebaseUsage('codebase-123')).toEqual({
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheReadTokens: 50000,
+        cacheWriteTokens: 800,
+        costUsd: 0.125,
+      });
+    });
+  });
 });
@@ -2,7 +2,7 @@
  * Database operations for codebases
  */
 import { pool } from './connection';
-import { Codebase } from '../types';
+import { Codebase, TokenUsage } from '../types';
 
 export async function createCodebase(data: {
   name: string;
@@ -25,6 +25,13 @@ export async function getCodebase(id: string): Promise<Codebase | null> {
   return result.rows[0] || null;
 }
 
+export async function listCodebases(): Promise<Codebase[]> {
+  const result = await pool.query<Codebase>(
+    'SELECT * FROM remote_agent_codebases ORDER BY created_at'
+  );
+  return result.rows;
+}
+
 export async function updateCodebaseCommands(
   id: string,
   commands: Record<string, { path: string; description: string }>
@@ -104,3 +111,44 @@ export async function deleteCodebase(id: string): Promise<void> {
   // Then delete the codebase
   await pool.query('DELETE FROM remote_agent_codebases WHERE id = $1', [id]);
 }
+
+/**
+ * Add the token usage of an AI query to the codebase's totals
+ */
+export async function addCodebaseUsage(id: string, usage: TokenUsage): Promise<void> {
+  await pool.query(
+    `UPDATE remote_agent_codebases
+     SET input_tokens = input_tokens + $1, output_tokens = output_tokens + $2,
+         cache_read_tokens = cache_read_tokens + $3, cache_write_tokens = cache_write_tokens + $4,
+         cost_usd = cost_usd + $5
+     WHERE id = $6`,
+    [
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cacheReadTokens,
+      usage.cacheWriteTokens,
+      usage.costUsd ?? 0,
+      id,
+    ]
+  );
+}
+
+/**
+ * Token usage and cost of all AI queries of the codebase
+ */
+export async function getCodebaseUsage(id: string): Promise<TokenUsage | null> {
+  // BIGINT and NUMERIC columns arrive as strings
+  const result = await pool.query<Record<string, string>>(
+    'SELECT input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd FROM remote_agent_codebases WHERE id = $1',
+    [id]
+  );
+  const row = result.rows[0] as Record<string, string> | undefined;
+  if (!row) return null;
+  return {
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    cacheReadTokens: Number(row.cache_read_tokens),
+    cacheWriteTokens: Number(row.cache_write_tokens),
+    costUsd: Number(row.cost_usd),
+  };
+}
@@ -10,7 +10,7 @@ mock.module('./connection', () => ({
   },
 }));
 
-import { getOrCreateConversation, updateConversation } from './conversations';
+import { getConversationById, getOrCreateConversation, updateConversation } from './conversations';
 import { Conversation, ConversationNotFoundError } from '../types';
 
 describe('conversations', () => {
@@ -244,6 +244,27 @@ describe('conversations', () => {
     });
   });
 
+  describe('getConversationById', () => {
+    test('returns conversation by database id', async () => {
+      const conversation = { id: 'conv-123', platform_type: 'telegram' };
+      mockQuery.mockResolvedValueOnce(createQueryResult([conversation]));
+
+      const result = await getConversationById('conv-123');
+
+      expect(result).toEqual(conversation as Conversation);
+      expect(mockQuery).toHaveBeenCalledWith(
+        'SELECT * FROM remote_agent_conversations WHERE id = $1',
+        ['conv-123']
+      );
+    });
+
+    test('returns null when not found', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([]));
+
+      expect(await getConversationById('missing')).toBeNull();
+    });
+  });
+
   describe('updateConversation', () => {
     test('updates codebase_id only', async () => {
       mockQuery.mockResolvedValueOnce(createQueryResult([], 1));
@@ -2,7 +2,7 @@
  * Database operations for conversations
  */
 import { pool } from './connection';
-import { Conversation, ConversationNotFoundError } from '../types';
+import { Conversation, ConversationNotFoundError, TokenUsage } from '../types';
 
 /**
  * Get a conversation by platform type and platform ID
@@ -19,6 +19,18 @@ export async function getConversationByPlatformId(
   return result.rows[0] ?? null;
 }
 
+/**
+ * Get a conversation by its database ID
+ * Returns null if not found
+ */
+export async function getConversationById(id: string): Promise<Conversation | null> {
+  const result = await pool.query<Conversation>(
+    'SELECT * FROM remote_agent_conversations WHERE id = $1',
+    [id]
+  );
+  return result.rows[0] ?? null;
+}
+
 export async function getOrCreateConversation(
   platformType: string,
   platformId: string,
@@ -141,6 +153,18 @@ export async function getConversationsByIsolationEnvId(envId: string): Promise<C
   return result.rows;
 }
 
+/**
+ * Find the conversation that most recently worked on a codebase
+ * Used to report problems found outside a conversation (e.g. invalid workflow files)
+ */
+export async function getLastActiveConversation(codebaseId: string): Promise<Conversation | null> {
+  const result = await pool.query<Conversation>(
+    'SELECT * FROM remote_agent_conversations WHERE codebase_id = $1 ORDER BY COALESCE(last_activity_at, updated_at) DESC LIMIT 1',
+    [codebaseId]
+  );
+  return result.rows[0] ?? null;
+}
+
 /**
  * Update last_activity_at for staleness tracking
  */
@@ -149,3 +173,44 @@ export async function touchConversation(id: string): Promise<void> {
     id,
   ]);
 }
+
+/**
+ * Add the token usage of an AI query to the conversation's totals
+ */
+export async function addConversationUsage(id: string, usage: TokenUsage): Promise<void> {
+  await pool.query(
+    `UPDATE remote_agent_conversations
+     SET input_tokens = input_tokens + $1, output_tokens = output_tokens + $2,
+         cache_read_tokens = cache_read_tokens + $3, cache_write_tokens = cache_write_tokens + $4,
+         cost_usd = cost_usd + $5
+     WHERE id = $6`,
+    [
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cacheReadTokens,
+      usage.cacheWriteTokens,
+      usage.costUsd ?? 0,
+      id,
+    ]
+  );
+}
+
+/**
+ * Token usage and cost of all AI queries of the conversation
+ */
+export async function getConversationUsage(id: string): Promise<TokenUsage | null> {
+  // BIGINT and NUMERIC columns arrive as strings
+  const result = await pool.query<Record<string, string>>(
+    'SELECT input_tokens, output_tokens, cache_read_tokens, cache_write_tokens, cost_usd FROM remote_agent_conversations WHERE id = $1',
+    [id]
+  );
+  const row = result.rows[0] as Record<string, string> | undefined;
+  if (!row) return null;
+  return {
+    inputTokens: Number(row.input_tokens),
+    outputTokens: Number(row.output_tokens),
+    cacheReadTokens: Number(row.cache_read_tokens),
+    cacheWriteTokens: Number(row.cache_write_tokens),
+    costUsd: Number(row.cost_usd),
+  };
+}
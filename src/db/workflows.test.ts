@@ -15,10 +15,16 @@ import {
   createWorkflowRun,
   getWorkflowRun,
   getActiveWorkflowRun,
+  claimPausedWorkflowRun,
   updateWorkflowRun,
   completeWorkflowRun,
   failWorkflowRun,
+  failWorkflowRunTree,
   updateWorkflowActivity,
+  interruptRunningWorkflowRuns,
+  findWorkflowRunByIdPrefix,
+  listExpiredApprovalRuns,
+  listWorkflowRuns,
 } from './workflows';
 
 describe('workflows database', () => {
@@ -35,6 +41,7 @@ describe('workflows database', () => {
     status: 'running',
     user_message: 'Add dark mode support',
     metadata: {},
+    parent_run_id: null,
     started_at: new Date('2025-01-01T00:00:00Z'),
     completed_at: null,
     last_activity_at: new Date('2025-01-01T00:00:00Z'),
@@ -54,7 +61,7 @@ describe('workflows database', () => {
       expect(result).toEqual(mockWorkflowRun);
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO remote_agent_workflow_runs'),
-        ['feature-development', 'conv-456', 'codebase-789', 'Add dark mode support', '{}']
+        ['feature-development', 'conv-456', 'codebase-789', 'Add dark mode support', '{}', null]
       );
     });
 
@@ -82,6 +89,7 @@ describe('workflows database', () => {
           'codebase-789',
           'Add dark mode support',
           JSON.stringify({ github_context: 'Issue #42 context' }),
+          null,
         ]
       );
     });
@@ -99,9 +107,32 @@ describe('workflows database', () => {
       expect(result.codebase_id).toBeNull();
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('INSERT INTO remote_agent_workflow_runs'),
-        ['feature-development', 'conv-456', null, 'Add dark mode support', '{}']
+        ['feature-development', 'conv-456', null, 'Add dark mode support', '{}', null]
       );
     });
+
+    test('creates a sub-workflow run linked to its parent', async () => {
+      mockQuery.mockResolvedValueOnce(
+        createQueryResult([{ ...mockWorkflowRun, parent_run_id: 'parent-run-1' }])
+      );
+
+      const result = await createWorkflowRun({
+        workflow_name: 'resolve-conflicts',
+        conversation_id: 'conv-456',
+        user_message: 'Add dark mode support',
+        parent_run_id: 'parent-run-1',
+      });
+
+      expect(result.parent_run_id).toBe('parent-run-1');
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('parent_run_id'), [
+        'resolve-conflicts',
+        'conv-456',
+        null,
+        'Add dark mode support',
+        '{}',
+        'parent-run-1',
+      ]);
+    });
   });
 
   describe('getWorkflowRun', () => {
@@ -134,7 +165,9 @@ describe('workflows database', () => {
 
       expect(result).toEqual(mockWorkflowRun);
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining("WHERE conversation_id = $1 AND status = 'running'"),
+        expect.stringContaining(
+          "WHERE conversation_id = $1 AND (status = 'running' OR status = 'waiting_approval')"
+        ),
         ['conv-456']
       );
     });
@@ -148,6 +181,140 @@ describe('workflows database', () => {
     });
   });
 
+  describe('claimPausedWorkflowRun', () => {
+    test('marks the run running only while paused and nothing else is active', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([mockWorkflowRun]));
+
+      const result = await claimPausedWorkflowRun('workflow-run-123', 'interrupted');
+
+      expect(result).toEqual(mockWorkflowRun);
+      const [query, params] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(query).toContain("SET status = 'running', last_activity_at = NOW()");
+      expect(query).toContain('WHERE r.id = $1 AND r.status = $2');
+      expect(query).toContain("other.status IN ('running', 'waiting_approval')");
+      expect(query).toContain('RETURNING *');
+      expect(params).toEqual(['workflow-run-123', 'interrupted']);
+    });
+
+    test('only claims approved runs from an approval gate', async () => {
+      await claimPausedWorkflowRun('workflow-run-123', 'waiting_approval');
+
+      const [query] = mockQuery.mock.calls[0] as [string];
+      expect(query).toContain("r.metadata->'approval'->>'approved_at' IS NOT NULL");
+    });
+
+    test('returns null when the run was not claimed', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([]));
+
+      expect(await claimPausedWorkflowRun('workflow-run-123', 'interrupted')).toBeNull();
+    });
+  });
+
+  describe('interruptRunningWorkflowRuns', () => {
+    test('marks running workflow runs as interrupted and returns them', async () => {
+      const interrupted = { ...mockWorkflowRun, status: 'interrupted' as const };
+      mockQuery.mockResolvedValueOnce(createQueryResult([]));
+      mockQuery.mockResolvedValueOnce(createQueryResult([interrupted]));
+
+      const result = await interruptRunningWorkflowRuns();
+
+      expect(result).toEqual([interrupted]);
+      const [query] = mockQuery.mock.calls[1] as [string];
+      expect(query).toContain("SET status = 'interrupted'");
+      expect(query).toContain("WHERE status = 'running'");
+      expect(query).toContain('RETURNING *');
+    });
+
+    test('fails running sub-workflow runs instead of interrupting them', async () => {
+      await interruptRunningWorkflowRuns();
+
+      const [childQuery] = mockQuery.mock.calls[0] as [string];
+      expect(childQuery).toContain("SET status = 'failed'");
+      expect(childQuery).toContain('parent_run_id IS NOT NULL');
+      const [query] = mockQuery.mock.calls[1] as [string];
+      expect(query).toContain('parent_run_id IS NULL');
+    });
+
+    test('throws on database error', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(interruptRunningWorkflowRuns()).rejects.toThrow(
+        'Failed to interrupt running workflow runs: Connection refused'
+      );
+    });
+  });
+
+  describe('findWorkflowRunByIdPrefix', () => {
+    test('matches runs with the status in the conversation by id prefix', async () => {
+      const interrupted = { ...mockWorkflowRun, status: 'interrupted' as const };
+      mockQuery.mockResolvedValueOnce(createQueryResult([interrupted]));
+
+      const result = await findWorkflowRunByIdPrefix('conv-456', 'ABCD1234', 'interrupted');
+
+      expect(result).toEqual(interrupted);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('status = $2 AND id::text LIKE $3'),
+        ['conv-456', 'interrupted', 'abcd1234%']
+      );
+    });
+
+    test('matches runs with any status when no status is given', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([mockWorkflowRun]));
+
+      const result = await findWorkflowRunByIdPrefix('conv-456', 'abcd1234');
+
+      expect(result).toEqual(mockWorkflowRun);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('conversation_id = $1 AND id::text LIKE $2'),
+        ['conv-456', 'abcd1234%']
+      );
+    });
+
+    test('returns null when no run matches', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([]));
+
+      const result = await findWorkflowRunByIdPrefix('conv-456', 'abcd1234', 'waiting_approval');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('listWorkflowRuns', () => {
+    test('lists the most recent runs of a conversation', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([mockWorkflowRun]));
+
+      const result = await listWorkflowRuns('conv-456', 10);
+
+      expect(result).toEqual([mockWorkflowRun]);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY started_at DESC LIMIT $2'),
+        ['conv-456', 10]
+      );
+    });
+  });
+
+  describe('listExpiredApprovalRuns', () => {
+    test('selects waiting runs whose approval has expired', async () => {
+      const waiting = { ...mockWorkflowRun, status: 'waiting_approval' as const };
+      mockQuery.mockResolvedValueOnce(createQueryResult([waiting]));
+
+      const result = await listExpiredApprovalRuns();
+
+      expect(result).toEqual([waiting]);
+      const [query] = mockQuery.mock.calls[0] as [string];
+      expect(query).toContain("status = 'waiting_approval'");
+      expect(query).toContain("(metadata->'approval'->>'expires_at')::timestamptz <= NOW()");
+    });
+
+    test('throws on database error', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(listExpiredApprovalRuns()).rejects.toThrow(
+        'Failed to list expired approval runs: Connection refused'
+      );
+    });
+  });
+
   describe('updateWorkflowRun', () => {
     test('updates current_step_index', async () => {
       mockQuery.mockResolvedValueOnce(createQueryResult([]));
@@ -251,6 +418,17 @@ describe('workflows database', () => {
       const [, params] = mockQuery.mock.calls[0] as [string, unknown[]];
       expect(params).toContain(JSON.stringify({ error: 'Timeout exceeded' }));
     });
+
+    test('stores failure reason in metadata when provided', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([]));
+
+      await failWorkflowRun('workflow-run-123', 'Step exceeded its timeout', 'timeout');
+
+      const [, params] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(params).toContain(
+        JSON.stringify({ error: 'Step exceeded its timeout', failure_reason: 'timeout' })
+      );
+    });
   });
 
   describe('error handling', () => {
@@ -307,6 +485,28 @@ describe('workflows database', () => {
     });
   });
 
+  describe('failWorkflowRunTree', () => {
+    test('fails the run with its unfinished parent and child runs', async () => {
+      mockQuery.mockResolvedValueOnce(createQueryResult([{ id: 'child-1' }, { id: 'parent-1' }]));
+
+      const result = await failWorkflowRunTree('child-1', 'Cancelled by user');
+
+      expect(result).toEqual(['child-1', 'parent-1']);
+      const [query, params] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(query).toContain('WITH RECURSIVE');
+      expect(query).toContain("SET status = 'failed'");
+      expect(params).toEqual(['child-1', JSON.stringify({ error: 'Cancelled by user' })]);
+    });
+
+    test('throws on database error', async () => {
+      mockQuery.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(failWorkflowRunTree('child-1', 'Cancelled by user')).rejects.toThrow(
+        'Failed to fail workflow run tree: Connection refused'
+      );
+    });
+  });
+
   describe('updateWorkflowActivity', () => {
     test('updates last_activity_at timestamp', async () => {
       mockQuery.mockResolvedValueOnce(createQueryResult([]));
@@ -2,7 +2,7 @@
  * Database operations for workflow runs
  */
 import { pool } from './connection';
-import type { WorkflowRun } from '../workflows/types';
+import type { WorkflowFailureReason, WorkflowRun } from '../workflows/types';
 
 export async function createWorkflowRun(data: {
   workflow_name: string;
@@ -10,6 +10,7 @@ export async function createWorkflowRun(data: {
   codebase_id?: string;
   user_message: string;
   metadata?: Record<string, unknown>;
+  parent_run_id?: string;
 }): Promise<WorkflowRun> {
   // Serialize metadata with validation to catch circular references early
   let metadataJson: string;
@@ -28,8 +29,8 @@ export async function createWorkflowRun(data: {
   try {
     const result = await pool.query<WorkflowRun>(
       `INSERT INTO remote_agent_workflow_runs
-       (workflow_name, conversation_id, codebase_id, user_message, metadata)
-       VALUES ($1, $2, $3, $4, $5)
+       (workflow_name, conversation_id, codebase_id, user_message, metadata, parent_run_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
        RETURNING *`,
       [
         data.workflow_name,
@@ -37,6 +38,7 @@ export async function createWorkflowRun(data: {
         data.codebase_id ?? null,
         data.user_message,
         metadataJson,
+        data.parent_run_id ?? null,
       ]
     );
     return result.rows[0];
@@ -61,11 +63,15 @@ export async function getWorkflowRun(id: string): Promise<WorkflowRun | null> {
   }
 }
 
+/**
+ * Get the conversation's active run: running, or paused at an approval step (it continues
+ * after /approve, so no other run may start meanwhile)
+ */
 export async function getActiveWorkflowRun(conversationId: string): Promise<WorkflowRun | null> {
   try {
     const result = await pool.query<WorkflowRun>(
       `SELECT * FROM remote_agent_workflow_runs
-       WHERE conversation_id = $1 AND status = 'running'
+       WHERE conversation_id = $1 AND (status = 'running' OR status = 'waiting_approval')
        ORDER BY started_at DESC LIMIT 1`,
       [conversationId]
     );
@@ -77,6 +83,143 @@ export async function getActiveWorkflowRun(conversationId: string): Promise<Work
   }
 }
 
+/**
+ * Mark a paused run as running again, in one conditional update so that two resume paths
+ * (startup recovery and /workflow resume or /approve) can never both continue it.
+ * The run is only claimed while it still has the given status - a 'waiting_approval' run
+ * only once it was approved - and no other run of its conversation is active.
+ * @returns The claimed run, or null when it was not claimed
+ */
+export async function claimPausedWorkflowRun(
+  id: string,
+  status: 'interrupted' | 'waiting_approval'
+): Promise<WorkflowRun | null> {
+  try {
+    const result = await pool.query<WorkflowRun>(
+      `UPDATE remote_agent_workflow_runs r
+       SET status = 'running', last_activity_at = NOW()
+       WHERE r.id = $1 AND r.status = $2
+         AND (r.status <> 'waiting_approval'
+           OR r.metadata->'approval'->>'approved_at' IS NOT NULL)
+         AND NOT EXISTS (
+           SELECT 1 FROM remote_agent_workflow_runs other
+           WHERE other.conversation_id = r.conversation_id AND other.id <> r.id
+             AND other.status IN ('running', 'waiting_approval')
+         )
+       RETURNING *`,
+      [id, status]
+    );
+    return result.rows[0] || null;
+  } catch (error) {
+    const err = error as Error;
+    console.error('[DB:Workflows] Failed to claim workflow run:', err.message);
+    throw new Error(`Failed to claim workflow run: ${err.message}`);
+  }
+}
+
+/**
+ * Mark every 'running' workflow run as 'interrupted' and return them.
+ * Called once at startup: no run can still be executing after a process restart.
+ *
+ * Running sub-workflow runs are failed instead and not returned - resuming the parent
+ * runs its sub-workflow step again as a new child run.
+ */
+export async function interruptRunningWorkflowRuns(): Promise<WorkflowRun[]> {
+  try {
+    await pool.query(
+      `UPDATE remote_agent_workflow_runs
+       SET status = 'failed', completed_at = NOW(), metadata = metadata || $1::jsonb
+       WHERE status = 'running' AND parent_run_id IS NOT NULL`,
+      [JSON.stringify({ error: 'Interrupted by a server restart' })]
+    );
+    const result = await pool.query<WorkflowRun>(
+      `UPDATE remote_agent_workflow_runs
+       SET status = 'interrupted'
+       WHERE status = 'running' AND parent_run_id IS NULL
+       RETURNING *`
+    );
+    return result.rows;
+  } catch (error) {
+    const err = error as Error;
+    console.error('[DB:Workflows] Failed to interrupt running workflow runs:', err.message);
+    throw new Error(`Failed to interrupt running workflow runs: ${err.message}`);
+  }
+}
+
+/**
+ * Find a workflow run in a conversation by full or abbreviated ID (users see the first
+ * 8 characters), optionally only with the given status. Returns the most recent match.
+ */
+export async function findWorkflowRunByIdPrefix(
+  conversationId: string,
+  idPrefix: string,
+  status?: WorkflowRun['status']
+): Promise<WorkflowRun | null> {
+  const pattern = `${idPrefix.toLowerCase()}%`;
+  try {
+    const result = status
+      ? await pool.query<WorkflowRun>(
+          `SELECT * FROM remote_agent_workflow_runs
+           WHERE conversation_id = $1 AND status = $2 AND id::text LIKE $3
+           ORDER BY started_at DESC LIMIT 1`,
+          [conversationId, status, pattern]
+        )
+      : await pool.query<WorkflowRun>(
+          `SELECT * FROM remote_agent_workflow_runs
+           WHERE conversation_id = $1 AND id::text LIKE $2
+           ORDER BY started_at DESC LIMIT 1`,
+          [conversationId, pattern]
+        );
+    return result.rows[0] || null;
+  } catch (error) {
+    const err = error as Error;
+    console.error('[DB:Workflows] Failed to find workflow run:', err.message);
+    throw new Error(`Failed to find workflow run: ${err.message}`);
+  }
+}
+
+/**
+ * List a conversation's most recent workflow runs (including sub-workflow runs), newest first
+ */
+export async function listWorkflowRuns(
+  conversationId: string,
+  limit: number
+): Promise<WorkflowRun[]> {
+  try {
+    const result = await pool.query<WorkflowRun>(
+      `SELECT * FROM remote_agent_workflow_runs
+       WHERE conversation_id = $1
+       ORDER BY started_at DESC LIMIT $2`,
+      [conversationId, limit]
+    );
+    return result.rows;
+  } catch (error) {
+    const err = error as Error;
+    console.error('[DB:Workflows] Failed to list workflow runs:', err.message);
+    throw new Error(`Failed to list workflow runs: ${err.message}`);
+  }
+}
+
+/**
+ * List runs waiting for approval whose approval window (metadata.approval.expires_at)
+ * has passed. Runs without a timeout never expire.
+ */
+export async function listExpiredApprovalRuns(): Promise<WorkflowRun[]> {
+  try {
+    const result = await pool.query<WorkflowRun>(
+      `SELECT * FROM remote_agent_workflow_runs
+       WHERE status = 'waiting_approval'
+         AND (metadata->'approval'->>'expires_at')::timestamptz <= NOW()
+       ORDER BY started_at ASC`
+    );
+    return result.rows;
+  } catch (error) {
+    const err = error as Error;
+    console.error('[DB:Workflows] Failed to list expired approval runs:', err.message);
+    throw new Error(`Failed to list expired approval runs: ${err.message}`);
+  }
+}
+
 /**
  * Partially update a workflow run.
  * - Dynamically builds SQL from provided fields
@@ -142,13 +285,21 @@ export async function completeWorkflowRun(id: string): Promise<void> {
   }
 }
 
-export async function failWorkflowRun(id: string, error: string): Promise<void> {
+/**
+ * Mark a workflow run as failed. The error (and optional machine-readable reason,
+ * e.g. 'timeout') is merged into the run metadata.
+ */
+export async function failWorkflowRun(
+  id: string,
+  error: string,
+  reason?: WorkflowFailureReason
+): Promise<void> {
   try {
     await pool.query(
       `UPDATE remote_agent_workflow_runs
        SET status = 'failed', completed_at = NOW(), metadata = metadata || $2::jsonb
        WHERE id = $1`,
-      [id, JSON.stringify({ error })]
+      [id, JSON.stringify(reason ? { error, failure_reason: reason } : { error })]
     );
   } catch (dbError) {
     const err = dbError as Error;
@@ -157,6 +308,39 @@ export async function failWorkflowRun(id: string, error: string): Promise<void>
   }
 }
 
+/**
+ * Fail a run together with every unfinished run in its sub-workflow tree (its parent
+ * chain and their children), so cancelling a parent or a child stops both.
+ * Returns the ids of the runs that were failed.
+ */
+export async function failWorkflowRunTree(id: string, error: string): Promise<string[]> {
+  try {
+    const result = await pool.query<{ id: string }>(
+      `WITH RECURSIVE ancestors AS (
+         SELECT id, parent_run_id FROM remote_agent_workflow_runs WHERE id = $1
+         UNION ALL
+         SELECT r.id, r.parent_run_id FROM remote_agent_workflow_runs r
+         JOIN ancestors a ON r.id = a.parent_run_id
+       ), tree AS (
+         SELECT id FROM ancestors WHERE parent_run_id IS NULL
+         UNION ALL
+         SELECT r.id FROM remote_agent_workflow_runs r JOIN tree t ON r.parent_run_id = t.id
+       )
+       UPDATE remote_agent_workflow_runs
+       SET status = 'failed', completed_at = NOW(), metadata = metadata || $2::jsonb
+       WHERE id IN (SELECT id FROM tree)
+         AND (id = $1 OR status IN ('running', 'interrupted', 'waiting_approval'))
+       RETURNING id`,
+      [id, JSON.stringify({ error })]
+    );
+    return result.rows.map(row => row.id);
+  } catch (dbError) {
+    const err = dbError as Error;
+    console.error('[DB:Workflows] Failed to fail workflow run tree:', err.message);
+    throw new Error(`Failed to fail workflow run tree: ${err.message}`);
+  }
+}
+
 /**
  * Update last_activity_at timestamp for a workflow run.
  * Used for activity-based staleness detection.
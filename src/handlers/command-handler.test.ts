@@ -9,11 +9,15 @@
  * without replacing the entire module in the global cache.
  */
 import { describe, test, expect, mock, beforeEach, afterAll, spyOn, type Mock } from 'bun:test';
-import { Conversation } from '../types';
+import { Conversation, TokenUsage } from '../types';
 import { resolve, join } from 'path';
 import * as fsPromises from 'fs/promises';
 import * as gitUtils from '../utils/git';
 import * as pathValidation from '../utils/path-validation';
+import * as configLoader from '../config/config-loader';
+import * as workflowLoader from '../workflows/loader';
+import * as workflowLogger from '../workflows/logger';
+import type { WorkflowDefinition } from '../workflows/types';
 
 // Create mock functions for database modules (safe to mock - no standalone tests)
 const mockUpdateConversation = mock(() => Promise.resolve());
@@ -23,12 +27,18 @@ const mockCreateCodebase = mock(() => Promise.resolve(null));
 const mockGetCodebaseCommands = mock(() => Promise.resolve({}));
 const mockUpdateCodebaseCommands = mock(() => Promise.resolve());
 const mockDeleteCodebase = mock(() => Promise.resolve());
+const mockGetConversationUsage = mock(() => Promise.resolve(null as TokenUsage | null));
+const mockGetCodebaseUsage = mock(() => Promise.resolve(null as TokenUsage | null));
 const mockGetActiveSession = mock(() => Promise.resolve(null));
 const mockDeactivateSession = mock(() => Promise.resolve());
 
 // Workflow database mocks
 const mockGetActiveWorkflowRun = mock(() => Promise.resolve(null));
 const mockFailWorkflowRun = mock(() => Promise.resolve());
+const mockFailWorkflowRunTree = mock(() => Promise.resolve(['wf-123']));
+const mockFindWorkflowRunByIdPrefix = mock(() => Promise.resolve(null));
+const mockUpdateWorkflowRun = mock(() => Promise.resolve());
+const mockListWorkflowRuns = mock(() => Promise.resolve([]));
 
 // Spies for internal modules (use spyOn instead of mock.module to avoid global pollution)
 let spyIsPathWithinWorkspace: ReturnType<typeof spyOn>;
@@ -51,6 +61,7 @@ let spyFsRm: ReturnType<typeof spyOn>;
 // Mock database modules (safe - these don't have standalone tests that would be affected)
 mock.module('../db/conversations', () => ({
   updateConversation: mockUpdateConversation,
+  getConversationUsage: mockGetConversationUsage,
 }));
 
 mock.module('../db/codebases', () => ({
@@ -60,6 +71,7 @@ mock.module('../db/codebases', () => ({
   getCodebaseCommands: mockGetCodebaseCommands,
   updateCodebaseCommands: mockUpdateCodebaseCommands,
   deleteCodebase: mockDeleteCodebase,
+  getCodebaseUsage: mockGetCodebaseUsage,
 }));
 
 mock.module('../db/sessions', () => ({
@@ -70,6 +82,10 @@ mock.module('../db/sessions', () => ({
 mock.module('../db/workflows', () => ({
   getActiveWorkflowRun: mockGetActiveWorkflowRun,
   failWorkflowRun: mockFailWorkflowRun,
+  failWorkflowRunTree: mockFailWorkflowRunTree,
+  findWorkflowRunByIdPrefix: mockFindWorkflowRunByIdPrefix,
+  updateWorkflowRun: mockUpdateWorkflowRun,
+  listWorkflowRuns: mockListWorkflowRuns,
 }));
 
 // Mock isolation-environments database
@@ -144,11 +160,17 @@ function clearAllMocks(): void {
   mockGetCodebaseCommands.mockClear();
   mockUpdateCodebaseCommands.mockClear();
   mockDeleteCodebase.mockClear();
+  mockGetConversationUsage.mockClear();
+  mockGetCodebaseUsage.mockClear();
   mockGetActiveSession.mockClear();
   mockDeactivateSession.mockClear();
   // Workflow db mocks
   mockGetActiveWorkflowRun.mockClear();
   mockFailWorkflowRun.mockClear();
+  mockFailWorkflowRunTree.mockClear();
+  mockFindWorkflowRunByIdPrefix.mockClear();
+  mockUpdateWorkflowRun.mockClear();
+  mockListWorkflowRuns.mockClear();
   // Isolation mocks
   mockIsolationCreate.mockClear();
   mockIsolationDestroy.mockClear();
@@ -466,6 +488,42 @@ describe('CommandHandler', () => {
         expect(result.message).toContain('my-repo');
       });
 
+      test('should show conversation and codebase usage', async () => {
+        const conversation = { ...baseConversation, codebase_id: 'cb-123' };
+        mockGetCodebase.mockResolvedValue({
+          id: 'cb-123',
+          name: 'my-repo',
+          repository_url: null,
+          default_cwd: '/workspace/my-repo',
+          ai_assistant_type: 'claude',
+          commands: {},
+          created_at: new Date(),
+          updated_at: new Date(),
+        });
+        mockGetActiveSession.mockResolvedValue(null);
+        mockGetConversationUsage.mockResolvedValueOnce({
+          inputTokens: 1200,
+          outputTokens: 340,
+          cacheReadTokens: 50_000,
+          cacheWriteTokens: 800,
+          costUsd: 0.5,
+        });
+        mockGetCodebaseUsage.mockResolvedValueOnce({
+          inputTokens: 2_500_000,
+          outputTokens: 90_000,
+          cacheReadTokens: 0,
+          cacheWriteTokens: 0,
+          costUsd: 12.25,
+        });
+
+        const result = await handleCommand(conversation, '/status');
+
+        expect(result.message).toContain(
+          'Usage:\n  • Conversation: $0.50 (2.0k in, 340 out, 50.0k cached)\n  • my-repo: $12.25 (2.5M in, 90.0k out)'
+        );
+        expect(mockGetCodebaseUsage).toHaveBeenCalledWith('cb-123');
+      });
+
       test('should auto-detect and link codebase from cwd', async () => {
         const conversation = {
           ...baseConversation,
@@ -1703,6 +1761,7 @@ describe('CommandHandler', () => {
           workflow_name: 'test-workflow',
           conversation_id: 'conv-123',
           status: 'running',
+          parent_run_id: null,
           started_at: new Date(),
           completed_at: null,
           current_step_index: 0,
@@ -1716,7 +1775,58 @@ describe('CommandHandler', () => {
         expect(result.success).toBe(true);
         expect(result.message).toContain('Cancelled workflow');
         expect(result.message).toContain('test-workflow');
-        expect(mockFailWorkflowRun).toHaveBeenCalledWith('wf-123', 'Cancelled by user');
+        expect(mockFailWorkflowRunTree).toHaveBeenCalledWith('wf-123', 'Cancelled by user');
+        expect(result.message).not.toContain('related');
+      });
+
+      test('should leave stopping a run waiting for approval to the orchestrator', async () => {
+        mockGetActiveWorkflowRun.mockResolvedValueOnce({
+          id: 'wf-123',
+          workflow_name: 'test-workflow',
+          conversation_id: 'conv-123',
+          status: 'waiting_approval',
+          parent_run_id: null,
+          started_at: new Date(),
+          completed_at: null,
+          current_step_index: 1,
+          user_message: 'test',
+          metadata: {},
+          last_activity_at: new Date(),
+        });
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow cancel');
+
+        expect(result.success).toBe(true);
+        expect(result.message).toContain('Cancelled workflow');
+        expect(result.stopWorkflowRun).toEqual({
+          id: 'wf-123',
+          error: 'Cancelled by user',
+          reason: 'cancelled',
+        });
+        expect(mockFailWorkflowRunTree).not.toHaveBeenCalled();
+      });
+
+      test('should report sub-workflow runs cancelled with the active run', async () => {
+        mockGetActiveWorkflowRun.mockResolvedValueOnce({
+          id: 'wf-child',
+          workflow_name: 'resolve-conflicts',
+          conversation_id: 'conv-123',
+          status: 'running',
+          parent_run_id: 'wf-parent',
+          started_at: new Date(),
+          completed_at: null,
+          current_step_index: 0,
+          user_message: 'test',
+          metadata: {},
+          last_activity_at: new Date(),
+        });
+        mockFailWorkflowRunTree.mockResolvedValueOnce(['wf-child', 'wf-parent']);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow cancel');
+
+        expect(result.message).toBe(
+          'Cancelled workflow: `resolve-conflicts` (and 1 related sub-workflow run(s))'
+        );
       });
 
       test('should return message when no active workflow exists', async () => {
@@ -1726,7 +1836,7 @@ describe('CommandHandler', () => {
 
         expect(result.success).toBe(true);
         expect(result.message).toBe('No active workflow to cancel.');
-        expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+        expect(mockFailWorkflowRunTree).not.toHaveBeenCalled();
       });
 
       test('should fail when no codebase is configured', async () => {
@@ -1736,5 +1846,470 @@ describe('CommandHandler', () => {
         expect(result.message).toContain('No codebase configured');
       });
     });
+
+    describe('/workflow resume and abandon', () => {
+      const conversationWithCodebase: Conversation = {
+        ...baseConversation,
+        codebase_id: 'codebase-123',
+      };
+
+      const interruptedRun = {
+        id: 'abcd1234-5678-90ab-cdef-1234567890ab',
+        workflow_name: 'test-workflow',
+        conversation_id: 'conv-123',
+        codebase_id: 'codebase-123',
+        status: 'interrupted' as const,
+        parent_run_id: null,
+        started_at: new Date(),
+        completed_at: null,
+        current_step_index: 2,
+        user_message: 'test',
+        metadata: {},
+        last_activity_at: new Date(),
+      };
+
+      beforeEach(() => {
+        mockGetCodebase.mockResolvedValue({
+          id: 'codebase-123',
+          repository_url: 'https://github.com/test/repo',
+          default_cwd: '/workspace/test-repo',
+          commands: {},
+          created_at: new Date(),
+          updated_at: new Date(),
+        });
+      });
+
+      test('should return resume request for interrupted workflow', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(interruptedRun);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow resume abcd1234');
+
+        expect(result.success).toBe(true);
+        expect(result.resumeWorkflowRunId).toBe(interruptedRun.id);
+        expect(mockFindWorkflowRunByIdPrefix).toHaveBeenCalledWith(
+          'conv-123',
+          'abcd1234',
+          'interrupted'
+        );
+      });
+
+      test('should abandon interrupted workflow', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(interruptedRun);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow abandon abcd1234');
+
+        expect(result.success).toBe(true);
+        expect(result.message).toContain('Abandoned workflow');
+        expect(result.resumeWorkflowRunId).toBeUndefined();
+        // Failed by the orchestrator, which also runs the on_failure/finally steps
+        expect(result.stopWorkflowRun).toEqual({
+          id: interruptedRun.id,
+          error: 'Abandoned by user',
+        });
+        expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+      });
+
+      test('should fail when no interrupted workflow matches', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(null);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow resume deadbeef');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('No interrupted workflow found');
+      });
+
+      test('should reject malformed workflow ID', async () => {
+        const result = await handleCommand(conversationWithCodebase, '/workflow resume ../etc');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('Invalid workflow ID');
+        expect(mockFindWorkflowRunByIdPrefix).not.toHaveBeenCalled();
+      });
+
+      test('should require workflow ID', async () => {
+        const result = await handleCommand(conversationWithCodebase, '/workflow abandon');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('Usage: /workflow abandon <id>');
+      });
+    });
+
+    describe('/workflow run, show and validate', () => {
+      const conversationWithCodebase: Conversation = {
+        ...baseConversation,
+        codebase_id: 'codebase-123',
+      };
+
+      const workflow: WorkflowDefinition = {
+        name: 'fix-github-issue',
+        description: 'Fix an issue',
+        provider: 'claude',
+        model: 'sonnet',
+        steps: [
+          { command: 'investigate', clearContext: false },
+          { command: 'implement', clearContext: false, model: 'claude/opus' },
+        ],
+      };
+
+      let spyDiscoverWorkflows: ReturnType<typeof spyOn>;
+      let spyValidateWorkflowFiles: ReturnType<typeof spyOn>;
+      let spyLoadConfig: ReturnType<typeof spyOn>;
+
+      beforeEach(() => {
+        mockGetCodebase.mockResolvedValue({
+          id: 'codebase-123',
+          repository_url: 'https://github.com/test/repo',
+          default_cwd: '/workspace/test-repo',
+          commands: {},
+          created_at: new Date(),
+          updated_at: new Date(),
+        });
+        spyDiscoverWorkflows = spyOn(workflowLoader, 'discoverWorkflows').mockResolvedValue([
+          workflow,
+        ]);
+        spyValidateWorkflowFiles = spyOn(workflowLoader, 'validateWorkflowFiles');
+        spyLoadConfig = spyOn(configLoader, 'loadConfig').mockResolvedValue({
+          models: {},
+          commands: {},
+        } as unknown as Awaited<ReturnType<typeof configLoader.loadConfig>>);
+      });
+
+      afterAll(() => {
+        spyDiscoverWorkflows.mockRestore();
+        spyValidateWorkflowFiles.mockRestore();
+        spyLoadConfig.mockRestore();
+      });
+
+      test('should return a run request with inputs and message', async () => {
+        const result = await handleCommand(
+          conversationWithCodebase,
+          '/workflow run fix-github-issue issue=42 target="release branch" the login bug'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.runWorkflow).toEqual({
+          name: 'fix-github-issue',
+          userMessage: 'the login bug',
+          inputs: { issue: '42', target: 'release branch' },
+        });
+      });
+
+      test('should reject unknown workflow for run and show', async () => {
+        const run = await handleCommand(conversationWithCodebase, '/workflow run missing');
+        const show = await handleCommand(conversationWithCodebase, '/workflow show missing');
+
+        expect(run.success).toBe(false);
+        expect(run.runWorkflow).toBeUndefined();
+        expect(run.message).toContain('Workflow `missing` not found');
+        expect(show.success).toBe(false);
+      });
+
+      test('should show resolved models and flag missing command files', async () => {
+        const result = await handleCommand(
+          conversationWithCodebase,
+          '/workflow show fix-github-issue'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.message).toContain('1. `investigate` - claude/sonnet');
+        expect(result.message).toContain('2. `implement` - claude/opus');
+        expect(result.message).toContain(
+          '⚠️ **Missing command files**: `investigate.md`, `implement.md`'
+        );
+      });
+
+      test('should report validation errors with file and line', async () => {
+        spyValidateWorkflowFiles.mockResolvedValueOnce([
+          { file: '.archon/workflows/good.yaml', name: 'good', errors: [] },
+          {
+            file: '.archon/workflows/bad.yaml',
+            errors: [
+              { message: 'Step 2: invalid command name "../x"', line: 7 },
+              { message: "Missing 'description'" },
+            ],
+          },
+        ]);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow validate');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe(
+          'Checked 2 workflow file(s): 1 valid, 1 invalid.\n\n' +
+            '❌ **.archon/workflows/bad.yaml**\n' +
+            '  - line 7: Step 2: invalid command name "../x"\n' +
+            "  - Missing 'description'"
+        );
+      });
+    });
+
+    describe('/workflow history, status and logs', () => {
+      const conversationWithCodebase: Conversation = {
+        ...baseConversation,
+        codebase_id: 'codebase-123',
+      };
+
+      const failedRun = {
+        id: 'abcd1234-5678-90ab-cdef-1234567890ab',
+        workflow_name: 'fix-github-issue',
+        conversation_id: 'conv-123',
+        codebase_id: 'codebase-123',
+        status: 'failed' as const,
+        parent_run_id: null,
+        started_at: new Date('2026-01-01T10:00:00Z'),
+        completed_at: new Date('2026-01-01T10:02:00Z'),
+        current_step_index: 1,
+        user_message: 'Fix #42',
+        metadata: { error: 'Step implement failed', cwd: '/workspace/worktrees/issue-42' },
+        last_activity_at: new Date('2026-01-01T10:02:00Z'),
+      };
+
+      const events = [
+        {
+          type: 'step_start' as const,
+          workflow_id: failedRun.id,
+          step: 'implement',
+          step_index: 0,
+          ts: '2026-01-01T10:00:05.000Z',
+        },
+        {
+          type: 'tool' as const,
+          workflow_id: failedRun.id,
+          step: 'implement',
+          tool_name: 'Read',
+          tool_input: { file_path: 'src/a.ts' },
+          ts: '2026-01-01T10:00:10.000Z',
+        },
+        {
+          type: 'step_error' as const,
+          workflow_id: failedRun.id,
+          step: 'implement',
+          step_index: 0,
+          error: 'Rate limited',
+          attempt: 1,
+          max_attempts: 1,
+          ts: '2026-01-01T10:01:05.000Z',
+        },
+      ];
+
+      let spyReadWorkflowEvents: ReturnType<typeof spyOn>;
+
+      beforeEach(() => {
+        mockGetCodebase.mockResolvedValue({
+          id: 'codebase-123',
+          repository_url: 'https://github.com/test/repo',
+          default_cwd: '/workspace/test-repo',
+          commands: {},
+          created_at: new Date(),
+          updated_at: new Date(),
+        });
+        spyReadWorkflowEvents = spyOn(workflowLogger, 'readWorkflowEvents').mockResolvedValue(
+          events
+        );
+      });
+
+      afterAll(() => {
+        spyReadWorkflowEvents.mockRestore();
+      });
+
+      test('should list recent runs', async () => {
+        mockListWorkflowRuns.mockResolvedValueOnce([failedRun]);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow history 5');
+
+        expect(result.success).toBe(true);
+        expect(mockListWorkflowRuns).toHaveBeenCalledWith('conv-123', 5);
+        expect(result.message).toContain(
+          '❌ `abcd1234` **fix-github-issue** - failed after 2m 0s: Step implement failed'
+        );
+      });
+
+      test('should reject an invalid history length', async () => {
+        const result = await handleCommand(conversationWithCodebase, '/workflow history 500');
+
+        expect(result.success).toBe(false);
+        expect(mockListWorkflowRuns).not.toHaveBeenCalled();
+      });
+
+      test('should show run status from the log in the recorded directory', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(failedRun);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow status abcd1234');
+
+        expect(result.success).toBe(true);
+        expect(mockFindWorkflowRunByIdPrefix).toHaveBeenCalledWith('conv-123', 'abcd1234');
+        expect(spyReadWorkflowEvents).toHaveBeenCalledWith(
+          '/workspace/worktrees/issue-42',
+          failedRun.id
+        );
+        expect(result.message).toContain(
+          '❌ `implement` - 1m 0s · 1 tool call(s)\n   Rate limited'
+        );
+      });
+
+      test('should show the tail of a step log', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(failedRun);
+
+        const result = await handleCommand(
+          conversationWithCodebase,
+          '/workflow logs abcd1234 --step implement --tail 2'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.message).toBe(
+          '**fix-github-issue** (`abcd1234`) - step `implement`, last 2 log entries:\n\n' +
+            '10:00:10 [implement] 🔧 READ Reading: src/a.ts\n' +
+            '10:01:05 ❌ `implement` attempt 1/1: Rate limited'
+        );
+      });
+
+      test('should reject unknown log options', async () => {
+        const result = await handleCommand(
+          conversationWithCodebase,
+          '/workflow logs abcd1234 --follow'
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('Usage: /workflow logs <id>');
+        expect(mockFindWorkflowRunByIdPrefix).not.toHaveBeenCalled();
+      });
+
+      test('should report unknown run', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(null);
+
+        const result = await handleCommand(conversationWithCodebase, '/workflow status deadbeef');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('No workflow run found with ID `deadbeef`.');
+      });
+    });
+
+    describe('/approve and /reject', () => {
+      const waitingRun = {
+        id: 'abcd1234-5678-90ab-cdef-1234567890ab',
+        workflow_name: 'feature-development',
+        conversation_id: 'conv-123',
+        codebase_id: 'codebase-123',
+        status: 'waiting_approval' as const,
+        parent_run_id: null,
+        started_at: new Date(),
+        completed_at: null,
+        current_step_index: 1,
+        user_message: 'test',
+        metadata: {
+          approval: {
+            message: 'Approve the plan?',
+            approvers: ['alice'],
+            requested_at: new Date().toISOString(),
+            expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          },
+        },
+        last_activity_at: new Date(),
+      };
+
+      test('should record the approver and return a resume request', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(waitingRun);
+
+        const result = await handleCommand(baseConversation, '/approve abcd1234', 'alice');
+
+        expect(result.success).toBe(true);
+        expect(result.resumeWorkflowRunId).toBe(waitingRun.id);
+        expect(mockFindWorkflowRunByIdPrefix).toHaveBeenCalledWith(
+          'conv-123',
+          'abcd1234',
+          'waiting_approval'
+        );
+        expect(mockUpdateWorkflowRun).toHaveBeenCalledWith(waitingRun.id, {
+          metadata: {
+            approval: expect.objectContaining({
+              message: 'Approve the plan?',
+              approved_by: 'alice',
+            }),
+          },
+        });
+      });
+
+      test('should fail the run with the rejection reason', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce(waitingRun);
+
+        const result = await handleCommand(
+          baseConversation,
+          '/reject abcd1234 wrong approach',
+          'alice'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.message).toContain('Rejected workflow');
+        expect(result.message).toContain('wrong approach');
+        expect(result.resumeWorkflowRunId).toBeUndefined();
+        expect(result.stopWorkflowRun).toEqual({
+          id: waitingRun.id,
+          error: 'Rejected: wrong approach',
+          reason: 'rejected',
+        });
+        expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+      });
+
+      test('should refuse users who are not approvers', async () => {
+        mockFindWorkflowRunByIdPrefix
+          .mockResolvedValueOnce(waitingRun)
+          .mockResolvedValueOnce(waitingRun);
+
+        const fromBob = await handleCommand(baseConversation, '/approve abcd1234', 'bob');
+        const unknownUser = await handleCommand(baseConversation, '/reject abcd1234 no');
+
+        expect(fromBob.success).toBe(false);
+        expect(fromBob.message).toContain('not authorized');
+        expect(unknownUser.success).toBe(false);
+        expect(mockUpdateWorkflowRun).not.toHaveBeenCalled();
+        expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+      });
+
+      test('should allow anyone when no approvers are listed', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce({
+          ...waitingRun,
+          metadata: { approval: { message: 'ok?', approvers: [], expires_at: null } },
+        });
+
+        const result = await handleCommand(baseConversation, '/approve abcd1234');
+
+        expect(result.success).toBe(true);
+        expect(result.resumeWorkflowRunId).toBe(waitingRun.id);
+      });
+
+      test('should stop the run when the approval has expired', async () => {
+        mockFindWorkflowRunByIdPrefix.mockResolvedValueOnce({
+          ...waitingRun,
+          metadata: {
+            approval: { ...waitingRun.metadata.approval, expires_at: '2020-01-01T00:00:00.000Z' },
+          },
+        });
+
+        const result = await handleCommand(baseConversation, '/approve abcd1234', 'alice');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('expired');
+        expect(result.resumeWorkflowRunId).toBeUndefined();
+        expect(result.stopWorkflowRun).toEqual({
+          id: waitingRun.id,
+          error: 'Approval request expired',
+          reason: 'approval_timeout',
+        });
+      });
+
+      test('should require a reason to reject', async () => {
+        const result = await handleCommand(baseConversation, '/reject abcd1234', 'alice');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('Usage: /reject <id> <reason>');
+        expect(mockFindWorkflowRunByIdPrefix).not.toHaveBeenCalled();
+      });
+
+      test('should fail when no run is waiting for approval', async () => {
+        const result = await handleCommand(baseConversation, '/approve deadbeef', 'alice');
+
+        expect(result.success).toBe(false);
+        expect(result.message).toContain('No workflow waiting for approval');
+      });
+    });
   });
 });
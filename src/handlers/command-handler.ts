@@ -11,6 +11,7 @@ import * as sessionDb from '../db/sessions';
 import * as templateDb from '../db/command-templates';
 import { isPathWithinWorkspace } from '../utils/path-validation';
 import { sanitizeError } from '../utils/credential-sanitizer';
+import { formatTokenUsage } from '../utils/token-usage';
 import { listWorktrees, execFileAsync } from '../utils/git';
 import { getIsolationProvider } from '../isolation';
 import * as isolationEnvDb from '../db/isolation-environments';
@@ -20,12 +21,44 @@ import {
   getWorktreeStatusBreakdown,
   MAX_WORKTREES_PER_CODEBASE,
 } from '../services/cleanup-service';
-import { getArchonWorkspacesPath, getCommandFolderSearchPaths } from '../utils/archon-paths';
+import {
+  getArchonWorkspacesPath,
+  getCommandFolderSearchPaths,
+  getWorkflowFolderSearchPaths,
+} from '../utils/archon-paths';
+import { loadConfig } from '../config/config-loader';
 import { copyDefaultsToRepo } from '../utils/defaults-copy';
-import { discoverWorkflows } from '../workflows';
+import { findMarkdownFilesRecursive } from '../utils/command-files';
+import {
+  cancelRunningWorkflow,
+  describeWorkflow,
+  discoverWorkflows,
+  findWorkflow,
+  formatExecutionLevels,
+  formatLoopCondition,
+  formatStepSequence,
+  formatWorkflowLogEvents,
+  formatWorkflowRunLine,
+  formatWorkflowRunStatus,
+  hasWorkflowSnapshot,
+  isDagWorkflow,
+  readWorkflowRunLog,
+  reloadWorkflows,
+  validateWorkflowFiles,
+} from '../workflows';
+import { parseInputAssignments } from '../workflows/inputs';
 import { isSingleStep } from '../workflows/types';
+import type { WorkflowRun } from '../workflows/types';
 import * as workflowDb from '../db/workflows';
 
+/** Runs listed by /workflow history without a count, and the most it lists */
+const DEFAULT_HISTORY_LENGTH = 10;
+const MAX_HISTORY_LENGTH = 50;
+
+/** Log entries shown by /workflow logs without --tail, and the most it shows */
+const DEFAULT_LOG_TAIL = 30;
+const MAX_LOG_TAIL = 200;
+
 /**
  * Convert an absolute path to a relative path from the repository root
  * Falls back to showing relative to workspace if not in a git repo
@@ -118,40 +151,6 @@ async function formatRepoContext(
   return `${codebase.name} @ ${branchName}`;
 }
 
-/**
- * Recursively find all .md files in a directory and its subdirectories
- */
-async function findMarkdownFilesRecursive(
-  rootPath: string,
-  relativePath = ''
-): Promise<{ commandName: string; relativePath: string }[]> {
-  const results: { commandName: string; relativePath: string }[] = [];
-  const fullPath = join(rootPath, relativePath);
-
-  const entries = await readdir(fullPath, { withFileTypes: true });
-
-  for (const entry of entries) {
-    // Skip hidden directories and common exclusions
-    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
-      continue;
-    }
-
-    if (entry.isDirectory()) {
-      // Recurse into subdirectory
-      const subResults = await findMarkdownFilesRecursive(rootPath, join(relativePath, entry.name));
-      results.push(...subResults);
-    } else if (entry.isFile() && entry.name.endsWith('.md')) {
-      // Found a markdown file - use filename as command name
-      results.push({
-        commandName: basename(entry.name, '.md'),
-        relativePath: join(relativePath, entry.name),
-      });
-    }
-  }
-
-  return results;
-}
-
 /**
  * Represents a repository with nested owner/repo structure
  */
@@ -232,9 +231,32 @@ export function parseCommand(text: string): { command: string; args: string[] }
   return { command, args };
 }
 
+/**
+ * Read the approval request the executor stored on a run waiting for approval
+ */
+function getApprovalRequest(workflowRun: WorkflowRun): {
+  approvers: string[];
+  expiresAt: Date | undefined;
+} {
+  const approval = (workflowRun.metadata.approval ?? {}) as {
+    approvers?: unknown;
+    expires_at?: unknown;
+  };
+  return {
+    approvers: Array.isArray(approval.approvers)
+      ? approval.approvers.filter((id): id is string => typeof id === 'string')
+      : [],
+    expiresAt: typeof approval.expires_at === 'string' ? new Date(approval.expires_at) : undefined,
+  };
+}
+
+/**
+ * @param userId - Platform user ID of the sender, used to authorize /approve and /reject
+ */
 export async function handleCommand(
   conversation: Conversation,
-  message: string
+  message: string,
+  userId?: string
 ): Promise<CommandResult> {
   const { command, args } = parseCommand(message);
 
@@ -275,8 +297,18 @@ Worktrees:
 
 Workflows:
   /workflow list - Show available workflows
+  /workflow run <name> [inputs] [message] - Run a workflow directly
+  /workflow show <name> - Show steps, models and missing commands
+  /workflow validate - Check workflow files for errors
+  /workflow history [n] - Show recent runs
+  /workflow status <id> - Show a run's steps and errors
+  /workflow logs <id> [--step <name>] [--tail <n>] - Show a run's log
   /workflow reload - Reload workflow definitions
   /workflow cancel - Cancel running workflow
+  /workflow resume <id> - Resume an interrupted workflow
+  /workflow abandon <id> - Discard an interrupted workflow
+  /approve <id> - Continue a workflow waiting for approval
+  /reject <id> <reason> - Stop a workflow waiting for approval
   Note: Workflows are YAML files in .archon/workflows/
 
 Session:
@@ -328,6 +360,23 @@ Setup:
         msg += `\nActive Session: ${session.id.slice(0, 8)}...`;
       }
 
+      // AI usage so far (best-effort - don't fail status on a query error)
+      try {
+        const conversationUsage = await db.getConversationUsage(conversation.id);
+        const codebaseUsage = codebase ? await codebaseDb.getCodebaseUsage(codebase.id) : null;
+        if (conversationUsage || codebaseUsage) {
+          msg += '\n\nUsage:';
+          if (conversationUsage) {
+            msg += `\n  • Conversation: ${formatTokenUsage(conversationUsage)}`;
+          }
+          if (codebase && codebaseUsage) {
+            msg += `\n  • ${codebase.name}: ${formatTokenUsage(codebaseUsage)}`;
+          }
+        }
+      } catch (error) {
+        console.error('[Status] Failed to get token usage:', error);
+      }
+
       // Add worktree breakdown if codebase is configured (Phase 3D)
       if (codebase) {
         try {
@@ -1510,17 +1559,187 @@ Setup:
 
           let msg = 'Available Workflows:\n\n';
           for (const w of workflows) {
-            const stepsOrLoop = w.loop
-              ? `Loop: until \`${w.loop.until}\` (max ${String(w.loop.max_iterations)} iterations)`
-              : `Steps: ${w.steps?.map(s => (isSingleStep(s) ? `\`${s.command}\`` : `[${String(s.parallel.length)} parallel]`)).join(' -> ') ?? 'none'}`;
+            let stepsOrLoop: string;
+            if (w.loop) {
+              stepsOrLoop = `Loop: until ${formatLoopCondition(w.loop)} (max ${String(w.loop.max_iterations)} iterations)`;
+            } else if (isDagWorkflow(w.steps)) {
+              stepsOrLoop = `Steps: ${formatExecutionLevels(w.steps.filter(isSingleStep), ' -> ')}`;
+            } else {
+              stepsOrLoop = `Steps: ${formatStepSequence(w.steps, ' -> ')}`;
+            }
             msg += `**\`${w.name}\`**\n  ${w.description}\n  ${stepsOrLoop}\n\n`;
           }
 
           return { success: true, message: msg };
         }
 
+        case 'run': {
+          const workflowName = args[1];
+          if (!workflowName) {
+            return { success: false, message: 'Usage: /workflow run <name> [inputs] [message]' };
+          }
+
+          const workflows = await discoverWorkflows(codebase.default_cwd);
+          const workflow = findWorkflow(workflowName, workflows);
+          if (!workflow) {
+            return {
+              success: false,
+              message: `Workflow \`${workflowName}\` not found. Use /workflow list to see available workflows.`,
+            };
+          }
+
+          // Inputs and message come from the raw text (parseCommand strips quotes)
+          const rest = /^\S+\s+\S+\s+\S+([\s\S]*)$/.exec(message.trim())?.[1] ?? '';
+          const { inputs, remaining } = parseInputAssignments(rest);
+
+          // Execution happens in the orchestrator (needs the platform adapter and isolation)
+          return {
+            success: true,
+            message: `Starting workflow: \`${workflow.name}\``,
+            runWorkflow: { name: workflow.name, userMessage: remaining, inputs },
+          };
+        }
+
+        case 'show': {
+          const workflowName = args[1];
+          if (!workflowName) {
+            return { success: false, message: 'Usage: /workflow show <name>' };
+          }
+
+          const workflows = await discoverWorkflows(codebase.default_cwd);
+          const workflow = findWorkflow(workflowName, workflows);
+          if (!workflow) {
+            return {
+              success: false,
+              message: `Workflow \`${workflowName}\` not found. Use /workflow list to see available workflows.`,
+            };
+          }
+
+          const config = await loadConfig(codebase.default_cwd);
+          return {
+            success: true,
+            message: await describeWorkflow(workflow, codebase.default_cwd, {
+              models: config.models,
+              commandFolder: config.commands.folder,
+            }),
+          };
+        }
+
+        case 'validate': {
+          const results = await validateWorkflowFiles(codebase.default_cwd);
+          if (results.length === 0) {
+            return {
+              success: true,
+              message: `No workflow files found in ${getWorkflowFolderSearchPaths().join(', ')}.`,
+            };
+          }
+
+          const invalid = results.filter(result => result.errors.length > 0);
+          let msg = `Checked ${String(results.length)} workflow file(s): ${String(results.length - invalid.length)} valid, ${String(invalid.length)} invalid.`;
+          for (const result of invalid) {
+            msg += `\n\n❌ **${result.file}**`;
+            for (const error of result.errors) {
+              const location = error.line !== undefined ? `line ${String(error.line)}: ` : '';
+              msg += `\n  - ${location}${error.message}`;
+            }
+          }
+          return { success: invalid.length === 0, message: msg };
+        }
+
+        case 'history': {
+          const limit = args[1] ? Number(args[1]) : DEFAULT_HISTORY_LENGTH;
+          if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LENGTH) {
+            return {
+              success: false,
+              message: `Usage: /workflow history [n] (n from 1 to ${String(MAX_HISTORY_LENGTH)})`,
+            };
+          }
+
+          const runs = await workflowDb.listWorkflowRuns(conversation.id, limit);
+          if (runs.length === 0) {
+            return { success: true, message: 'No workflow runs in this conversation yet.' };
+          }
+          return {
+            success: true,
+            message: `Recent workflow runs:\n\n${runs.map(run => formatWorkflowRunLine(run)).join('\n')}\n\nDetails: \`/workflow status <id>\``,
+          };
+        }
+
+        case 'status':
+        case 'logs': {
+          const usage =
+            subcommand === 'status'
+              ? 'Usage: /workflow status <id>'
+              : `Usage: /workflow logs <id> [--step <name>] [--tail <n>] (n from 1 to ${String(MAX_LOG_TAIL)})`;
+          const runId = args[1];
+          if (!runId) {
+            return { success: false, message: usage };
+          }
+          if (!/^[0-9a-f-]{1,36}$/i.test(runId)) {
+            return { success: false, message: `Invalid workflow ID: ${runId}` };
+          }
+
+          // Flags (logs only): --step <name>, --tail <n>
+          let stepFilter: string | undefined;
+          let tail = DEFAULT_LOG_TAIL;
+          for (let i = 2; i < args.length; i++) {
+            const value = args[i + 1];
+            if (subcommand === 'logs' && args[i] === '--step' && value) {
+              stepFilter = value;
+              i++;
+            } else if (
+              subcommand === 'logs' &&
+              args[i] === '--tail' &&
+              value &&
+              /^\d+$/.test(value) &&
+              Number(value) >= 1 &&
+              Number(value) <= MAX_LOG_TAIL
+            ) {
+              tail = Number(value);
+              i++;
+            } else {
+              return { success: false, message: usage };
+            }
+          }
+
+          const run = await workflowDb.findWorkflowRunByIdPrefix(conversation.id, runId);
+          if (!run) {
+            return { success: false, message: `No workflow run found with ID \`${runId}\`.` };
+          }
+
+          // Runs log to the directory they ran in (recorded on the run since logs were added)
+          const events = await readWorkflowRunLog(run, [conversation.cwd, codebase.default_cwd]);
+          if (subcommand === 'status') {
+            return { success: true, message: formatWorkflowRunStatus(run, events) };
+          }
+
+          if (!events) {
+            return {
+              success: false,
+              message: `No log file found for workflow run \`${run.id.slice(0, 8)}\`.`,
+            };
+          }
+          const lines = formatWorkflowLogEvents(events, { step: stepFilter, tail });
+          if (lines.length === 0) {
+            return {
+              success: true,
+              message: stepFilter
+                ? `No log entries for step \`${stepFilter}\` in \`${run.workflow_name}\`.`
+                : `No log entries for \`${run.workflow_name}\` yet.`,
+            };
+          }
+          return {
+            success: true,
+            message: `**${run.workflow_name}** (\`${run.id.slice(0, 8)}\`)${stepFilter ? ` - step \`${stepFilter}\`` : ''}, last ${String(lines.length)} log entries:\n\n${lines.join('\n')}`,
+          };
+        }
+
         case 'reload': {
-          // Force reload workflows (discovery is stateless, just confirms they load correctly)
+          // Watched repositories are served from memory - re-read their files now.
+          // Elsewhere discovery reads the files anyway, this just confirms they load.
+          if (hasWorkflowSnapshot(codebase.default_cwd)) {
+            await reloadWorkflows(codebase.default_cwd);
+          }
           const workflows = await discoverWorkflows(codebase.default_cwd);
           return {
             success: true,
@@ -1538,10 +1757,73 @@ Setup:
             };
           }
 
-          await workflowDb.failWorkflowRun(activeWorkflow.id, 'Cancelled by user');
+          // A run waiting for approval is not executing (and has no sub-workflow runs) -
+          // the orchestrator fails it and runs its on_failure/finally steps
+          if (activeWorkflow.status === 'waiting_approval') {
+            return {
+              success: true,
+              message: `Cancelled workflow: \`${activeWorkflow.workflow_name}\``,
+              stopWorkflowRun: {
+                id: activeWorkflow.id,
+                error: 'Cancelled by user',
+                reason: 'cancelled',
+              },
+            };
+          }
+
+          // Parent and sub-workflow runs are cancelled together
+          const cancelledIds = await workflowDb.failWorkflowRunTree(
+            activeWorkflow.id,
+            'Cancelled by user'
+          );
+          // Stop runs executing in this process (their on_failure/finally steps still run)
+          for (const id of cancelledIds) {
+            cancelRunningWorkflow(id, 'Cancelled by user');
+          }
+          const related = cancelledIds.length - 1;
           return {
             success: true,
-            message: `Cancelled workflow: \`${activeWorkflow.workflow_name}\``,
+            message: `Cancelled workflow: \`${activeWorkflow.workflow_name}\`${related > 0 ? ` (and ${String(related)} related sub-workflow run(s))` : ''}`,
+          };
+        }
+
+        case 'resume':
+        case 'abandon': {
+          // Runs interrupted by a restart - the ID may be abbreviated (first 8 characters)
+          const runId = args[1];
+          if (!runId) {
+            return { success: false, message: `Usage: /workflow ${subcommand} <id>` };
+          }
+          if (!/^[0-9a-f-]{1,36}$/i.test(runId)) {
+            return { success: false, message: `Invalid workflow ID: ${runId}` };
+          }
+
+          const interruptedRun = await workflowDb.findWorkflowRunByIdPrefix(
+            conversation.id,
+            runId,
+            'interrupted'
+          );
+          if (!interruptedRun) {
+            return {
+              success: false,
+              message: `No interrupted workflow found with ID \`${runId}\`.`,
+            };
+          }
+
+          // The orchestrator fails the run and runs its on_failure/finally steps
+          if (subcommand === 'abandon') {
+            return {
+              success: true,
+              message: `Abandoned workflow: \`${interruptedRun.workflow_name}\``,
+              stopWorkflowRun: { id: interruptedRun.id, error: 'Abandoned by user' },
+            };
+          }
+
+          // Execution happens in the orchestrator (needs the platform adapter)
+          return {
+            success: true,
+            message: `Resuming workflow: \`${interruptedRun.workflow_name}\``,
+            resumeWorkflowRunId: interruptedRun.id,
           };
         }
 
@@ -1549,11 +1831,85 @@ Setup:
           return {
             success: false,
             message:
-              'Usage:\n  /workflow list - Show available workflows\n  /workflow reload - Reload workflow definitions\n  /workflow cancel - Cancel running workflow',
+              'Usage:\n  /workflow list - Show available workflows\n  /workflow run <name> [inputs] [message] - Run a workflow without the router\n  /workflow show <name> - Show steps, models and missing commands\n  /workflow validate - Check every workflow file for errors\n  /workflow history [n] - Show recent workflow runs\n  /workflow status <id> - Show run steps, errors and artifacts\n  /workflow logs <id> [--step <name>] [--tail <n>] - Show a run log\n  /workflow reload - Reload workflow definitions\n  /workflow cancel - Cancel running workflow\n  /workflow resume <id> - Resume an interrupted workflow\n  /workflow abandon <id> - Discard an interrupted workflow',
           };
       }
     }
 
+    case 'approve':
+    case 'reject': {
+      // Runs paused at an approval step - the ID may be abbreviated (first 8 characters)
+      const runId = args[0];
+      const reason = args.slice(1).join(' ');
+      if (!runId || (command === 'reject' && !reason)) {
+        return {
+          success: false,
+          message: command === 'approve' ? 'Usage: /approve <id>' : 'Usage: /reject <id> <reason>',
+        };
+      }
+      if (!/^[0-9a-f-]{1,36}$/i.test(runId)) {
+        return { success: false, message: `Invalid workflow ID: ${runId}` };
+      }
+
+      const waitingRun = await workflowDb.findWorkflowRunByIdPrefix(
+        conversation.id,
+        runId,
+        'waiting_approval'
+      );
+      if (!waitingRun) {
+        return {
+          success: false,
+          message: `No workflow waiting for approval with ID \`${runId}\`.`,
+        };
+      }
+
+      const { approvers, expiresAt } = getApprovalRequest(waitingRun);
+      if (approvers.length > 0 && (!userId || !approvers.includes(userId))) {
+        return {
+          success: false,
+          message: `You are not authorized to ${command} \`${waitingRun.workflow_name}\`.`,
+        };
+      }
+
+      // The orchestrator fails stopped runs and runs their on_failure/finally steps
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return {
+          success: false,
+          message: `Approval for \`${waitingRun.workflow_name}\` expired. The workflow has been stopped.`,
+          stopWorkflowRun: {
+            id: waitingRun.id,
+            error: 'Approval request expired',
+            reason: 'approval_timeout',
+          },
+        };
+      }
+
+      if (command === 'reject') {
+        return {
+          success: true,
+          message: `Rejected workflow: \`${waitingRun.workflow_name}\`\n\nReason: ${reason}`,
+          stopWorkflowRun: { id: waitingRun.id, error: `Rejected: ${reason}`, reason: 'rejected' },
+        };
+      }
+
+      await workflowDb.updateWorkflowRun(waitingRun.id, {
+        metadata: {
+          approval: {
+            ...(waitingRun.metadata.approval as Record<string, unknown>),
+            approved_by: userId ?? null,
+            approved_at: new Date().toISOString(),
+          },
+        },
+      });
+
+      // Execution happens in the orchestrator (needs the platform adapter)
+      return {
+        success: true,
+        message: `Approved workflow: \`${waitingRun.workflow_name}\``,
+        resumeWorkflowRunId: waitingRun.id,
+      };
+    }
+
     case 'init': {
       // Create .archon structure in current repo
       if (!conversation.cwd) {
@@ -18,6 +18,12 @@ import { pool } from './db/connection';
 import { ConversationLockManager } from './utils/conversation-lock';
 import { classifyAndFormatError } from './utils/error-formatter';
 import { startCleanupScheduler, stopCleanupScheduler } from './services/cleanup-service';
+import {
+  recoverInterruptedWorkflows,
+  startApprovalExpiryScheduler,
+  stopApprovalExpiryScheduler,
+} from './services/workflow-recovery';
+import { startConfigWatcher, stopConfigWatcher } from './services/config-watcher';
 import { logArchonPaths } from './utils/archon-paths';
 import { loadConfig, logConfig } from './config';
 import { getPort } from './utils/port-allocation';
@@ -190,7 +196,9 @@ async function main(): Promise<void> {
             content,
             undefined,
             threadContext,
-            parentConversationId
+            parentConversationId,
+            undefined,
+            message.author.id
           );
         })
         .catch(createMessageErrorHandler('Discord', discordAdapter, conversationId));
@@ -247,7 +255,9 @@ async function main(): Promise<void> {
             content,
             undefined,
             threadContext,
-            parentConversationId
+            parentConversationId,
+            undefined,
+            event.user
           );
         })
         .catch(createMessageErrorHandler('Slack', slackAdapter, conversationId));
@@ -335,13 +345,17 @@ async function main(): Promise<void> {
   // Test adapter endpoints
   app.post('/test/message', async (req, res) => {
     try {
-      const { conversationId, message } = req.body as {
+      const { conversationId, message, userId } = req.body as {
         conversationId?: unknown;
         message?: unknown;
+        userId?: unknown;
       };
       if (typeof conversationId !== 'string' || typeof message !== 'string') {
         return res.status(400).json({ error: 'conversationId and message must be strings' });
       }
+      if (userId !== undefined && typeof userId !== 'string') {
+        return res.status(400).json({ error: 'userId must be a string' });
+      }
       if (!conversationId || !message) {
         return res.status(400).json({ error: 'conversationId and message required' });
       }
@@ -351,7 +365,16 @@ async function main(): Promise<void> {
       // Process the message through orchestrator (non-blocking)
       lockManager
         .acquireLock(conversationId, async () => {
-          await handleMessage(testAdapter, conversationId, message);
+          await handleMessage(
+            testAdapter,
+            conversationId,
+            message,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            userId
+          );
         })
         .catch(createMessageErrorHandler('Test', testAdapter, conversationId));
 
@@ -395,11 +418,20 @@ async function main(): Promise<void> {
     const telegramAdapter = telegram; // Capture for use in callback
 
     // Register message handler (auth is handled internally by adapter)
-    telegramAdapter.onMessage(async ({ conversationId, message }) => {
+    telegramAdapter.onMessage(async ({ conversationId, message, userId }) => {
       // Fire-and-forget: handler returns immediately, processing happens async
       lockManager
         .acquireLock(conversationId, async () => {
-          await handleMessage(telegramAdapter, conversationId, message);
+          await handleMessage(
+            telegramAdapter,
+            conversationId,
+            message,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            userId !== undefined ? String(userId) : undefined
+          );
         })
         .catch(createMessageErrorHandler('Telegram', telegramAdapter, conversationId));
     });
@@ -409,10 +441,25 @@ async function main(): Promise<void> {
     console.log('[Telegram] Adapter not initialized (missing TELEGRAM_BOT_TOKEN)');
   }
 
+  // Recover workflow runs interrupted by the previous process (needs started adapters)
+  const startedAdapters = new Map<string, IPlatformAdapter>();
+  for (const adapter of [testAdapter, telegram, discord, slack, github]) {
+    if (adapter) startedAdapters.set(adapter.getPlatformType(), adapter);
+  }
+  recoverInterruptedWorkflows(startedAdapters, lockManager, config.workflows.interruptedRuns).catch(
+    (error: unknown) => {
+      console.error('[App] Failed to recover interrupted workflows:', error);
+    }
+  );
+  startApprovalExpiryScheduler(startedAdapters, lockManager);
+  startConfigWatcher(startedAdapters);
+
   // Graceful shutdown
   const shutdown = (): void => {
     console.log('[App] Shutting down gracefully...');
     stopCleanupScheduler();
+    stopApprovalExpiryScheduler();
+    stopConfigWatcher();
 
     // Stop adapters (these should not throw, but be defensive)
     try {
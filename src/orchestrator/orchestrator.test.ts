@@ -4,6 +4,8 @@ import { Conversation, Codebase, Session } from '../types';
 import type { WorkflowDefinition } from '../workflows/types';
 import { join } from 'path';
 import * as gitUtils from '../utils/git';
+import * as configLoader from '../config/config-loader';
+import type { MergedConfig } from '../config/config-types';
 
 /**
  * Note: We use spyOn for internal modules (utils/git) that have their own tests.
@@ -15,7 +17,9 @@ import * as gitUtils from '../utils/git';
 const mockGetOrCreateConversation = mock(() => Promise.resolve(null));
 const mockUpdateConversation = mock(() => Promise.resolve());
 const mockTouchConversation = mock(() => Promise.resolve());
+const mockAddConversationUsage = mock(() => Promise.resolve());
 const mockGetCodebase = mock(() => Promise.resolve(null));
+const mockAddCodebaseUsage = mock(() => Promise.resolve());
 const mockGetActiveSession = mock(() => Promise.resolve(null));
 const mockCreateSession = mock(() => Promise.resolve(null));
 const mockUpdateSession = mock(() => Promise.resolve());
@@ -74,6 +78,7 @@ mock.module('../db/conversations', () => ({
   getOrCreateConversation: mockGetOrCreateConversation,
   updateConversation: mockUpdateConversation,
   touchConversation: mockTouchConversation,
+  addConversationUsage: mockAddConversationUsage,
 }));
 
 mock.module('../db/isolation-environments', () => ({
@@ -92,6 +97,7 @@ mock.module('../isolation', () => ({
 
 mock.module('../db/codebases', () => ({
   getCodebase: mockGetCodebase,
+  addCodebaseUsage: mockAddCodebaseUsage,
 }));
 
 mock.module('../db/sessions', () => ({
@@ -142,6 +148,14 @@ mock.module('../services/cleanup-service', () => ({
   STALE_THRESHOLD_DAYS: 7,
 }));
 
+const mockResumeWorkflowRun = mock(() => Promise.resolve());
+const mockStopPausedWorkflowRun = mock(() => Promise.resolve());
+
+mock.module('../services/workflow-recovery', () => ({
+  resumeWorkflowRun: mockResumeWorkflowRun,
+  stopPausedWorkflowRun: mockStopPausedWorkflowRun,
+}));
+
 mock.module('../utils/worktree-sync', () => ({
   syncArchonToWorktree: mockSyncArchonToWorktree,
 }));
@@ -222,7 +236,9 @@ describe('orchestrator', () => {
     mockGetOrCreateConversation.mockClear();
     mockUpdateConversation.mockClear();
     mockTouchConversation.mockClear();
+    mockAddConversationUsage.mockClear();
     mockGetCodebase.mockClear();
+    mockAddCodebaseUsage.mockClear();
     mockGetActiveSession.mockClear();
     mockCreateSession.mockClear();
     mockUpdateSession.mockClear();
@@ -318,11 +334,33 @@ describe('orchestrator', () => {
 
       await handleMessage(platform, 'chat-456', '/status');
 
-      expect(mockHandleCommand).toHaveBeenCalledWith(mockConversation, '/status');
+      expect(mockHandleCommand).toHaveBeenCalledWith(mockConversation, '/status', undefined);
       expect(platform.sendMessage).toHaveBeenCalledWith('chat-456', 'Command executed');
       expect(mockGetAssistantClient).not.toHaveBeenCalled();
     });
 
+    test('passes the sender user id to approval commands', async () => {
+      mockHandleCommand.mockResolvedValue({ message: 'Not authorized', modified: false });
+
+      await handleMessage(
+        platform,
+        'chat-456',
+        '/approve abcd1234',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        'user-42'
+      );
+
+      expect(mockHandleCommand).toHaveBeenCalledWith(
+        mockConversation,
+        '/approve abcd1234',
+        'user-42'
+      );
+      expect(mockGetAssistantClient).not.toHaveBeenCalled();
+    });
+
     test('reloads conversation when modified', async () => {
       mockHandleCommand.mockResolvedValue({ message: 'Codebase set', modified: true });
 
@@ -330,6 +368,94 @@ describe('orchestrator', () => {
 
       expect(mockGetOrCreateConversation).toHaveBeenCalledTimes(2);
     });
+
+    test('resumes interrupted workflow instead of replying', async () => {
+      mockParseCommand.mockReturnValue({ command: 'workflow', args: ['resume', 'abcd1234'] });
+      mockHandleCommand.mockResolvedValue({
+        success: true,
+        message: 'Resuming workflow: `fix-issue`',
+        resumeWorkflowRunId: 'abcd1234-full-id',
+      });
+
+      await handleMessage(platform, 'chat-456', '/workflow resume abcd1234');
+
+      expect(mockResumeWorkflowRun).toHaveBeenCalledWith(platform, 'abcd1234-full-id');
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+    });
+
+    test('replies and then stops rejected workflow with its hooks', async () => {
+      mockParseCommand.mockReturnValue({ command: 'reject', args: ['abcd1234', 'no'] });
+      mockHandleCommand.mockResolvedValue({
+        success: true,
+        message: 'Rejected workflow: `fix-issue`',
+        stopWorkflowRun: { id: 'abcd1234-full-id', error: 'Rejected: no', reason: 'rejected' },
+      });
+
+      await handleMessage(platform, 'chat-456', '/reject abcd1234 no');
+
+      expect(platform.sendMessage).toHaveBeenCalledWith(
+        'chat-456',
+        'Rejected workflow: `fix-issue`'
+      );
+      expect(mockStopPausedWorkflowRun).toHaveBeenCalledWith(
+        platform,
+        'abcd1234-full-id',
+        'Rejected: no',
+        'rejected'
+      );
+    });
+
+    test('runs requested workflow in the resolved worktree without the router', async () => {
+      const workflow = {
+        name: 'fix-issue',
+        description: 'Fix an issue',
+        steps: [{ command: 'investigate', clearContext: false }],
+      };
+      mockDiscoverWorkflows.mockResolvedValue([workflow]);
+      mockParseCommand.mockReturnValue({ command: 'workflow', args: ['run', 'fix-issue'] });
+      mockHandleCommand.mockResolvedValue({
+        success: true,
+        message: 'Starting workflow: `fix-issue`',
+        runWorkflow: { name: 'fix-issue', userMessage: 'login bug', inputs: { issue: '42' } },
+      });
+
+      await handleMessage(platform, 'chat-456', '/workflow run fix-issue issue=42 login bug');
+
+      expect(mockSyncArchonToWorktree).toHaveBeenCalledWith('/workspace/project');
+      expect(mockDiscoverWorkflows).toHaveBeenCalledWith('/workspace/project');
+      expect(mockExecuteWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-456',
+        '/workspace/project',
+        workflow,
+        'login bug',
+        mockConversation.id,
+        mockConversation.codebase_id,
+        undefined,
+        { branchName: 'thread-chat-456', isPrReview: false, prSha: undefined, prBranch: undefined },
+        { issue: '42' }
+      );
+      expect(mockClient.sendQuery).not.toHaveBeenCalled();
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+    });
+
+    test('reports requested workflow missing from the worktree', async () => {
+      mockDiscoverWorkflows.mockResolvedValue([]);
+      mockParseCommand.mockReturnValue({ command: 'workflow', args: ['run', 'fix-issue'] });
+      mockHandleCommand.mockResolvedValue({
+        success: true,
+        message: 'Starting workflow: `fix-issue`',
+        runWorkflow: { name: 'fix-issue', userMessage: '', inputs: {} },
+      });
+
+      await handleMessage(platform, 'chat-456', '/workflow run fix-issue');
+
+      expect(mockExecuteWorkflow).not.toHaveBeenCalled();
+      expect(platform.sendMessage).toHaveBeenCalledWith(
+        'chat-456',
+        expect.stringContaining('Workflow `fix-issue` not found')
+      );
+    });
   });
 
   describe('/command-invoke', () => {
@@ -558,6 +684,26 @@ describe('orchestrator', () => {
       expect(mockUpdateSession).toHaveBeenCalledWith('session-abc', 'ai-session-123');
     });
 
+    test('adds the token usage to the conversation and codebase totals', async () => {
+      const usage = {
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheReadTokens: 5000,
+        cacheWriteTokens: 800,
+        costUsd: 0.125,
+      };
+      mockParseCommand.mockReturnValue({ command: 'command-invoke', args: ['plan'] });
+      mockReadCommandFile.mockResolvedValue('Plan command');
+      mockClient.sendQuery.mockImplementation(async function* () {
+        yield { type: 'result', sessionId: 'ai-session-123', usage };
+      });
+
+      await handleMessage(platform, 'chat-456', '/command-invoke plan');
+
+      expect(mockAddConversationUsage).toHaveBeenCalledWith('conv-123', usage);
+      expect(mockAddCodebaseUsage).toHaveBeenCalledWith('codebase-789', usage);
+    });
+
     test('tracks lastCommand in metadata', async () => {
       mockParseCommand.mockReturnValue({ command: 'command-invoke', args: ['plan'] });
       mockReadCommandFile.mockResolvedValue('Plan command');
@@ -1475,7 +1621,7 @@ Labels: correct`;
       },
     ];
 
-    // Helper to mock AI response with workflow invocation or conversational reply
+    // Helper to mock AI response with a router decision or conversational reply
     function mockAIResponse(content: string): void {
       mockClient.sendQuery.mockImplementation(async function* () {
         yield { type: 'assistant', content };
@@ -1483,6 +1629,17 @@ Labels: correct`;
       });
     }
 
+    // Helper to build the router's JSON decision
+    function decision(
+      workflow: string | null,
+      confidence = 0.9,
+      extra: Record<string, unknown> = {}
+    ): string {
+      return JSON.stringify({ workflow, confidence, inputs: {}, rationale: 'Fits', ...extra });
+    }
+
+    let spyLoadConfig: ReturnType<typeof spyOn>;
+
     beforeEach(() => {
       mockExecuteWorkflow.mockClear();
       mockDiscoverWorkflows.mockClear();
@@ -1490,10 +1647,17 @@ Labels: correct`;
 
       // Default: workflows available
       mockDiscoverWorkflows.mockResolvedValue(testWorkflows);
+      spyLoadConfig = spyOn(configLoader, 'loadConfig').mockResolvedValue({
+        workflows: { interruptedRuns: 'offer', routerConfidenceThreshold: 0.6 },
+      } as MergedConfig);
     });
 
-    test('routes message to workflow when AI responds with /invoke-workflow', async () => {
-      mockAIResponse('/invoke-workflow fix-bug\nI will investigate and fix the bug.');
+    afterEach(() => {
+      spyLoadConfig.mockRestore();
+    });
+
+    test('routes message to workflow when AI decides confidently', async () => {
+      mockAIResponse(decision('fix-bug'));
 
       await handleMessage(platform, 'chat-456', 'fix the login bug');
 
@@ -1503,11 +1667,6 @@ Labels: correct`;
       expect(convId).toBe('chat-456');
       expect(workflow.name).toBe('fix-bug');
       expect(originalMsg).toBe('fix the login bug');
-
-      expect(platform.sendMessage).toHaveBeenCalledWith(
-        'chat-456',
-        'I will investigate and fix the bug.'
-      );
     });
 
     test('does not route when AI responds conversationally', async () => {
@@ -1524,30 +1683,26 @@ Labels: correct`;
 
     test('does not route when no workflows available', async () => {
       mockDiscoverWorkflows.mockResolvedValue([]);
-      mockAIResponse('/invoke-workflow fix-bug\nAttempting to route...');
+      mockAIResponse(decision('fix-bug'));
 
       await handleMessage(platform, 'chat-456', 'fix the login bug');
 
       expect(mockExecuteWorkflow).not.toHaveBeenCalled();
-      expect(platform.sendMessage).toHaveBeenCalledWith(
-        'chat-456',
-        '/invoke-workflow fix-bug\nAttempting to route...'
-      );
+      expect(platform.sendMessage).toHaveBeenCalledWith('chat-456', decision('fix-bug'));
     });
 
     test.each(['batch', 'stream'] as const)('routes correctly in %s mode', async mode => {
       platform.getStreamingMode.mockReturnValue(mode);
-      mockAIResponse('/invoke-workflow add-feature\nI will create a plan.');
+      mockAIResponse(decision('add-feature'));
 
       await handleMessage(platform, 'chat-456', 'add dark mode');
 
       expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
       expect(mockExecuteWorkflow.mock.calls[0][3].name).toBe('add-feature');
-      expect(platform.sendMessage).toHaveBeenCalledWith('chat-456', 'I will create a plan.');
     });
 
     test('does not send AI response when workflow is routed', async () => {
-      mockAIResponse('/invoke-workflow fix-bug');
+      mockAIResponse(decision('fix-bug'));
 
       await handleMessage(platform, 'chat-456', 'fix the login bug');
 
@@ -1556,20 +1711,97 @@ Labels: correct`;
       expect(sentMessages).not.toContain('fix-bug');
     });
 
-    test('handles unknown workflow name gracefully', async () => {
-      mockAIResponse('/invoke-workflow unknown-workflow\nTrying to route...');
+    test('asks which workflow to run when confidence is below the threshold', async () => {
+      mockAIResponse(
+        decision('fix-bug', 0.4, {
+          candidates: ['add-feature', 'unknown-workflow'],
+          question: 'Is the login broken, or is this a new feature?',
+        })
+      );
+
+      await handleMessage(platform, 'chat-456', 'make login work with SSO');
+
+      expect(mockExecuteWorkflow).not.toHaveBeenCalled();
+      expect(platform.sendMessage).toHaveBeenCalledWith(
+        'chat-456',
+        '🤔 Is the login broken, or is this a new feature?\n\n1. **fix-bug** - Fix a bug\n2. **add-feature** - Add a feature\n\nReply with a number or a workflow name.'
+      );
+      expect(mockUpdateSessionMetadata).toHaveBeenCalledWith('session-abc', {
+        routerClarification: {
+          message: 'make login work with SSO',
+          candidates: ['fix-bug', 'add-feature'],
+          inputs: { 'fix-bug': {} },
+        },
+      });
+    });
+
+    test('lists the workflows when the router picks an unknown one', async () => {
+      mockAIResponse(decision('unknown-workflow'));
 
       await handleMessage(platform, 'chat-456', 'help me');
 
       expect(mockExecuteWorkflow).not.toHaveBeenCalled();
       expect(platform.sendMessage).toHaveBeenCalledWith(
         'chat-456',
-        '/invoke-workflow unknown-workflow\nTrying to route...'
+        expect.stringContaining('Available workflows: `fix-bug`, `add-feature`')
       );
     });
 
+    test('respects the configured confidence threshold', async () => {
+      spyLoadConfig.mockResolvedValue({
+        workflows: { interruptedRuns: 'offer', routerConfidenceThreshold: 0.3 },
+      } as MergedConfig);
+      mockAIResponse(decision('fix-bug', 0.4));
+
+      await handleMessage(platform, 'chat-456', 'make login work with SSO');
+
+      expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
+    });
+
+    test('starts the workflow picked in reply to a clarification question', async () => {
+      mockGetActiveSession.mockResolvedValue({
+        ...mockSession,
+        metadata: {
+          routerClarification: {
+            message: 'make login work with SSO',
+            candidates: ['fix-bug', 'add-feature'],
+            inputs: {},
+          },
+        },
+      });
+
+      await handleMessage(platform, 'chat-456', '2');
+
+      expect(mockClient.sendQuery).not.toHaveBeenCalled();
+      expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
+      expect(mockExecuteWorkflow.mock.calls[0][3].name).toBe('add-feature');
+      expect(mockExecuteWorkflow.mock.calls[0][4]).toBe('make login work with SSO');
+      expect(mockUpdateSessionMetadata).toHaveBeenCalledWith('session-abc', {
+        routerClarification: null,
+      });
+    });
+
+    test('routes a reply that picks no offered workflow as a new request', async () => {
+      mockGetActiveSession.mockResolvedValue({
+        ...mockSession,
+        metadata: {
+          routerClarification: {
+            message: 'make login work with SSO',
+            candidates: ['fix-bug', 'add-feature'],
+            inputs: {},
+          },
+        },
+      });
+      mockAIResponse(decision('add-feature'));
+
+      await handleMessage(platform, 'chat-456', 'never mind, add dark mode');
+
+      expect(mockClient.sendQuery).toHaveBeenCalledTimes(1);
+      expect(mockExecuteWorkflow.mock.calls[0][4]).toBe('never mind, add dark mode');
+    });
+
     test('passes correct WorkflowRoutingContext', async () => {
-      mockAIResponse('/invoke-workflow fix-bug');
+      mockAIResponse(decision('fix-bug'));
 
       await handleMessage(platform, 'chat-456', 'fix the login bug');
 
@@ -1599,7 +1831,7 @@ Labels: correct`;
     });
 
     test('passes issueContext to executeWorkflow when provided', async () => {
-      mockAIResponse('/invoke-workflow fix-bug');
+      mockAIResponse(decision('fix-bug'));
 
       const issueContext = '[GitHub Issue Context]\nIssue #42: "Login fails"\nLabels: bug';
       await handleMessage(platform, 'chat-456', 'fix the login bug', issueContext);
@@ -1609,26 +1841,72 @@ Labels: correct`;
       expect(passedIssueContext).toBe(issueContext);
     });
 
-    test('routes when /invoke-workflow appears in middle of response', async () => {
+    test('passes router-extracted inputs the workflow declares to executeWorkflow', async () => {
+      mockDiscoverWorkflows.mockResolvedValue([
+        {
+          ...testWorkflows[0],
+          inputs: [
+            { name: 'issue', type: 'number' },
+            { name: 'area', type: 'string' },
+          ],
+        },
+      ]);
       mockAIResponse(
-        'Let me analyze this request...\n/invoke-workflow fix-bug\nI will investigate the bug.'
+        decision('fix-bug', 0.9, { inputs: { issue: 42, area: 'login form', branch: 'main' } })
       );
 
-      await handleMessage(platform, 'chat-456', 'fix the bug');
+      await handleMessage(platform, 'chat-456', 'fix issue 42 in the login form');
 
       expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
-      expect(mockExecuteWorkflow.mock.calls[0][3].name).toBe('fix-bug');
+      expect(mockExecuteWorkflow.mock.calls[0][9]).toEqual({ issue: '42', area: 'login form' });
     });
 
-    test('routes to first workflow when multiple /invoke-workflow in response', async () => {
-      mockAIResponse('/invoke-workflow fix-bug\n/invoke-workflow add-feature\nAnalysis...');
+    test('routes when the decision is wrapped in analysis text', async () => {
+      mockAIResponse(
+        `Let me analyze this request...\n\n\`\`\`json\n${decision('fix-bug')}\n\`\`\`\nDone.`
+      );
 
-      await handleMessage(platform, 'chat-456', 'help me');
+      await handleMessage(platform, 'chat-456', 'fix the bug');
 
       expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
       expect(mockExecuteWorkflow.mock.calls[0][3].name).toBe('fix-bug');
     });
 
+    describe('trigger rules', () => {
+      const reviewWorkflow: WorkflowDefinition = {
+        name: 'pr-review',
+        description: 'Review a pull request',
+        steps: [{ command: 'review' }],
+        triggers: { patterns: ['^review\\b'], target: 'pr' },
+      };
+      const prMessage =
+        '[GitHub Pull Request Context]\nPR #7: "Add login"\n\nDescription:\nAdds login\n\n---\n\n';
+
+      beforeEach(() => {
+        mockClient.sendQuery.mockClear();
+        mockDiscoverWorkflows.mockResolvedValue([...testWorkflows, reviewWorkflow]);
+      });
+
+      test('routes a matching message without calling the AI router', async () => {
+        await handleMessage(platform, 'chat-456', `${prMessage}review`);
+
+        expect(mockClient.sendQuery).not.toHaveBeenCalled();
+        expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
+        expect(mockExecuteWorkflow.mock.calls[0][3].name).toBe('pr-review');
+      });
+
+      test('falls back to the AI router when no rule matches', async () => {
+        mockAIResponse(decision('fix-bug'));
+
+        // Matching comment, but outside a pull request
+        await handleMessage(platform, 'chat-456', 'review');
+
+        expect(mockClient.sendQuery).toHaveBeenCalledTimes(1);
+        expect(mockExecuteWorkflow).toHaveBeenCalledTimes(1);
+        expect(mockExecuteWorkflow.mock.calls[0][3].name).toBe('fix-bug');
+      });
+    });
+
     test('handles workflow discovery failure gracefully', async () => {
       mockDiscoverWorkflows.mockRejectedValue(new Error('No .archon/workflows directory'));
       mockAIResponse('I will help you directly.');
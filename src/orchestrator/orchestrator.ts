@@ -15,7 +15,9 @@ import {
   IsolationEnvironmentRow,
   Conversation,
   Codebase,
+  CommandResult,
   ConversationNotFoundError,
+  TokenUsage,
 } from '../types';
 import * as db from '../db/conversations';
 import * as codebaseDb from '../db/codebases';
@@ -27,17 +29,20 @@ import { formatToolCall } from '../utils/tool-formatter';
 import { substituteVariables } from '../utils/variable-substitution';
 import { classifyAndFormatError } from '../utils/error-formatter';
 import { getAssistantClient } from '../clients/factory';
+import { loadConfig } from '../config/config-loader';
 import { getIsolationProvider } from '../isolation';
 import { worktreeExists, findWorktreeByBranch, getCanonicalRepoPath } from '../utils/git';
 import { syncArchonToWorktree } from '../utils/worktree-sync';
 import {
   discoverWorkflows,
   buildRouterPrompt,
-  parseWorkflowInvocation,
+  parseRouterDecision,
+  matchWorkflowTriggers,
+  resolveClarificationReply,
   findWorkflow,
   executeWorkflow,
 } from '../workflows';
-import type { WorkflowDefinition, RouterContext } from '../workflows';
+import type { WorkflowDefinition, RouterContext, RouterDecision } from '../workflows';
 import {
   cleanupToMakeRoom,
   getWorktreeStatusBreakdown,
@@ -45,6 +50,7 @@ import {
   STALE_THRESHOLD_DAYS,
   WorktreeStatusBreakdown,
 } from '../services/cleanup-service';
+import { resumeWorkflowRun, stopPausedWorkflowRun } from '../services/workflow-recovery';
 
 /**
  * Error thrown when isolation is required but cannot be provided.
@@ -99,6 +105,24 @@ async function tryUpdateSessionMetadata(
   }
 }
 
+/**
+ * Add the token usage of an AI query to the conversation's and codebase's totals.
+ * Non-critical operation - if it fails, /status under-reports usage.
+ */
+async function tryRecordUsage(conversation: Conversation, usage: TokenUsage): Promise<void> {
+  try {
+    await db.addConversationUsage(conversation.id, usage);
+    if (conversation.codebase_id) {
+      await codebaseDb.addCodebaseUsage(conversation.codebase_id, usage);
+    }
+  } catch (error) {
+    console.error('[Orchestrator] Failed to record token usage', {
+      conversationId: conversation.id,
+      error: (error as Error).message,
+    });
+  }
+}
+
 /**
  * Format the worktree limit reached message
  */
@@ -419,65 +443,268 @@ interface WorkflowRoutingContext {
    * Hints for isolation environment (PR review context, etc.)
    */
   isolationHints?: IsolationHints;
+  /**
+   * Platform, PR/issue and label details the workflow triggers are matched against
+   */
+  routerContext?: RouterContext;
+  /**
+   * Session that stores a clarification question until the user answers it
+   */
+  sessionId: string;
 }
 
 /**
- * Attempt to route an AI response to a workflow.
- * Returns true if a workflow was successfully matched and execution was initiated,
- * false if routing was not applicable (no workflows available, no workflow invocation
- * detected, or workflow not found).
+ * A clarification question waiting for the user's answer. Stored in the session metadata
+ * (`routerClarification`) and settled by the next message.
  */
-async function tryWorkflowRouting(
+interface RouterClarification {
+  message: string; // The request that was too ambiguous to route
+  candidates: string[]; // Workflow names offered, in the order they were listed
+  inputs: Record<string, Record<string, string>>; // Router-extracted inputs per workflow
+}
+
+/** Most workflows offered in a clarification question */
+const MAX_CLARIFICATION_CANDIDATES = 3;
+
+/**
+ * Start a routed workflow - executeWorkflow handles its own errors and user messaging
+ */
+async function startRoutedWorkflow(
   ctx: WorkflowRoutingContext,
-  aiResponse: string
+  workflow: WorkflowDefinition,
+  message: string,
+  inputs: Record<string, string> = {}
+): Promise<void> {
+  console.log(`[Orchestrator] Routing to workflow: ${workflow.name}`);
+  await executeWorkflow(
+    ctx.platform,
+    ctx.conversationId,
+    ctx.cwd,
+    workflow,
+    message,
+    ctx.conversationDbId,
+    ctx.codebaseId,
+    ctx.issueContext,
+    buildWorkflowIsolationContext(ctx.isolationEnv?.branch_name, ctx.isolationHints),
+    inputs
+  );
+}
+
+/**
+ * First line of a workflow description, without the "Use when:" label of the defaults
+ */
+function summarizeDescription(description: string): string {
+  const firstLine = description
+    .trim()
+    .split('\n')[0]
+    .replace(/^Use when:\s*/i, '');
+  return firstLine.length > 100 ? `${firstLine.slice(0, 97)}...` : firstLine;
+}
+
+/**
+ * Ask the user to choose between the router's top candidates instead of guessing.
+ * The choice is remembered so the answer ("2" or a workflow name) starts that workflow
+ * with the original request.
+ */
+async function askRouterClarification(
+  ctx: WorkflowRoutingContext,
+  decision: RouterDecision
+): Promise<void> {
+  const candidates = [
+    ...(decision.workflow ? [decision.workflow] : []),
+    ...decision.candidates,
+  ].slice(0, MAX_CLARIFICATION_CANDIDATES);
+
+  if (candidates.length === 0) {
+    const names = ctx.availableWorkflows.map(w => `\`${w.name}\``).join(', ');
+    await ctx.platform.sendMessage(
+      ctx.conversationId,
+      `🤔 ${decision.question ?? "I couldn't tell which workflow fits this request."}\n\n` +
+        `Available workflows: ${names}. Rephrase the request, or start one with \`/workflow run <name>\`.`
+    );
+    return;
+  }
+
+  const list = candidates
+    .map(
+      (w, index) => `${String(index + 1)}. **${w.name}** - ${summarizeDescription(w.description)}`
+    )
+    .join('\n');
+  await ctx.platform.sendMessage(
+    ctx.conversationId,
+    `🤔 ${decision.question ?? 'Which workflow should I run?'}\n\n${list}\n\nReply with a number or a workflow name.`
+  );
+
+  const clarification: RouterClarification = {
+    message: ctx.originalMessage,
+    candidates: candidates.map(w => w.name),
+    inputs: decision.workflow ? { [decision.workflow.name]: decision.inputs } : {},
+  };
+  await tryUpdateSessionMetadata(ctx.sessionId, { routerClarification: clarification });
+}
+
+/**
+ * Handle the answer to a clarification question.
+ * Returns true if the answer picked one of the offered workflows and it was started,
+ * false if the message is a new request to route as usual.
+ */
+async function tryClarificationReply(
+  ctx: WorkflowRoutingContext,
+  pending: RouterClarification
 ): Promise<boolean> {
-  if (ctx.availableWorkflows.length === 0) {
+  // Answered or not, this message settles the question
+  await tryUpdateSessionMetadata(ctx.sessionId, { routerClarification: null });
+
+  const name = resolveClarificationReply(ctx.originalMessage, pending.candidates);
+  const workflow = name ? findWorkflow(name, ctx.availableWorkflows) : undefined;
+  if (!workflow) {
+    console.log('[Orchestrator] Message does not answer the clarification - routing it as new');
     return false;
   }
 
-  const { workflowName, remainingMessage } = parseWorkflowInvocation(
-    aiResponse,
-    ctx.availableWorkflows
-  );
+  console.log(`[Orchestrator] Routing path: clarification - ${workflow.name}`);
+  await startRoutedWorkflow(ctx, workflow, pending.message, pending.inputs[workflow.name]);
+  return true;
+}
 
-  if (!workflowName) {
+/**
+ * Attempt to route a message to a workflow.
+ * Without an AI response, the workflows' `triggers:` rules are checked - before the
+ * AI router is asked. With one, the AI router's JSON decision is used: confident picks
+ * start the workflow, anything below the configured threshold
+ * (`workflows.routerConfidenceThreshold`) asks the user to choose.
+ * Returns true if the message was handled (a workflow was started or the user was asked
+ * to choose), false if routing was not applicable (no workflows available, no rule
+ * matched, or the AI answered without a decision).
+ */
+async function tryWorkflowRouting(
+  ctx: WorkflowRoutingContext,
+  aiResponse?: string
+): Promise<boolean> {
+  if (ctx.availableWorkflows.length === 0) {
     return false;
   }
 
-  const workflow = findWorkflow(workflowName, ctx.availableWorkflows);
-  if (!workflow) {
+  if (aiResponse === undefined) {
+    const match = matchWorkflowTriggers(
+      ctx.originalMessage,
+      ctx.availableWorkflows,
+      ctx.routerContext
+    );
+    if (!match) {
+      console.log('[Orchestrator] Routing path: llm (no trigger rule matched)');
+      return false;
+    }
+    console.log(`[Orchestrator] Routing path: rule - ${match.workflow.name} (${match.reason})`);
+    await startRoutedWorkflow(ctx, match.workflow, ctx.originalMessage);
+    return true;
+  }
+
+  const decision = parseRouterDecision(aiResponse, ctx.availableWorkflows);
+  if (!decision) {
+    console.log('[Orchestrator] Router reply holds no decision - sending it as a reply');
     return false;
   }
 
-  console.log(`[Orchestrator] Routing to workflow: ${workflowName}`);
+  const threshold = (await loadConfig(ctx.cwd)).workflows.routerConfidenceThreshold;
+  console.log('[Orchestrator] Router decision', {
+    workflow: decision.workflow?.name ?? null,
+    confidence: decision.confidence,
+    candidates: decision.candidates.map(w => w.name),
+    rationale: decision.rationale,
+  });
 
-  if (remainingMessage) {
-    await ctx.platform.sendMessage(ctx.conversationId, remainingMessage);
+  if (!decision.workflow || decision.confidence < threshold) {
+    console.log(
+      `[Orchestrator] Routing path: clarification (confidence ${String(decision.confidence)} below ${String(threshold)})`
+    );
+    await askRouterClarification(ctx, decision);
+    return true;
   }
 
-  // Build isolation context for workflow executor
-  const { workflowType, prSha, prBranch } = ctx.isolationHints ?? {};
+  console.log(
+    `[Orchestrator] Routing path: llm - ${decision.workflow.name} (confidence ${String(decision.confidence)})`
+  );
+  await startRoutedWorkflow(ctx, decision.workflow, ctx.originalMessage, decision.inputs);
+  return true;
+}
+
+/**
+ * Build the isolation details shown in a workflow's startup message
+ */
+function buildWorkflowIsolationContext(
+  branchName: string | undefined,
+  hints: IsolationHints | undefined
+): { branchName: string; isPrReview: boolean; prSha?: string; prBranch?: string } | undefined {
+  if (!branchName) return undefined;
+  const { workflowType, prSha, prBranch } = hints ?? {};
   const isPrReview =
     workflowType === 'review' || workflowType === 'pr' || Boolean(prSha && prBranch);
+  return { branchName, isPrReview, prSha, prBranch };
+}
+
+/**
+ * Start a workflow requested with `/workflow run`, bypassing the AI router.
+ * Isolation is resolved as for routed messages, and the workflow is loaded from the
+ * resolved working directory so it matches the code it runs against.
+ */
+async function runRequestedWorkflow(
+  platform: IPlatformAdapter,
+  conversationId: string,
+  conversation: Conversation,
+  request: NonNullable<CommandResult['runWorkflow']>,
+  issueContext?: string,
+  isolationHints?: IsolationHints
+): Promise<void> {
+  const codebase = conversation.codebase_id
+    ? await codebaseDb.getCodebase(conversation.codebase_id)
+    : null;
+
+  let cwd: string;
+  let env: IsolationEnvironmentRow | null;
+  try {
+    ({ cwd, env } = await validateAndResolveIsolation(
+      conversation,
+      codebase,
+      platform,
+      conversationId,
+      isolationHints
+    ));
+  } catch (error) {
+    if (error instanceof IsolationBlockedError) {
+      // User has already been informed by validateAndResolveIsolation
+      console.log(`[Orchestrator] Isolation blocked: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+
+  await syncArchonToWorktree(cwd);
+  const workflow = findWorkflow(request.name, await discoverWorkflows(cwd));
+  if (!workflow) {
+    await platform.sendMessage(
+      conversationId,
+      `Workflow \`${request.name}\` not found in ${cwd}. Use /workflow list to see available workflows.`
+    );
+    return;
+  }
 
-  const isolationContext = ctx.isolationEnv
-    ? { branchName: ctx.isolationEnv.branch_name, isPrReview, prSha, prBranch }
-    : undefined;
+  console.log(`[Orchestrator] Running workflow on request: ${workflow.name}`);
+  await db.touchConversation(conversation.id);
 
   // executeWorkflow handles its own errors and user messaging
   await executeWorkflow(
-    ctx.platform,
-    ctx.conversationId,
-    ctx.cwd,
+    platform,
+    conversationId,
+    cwd,
     workflow,
-    ctx.originalMessage,
-    ctx.conversationDbId,
-    ctx.codebaseId,
-    ctx.issueContext,
-    isolationContext
+    request.userMessage,
+    conversation.id,
+    conversation.codebase_id ?? undefined,
+    issueContext,
+    buildWorkflowIsolationContext(env?.branch_name, isolationHints),
+    request.inputs
   );
-
-  return true;
 }
 
 /**
@@ -506,7 +733,8 @@ export async function handleMessage(
   issueContext?: string, // Optional GitHub issue/PR context to append AFTER command loading
   threadContext?: string, // Optional thread message history for context
   parentConversationId?: string, // Optional parent channel ID for thread inheritance
-  isolationHints?: IsolationHints // Optional hints from adapter for isolation decisions
+  isolationHints?: IsolationHints, // Optional hints from adapter for isolation decisions
+  userId?: string // Optional platform user ID of the sender (authorizes /approve and /reject)
 ): Promise<void> {
   try {
     console.log(`[Orchestrator] Handling message for conversation ${conversationId}`);
@@ -548,6 +776,7 @@ export async function handleMessage(
     let promptToSend = message;
     let commandName: string | null = null;
     let availableWorkflows: WorkflowDefinition[] = [];
+    let routerContext: RouterContext | undefined;
 
     if (message.startsWith('/')) {
       const { command, args } = commandHandler.parseCommand(message);
@@ -574,11 +803,37 @@ export async function handleMessage(
         'template-delete',
         'worktree',
         'workflow',
+        'approve',
+        'reject',
       ];
 
       if (deterministicCommands.includes(command)) {
         console.log(`[Orchestrator] Processing slash command: ${message}`);
-        const result = await commandHandler.handleCommand(conversation, message);
+        const result = await commandHandler.handleCommand(conversation, message, userId);
+
+        // Resumed and requested workflows post their own startup message
+        if (result.resumeWorkflowRunId) {
+          await resumeWorkflowRun(platform, result.resumeWorkflowRunId);
+          return;
+        }
+        if (result.stopWorkflowRun) {
+          const { id, error, reason } = result.stopWorkflowRun;
+          await platform.sendMessage(conversationId, result.message);
+          await stopPausedWorkflowRun(platform, id, error, reason);
+          return;
+        }
+        if (result.runWorkflow) {
+          await runRequestedWorkflow(
+            platform,
+            conversationId,
+            conversation,
+            result.runWorkflow,
+            issueContext,
+            isolationHints
+          );
+          return;
+        }
+
         await platform.sendMessage(conversationId, result.message);
 
         // Reload conversation if modified
@@ -735,7 +990,7 @@ export async function handleMessage(
         commandName = 'workflow-router';
 
         // Build router context from available data
-        const routerContext: RouterContext = {
+        routerContext = {
           platformType: platform.getPlatformType(),
           threadHistory: threadContext,
         };
@@ -921,8 +1176,27 @@ export async function handleMessage(
       issueContext,
       isolationEnv: env ? { branch_name: env.branch_name } : undefined,
       isolationHints,
+      routerContext,
+      sessionId: session.id,
     };
 
+    // Answers to a clarification question and trigger rules route without a model call -
+    // the AI router is only asked when neither applies
+    if (routerContext) {
+      // Cleared to null once answered
+      const pending = session.metadata.routerClarification as
+        | RouterClarification
+        | null
+        | undefined;
+      const answered = pending ? await tryClarificationReply(routingCtx, pending) : false;
+      if (answered || (await tryWorkflowRouting(routingCtx))) {
+        if (commandName) {
+          await tryUpdateSessionMetadata(session.id, { lastCommand: commandName });
+        }
+        return;
+      }
+    }
+
     if (mode === 'stream') {
       // Stream mode: accumulate to check for workflow invocation, then send
       const allMessages: string[] = [];
@@ -938,8 +1212,9 @@ export async function handleMessage(
         } else if (msg.type === 'tool' && msg.toolName) {
           const toolMessage = formatToolCall(msg.toolName, msg.toolInput);
           await platform.sendMessage(conversationId, toolMessage);
-        } else if (msg.type === 'result' && msg.sessionId) {
-          newSessionId = msg.sessionId;
+        } else if (msg.type === 'result') {
+          if (msg.sessionId) newSessionId = msg.sessionId;
+          if (msg.usage) await tryRecordUsage(conversation, msg.usage);
         }
       }
 
@@ -981,8 +1256,9 @@ export async function handleMessage(
           const toolMessage = formatToolCall(msg.toolName, msg.toolInput);
           allChunks.push({ type: 'tool', content: toolMessage });
           console.log(`[Orchestrator] Tool call: ${msg.toolName}`);
-        } else if (msg.type === 'result' && msg.sessionId) {
-          await tryPersistSessionId(session.id, msg.sessionId);
+        } else if (msg.type === 'result') {
+          if (msg.sessionId) await tryPersistSessionId(session.id, msg.sessionId);
+          if (msg.usage) await tryRecordUsage(conversation, msg.usage);
         }
       }
 
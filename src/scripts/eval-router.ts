@@ -0,0 +1,129 @@
+/**
+ * Router Evaluation Script
+ *
+ * Routes a labeled message corpus through the workflow router and reports accuracy,
+ * a confusion matrix and regressions against the saved baseline. Run after editing
+ * workflow descriptions:
+ *
+ *   bun run eval:router --assistant claude --record   # Call the model, save its responses
+ *   bun run eval:router                               # Replay the saved responses
+ *   bun run eval:router --update-baseline             # Accept the current results
+ *
+ * Exits with code 1 when a case that matched the baseline is now misrouted, or when a
+ * replay has no recorded response for some case (the recordings are stale).
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, extname, join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { getAssistantClient } from '../clients/factory';
+import { loadConfig } from '../config/config-loader';
+import { discoverWorkflows } from '../workflows/loader';
+import {
+  compareWithBaseline,
+  createRecordedClient,
+  formatRouterEvalReport,
+  hashRouterPrompt,
+  parseRouterEvalCorpus,
+  runRouterEval,
+  toRouterEvalBaseline,
+} from '../workflows/router-eval';
+import type { RouterEvalBaseline } from '../workflows/router-eval';
+
+const EVAL_DIR = join(import.meta.dir, '..', '..', 'evals', 'router');
+
+async function readJson<T>(path: string): Promise<T | null> {
+  if (!existsSync(path)) return null;
+  return JSON.parse(await readFile(path, 'utf-8')) as T;
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(value, null, 2) + '\n');
+}
+
+async function evalRouter(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: 'string', default: join(EVAL_DIR, 'corpus.yaml') },
+      cwd: { type: 'string', default: process.cwd() },
+      assistant: { type: 'string' }, // claude or codex - replays recordings when omitted
+      model: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      recordings: { type: 'string', default: join(EVAL_DIR, 'recordings.json') },
+      baseline: { type: 'string', default: join(EVAL_DIR, 'baseline.json') },
+      'update-baseline': { type: 'boolean', default: false },
+      threshold: { type: 'string' },
+    },
+  });
+
+  const corpusPath = resolve(values.corpus);
+  const format = extname(corpusPath) === '.jsonl' ? 'jsonl' : 'yaml';
+  const parsed = parseRouterEvalCorpus(await readFile(corpusPath, 'utf-8'), format);
+  if (!parsed.success) {
+    console.error(`Invalid corpus ${corpusPath}:\n${parsed.errors.join('\n')}`);
+    return 1;
+  }
+
+  const cwd = resolve(values.cwd);
+  const workflows = await discoverWorkflows(cwd);
+  if (workflows.length === 0) {
+    console.error(`No workflows found in ${cwd}`);
+    return 1;
+  }
+  const threshold = values.threshold
+    ? parseFloat(values.threshold)
+    : (await loadConfig(cwd)).workflows.routerConfidenceThreshold;
+
+  if (values.record && !values.assistant) {
+    console.error('--record needs --assistant to call a real model');
+    return 1;
+  }
+  const recordingsPath = resolve(values.recordings);
+  const recorded = (await readJson<Record<string, string>>(recordingsPath)) ?? {};
+  const client = values.assistant
+    ? getAssistantClient(values.assistant)
+    : createRecordedClient(new Map(Object.entries(recorded)));
+
+  console.log(
+    `Routing ${String(parsed.cases.length)} message(s) across ${String(workflows.length)} workflow(s) with ${client.getType()} (threshold ${String(threshold)})`
+  );
+  const report = await runRouterEval(parsed.cases, workflows, client, {
+    cwd,
+    threshold,
+    model: values.model,
+    onResponse: values.record
+      ? (prompt, response): void => {
+          recorded[hashRouterPrompt(prompt)] = response;
+        }
+      : undefined,
+  });
+  if (values.record) {
+    await writeJson(recordingsPath, recorded);
+    console.log(`Saved responses to ${recordingsPath}`);
+  }
+
+  const baselinePath = resolve(values.baseline);
+  const baseline = await readJson<RouterEvalBaseline>(baselinePath);
+  const comparison = baseline ? compareWithBaseline(report, baseline) : undefined;
+  console.log(`\n${formatRouterEvalReport(report, comparison)}`);
+
+  if (report.unrecorded > 0) {
+    console.error(
+      `\n${String(report.unrecorded)} case(s) have no recorded response - record again before comparing or updating the baseline`
+    );
+    return 1;
+  }
+  if (values['update-baseline']) {
+    await writeJson(baselinePath, toRouterEvalBaseline(report));
+    console.log(`\nSaved baseline to ${baselinePath}`);
+    return 0;
+  }
+  return comparison?.regressions.length ? 1 : 0;
+}
+
+// Run the evaluation
+void evalRouter().then(code => {
+  process.exit(code);
+});
@@ -0,0 +1,27 @@
+/**
+ * Generate Workflow Schema Script
+ *
+ * Writes the JSON Schema for workflow YAML files to schemas/workflow.schema.json,
+ * the copy editors and pre-commit hooks point at. Run after changing the workflow format.
+ */
+
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname, join } from 'path';
+import { format, resolveConfig } from 'prettier';
+import { WORKFLOW_SCHEMA_PATH, workflowJsonSchema } from '../workflows/schema';
+
+async function generateSchema(): Promise<void> {
+  const schemaPath = join(import.meta.dir, '..', '..', WORKFLOW_SCHEMA_PATH);
+  await mkdir(dirname(schemaPath), { recursive: true });
+  // Formatted like the rest of the repo so format:check stays clean
+  const options = await resolveConfig(schemaPath);
+  const content = await format(JSON.stringify(workflowJsonSchema), {
+    ...options,
+    filepath: schemaPath,
+  });
+  await writeFile(schemaPath, content);
+  console.log(`Wrote ${WORKFLOW_SCHEMA_PATH}`);
+}
+
+// Run the generator
+void generateSchema();
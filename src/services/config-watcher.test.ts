@@ -0,0 +1,176 @@
+import { mock, describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { Codebase, Conversation, IPlatformAdapter } from '../types';
+
+// Mock codebases DB
+type Commands = Record<string, { path: string; description: string }>;
+const mockListCodebases = mock(() => Promise.resolve([] as Codebase[]));
+const mockGetCodebaseCommands = mock(() => Promise.resolve({} as Commands));
+const mockUpdateCodebaseCommands = mock((_id: string, _commands: Commands) => Promise.resolve());
+mock.module('../db/codebases', () => ({
+  listCodebases: mockListCodebases,
+  getCodebaseCommands: mockGetCodebaseCommands,
+  updateCodebaseCommands: mockUpdateCodebaseCommands,
+}));
+
+// Mock conversations DB
+const mockGetLastActiveConversation = mock(() => Promise.resolve(null as Conversation | null));
+mock.module('../db/conversations', () => ({
+  getLastActiveConversation: mockGetLastActiveConversation,
+}));
+
+import { reloadCodebaseConfig, stopConfigWatcher, syncWatchedCodebases } from './config-watcher';
+import { hasWorkflowSnapshot } from '../workflows/loader';
+
+const conversation: Conversation = {
+  id: 'conv-uuid',
+  platform_type: 'telegram',
+  platform_conversation_id: 'chat-123',
+  codebase_id: 'codebase-123',
+  cwd: '/workspace/repo',
+  isolation_env_id: null,
+  ai_assistant_type: 'claude',
+  last_activity_at: new Date(),
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const workflowYaml = (command: string): string =>
+  `name: build\ndescription: Build it\nsteps:\n  - command: ${command}\n`;
+
+/** Wait for a condition set by the watcher (debounced reloads run on a timer) */
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the watcher');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('config-watcher', () => {
+  let testDir: string;
+  let codebase: Codebase;
+  let platform: IPlatformAdapter;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `watcher-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, '.archon', 'workflows'), { recursive: true });
+    await mkdir(join(testDir, '.archon', 'commands'), { recursive: true });
+    codebase = {
+      id: 'codebase-123',
+      name: 'repo',
+      repository_url: null,
+      default_cwd: testDir,
+      ai_assistant_type: 'claude',
+      commands: {},
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    platform = {
+      sendMessage: mock(() => Promise.resolve()),
+      ensureThread: mock((id: string) => Promise.resolve(id)),
+      getStreamingMode: mock(() => 'batch' as const),
+      getPlatformType: mock(() => 'telegram'),
+      start: mock(() => Promise.resolve()),
+      stop: mock(() => undefined),
+    };
+
+    mockListCodebases.mockResolvedValue([codebase]);
+    mockGetCodebaseCommands.mockResolvedValue({});
+    mockUpdateCodebaseCommands.mockClear();
+    mockGetLastActiveConversation.mockResolvedValue(conversation);
+  });
+
+  afterEach(async () => {
+    stopConfigWatcher();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('reloadCodebaseConfig', () => {
+    test('registers command files, keeping commands loaded from other folders', async () => {
+      await writeFile(join(testDir, '.archon', 'commands', 'plan.md'), 'Plan it');
+      await writeFile(join(testDir, '.archon', 'commands', 'review.md'), 'Review it');
+      mockGetCodebaseCommands.mockResolvedValue({
+        old: { path: '.archon/commands/old.md', description: 'From .archon/commands' },
+        review: { path: 'prompts/review.md', description: 'From prompts' },
+      });
+
+      const errors = await reloadCodebaseConfig(codebase);
+
+      expect(errors).toBe('');
+      expect(mockUpdateCodebaseCommands).toHaveBeenCalledWith('codebase-123', {
+        review: { path: 'prompts/review.md', description: 'From prompts' },
+        plan: {
+          path: join('.archon', 'commands', 'plan.md'),
+          description: 'From .archon/commands',
+        },
+      });
+    });
+
+    test('matches registered commands by name, not by description', async () => {
+      await writeFile(join(testDir, '.archon', 'commands', 'plan.md'), 'Plan it');
+      mockGetCodebaseCommands.mockResolvedValue({
+        plan: { path: '.archon/commands/plan.md', description: 'Plans the change' },
+        old: { path: '.archon/commands/old.md', description: 'Edited description' },
+      });
+
+      await reloadCodebaseConfig(codebase);
+
+      expect(mockUpdateCodebaseCommands).toHaveBeenCalledWith('codebase-123', {
+        plan: { path: join('.archon', 'commands', 'plan.md'), description: 'Plans the change' },
+      });
+    });
+
+    test('reports invalid workflow and config files', async () => {
+      await writeFile(join(testDir, '.archon', 'workflows', 'build.yaml'), 'name: build\n');
+      await writeFile(join(testDir, '.archon', 'config.yaml'), 'assistant: [\n');
+
+      const errors = await reloadCodebaseConfig(codebase);
+
+      expect(errors).toContain(`❌ **${join('.archon', 'workflows', 'build.yaml')}**`);
+      expect(errors).toContain("Missing 'description'");
+      expect(errors).toContain('❌ **Repo config**');
+    });
+  });
+
+  describe('syncWatchedCodebases', () => {
+    test('hot-reloads changed files and posts new errors to the last active conversation', async () => {
+      const workflowPath = join(testDir, '.archon', 'workflows', 'build.yaml');
+      await writeFile(workflowPath, workflowYaml('plan'));
+      const adapters = new Map([['telegram', platform]]);
+      const sendMessage = platform.sendMessage as ReturnType<typeof mock>;
+
+      await syncWatchedCodebases(adapters);
+      expect(hasWorkflowSnapshot(testDir)).toBe(true);
+
+      // A broken edit is reported
+      await writeFile(workflowPath, 'name: build\nsteps: [\n');
+      await waitFor(() => sendMessage.mock.calls.length === 1);
+      expect(sendMessage.mock.calls[0][0]).toBe('chat-123');
+      expect(sendMessage.mock.calls[0][1]).toContain('⚠️ **Invalid config files** in `repo`');
+
+      // Saving the same errors again is not
+      await writeFile(workflowPath, 'name:  build\nsteps: [\n');
+      await writeFile(join(testDir, '.archon', 'artifacts.md'), 'Not config');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+
+      // The fix is announced
+      await writeFile(workflowPath, workflowYaml('implement'));
+      await waitFor(() => sendMessage.mock.calls.length === 2);
+      expect(sendMessage.mock.calls[1][1]).toContain('✅ **Config files fixed** in `repo`');
+    });
+
+    test('stops keeping removed codebases in memory', async () => {
+      await syncWatchedCodebases(new Map());
+      expect(hasWorkflowSnapshot(testDir)).toBe(true);
+
+      mockListCodebases.mockResolvedValue([]);
+      await syncWatchedCodebases(new Map());
+
+      expect(hasWorkflowSnapshot(testDir)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Config watcher service
+ * Hot-reloads workflows, commands and repo config when files under a registered
+ * codebase's .archon folder change, and the global config when ~/.archon/config.yaml does.
+ *
+ * Changes are debounced, then all three are reloaded together: definitions that load are
+ * swapped in at once, files that fail to load keep their last valid version and the errors
+ * are posted to the conversation that last worked on the codebase. Runs already in progress
+ * keep the workflow definitions they started with.
+ */
+import { watch } from 'fs';
+import type { FSWatcher } from 'fs';
+import { dirname, join } from 'path';
+import * as codebaseDb from '../db/codebases';
+import * as conversationDb from '../db/conversations';
+import { forgetRepoConfig, reloadGlobalConfig, reloadRepoConfig } from '../config/config-loader';
+import { forgetWorkflows, reloadWorkflows } from '../workflows/loader';
+import type { Codebase, IPlatformAdapter } from '../types';
+import {
+  getArchonConfigPath,
+  getCommandFolderSearchPaths,
+  getWorkflowFolderSearchPaths,
+} from '../utils/archon-paths';
+import { findMarkdownFilesRecursive } from '../utils/command-files';
+
+/** Quiet period after the last change before reloading - editors save in several writes */
+const RELOAD_DEBOUNCE_MS = parseInt(process.env.CONFIG_RELOAD_DEBOUNCE_MS ?? '500', 10);
+
+/** How often codebases added or removed since startup are picked up */
+const CODEBASE_SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * A codebase whose .archon folder is being watched
+ */
+interface WatchedCodebase {
+  codebase: Codebase;
+  watcher: FSWatcher;
+  debounceTimer?: NodeJS.Timeout;
+  reloading: Promise<void>; // Reloads run one at a time, in order
+  reportedErrors: string; // Errors last posted (or found at startup) - not posted again
+}
+
+/** Watched codebases, keyed by codebase id */
+const watchedCodebases = new Map<string, WatchedCodebase>();
+
+let globalWatcher: FSWatcher | null = null;
+let globalDebounceTimer: NodeJS.Timeout | undefined;
+let syncIntervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Whether a changed path (relative to the .archon folder) affects workflows, commands or
+ * repo config - artifacts and other files the agents write there are ignored
+ */
+function isConfigFile(filename: string): boolean {
+  const path = join('.archon', filename);
+  const folders = [...getWorkflowFolderSearchPaths(), ...getCommandFolderSearchPaths()];
+  return (
+    path === join('.archon', 'config.yaml') ||
+    folders.some(folder => path === folder || path.startsWith(`${folder}/`))
+  );
+}
+
+/**
+ * Register the command files of the codebase's .archon/commands folder, like /load-commands.
+ * Commands are matched by name: those registered from that folder whose files are gone are
+ * removed, and commands loaded from other folders with /load-commands keep precedence.
+ * @returns Number of registered command files
+ */
+async function syncCommands(codebase: Codebase): Promise<number> {
+  const [folder] = getCommandFolderSearchPaths();
+  let files: { commandName: string; relativePath: string }[] = [];
+  try {
+    files = await findMarkdownFilesRecursive(join(codebase.default_cwd, folder));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  // Commands registered from the folder are recognized by their path, whatever their description
+  const isInFolder = (path: string): boolean => path.startsWith(`${folder}/`);
+  const names = new Set(files.map(file => file.commandName));
+  const current = await codebaseDb.getCodebaseCommands(codebase.id);
+  const commands = Object.fromEntries(
+    Object.entries(current).filter(
+      ([name, command]) => !isInFolder(command.path) || names.has(name)
+    )
+  );
+  for (const { commandName, relativePath } of files) {
+    const existing = commands[commandName] as (typeof commands)[string] | undefined;
+    if (existing && !isInFolder(existing.path)) continue;
+    commands[commandName] = {
+      path: join(folder, relativePath),
+      description: existing?.description ?? `From ${folder}`,
+    };
+  }
+
+  if (JSON.stringify(commands) !== JSON.stringify(current)) {
+    await codebaseDb.updateCodebaseCommands(codebase.id, commands);
+  }
+  return files.length;
+}
+
+/**
+ * Reload a codebase's workflows, commands and repo config from its files
+ * @returns The files that failed to load, formatted for a chat message (empty when all loaded)
+ */
+export async function reloadCodebaseConfig(codebase: Codebase): Promise<string> {
+  const cwd = codebase.default_cwd;
+  const [workflowResults, configErrors, commandCount] = await Promise.all([
+    reloadWorkflows(cwd),
+    reloadRepoConfig(cwd),
+    syncCommands(codebase),
+  ]);
+
+  const invalid = workflowResults.filter(result => result.errors.length > 0);
+  console.log(
+    `[ConfigWatcher] Reloaded ${codebase.name}: ${String(workflowResults.length - invalid.length)} workflow(s), ${String(commandCount)} command(s), ${String(invalid.length + configErrors.length)} invalid file(s)`
+  );
+
+  const sections = invalid.map(
+    result =>
+      `❌ **${result.file}**\n` +
+      result.errors
+        .map(error => {
+          const location = error.line !== undefined ? `line ${String(error.line)}: ` : '';
+          return `  - ${location}${error.message}`;
+        })
+        .join('\n')
+  );
+  if (configErrors.length > 0) {
+    sections.push(`❌ **Repo config**\n${configErrors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Post the result of a reload to the conversation that last worked on the codebase -
+ * new or changed errors, or that earlier errors are fixed
+ */
+async function reportReload(
+  watched: WatchedCodebase,
+  errors: string,
+  adapters: ReadonlyMap<string, IPlatformAdapter>
+): Promise<void> {
+  if (errors === watched.reportedErrors) return;
+  const fixed = !errors;
+  watched.reportedErrors = errors;
+
+  const conversation = await conversationDb.getLastActiveConversation(watched.codebase.id);
+  const platform = conversation ? adapters.get(conversation.platform_type) : undefined;
+  if (!conversation || !platform) {
+    return;
+  }
+  const name = watched.codebase.name;
+  await platform.sendMessage(
+    conversation.platform_conversation_id,
+    fixed
+      ? `✅ **Config files fixed** in \`${name}\` - all changes are loaded.`
+      : `⚠️ **Invalid config files** in \`${name}\` - the last valid version stays in use:\n\n${errors}`
+  );
+}
+
+/**
+ * Queue a reload of a watched codebase after the debounce period
+ */
+function scheduleReload(
+  watched: WatchedCodebase,
+  adapters: ReadonlyMap<string, IPlatformAdapter>
+): void {
+  clearTimeout(watched.debounceTimer);
+  watched.debounceTimer = setTimeout(() => {
+    watched.reloading = watched.reloading
+      .then(async () => {
+        // Unwatched while waiting - a reload would bring back the forgotten snapshots
+        if (watchedCodebases.get(watched.codebase.id) !== watched) return;
+        const errors = await reloadCodebaseConfig(watched.codebase);
+        await reportReload(watched, errors, adapters);
+      })
+      .catch((err: unknown) => {
+        console.error('[ConfigWatcher] Reload failed', {
+          codebaseId: watched.codebase.id,
+          error: (err as Error).message,
+        });
+      });
+  }, RELOAD_DEBOUNCE_MS);
+}
+
+/**
+ * Stop watching a codebase - its files are read from disk on every load again
+ */
+function unwatchCodebase(watched: WatchedCodebase): void {
+  clearTimeout(watched.debounceTimer);
+  watched.watcher.close();
+  watchedCodebases.delete(watched.codebase.id);
+  forgetWorkflows(watched.codebase.default_cwd);
+  forgetRepoConfig(watched.codebase.default_cwd);
+}
+
+/**
+ * Start watching a codebase and load its current files. Codebases without a .archon
+ * folder are skipped - the next sync picks them up once the folder exists.
+ */
+async function watchCodebase(
+  codebase: Codebase,
+  adapters: ReadonlyMap<string, IPlatformAdapter>
+): Promise<void> {
+  const archonPath = join(codebase.default_cwd, '.archon');
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(archonPath, { recursive: true });
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code !== 'ENOENT') {
+      console.warn(`[ConfigWatcher] Cannot watch ${archonPath}: ${err.message}`);
+    }
+    return;
+  }
+
+  const watched: WatchedCodebase = {
+    codebase,
+    watcher,
+    reloading: Promise.resolve(),
+    reportedErrors: '',
+  };
+  watchedCodebases.set(codebase.id, watched);
+
+  watcher.on('change', (_event, filename) => {
+    // Some platforms omit the file name - reload to be safe
+    if (!filename || isConfigFile(filename.toString())) {
+      scheduleReload(watched, adapters);
+    }
+  });
+  watcher.on('error', (err: Error) => {
+    // E.g. the .archon folder was deleted - the next sync watches it again once it is back
+    console.warn(`[ConfigWatcher] Stopped watching ${archonPath}: ${err.message}`);
+    unwatchCodebase(watched);
+  });
+
+  console.log(`[ConfigWatcher] Watching ${archonPath}`);
+  try {
+    // Errors already in the files at startup are not news - only report later changes
+    watched.reportedErrors = await reloadCodebaseConfig(codebase);
+  } catch (error) {
+    console.error('[ConfigWatcher] Initial load failed', {
+      codebaseId: codebase.id,
+      error: (error as Error).message,
+    });
+  }
+}
+
+/**
+ * Watch the .archon folder of every registered codebase - new codebases, moved checkouts
+ * and removed codebases since the last sync are picked up
+ *
+ * @param adapters - Started platform adapters keyed by platform type
+ */
+export async function syncWatchedCodebases(
+  adapters: ReadonlyMap<string, IPlatformAdapter>
+): Promise<void> {
+  const codebases = await codebaseDb.listCodebases();
+  const current = new Map(codebases.map(codebase => [codebase.id, codebase]));
+
+  for (const watched of watchedCodebases.values()) {
+    if (current.get(watched.codebase.id)?.default_cwd !== watched.codebase.default_cwd) {
+      unwatchCodebase(watched);
+    }
+  }
+  for (const codebase of codebases) {
+    if (!watchedCodebases.has(codebase.id)) {
+      await watchCodebase(codebase, adapters);
+    }
+  }
+}
+
+/**
+ * Watch ~/.archon/config.yaml - load errors are logged and the previous config stays in use
+ */
+function watchGlobalConfig(): void {
+  const archonHome = dirname(getArchonConfigPath());
+  try {
+    globalWatcher = watch(archonHome, (_event, filename) => {
+      if (filename && filename !== 'config.yaml') return;
+      clearTimeout(globalDebounceTimer);
+      globalDebounceTimer = setTimeout(() => {
+        void reloadGlobalConfig().then(error => {
+          if (error) {
+            console.warn(`[ConfigWatcher] Keeping previous global config: ${error}`);
+          } else {
+            console.log('[ConfigWatcher] Reloaded global config');
+          }
+        });
+      }, RELOAD_DEBOUNCE_MS);
+    });
+  } catch (error) {
+    console.warn(`[ConfigWatcher] Cannot watch ${archonHome}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Start hot-reloading config files
+ * Watches the registered codebases immediately, then checks for new ones every minute
+ */
+export function startConfigWatcher(adapters: ReadonlyMap<string, IPlatformAdapter>): void {
+  if (syncIntervalId) {
+    console.warn('[ConfigWatcher] Watcher already running');
+    return;
+  }
+
+  const runSync = (): void => {
+    void syncWatchedCodebases(adapters).catch((err: unknown) => {
+      console.error('[ConfigWatcher] Codebase sync failed:', (err as Error).message);
+    });
+  };
+
+  watchGlobalConfig();
+  runSync();
+  syncIntervalId = setInterval(runSync, CODEBASE_SYNC_INTERVAL_MS);
+  console.log('[ConfigWatcher] Watcher started');
+}
+
+/**
+ * Stop hot-reloading config files - loads read from disk again
+ */
+export function stopConfigWatcher(): void {
+  if (syncIntervalId) {
+    clearInterval(syncIntervalId);
+    syncIntervalId = null;
+  }
+  clearTimeout(globalDebounceTimer);
+  globalWatcher?.close();
+  globalWatcher = null;
+  for (const watched of watchedCodebases.values()) {
+    unwatchCodebase(watched);
+  }
+  console.log('[ConfigWatcher] Watcher stopped');
+}
@@ -0,0 +1,413 @@
+import { mock, describe, test, expect, beforeEach } from 'bun:test';
+import type { Conversation, IPlatformAdapter } from '../types';
+import type { WorkflowDefinition, WorkflowRun } from '../workflows';
+import type { ConversationLockManager } from '../utils/conversation-lock';
+
+// Mock workflow runs DB
+const mockInterruptRunningWorkflowRuns = mock(() => Promise.resolve([] as WorkflowRun[]));
+const mockGetWorkflowRun = mock(() => Promise.resolve(null as WorkflowRun | null));
+const mockFailWorkflowRun = mock(() => Promise.resolve());
+const mockListExpiredApprovalRuns = mock(() => Promise.resolve([] as WorkflowRun[]));
+mock.module('../db/workflows', () => ({
+  interruptRunningWorkflowRuns: mockInterruptRunningWorkflowRuns,
+  listExpiredApprovalRuns: mockListExpiredApprovalRuns,
+  getWorkflowRun: mockGetWorkflowRun,
+  failWorkflowRun: mockFailWorkflowRun,
+}));
+
+// Mock conversations DB
+const mockGetConversationById = mock(() => Promise.resolve(null as Conversation | null));
+mock.module('../db/conversations', () => ({
+  getConversationById: mockGetConversationById,
+}));
+
+// Mock codebases DB
+const mockGetCodebase = mock(() => Promise.resolve(null));
+mock.module('../db/codebases', () => ({
+  getCodebase: mockGetCodebase,
+}));
+
+// Mock workflow engine
+const mockDiscoverWorkflows = mock(() => Promise.resolve([] as WorkflowDefinition[]));
+const mockResumeWorkflow = mock(() => Promise.resolve());
+const mockStopPausedWorkflow = mock(() => Promise.resolve());
+mock.module('../workflows', () => ({
+  discoverWorkflows: mockDiscoverWorkflows,
+  fingerprintWorkflow: (definition: WorkflowDefinition) => JSON.stringify(definition),
+  resumeWorkflow: mockResumeWorkflow,
+  stopPausedWorkflow: mockStopPausedWorkflow,
+}));
+
+import {
+  expireApprovalRequests,
+  recoverInterruptedWorkflows,
+  resumeWorkflowRun,
+  stopPausedWorkflowRun,
+} from './workflow-recovery';
+
+const conversation: Conversation = {
+  id: 'conv-uuid',
+  platform_type: 'telegram',
+  platform_conversation_id: 'chat-123',
+  codebase_id: 'codebase-123',
+  cwd: '/workspace/repo',
+  isolation_env_id: null,
+  ai_assistant_type: 'claude',
+  last_activity_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+const interruptedRun: WorkflowRun = {
+  id: 'abcd1234-5678-90ab-cdef-1234567890ab',
+  workflow_name: 'fix-issue',
+  conversation_id: 'conv-uuid',
+  codebase_id: 'codebase-123',
+  current_step_index: 1,
+  status: 'interrupted',
+  user_message: 'fix it',
+  metadata: {},
+  parent_run_id: null,
+  started_at: new Date(),
+  completed_at: null,
+  last_activity_at: null,
+};
+
+const workflow: WorkflowDefinition = {
+  name: 'fix-issue',
+  description: 'Fix an issue',
+  steps: [{ command: 'investigate' }, { command: 'implement' }],
+};
+
+function createPlatform(): IPlatformAdapter {
+  return {
+    sendMessage: mock(() => Promise.resolve()),
+    ensureThread: mock((id: string) => Promise.resolve(id)),
+    getStreamingMode: mock(() => 'batch' as const),
+    getPlatformType: mock(() => 'telegram'),
+    start: mock(() => Promise.resolve()),
+    stop: mock(() => undefined),
+  };
+}
+
+describe('workflow-recovery', () => {
+  let platform: IPlatformAdapter;
+
+  beforeEach(() => {
+    platform = createPlatform();
+    mockInterruptRunningWorkflowRuns.mockReset();
+    mockInterruptRunningWorkflowRuns.mockResolvedValue([]);
+    mockGetWorkflowRun.mockReset();
+    mockGetWorkflowRun.mockResolvedValue(interruptedRun);
+    mockFailWorkflowRun.mockClear();
+    mockListExpiredApprovalRuns.mockReset();
+    mockListExpiredApprovalRuns.mockResolvedValue([]);
+    mockGetConversationById.mockReset();
+    mockGetConversationById.mockResolvedValue(conversation);
+    mockGetCodebase.mockClear();
+    mockDiscoverWorkflows.mockReset();
+    mockDiscoverWorkflows.mockResolvedValue([workflow]);
+    mockResumeWorkflow.mockClear();
+    mockStopPausedWorkflow.mockClear();
+  });
+
+  describe('resumeWorkflowRun', () => {
+    test('resumes the run in the conversation working directory', async () => {
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockDiscoverWorkflows).toHaveBeenCalledWith('/workspace/repo');
+      expect(mockResumeWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-123',
+        '/workspace/repo',
+        workflow,
+        interruptedRun
+      );
+    });
+
+    test('resumes approved runs waiting at an approval step', async () => {
+      const waitingRun = { ...interruptedRun, status: 'waiting_approval' as const };
+      mockGetWorkflowRun.mockResolvedValue(waitingRun);
+
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockResumeWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-123',
+        '/workspace/repo',
+        workflow,
+        waitingRun
+      );
+    });
+
+    test('resumes runs whose workflow definition is unchanged', async () => {
+      const run = {
+        ...interruptedRun,
+        metadata: { definition_fingerprint: JSON.stringify(workflow) },
+      };
+      mockGetWorkflowRun.mockResolvedValue(run);
+
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockResumeWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-123',
+        '/workspace/repo',
+        workflow,
+        run
+      );
+    });
+
+    test('keeps the run paused and offers to discard it when the definition changed', async () => {
+      const startedWith = { ...workflow, steps: [{ command: 'implement' }] };
+      const metadata = { definition_fingerprint: JSON.stringify(startedWith) };
+      mockGetWorkflowRun.mockResolvedValue({ ...interruptedRun, metadata });
+
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockResumeWorkflow).not.toHaveBeenCalled();
+      expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+      expect(platform.sendMessage).toHaveBeenCalledWith(
+        'chat-123',
+        '❌ **Cannot resume workflow** `fix-issue`: its definition changed since the run started. Restore the previous definition to resume it, or use `/workflow abandon abcd1234` to discard it.'
+      );
+
+      mockGetWorkflowRun.mockResolvedValue({
+        ...interruptedRun,
+        status: 'waiting_approval',
+        metadata,
+      });
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockResumeWorkflow).not.toHaveBeenCalled();
+      expect(platform.sendMessage).toHaveBeenLastCalledWith(
+        'chat-123',
+        expect.stringContaining('use `/reject abcd1234 <reason>` to discard it')
+      );
+    });
+
+    test('skips runs that are no longer paused', async () => {
+      mockGetWorkflowRun.mockResolvedValue({ ...interruptedRun, status: 'failed' });
+
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockResumeWorkflow).not.toHaveBeenCalled();
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+    });
+
+    test('fails the run when the workflow definition is gone', async () => {
+      mockDiscoverWorkflows.mockResolvedValue([]);
+
+      await resumeWorkflowRun(platform, interruptedRun.id);
+
+      expect(mockResumeWorkflow).not.toHaveBeenCalled();
+      expect(mockFailWorkflowRun).toHaveBeenCalledWith(
+        interruptedRun.id,
+        'Resume failed: the workflow definition no longer exists'
+      );
+      expect(platform.sendMessage).toHaveBeenCalledWith(
+        'chat-123',
+        expect.stringContaining('Cannot resume workflow')
+      );
+    });
+  });
+
+  describe('stopPausedWorkflowRun', () => {
+    test('stops abandoned runs through the workflow engine, which runs their hooks', async () => {
+      await stopPausedWorkflowRun(platform, interruptedRun.id, 'Abandoned by user');
+
+      expect(mockStopPausedWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-123',
+        '/workspace/repo',
+        workflow,
+        interruptedRun,
+        'Abandoned by user',
+        undefined
+      );
+      expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+    });
+
+    test('stops rejected runs with their failure reason', async () => {
+      const waitingRun = { ...interruptedRun, status: 'waiting_approval' as const };
+      mockGetWorkflowRun.mockResolvedValue(waitingRun);
+
+      await stopPausedWorkflowRun(platform, interruptedRun.id, 'Rejected: no', 'rejected');
+
+      expect(mockStopPausedWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-123',
+        '/workspace/repo',
+        workflow,
+        waitingRun,
+        'Rejected: no',
+        'rejected'
+      );
+    });
+
+    test('only fails the run when the workflow definition is gone', async () => {
+      mockDiscoverWorkflows.mockResolvedValue([]);
+
+      await stopPausedWorkflowRun(platform, interruptedRun.id, 'Rejected: no', 'rejected');
+
+      expect(mockStopPausedWorkflow).not.toHaveBeenCalled();
+      expect(mockFailWorkflowRun).toHaveBeenCalledWith(
+        interruptedRun.id,
+        'Rejected: no',
+        'rejected'
+      );
+    });
+
+    test('skips runs that are no longer paused', async () => {
+      mockGetWorkflowRun.mockResolvedValue({ ...interruptedRun, status: 'running' });
+
+      await stopPausedWorkflowRun(platform, interruptedRun.id, 'Abandoned by user');
+
+      expect(mockStopPausedWorkflow).not.toHaveBeenCalled();
+      expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recoverInterruptedWorkflows', () => {
+    test('does nothing when no runs were interrupted', async () => {
+      const adapters = new Map([['telegram', platform]]);
+      const lockManager = { acquireLock: mock(() => Promise.resolve()) };
+
+      await recoverInterruptedWorkflows(
+        adapters,
+        lockManager as unknown as ConversationLockManager,
+        'resume'
+      );
+
+      expect(mockGetConversationById).not.toHaveBeenCalled();
+      expect(lockManager.acquireLock).not.toHaveBeenCalled();
+    });
+
+    test('offers resume and abandon commands in offer mode', async () => {
+      mockInterruptRunningWorkflowRuns.mockResolvedValue([
+        { ...interruptedRun, status: 'running' },
+      ]);
+      const adapters = new Map([['telegram', platform]]);
+      const lockManager = { acquireLock: mock(() => Promise.resolve()) };
+
+      await recoverInterruptedWorkflows(
+        adapters,
+        lockManager as unknown as ConversationLockManager,
+        'offer'
+      );
+
+      expect(lockManager.acquireLock).not.toHaveBeenCalled();
+      const message = (platform.sendMessage as ReturnType<typeof mock>).mock.calls[0][1] as string;
+      expect(message).toContain('Workflow interrupted');
+      expect(message).toContain('/workflow resume abcd1234');
+      expect(message).toContain('/workflow abandon abcd1234');
+    });
+
+    test('resumes runs under the conversation lock in resume mode', async () => {
+      mockInterruptRunningWorkflowRuns.mockResolvedValue([
+        { ...interruptedRun, status: 'running' },
+      ]);
+      const adapters = new Map([['telegram', platform]]);
+      let lockedWork: Promise<void> | undefined;
+      const lockManager = {
+        acquireLock: mock((_id: string, handler: () => Promise<void>) => {
+          lockedWork = handler();
+          return lockedWork;
+        }),
+      };
+
+      await recoverInterruptedWorkflows(
+        adapters,
+        lockManager as unknown as ConversationLockManager,
+        'resume'
+      );
+      await lockedWork;
+
+      expect(lockManager.acquireLock).toHaveBeenCalledWith('chat-123', expect.any(Function));
+      expect(mockResumeWorkflow).toHaveBeenCalledTimes(1);
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+    });
+
+    test('skips runs whose platform adapter is not running', async () => {
+      mockInterruptRunningWorkflowRuns.mockResolvedValue([
+        { ...interruptedRun, status: 'running' },
+      ]);
+      mockGetConversationById.mockResolvedValue({ ...conversation, platform_type: 'slack' });
+      const adapters = new Map([['telegram', platform]]);
+      const lockManager = { acquireLock: mock(() => Promise.resolve()) };
+
+      await recoverInterruptedWorkflows(
+        adapters,
+        lockManager as unknown as ConversationLockManager,
+        'offer'
+      );
+
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+      expect(lockManager.acquireLock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireApprovalRequests', () => {
+    const waitingRun = { ...interruptedRun, status: 'waiting_approval' as const };
+    const lockManager = {
+      acquireLock: mock((_id: string, handler: () => Promise<void>) => handler()),
+    };
+
+    beforeEach(() => {
+      mockListExpiredApprovalRuns.mockResolvedValue([waitingRun]);
+      mockGetWorkflowRun.mockResolvedValue(waitingRun);
+      lockManager.acquireLock.mockClear();
+    });
+
+    test('stops expired runs under the conversation lock and notifies their conversations', async () => {
+      const adapters = new Map([['telegram', platform]]);
+
+      await expireApprovalRequests(adapters, lockManager as unknown as ConversationLockManager);
+
+      expect(lockManager.acquireLock).toHaveBeenCalledWith('chat-123', expect.any(Function));
+      expect(platform.sendMessage).toHaveBeenCalledWith(
+        'chat-123',
+        expect.stringContaining('Approval expired')
+      );
+      expect(mockStopPausedWorkflow).toHaveBeenCalledWith(
+        platform,
+        'chat-123',
+        '/workspace/repo',
+        workflow,
+        waitingRun,
+        'Approval request expired',
+        'approval_timeout'
+      );
+    });
+
+    test('leaves runs approved or rejected while waiting for the lock', async () => {
+      mockGetWorkflowRun.mockResolvedValue({ ...waitingRun, status: 'running' });
+
+      await expireApprovalRequests(
+        new Map([['telegram', platform]]),
+        lockManager as unknown as ConversationLockManager
+      );
+
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+      expect(mockStopPausedWorkflow).not.toHaveBeenCalled();
+      expect(mockFailWorkflowRun).not.toHaveBeenCalled();
+    });
+
+    test('still fails the run when its platform adapter is not running', async () => {
+      mockGetConversationById.mockResolvedValue({ ...conversation, platform_type: 'slack' });
+
+      await expireApprovalRequests(
+        new Map([['telegram', platform]]),
+        lockManager as unknown as ConversationLockManager
+      );
+
+      expect(mockFailWorkflowRun).toHaveBeenCalledWith(
+        interruptedRun.id,
+        'Approval request expired',
+        'approval_timeout'
+      );
+      expect(platform.sendMessage).not.toHaveBeenCalled();
+      expect(lockManager.acquireLock).not.toHaveBeenCalled();
+    });
+  });
+});
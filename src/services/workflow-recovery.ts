@@ -0,0 +1,330 @@
+/**
+ * Workflow recovery service
+ * Handles workflow runs interrupted by a process restart (deploys, crashes) and
+ * paused runs that are approved or whose approval request expires
+ */
+import * as workflowDb from '../db/workflows';
+import * as conversationDb from '../db/conversations';
+import * as codebaseDb from '../db/codebases';
+import {
+  discoverWorkflows,
+  fingerprintWorkflow,
+  resumeWorkflow,
+  stopPausedWorkflow,
+} from '../workflows';
+import type { WorkflowDefinition, WorkflowFailureReason, WorkflowRun } from '../workflows';
+import type { IPlatformAdapter } from '../types';
+import type { ConversationLockManager } from '../utils/conversation-lock';
+
+/** How often expired approval requests are checked */
+const APPROVAL_EXPIRY_INTERVAL_MS = 5 * 60 * 1000;
+
+let approvalExpiryIntervalId: NodeJS.Timeout | null = null;
+
+/**
+ * Mark a paused run that cannot be resumed as failed and tell the user
+ */
+async function failUnresumableRun(
+  platform: IPlatformAdapter,
+  conversationId: string,
+  workflowRun: WorkflowRun,
+  reason: string
+): Promise<void> {
+  console.warn(`[WorkflowRecovery] Cannot resume ${workflowRun.id}: ${reason}`);
+  await workflowDb.failWorkflowRun(workflowRun.id, `Resume failed: ${reason}`);
+  await platform.sendMessage(
+    conversationId,
+    `❌ **Cannot resume workflow** \`${workflowRun.workflow_name}\`: ${reason}`
+  );
+}
+
+/**
+ * A paused run with the conversation, working directory and (re-discovered) workflow
+ * it continues or stops in
+ */
+interface PausedRunTarget {
+  conversationId: string;
+  cwd: string;
+  workflow: WorkflowDefinition;
+  workflowRun: WorkflowRun;
+}
+
+/**
+ * Look up a paused run and re-discover its workflow by name. Returns null for runs that
+ * are no longer paused (already resumed, abandoned or rejected); when the working
+ * directory or the workflow definition is gone, `onUnavailable` is called instead.
+ */
+async function findPausedRunTarget(
+  workflowRunId: string,
+  onUnavailable: (conversationId: string, workflowRun: WorkflowRun, reason: string) => Promise<void>
+): Promise<PausedRunTarget | null> {
+  const workflowRun = await workflowDb.getWorkflowRun(workflowRunId);
+  if (workflowRun?.status !== 'interrupted' && workflowRun?.status !== 'waiting_approval') {
+    console.log(`[WorkflowRecovery] Run ${workflowRunId} is no longer paused, skipping`);
+    return null;
+  }
+
+  const conversation = await conversationDb.getConversationById(workflowRun.conversation_id);
+  if (!conversation) {
+    console.warn(`[WorkflowRecovery] Conversation not found for run ${workflowRun.id}`);
+    return null;
+  }
+  const conversationId = conversation.platform_conversation_id;
+
+  const codebaseId = workflowRun.codebase_id ?? conversation.codebase_id;
+  const codebase = codebaseId ? await codebaseDb.getCodebase(codebaseId) : null;
+  const cwd = conversation.cwd ?? codebase?.default_cwd;
+  if (!cwd) {
+    await onUnavailable(conversationId, workflowRun, 'no working directory');
+    return null;
+  }
+
+  let workflows;
+  try {
+    workflows = await discoverWorkflows(cwd);
+  } catch (error) {
+    const err = error as Error;
+    await onUnavailable(conversationId, workflowRun, `workflow discovery failed (${err.message})`);
+    return null;
+  }
+
+  const workflow = workflows.find(w => w.name === workflowRun.workflow_name);
+  if (!workflow) {
+    await onUnavailable(conversationId, workflowRun, 'the workflow definition no longer exists');
+    return null;
+  }
+  return { conversationId, cwd, workflow, workflowRun };
+}
+
+/**
+ * Resume an interrupted or approved workflow run in its conversation's working directory.
+ * The workflow definition is re-discovered by name; if it no longer loads, the run
+ * is marked failed and the user notified. If it changed since the run started, the run
+ * stays paused and the user is offered to discard it - its position refers to the old
+ * steps. Runs that are no longer paused (already resumed, abandoned or rejected) are
+ * left alone.
+ */
+export async function resumeWorkflowRun(
+  platform: IPlatformAdapter,
+  workflowRunId: string
+): Promise<void> {
+  const target = await findPausedRunTarget(workflowRunId, (conversationId, workflowRun, reason) =>
+    failUnresumableRun(platform, conversationId, workflowRun, reason)
+  );
+  if (!target) {
+    return;
+  }
+
+  const { conversationId, cwd, workflow, workflowRun } = target;
+  const fingerprint = workflowRun.metadata.definition_fingerprint;
+  if (typeof fingerprint === 'string' && fingerprint !== fingerprintWorkflow(workflow)) {
+    console.warn(`[WorkflowRecovery] Not resuming ${workflowRun.id}: definition changed`);
+    const shortId = workflowRun.id.slice(0, 8);
+    const discard =
+      workflowRun.status === 'waiting_approval'
+        ? `\`/reject ${shortId} <reason>\``
+        : `\`/workflow abandon ${shortId}\``;
+    await platform.sendMessage(
+      conversationId,
+      `❌ **Cannot resume workflow** \`${workflowRun.workflow_name}\`: its definition changed since the run started. Restore the previous definition to resume it, or use ${discard} to discard it.`
+    );
+    return;
+  }
+
+  // resumeWorkflow handles its own errors and user messaging
+  await resumeWorkflow(platform, conversationId, cwd, workflow, workflowRun);
+}
+
+/**
+ * Stop a paused workflow run that will not be resumed (rejected, abandoned, cancelled or
+ * approval expired): the run is failed and its `on_failure` and `finally` steps run.
+ * When its workflow definition no longer loads, the run is only failed.
+ * Runs that are no longer paused are left alone.
+ */
+export async function stopPausedWorkflowRun(
+  platform: IPlatformAdapter,
+  workflowRunId: string,
+  error: string,
+  reason?: WorkflowFailureReason
+): Promise<void> {
+  const target = await findPausedRunTarget(
+    workflowRunId,
+    async (_conversationId, workflowRun, unavailableReason) => {
+      console.warn(
+        `[WorkflowRecovery] Not running hooks of ${workflowRun.id}: ${unavailableReason}`
+      );
+      await workflowDb.failWorkflowRun(workflowRun.id, error, reason);
+    }
+  );
+  if (!target) {
+    return;
+  }
+
+  const { conversationId, cwd, workflow, workflowRun } = target;
+  await stopPausedWorkflow(platform, conversationId, cwd, workflow, workflowRun, error, reason);
+}
+
+/**
+ * Format the message offering to resume or abandon an interrupted run
+ */
+function formatInterruptedRunOffer(workflowRun: WorkflowRun): string {
+  const shortId = workflowRun.id.slice(0, 8);
+  return `⚠️ **Workflow interrupted**: \`${workflowRun.workflow_name}\` (ID: ${shortId}) was stopped by a server restart.
+
+Use \`/workflow resume ${shortId}\` to continue where it left off, or \`/workflow abandon ${shortId}\` to discard it.`;
+}
+
+/**
+ * Handle workflow runs left 'running' by the previous process. Call once at startup,
+ * after the platform adapters have started.
+ *
+ * Every such run is marked 'interrupted'. Depending on `mode`, each run is then either
+ * resumed under its conversation lock ('resume') or the conversation gets a message
+ * offering `/workflow resume <id>` and `/workflow abandon <id>` ('offer').
+ *
+ * @param adapters - Started platform adapters keyed by platform type
+ */
+export async function recoverInterruptedWorkflows(
+  adapters: ReadonlyMap<string, IPlatformAdapter>,
+  lockManager: ConversationLockManager,
+  mode: 'resume' | 'offer'
+): Promise<void> {
+  const runs = await workflowDb.interruptRunningWorkflowRuns();
+  if (runs.length === 0) {
+    return;
+  }
+
+  console.log(
+    `[WorkflowRecovery] Found ${String(runs.length)} interrupted workflow run(s) (mode: ${mode})`
+  );
+
+  for (const workflowRun of runs) {
+    try {
+      const conversation = await conversationDb.getConversationById(workflowRun.conversation_id);
+      const platform = conversation ? adapters.get(conversation.platform_type) : undefined;
+      if (!conversation || !platform) {
+        console.warn('[WorkflowRecovery] No platform available for interrupted run', {
+          workflowId: workflowRun.id,
+          platformType: conversation?.platform_type,
+        });
+        continue;
+      }
+
+      const conversationId = conversation.platform_conversation_id;
+      if (mode === 'offer') {
+        await platform.sendMessage(conversationId, formatInterruptedRunOffer(workflowRun));
+        continue;
+      }
+
+      console.log(`[WorkflowRecovery] Resuming ${workflowRun.workflow_name} (${workflowRun.id})`);
+      // Fire-and-forget: the lock serializes the resumed run with new messages
+      lockManager
+        .acquireLock(conversationId, async () => {
+          await resumeWorkflowRun(platform, workflowRun.id);
+        })
+        .catch((error: unknown) => {
+          console.error('[WorkflowRecovery] Failed to resume workflow run', {
+            workflowId: workflowRun.id,
+            error: (error as Error).message,
+          });
+        });
+    } catch (error) {
+      console.error('[WorkflowRecovery] Failed to recover workflow run', {
+        workflowId: workflowRun.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+/**
+ * Stop runs whose approval request has expired and tell their conversations.
+ * Expiry is checked against the database, so requests made before a restart still expire.
+ * The runs' `on_failure` and `finally` steps run under their conversation lock; without a
+ * running platform adapter the run is only failed.
+ *
+ * @param adapters - Started platform adapters keyed by platform type
+ */
+export async function expireApprovalRequests(
+  adapters: ReadonlyMap<string, IPlatformAdapter>,
+  lockManager: ConversationLockManager
+): Promise<void> {
+  const runs = await workflowDb.listExpiredApprovalRuns();
+
+  for (const workflowRun of runs) {
+    try {
+      console.log(
+        `[WorkflowRecovery] Approval expired for ${workflowRun.workflow_name} (${workflowRun.id})`
+      );
+
+      const conversation = await conversationDb.getConversationById(workflowRun.conversation_id);
+      const platform = conversation ? adapters.get(conversation.platform_type) : undefined;
+      if (!conversation || !platform) {
+        await workflowDb.failWorkflowRun(
+          workflowRun.id,
+          'Approval request expired',
+          'approval_timeout'
+        );
+        continue;
+      }
+      const conversationId = conversation.platform_conversation_id;
+      await lockManager.acquireLock(conversationId, async () => {
+        // Approved or rejected while waiting for the lock
+        const current = await workflowDb.getWorkflowRun(workflowRun.id);
+        if (current?.status !== 'waiting_approval') {
+          return;
+        }
+        await platform.sendMessage(
+          conversationId,
+          `⌛ **Approval expired** for \`${workflowRun.workflow_name}\` (ID: ${workflowRun.id.slice(0, 8)}). The workflow has been stopped.`
+        );
+        await stopPausedWorkflowRun(
+          platform,
+          workflowRun.id,
+          'Approval request expired',
+          'approval_timeout'
+        );
+      });
+    } catch (error) {
+      console.error('[WorkflowRecovery] Failed to expire approval request', {
+        workflowId: workflowRun.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+/**
+ * Start checking for expired approval requests
+ * Runs immediately on startup, then every 5 minutes
+ */
+export function startApprovalExpiryScheduler(
+  adapters: ReadonlyMap<string, IPlatformAdapter>,
+  lockManager: ConversationLockManager
+): void {
+  if (approvalExpiryIntervalId) {
+    console.warn('[WorkflowRecovery] Approval expiry scheduler already running');
+    return;
+  }
+
+  const runExpiryCheck = (): void => {
+    void expireApprovalRequests(adapters, lockManager).catch((err: unknown) => {
+      console.error('[WorkflowRecovery] Approval expiry check failed:', (err as Error).message);
+    });
+  };
+
+  runExpiryCheck();
+  approvalExpiryIntervalId = setInterval(runExpiryCheck, APPROVAL_EXPIRY_INTERVAL_MS);
+  console.log('[WorkflowRecovery] Approval expiry scheduler started');
+}
+
+/**
+ * Stop checking for expired approval requests
+ */
+export function stopApprovalExpiryScheduler(): void {
+  if (approvalExpiryIntervalId) {
+    clearInterval(approvalExpiryIntervalId);
+    approvalExpiryIntervalId = null;
+    console.log('[WorkflowRecovery] Approval expiry scheduler stopped');
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Core type definitions for the Remote Coding Agent platform
  */
+import type { WorkflowFailureReason } from '../workflows/types';
 
 /**
  * Custom error for when a conversation is not found during update operations
@@ -102,6 +103,19 @@ export interface CommandResult {
   success: boolean;
   message: string;
   modified?: boolean; // Indicates if conversation state was modified
+  resumeWorkflowRunId?: string; // Interrupted workflow run the orchestrator should resume
+  stopWorkflowRun?: {
+    // Paused workflow run the orchestrator should fail, running its on_failure/finally steps
+    id: string;
+    error: string;
+    reason?: WorkflowFailureReason;
+  };
+  runWorkflow?: {
+    // Workflow started with /workflow run - bypasses the AI router
+    name: string;
+    userMessage: string; // Text after the inputs ($USER_MESSAGE / $ARGUMENTS)
+    inputs: Record<string, string>; // Raw `name=value` pairs for the workflow's `inputs:`
+  };
 }
 
 /**
@@ -145,17 +159,40 @@ export interface IPlatformAdapter {
   stop(): void;
 }
 
+/**
+ * Tokens and cost of one or more AI queries
+ */
+export interface TokenUsage {
+  inputTokens: number; // Uncached input tokens
+  outputTokens: number;
+  cacheReadTokens: number; // Input tokens served from the prompt cache
+  cacheWriteTokens: number; // Input tokens written to the prompt cache
+  costUsd?: number; // Reported by Claude - Codex reports tokens only
+}
+
 /**
  * Message chunk from AI assistant
  */
 export interface MessageChunk {
-  type: 'assistant' | 'result' | 'system' | 'tool' | 'thinking';
+  type: 'assistant' | 'result' | 'system' | 'tool' | 'thinking' | 'usage';
   content?: string;
   sessionId?: string;
 
   // For tool calls
   toolName?: string;
   toolInput?: Record<string, unknown>;
+
+  // For result chunks - usage of the whole query.
+  // For usage chunks - tokens of one model response while the query runs (no cost)
+  usage?: TokenUsage;
+}
+
+/**
+ * Optional per-query settings for AI assistant clients
+ */
+export interface QueryOptions {
+  abortSignal?: AbortSignal; // Aborting stops the underlying agent process/turn
+  model?: string; // Model for this query (default: the assistant's configured model)
 }
 
 /**
@@ -168,8 +205,14 @@ export interface IAssistantClient {
    * @param prompt - User message or prompt
    * @param cwd - Working directory for the assistant
    * @param resumeSessionId - Optional session ID to resume
+   * @param options - Optional query settings (e.g. abort signal, model)
    */
-  sendQuery(prompt: string, cwd: string, resumeSessionId?: string): AsyncGenerator<MessageChunk>;
+  sendQuery(
+    prompt: string,
+    cwd: string,
+    resumeSessionId?: string,
+    options?: QueryOptions
+  ): AsyncGenerator<MessageChunk>;
 
   /**
    * Get the assistant type identifier
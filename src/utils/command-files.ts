@@ -0,0 +1,39 @@
+/**
+ * Command files - the markdown prompts in a repository's command folders
+ */
+import { readdir } from 'fs/promises';
+import { basename, join } from 'path';
+
+/**
+ * Recursively find all .md files in a directory and its subdirectories
+ */
+export async function findMarkdownFilesRecursive(
+  rootPath: string,
+  relativePath = ''
+): Promise<{ commandName: string; relativePath: string }[]> {
+  const results: { commandName: string; relativePath: string }[] = [];
+  const fullPath = join(rootPath, relativePath);
+
+  const entries = await readdir(fullPath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    // Skip hidden directories and common exclusions
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue;
+    }
+
+    if (entry.isDirectory()) {
+      // Recurse into subdirectory
+      const subResults = await findMarkdownFilesRecursive(rootPath, join(relativePath, entry.name));
+      results.push(...subResults);
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      // Found a markdown file - use filename as command name
+      results.push({
+        commandName: basename(entry.name, '.md'),
+        relativePath: join(relativePath, entry.name),
+      });
+    }
+  }
+
+  return results;
+}
@@ -3,11 +3,9 @@
  * Removes sensitive values from strings to prevent credential leaks
  */
 
-const SENSITIVE_ENV_VARS = ['GH_TOKEN', 'GITHUB_TOKEN'];
+import { escapeRegExp } from './regexp';
 
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+const SENSITIVE_ENV_VARS = ['GH_TOKEN', 'GITHUB_TOKEN'];
 
 export function sanitizeCredentials(input: string): string {
   let result = input;
@@ -0,0 +1,10 @@
+import { describe, test, expect } from 'bun:test';
+import { escapeRegExp } from './regexp';
+
+describe('escapeRegExp', () => {
+  test('matches special characters literally', () => {
+    const text = 'fix (v1.2) [ci] $HOME*';
+    expect(new RegExp(`^${escapeRegExp(text)}$`).test(text)).toBe(true);
+    expect(new RegExp(escapeRegExp('a.c')).test('abc')).toBe(false);
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Regular expression helpers
+ */
+
+/**
+ * Escape special regex characters so the text matches literally
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
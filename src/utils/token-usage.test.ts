@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'bun:test';
+import { addTokenUsage, emptyTokenUsage, formatTokenUsage, parseTokenUsage } from './token-usage';
+
+describe('token-usage', () => {
+  const claude = {
+    inputTokens: 1200,
+    outputTokens: 340,
+    cacheReadTokens: 50_000,
+    cacheWriteTokens: 800,
+    costUsd: 0.125,
+  };
+  const codex = { inputTokens: 500, outputTokens: 200, cacheReadTokens: 1000, cacheWriteTokens: 0 };
+
+  describe('addTokenUsage', () => {
+    test('sums tokens and keeps a cost when either side has one', () => {
+      expect(addTokenUsage(claude, codex)).toEqual({
+        inputTokens: 1700,
+        outputTokens: 540,
+        cacheReadTokens: 51_000,
+        cacheWriteTokens: 800,
+        costUsd: 0.125,
+      });
+      expect(addTokenUsage(emptyTokenUsage(), codex)).toEqual(codex);
+    });
+  });
+
+  describe('parseTokenUsage', () => {
+    test('reads stored usages and rejects anything else', () => {
+      expect(parseTokenUsage(JSON.parse(JSON.stringify(claude)))).toEqual(claude);
+      expect(parseTokenUsage(codex)).toEqual(codex);
+      expect(parseTokenUsage({ inputTokens: '12' })).toBeNull();
+      expect(parseTokenUsage(null)).toBeNull();
+    });
+  });
+
+  describe('formatTokenUsage', () => {
+    test('shows the cost and token counts', () => {
+      expect(formatTokenUsage(claude)).toBe('$0.13 (2.0k in, 340 out, 50.0k cached)');
+      expect(formatTokenUsage(emptyTokenUsage())).toBe('cost unknown (0 in, 0 out)');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Token Usage
+ *
+ * Adds up and formats the token usage and cost AI clients report on result chunks
+ */
+import type { TokenUsage } from '../types';
+
+/**
+ * Usage of no queries at all
+ */
+export function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+/**
+ * Sum of two usages. The cost stays unknown only when neither side reports one.
+ */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const sum: TokenUsage = {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+  };
+  if (a.costUsd !== undefined || b.costUsd !== undefined) {
+    sum.costUsd = (a.costUsd ?? 0) + (b.costUsd ?? 0);
+  }
+  return sum;
+}
+
+/**
+ * Read a usage stored as JSON (e.g. in run metadata)
+ * @returns null when the value is not a usage
+ */
+export function parseTokenUsage(value: unknown): TokenUsage | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const counts = [raw.inputTokens, raw.outputTokens, raw.cacheReadTokens, raw.cacheWriteTokens];
+  if (!counts.every(count => typeof count === 'number')) return null;
+  const usage: TokenUsage = {
+    inputTokens: raw.inputTokens as number,
+    outputTokens: raw.outputTokens as number,
+    cacheReadTokens: raw.cacheReadTokens as number,
+    cacheWriteTokens: raw.cacheWriteTokens as number,
+  };
+  if (typeof raw.costUsd === 'number') {
+    usage.costUsd = raw.costUsd;
+  }
+  return usage;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+/**
+ * Format a usage for chat messages, e.g. "$0.42 (12.3k in, 4.5k out, 80.1k cached)"
+ */
+export function formatTokenUsage(usage: TokenUsage): string {
+  const parts = [
+    `${formatTokens(usage.inputTokens + usage.cacheWriteTokens)} in`,
+    `${formatTokens(usage.outputTokens)} out`,
+  ];
+  if (usage.cacheReadTokens > 0) {
+    parts.push(`${formatTokens(usage.cacheReadTokens)} cached`);
+  }
+  const cost = usage.costUsd !== undefined ? `$${usage.costUsd.toFixed(2)}` : 'cost unknown';
+  return `${cost} (${parts.join(', ')})`;
+}
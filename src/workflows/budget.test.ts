@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  budgetFromConfig,
+  emptyBudgetSpend,
+  findExceededLimit,
+  mergeBudgets,
+  spendFromUsage,
+} from './budget';
+
+describe('budget', () => {
+  describe('spendFromUsage', () => {
+    it('should count input, output and cache writes but not cache reads', () => {
+      expect(
+        spendFromUsage({
+          inputTokens: 1200,
+          outputTokens: 340,
+          cacheReadTokens: 50_000,
+          cacheWriteTokens: 800,
+          costUsd: 0.125,
+        })
+      ).toEqual({ tokens: 2340, costUsd: 0.125, toolCalls: 0, turns: 0 });
+    });
+  });
+
+  describe('mergeBudgets', () => {
+    it('should keep the lowest limit of each kind', () => {
+      expect(
+        mergeBudgets(
+          { max_cost_usd: 5, max_turns: 100 },
+          undefined,
+          budgetFromConfig({ maxCostUsd: 2, maxToolCalls: 50 })
+        )
+      ).toEqual({ max_cost_usd: 2, max_turns: 100, max_tool_calls: 50 });
+      expect(mergeBudgets(undefined, {})).toEqual({});
+    });
+  });
+
+  describe('findExceededLimit', () => {
+    it('should describe the first limit the spend is over', () => {
+      const spend = { tokens: 52_300, costUsd: 5.123, toolCalls: 20, turns: 31 };
+
+      expect(findExceededLimit({ max_tokens: 50_000 }, spend)).toBe('52,300 tokens (max 50,000)');
+      expect(findExceededLimit({ max_cost_usd: 5 }, spend)).toBe('$5.12 (max $5.00)');
+      expect(findExceededLimit({ max_tool_calls: 20, max_turns: 30 }, spend)).toBe(
+        '31 turns (max 30)'
+      );
+      expect(findExceededLimit({ max_tool_calls: 20 }, spend)).toBeUndefined();
+      expect(findExceededLimit({}, emptyBudgetSpend())).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Workflow Budgets
+ *
+ * Spending limits for runs and steps (`budget:`) and the config ceilings above them.
+ * The executor adds up what each scope spends as the AI reports tool calls, messages
+ * and token usage, and stops the scope at the first limit it exceeds.
+ */
+import type { BudgetConfig } from '../config/config-types';
+import type { TokenUsage } from '../types';
+import type { WorkflowBudget } from './types';
+
+/**
+ * What a run or step has spent so far
+ */
+export interface BudgetSpend {
+  tokens: number; // See countBudgetTokens
+  costUsd: number; // Reported costs only
+  toolCalls: number;
+  turns: number; // Assistant messages
+}
+
+/** Limits a `budget:` mapping can set */
+export const BUDGET_LIMIT_KEYS: readonly (keyof WorkflowBudget)[] = [
+  'max_tokens',
+  'max_cost_usd',
+  'max_tool_calls',
+  'max_turns',
+];
+
+/**
+ * Spend of nothing at all
+ */
+export function emptyBudgetSpend(): BudgetSpend {
+  return { tokens: 0, costUsd: 0, toolCalls: 0, turns: 0 };
+}
+
+/**
+ * Tokens a usage counts toward `max_tokens`: input and output, including cache writes.
+ * Cache reads are left out - they are cheap and a long session re-reads its whole
+ * context on every turn, so `max_cost_usd` is the limit that covers them.
+ */
+export function countBudgetTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.cacheWriteTokens + usage.outputTokens;
+}
+
+/**
+ * Spend of an AI query's usage
+ */
+export function spendFromUsage(usage: TokenUsage): BudgetSpend {
+  return {
+    ...emptyBudgetSpend(),
+    tokens: countBudgetTokens(usage),
+    costUsd: usage.costUsd ?? 0,
+  };
+}
+
+/**
+ * Sum of two spends
+ */
+export function addBudgetSpend(a: BudgetSpend, b: BudgetSpend): BudgetSpend {
+  return {
+    tokens: a.tokens + b.tokens,
+    costUsd: a.costUsd + b.costUsd,
+    toolCalls: a.toolCalls + b.toolCalls,
+    turns: a.turns + b.turns,
+  };
+}
+
+/**
+ * Config ceilings (`budget:` in the global or repo config) as a workflow budget
+ */
+export function budgetFromConfig(config: BudgetConfig): WorkflowBudget {
+  const budget: WorkflowBudget = {};
+  if (config.maxTokens !== undefined) budget.max_tokens = config.maxTokens;
+  if (config.maxCostUsd !== undefined) budget.max_cost_usd = config.maxCostUsd;
+  if (config.maxToolCalls !== undefined) budget.max_tool_calls = config.maxToolCalls;
+  if (config.maxTurns !== undefined) budget.max_turns = config.maxTurns;
+  return budget;
+}
+
+/**
+ * Combine budgets - the lowest limit of each kind applies
+ */
+export function mergeBudgets(...budgets: (WorkflowBudget | undefined)[]): WorkflowBudget {
+  const merged: WorkflowBudget = {};
+  for (const budget of budgets) {
+    for (const key of BUDGET_LIMIT_KEYS) {
+      const limit = budget?.[key];
+      if (limit !== undefined) {
+        merged[key] = Math.min(limit, merged[key] ?? Infinity);
+      }
+    }
+  }
+  return merged;
+}
+
+function formatCount(count: number): string {
+  return count.toLocaleString('en-US');
+}
+
+/**
+ * Describe the first limit a spend is over, e.g. "21 tool calls (max 20)"
+ * @returns undefined while the spend is within every limit
+ */
+export function findExceededLimit(budget: WorkflowBudget, spend: BudgetSpend): string | undefined {
+  if (budget.max_tokens !== undefined && spend.tokens > budget.max_tokens) {
+    return `${formatCount(spend.tokens)} tokens (max ${formatCount(budget.max_tokens)})`;
+  }
+  if (budget.max_cost_usd !== undefined && spend.costUsd > budget.max_cost_usd) {
+    return `$${spend.costUsd.toFixed(2)} (max $${budget.max_cost_usd.toFixed(2)})`;
+  }
+  if (budget.max_tool_calls !== undefined && spend.toolCalls > budget.max_tool_calls) {
+    return `${formatCount(spend.toolCalls)} tool calls (max ${formatCount(budget.max_tool_calls)})`;
+  }
+  if (budget.max_turns !== undefined && spend.turns > budget.max_turns) {
+    return `${formatCount(spend.turns)} turns (max ${formatCount(budget.max_turns)})`;
+  }
+  return undefined;
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  evaluateCondition,
+  getConditionStepRefs,
+  getConditionVariableRefs,
+  parseCondition,
+  type ConditionContext,
+} from './conditions';
+import type { StepOutcome } from './types';
+
+describe('Step conditions', () => {
+  let testDir: string;
+  let ctx: ConditionContext;
+
+  beforeEach(async () => {
+    testDir = join(
+      tmpdir(),
+      `conditions-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(testDir, '.archon', 'artifacts', 'reviews', 'pr-42'), { recursive: true });
+    await writeFile(join(testDir, '.archon', 'artifacts', 'reviews', 'pr-42', 'critical.md'), '#');
+
+    ctx = {
+      cwd: testDir,
+      variables: {
+        ISSUE_NUMBER: '42',
+        USER_MESSAGE: 'review this PR',
+        CONTEXT: '',
+        'inputs.target': 'staging',
+      },
+      steps: new Map<string, StepOutcome>([
+        ['sync', { status: 'completed', output: 'Rebased onto main. CONFLICT in src/app.ts' }],
+        ['lint', { status: 'skipped', output: '' }],
+        ['tests', { status: 'completed', output: '12 passed', exit_code: 0, stderr: '' }],
+      ]),
+    };
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  async function evaluate(expression: string): Promise<boolean> {
+    const parsed = parseCondition(expression);
+    if (!parsed.success) throw new Error(parsed.error);
+    return evaluateCondition(parsed.condition, ctx);
+  }
+
+  describe('parseCondition', () => {
+    it('should parse valid expressions', () => {
+      expect(parseCondition('steps.sync.output contains "CONFLICT"').success).toBe(true);
+      expect(parseCondition('exists(.archon/x.md) and not $USER_MESSAGE').success).toBe(true);
+      expect(parseCondition('(a == b) || !(c != d)').success).toBe(true);
+    });
+
+    it('should reject empty expressions', () => {
+      const result = parseCondition('   ');
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toBe('empty condition');
+    });
+
+    it('should reject unterminated strings', () => {
+      const result = parseCondition('steps.sync.output contains "CONFLICT');
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toContain('unterminated string');
+    });
+
+    it('should reject invalid step references', () => {
+      const result = parseCondition('steps.sync.result contains "x"');
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error).toContain('invalid step reference');
+    });
+
+    it('should reject unbalanced parentheses and dangling operators', () => {
+      expect(parseCondition('(a == b').success).toBe(false);
+      expect(parseCondition('a ==').success).toBe(false);
+      expect(parseCondition('a and').success).toBe(false);
+      expect(parseCondition('a b').success).toBe(false);
+    });
+
+    it('should require a path for exists()', () => {
+      expect(parseCondition('exists()').success).toBe(false);
+    });
+  });
+
+  describe('getConditionStepRefs', () => {
+    it('should collect step ids from all operands', () => {
+      const parsed = parseCondition(
+        'steps.a.output contains "x" or (steps.b.status == skipped and not steps.c.output)'
+      );
+      expect(parsed.success).toBe(true);
+      if (parsed.success) {
+        expect(getConditionStepRefs(parsed.condition)).toEqual(['a', 'b', 'c']);
+      }
+    });
+  });
+
+  describe('getConditionVariableRefs', () => {
+    it('should collect variables from operands and exists() paths', () => {
+      const parsed = parseCondition(
+        '$inputs.target == prod and not exists(reviews/pr-$ISSUE_NUMBER.md) or $PR'
+      );
+      expect(parsed.success).toBe(true);
+      if (parsed.success) {
+        expect(getConditionVariableRefs(parsed.condition)).toEqual([
+          'inputs.target',
+          'ISSUE_NUMBER',
+          'PR',
+        ]);
+      }
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('should check step output with contains', async () => {
+      expect(await evaluate('steps.sync.output contains "CONFLICT"')).toBe(true);
+      expect(await evaluate('steps.sync.output contains "conflict"')).toBe(false);
+      expect(await evaluate('steps.sync.output not contains "CONFLICT"')).toBe(false);
+    });
+
+    it('should compare step status', async () => {
+      expect(await evaluate('steps.sync.status == completed')).toBe(true);
+      expect(await evaluate('steps.lint.status == "skipped"')).toBe(true);
+      expect(await evaluate('steps.lint.status != skipped')).toBe(false);
+    });
+
+    it('should compare shell step exit codes', async () => {
+      expect(await evaluate('steps.tests.exit_code == 0')).toBe(true);
+      expect(await evaluate('steps.tests.exit_code != 0')).toBe(false);
+      expect(await evaluate('steps.sync.exit_code == ""')).toBe(true);
+    });
+
+    it('should treat steps that have not run as empty', async () => {
+      expect(await evaluate('steps.later.output')).toBe(false);
+      expect(await evaluate('steps.later.status == ""')).toBe(true);
+    });
+
+    it('should check artifacts with variables substituted in the path', async () => {
+      expect(await evaluate('exists(.archon/artifacts/reviews/pr-$ISSUE_NUMBER/critical.md)')).toBe(
+        true
+      );
+      expect(await evaluate('exists(.archon/artifacts/reviews/pr-7/critical.md)')).toBe(false);
+    });
+
+    it('should resolve workflow variables', async () => {
+      expect(await evaluate('$USER_MESSAGE contains "review"')).toBe(true);
+      expect(await evaluate('$ISSUE_NUMBER == 42')).toBe(true);
+      expect(await evaluate('$CONTEXT')).toBe(false);
+      expect(await evaluate('$inputs.target == staging')).toBe(true);
+    });
+
+    it('should reject variables missing from the context', async () => {
+      // A misspelled $ISSUE_NUMBER must not quietly compare as empty
+      await expect(evaluate('$ISSUE_NUMER != 42')).rejects.toThrow(
+        'unknown variable "$ISSUE_NUMER"'
+      );
+      await expect(evaluate('exists(pr-$PR/critical.md)')).rejects.toThrow(
+        'unknown variable "$PR"'
+      );
+    });
+
+    it('should combine with and/or/not and respect precedence', async () => {
+      // and binds tighter than or
+      expect(await evaluate('$ISSUE_NUMBER == 1 and $ISSUE_NUMBER == 2 or $USER_MESSAGE')).toBe(
+        true
+      );
+      expect(await evaluate('$ISSUE_NUMBER == 1 and ($ISSUE_NUMBER == 2 or $USER_MESSAGE)')).toBe(
+        false
+      );
+      expect(await evaluate('not steps.lint.output && !$CONTEXT')).toBe(true);
+    });
+  });
+});
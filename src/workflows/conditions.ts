@@ -0,0 +1,410 @@
+/**
+ * Step conditions - parses and evaluates `when:` expressions on workflow steps
+ *
+ * Grammar (keywords are case-sensitive):
+ *   expression := or
+ *   or         := and (('or' | '||') and)*
+ *   and        := unary (('and' | '&&') unary)*
+ *   unary      := ('not' | '!') unary | primary
+ *   primary    := '(' expression ')' | 'exists' '(' path ')' | operand [comparison]
+ *   comparison := ('contains' | 'not contains' | '==' | '!=') operand
+ *   operand    := "string" | 'string' | steps.<id>.output | steps.<id>.status
+ *               | steps.<id>.exit_code | $VARIABLE | $inputs.<name> | word
+ *
+ * A bare operand is true when its value is non-empty. Steps that have not run
+ * yet resolve to an empty output and status. Variables must be one of
+ * CONDITION_VARIABLES or a declared input - anything else is an error.
+ */
+import { access } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import type { StepOutcome } from './types';
+
+/** Step fields a condition can read (exit_code is only set for shell steps) */
+type StepRefField = 'output' | 'status' | 'exit_code';
+
+/** A value referenced from a condition */
+type ConditionOperand =
+  | { kind: 'literal'; value: string }
+  | { kind: 'step'; stepId: string; field: StepRefField }
+  | { kind: 'variable'; name: string };
+
+/** Parsed condition expression tree */
+export type ConditionNode =
+  | { kind: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode }
+  | { kind: 'exists'; path: string }
+  | {
+      kind: 'compare';
+      operator: 'contains' | '==' | '!=';
+      left: ConditionOperand;
+      right: ConditionOperand;
+    }
+  | { kind: 'truthy'; operand: ConditionOperand };
+
+/**
+ * Result of parsing a condition - discriminated union so the loader can report errors
+ */
+export type ParseConditionResult =
+  | { success: true; condition: ConditionNode }
+  | { success: false; error: string };
+
+/**
+ * Values available while evaluating a condition
+ */
+export interface ConditionContext {
+  cwd: string; // Relative exists() paths resolve against the worktree
+  variables: Readonly<Record<string, string>>; // Variable name (without $) -> value
+  steps: ReadonlyMap<string, StepOutcome>; // Step id -> outcome of earlier steps
+}
+
+type Token =
+  | { type: 'string'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'symbol'; value: '(' | ')' | '==' | '!=' | '&&' | '||' | '!' };
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'contains', 'exists']);
+const STEP_REF_PATTERN = /^steps\.([A-Za-z0-9_-]+)\.(output|status|exit_code)$/;
+const VARIABLE_PATTERN = /^\$(inputs\.[A-Za-z_][A-Za-z0-9_-]*|[A-Za-z_][A-Za-z0-9_]*)$/;
+const PATH_VARIABLE_PATTERN = /\$(inputs\.[A-Za-z_][A-Za-z0-9_-]*|[A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Variables every condition can read, besides `$inputs.<name>` of declared inputs.
+ * $FAILED_STEP and $ERROR are empty outside on_failure/finally steps.
+ */
+export const CONDITION_VARIABLES: readonly string[] = [
+  'WORKFLOW_ID',
+  'USER_MESSAGE',
+  'ARGUMENTS',
+  'CONTEXT',
+  'EXTERNAL_CONTEXT',
+  'ISSUE_CONTEXT',
+  'ISSUE_NUMBER',
+  'FAILED_STEP',
+  'ERROR',
+];
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new Error(`unterminated string starting at position ${String(i + 1)}`);
+      }
+      tokens.push({ type: 'string', value: expression.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const pair = expression.slice(i, i + 2);
+    if (pair === '==' || pair === '!=' || pair === '&&' || pair === '||') {
+      tokens.push({ type: 'symbol', value: pair });
+      i += 2;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === '!') {
+      tokens.push({ type: 'symbol', value: char });
+      i++;
+      continue;
+    }
+
+    // Words run until whitespace, parentheses or quotes (paths and step references are words)
+    let end = i;
+    while (end < expression.length && !/[\s()"']/.test(expression[end])) {
+      end++;
+    }
+    tokens.push({ type: 'word', value: expression.slice(i, end) });
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the token list
+ */
+class ConditionParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    if (this.tokens.length === 0) {
+      throw new Error('empty condition');
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(`unexpected "${extra.value}"`);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): Token | undefined {
+    const token = this.tokens[this.position];
+    this.position++;
+    return token;
+  }
+
+  private isWord(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'word' && token.value === value;
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'symbol' && token.value === value;
+  }
+
+  private expectSymbol(value: string): void {
+    if (!this.isSymbol(value)) {
+      const token = this.peek();
+      throw new Error(`expected "${value}"${token ? ` but found "${token.value}"` : ' at end'}`);
+    }
+    this.position++;
+  }
+
+  private parseOr(): ConditionNode {
+    let node = this.parseAnd();
+    while (this.isWord('or') || this.isSymbol('||')) {
+      this.position++;
+      node = { kind: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ConditionNode {
+    let node = this.parseUnary();
+    while (this.isWord('and') || this.isSymbol('&&')) {
+      this.position++;
+      node = { kind: 'and', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.isWord('not') || this.isSymbol('!')) {
+      this.position++;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    if (this.isSymbol('(')) {
+      this.position++;
+      const node = this.parseOr();
+      this.expectSymbol(')');
+      return node;
+    }
+
+    if (this.isWord('exists')) {
+      this.position++;
+      this.expectSymbol('(');
+      const path = this.next();
+      if (path?.type !== 'word' && path?.type !== 'string') {
+        throw new Error('exists() requires a path');
+      }
+      this.expectSymbol(')');
+      return { kind: 'exists', path: path.value };
+    }
+
+    const left = this.parseOperand();
+
+    if (this.isWord('contains')) {
+      this.position++;
+      return { kind: 'compare', operator: 'contains', left, right: this.parseOperand() };
+    }
+    if (this.isWord('not') && this.isWord('contains', 1)) {
+      this.position += 2;
+      return {
+        kind: 'not',
+        operand: { kind: 'compare', operator: 'contains', left, right: this.parseOperand() },
+      };
+    }
+    if (this.isSymbol('==') || this.isSymbol('!=')) {
+      const operator = this.next()?.value === '==' ? '==' : '!=';
+      return { kind: 'compare', operator, left, right: this.parseOperand() };
+    }
+
+    return { kind: 'truthy', operand: left };
+  }
+
+  private parseOperand(): ConditionOperand {
+    const token = this.next();
+    if (!token) {
+      throw new Error('unexpected end of condition');
+    }
+    if (token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+    if (token.type === 'symbol' || KEYWORDS.has(token.value)) {
+      throw new Error(`unexpected "${token.value}"`);
+    }
+
+    if (token.value.startsWith('steps.')) {
+      const match = STEP_REF_PATTERN.exec(token.value);
+      if (!match) {
+        throw new Error(
+          `invalid step reference "${token.value}" (use steps.<id>.output, .status or .exit_code)`
+        );
+      }
+      return { kind: 'step', stepId: match[1], field: match[2] as StepRefField };
+    }
+
+    if (token.value.startsWith('$')) {
+      const match = VARIABLE_PATTERN.exec(token.value);
+      if (!match) {
+        throw new Error(`invalid variable "${token.value}"`);
+      }
+      return { kind: 'variable', name: match[1] };
+    }
+
+    return { kind: 'literal', value: token.value };
+  }
+}
+
+/**
+ * Parse a `when:` expression
+ */
+export function parseCondition(expression: string): ParseConditionResult {
+  try {
+    return { success: true, condition: new ConditionParser(tokenize(expression)).parse() };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Get the step ids referenced by a condition (for load-time validation)
+ */
+export function getConditionStepRefs(node: ConditionNode): string[] {
+  const operandRefs = (operand: ConditionOperand): string[] =>
+    operand.kind === 'step' ? [operand.stepId] : [];
+
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return [...getConditionStepRefs(node.left), ...getConditionStepRefs(node.right)];
+    case 'not':
+      return getConditionStepRefs(node.operand);
+    case 'exists':
+      return [];
+    case 'compare':
+      return [...operandRefs(node.left), ...operandRefs(node.right)];
+    case 'truthy':
+      return operandRefs(node.operand);
+  }
+}
+
+/**
+ * Get the variable names (without $) referenced by a condition, including those in
+ * exists() paths (for load-time validation)
+ */
+export function getConditionVariableRefs(node: ConditionNode): string[] {
+  const operandRefs = (operand: ConditionOperand): string[] =>
+    operand.kind === 'variable' ? [operand.name] : [];
+
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return [...getConditionVariableRefs(node.left), ...getConditionVariableRefs(node.right)];
+    case 'not':
+      return getConditionVariableRefs(node.operand);
+    case 'exists':
+      return [...node.path.matchAll(PATH_VARIABLE_PATTERN)].map(match => match[1]);
+    case 'compare':
+      return [...operandRefs(node.left), ...operandRefs(node.right)];
+    case 'truthy':
+      return operandRefs(node.operand);
+  }
+}
+
+/**
+ * Get the value of a variable - unknown variables are an error rather than an empty
+ * value, so a misspelled name never quietly changes the outcome
+ */
+function resolveVariable(name: string, ctx: ConditionContext): string {
+  if (!Object.hasOwn(ctx.variables, name)) {
+    throw new Error(`unknown variable "$${name}"`);
+  }
+  return ctx.variables[name];
+}
+
+/**
+ * Resolve an operand to its string value
+ */
+function resolveOperand(operand: ConditionOperand, ctx: ConditionContext): string {
+  switch (operand.kind) {
+    case 'literal':
+      return operand.value;
+    case 'variable':
+      return resolveVariable(operand.name, ctx);
+    case 'step':
+      return String(ctx.steps.get(operand.stepId)?.[operand.field] ?? '');
+  }
+}
+
+/**
+ * Check whether a file or directory exists (variables in the path are substituted)
+ */
+async function pathExists(path: string, ctx: ConditionContext): Promise<boolean> {
+  const resolved = path.replace(PATH_VARIABLE_PATTERN, (_, name: string) =>
+    resolveVariable(name, ctx)
+  );
+  try {
+    await access(isAbsolute(resolved) ? resolved : join(ctx.cwd, resolved));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Evaluate a parsed condition
+ * @throws When the condition reads a variable missing from the context
+ */
+export async function evaluateCondition(
+  node: ConditionNode,
+  ctx: ConditionContext
+): Promise<boolean> {
+  switch (node.kind) {
+    case 'and':
+      return (
+        (await evaluateCondition(node.left, ctx)) && (await evaluateCondition(node.right, ctx))
+      );
+    case 'or':
+      return (
+        (await evaluateCondition(node.left, ctx)) || (await evaluateCondition(node.right, ctx))
+      );
+    case 'not':
+      return !(await evaluateCondition(node.operand, ctx));
+    case 'exists':
+      return pathExists(node.path, ctx);
+    case 'compare': {
+      const left = resolveOperand(node.left, ctx);
+      const right = resolveOperand(node.right, ctx);
+      if (node.operator === 'contains') return left.includes(right);
+      return node.operator === '==' ? left.trim() === right.trim() : left.trim() !== right.trim();
+    }
+    case 'truthy':
+      return resolveOperand(node.operand, ctx).trim().length > 0;
+  }
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  findCycle,
+  formatExecutionLevels,
+  formatStepSequence,
+  getDownstreamStepIds,
+  getExecutionLevels,
+  getStepId,
+  getStepName,
+  isDagWorkflow,
+  isValidStepId,
+  validateDag,
+} from './dag';
+import type { SingleStep, WorkflowStep } from './types';
+
+describe('DAG utilities', () => {
+  // Fan-out -> fan-in -> fan-out shape used by review pipelines
+  const reviewSteps: SingleStep[] = [
+    { command: 'scope' },
+    { command: 'code-review', depends_on: ['scope'] },
+    { command: 'test-review', depends_on: ['scope'] },
+    { command: 'synthesize', depends_on: ['code-review', 'test-review'] },
+    { command: 'fix', depends_on: ['synthesize'] },
+    { command: 'docs', depends_on: ['synthesize'] },
+  ];
+
+  describe('getStepId', () => {
+    it('should default to the command name', () => {
+      expect(getStepId({ command: 'plan' })).toBe('plan');
+    });
+
+    it('should prefer an explicit id', () => {
+      expect(getStepId({ command: 'plan', id: 'first-plan' })).toBe('first-plan');
+    });
+
+    it('should derive an id from a shell command', () => {
+      expect(getStepId({ run: 'bun run lint' })).toBe('bun-run-lint');
+      expect(getStepId({ run: '&& ||' })).toBe('run');
+    });
+
+    it('should default to the workflow name for sub-workflow steps', () => {
+      expect(getStepId({ workflow: 'resolve-conflicts' })).toBe('resolve-conflicts');
+      expect(getStepName({ workflow: 'resolve-conflicts' })).toBe('workflow:resolve-conflicts');
+    });
+  });
+
+  describe('getStepName', () => {
+    it('should use the first line of a shell command', () => {
+      expect(getStepName({ command: 'plan' })).toBe('plan');
+      expect(getStepName({ run: 'bun test' })).toBe('bun test');
+      expect(getStepName({ run: 'bun install\nbun test' })).toBe('bun install…');
+    });
+  });
+
+  describe('isValidStepId', () => {
+    it('should accept letters, digits, hyphens and underscores', () => {
+      expect(isValidStepId('review_2-final')).toBe(true);
+    });
+
+    it('should reject dots, spaces and empty ids', () => {
+      expect(isValidStepId('a.b')).toBe(false);
+      expect(isValidStepId('a b')).toBe(false);
+      expect(isValidStepId('')).toBe(false);
+    });
+  });
+
+  describe('isDagWorkflow', () => {
+    it('should be false for linear steps and parallel blocks', () => {
+      const steps: WorkflowStep[] = [
+        { command: 'a' },
+        { parallel: [{ command: 'b' }, { command: 'c' }] },
+      ];
+      expect(isDagWorkflow(steps)).toBe(false);
+    });
+
+    it('should be true when any step declares depends_on (even empty)', () => {
+      expect(isDagWorkflow([{ command: 'a', depends_on: [] }, { command: 'b' }])).toBe(true);
+    });
+  });
+
+  describe('validateDag', () => {
+    it('should accept a valid graph', () => {
+      expect(validateDag(reviewSteps)).toEqual([]);
+    });
+
+    it('should report unknown dependencies', () => {
+      const errors = validateDag([{ command: 'a', depends_on: ['missing'] }]);
+      expect(errors).toEqual([
+        { message: 'Step "a" depends on unknown step "missing"', path: ['steps', 0, 'depends_on'] },
+      ]);
+    });
+
+    it('should report self dependencies', () => {
+      const errors = validateDag([{ command: 'a', depends_on: ['a'] }]);
+      expect(errors).toEqual([
+        { message: 'Step "a" cannot depend on itself', path: ['steps', 0, 'depends_on'] },
+      ]);
+    });
+
+    it('should report duplicate ids', () => {
+      const errors = validateDag([{ command: 'review' }, { command: 'review', depends_on: [] }]);
+      expect(errors[0].message).toContain('Duplicate step id "review"');
+      expect(errors[0].path).toEqual(['steps', 1]);
+    });
+
+    it('should report cycles with the cycle path', () => {
+      const errors = validateDag([
+        { command: 'a', depends_on: ['c'] },
+        { command: 'b', depends_on: ['a'] },
+        { command: 'c', depends_on: ['b'] },
+      ]);
+      expect(errors).toEqual([
+        { message: 'Dependency cycle detected: a -> c -> b -> a', path: ['steps'] },
+      ]);
+    });
+
+    it('should reject parallel blocks', () => {
+      const errors = validateDag([
+        { command: 'a', depends_on: [] },
+        { parallel: [{ command: 'b' }] },
+      ]);
+      expect(errors[0].message).toContain(
+        'Step 2: parallel blocks cannot be combined with depends_on'
+      );
+    });
+
+    it('should reject approval steps', () => {
+      const errors = validateDag([
+        { command: 'a', depends_on: [] },
+        { approval: { message: 'ok?' } },
+      ]);
+      expect(errors[0].message).toContain(
+        'Step 2: approval steps cannot be combined with depends_on'
+      );
+    });
+
+    it('should report all problems at once', () => {
+      const errors = validateDag([
+        { command: 'a', depends_on: ['missing'] },
+        { command: 'b', depends_on: ['b'] },
+      ]);
+      expect(errors).toHaveLength(2);
+    });
+  });
+
+  describe('findCycle', () => {
+    it('should return null for acyclic graphs', () => {
+      expect(findCycle(reviewSteps)).toBeNull();
+    });
+
+    it('should ignore unknown dependencies', () => {
+      expect(findCycle([{ command: 'a', depends_on: ['missing'] }])).toBeNull();
+    });
+  });
+
+  describe('getExecutionLevels', () => {
+    it('should group steps by dependency depth', () => {
+      const levels = getExecutionLevels(reviewSteps).map(level => level.map(getStepId));
+      expect(levels).toEqual([
+        ['scope'],
+        ['code-review', 'test-review'],
+        ['synthesize'],
+        ['fix', 'docs'],
+      ]);
+    });
+
+    it('should put independent roots in the first level', () => {
+      const levels = getExecutionLevels([{ command: 'a', depends_on: [] }, { command: 'b' }]);
+      expect(levels).toHaveLength(1);
+      expect(levels[0]).toHaveLength(2);
+    });
+  });
+
+  describe('getDownstreamStepIds', () => {
+    it('should return transitive dependents in declaration order', () => {
+      expect(getDownstreamStepIds(reviewSteps, ['test-review'])).toEqual([
+        'synthesize',
+        'fix',
+        'docs',
+      ]);
+    });
+
+    it('should return empty array for leaf steps', () => {
+      expect(getDownstreamStepIds(reviewSteps, ['docs'])).toEqual([]);
+    });
+  });
+
+  describe('formatExecutionLevels', () => {
+    it('should render levels with grouped parallel steps', () => {
+      expect(formatExecutionLevels(reviewSteps)).toBe(
+        '`scope` → (`code-review`, `test-review`) → `synthesize` → (`fix`, `docs`)'
+      );
+    });
+
+    it('should support a custom separator', () => {
+      expect(formatExecutionLevels(reviewSteps.slice(0, 2), ' -> ')).toBe(
+        '`scope` -> `code-review`'
+      );
+    });
+  });
+
+  describe('formatStepSequence', () => {
+    it('should render commands, parallel blocks and approval gates', () => {
+      const steps: WorkflowStep[] = [
+        { command: 'plan' },
+        { approval: { message: 'ok?' } },
+        { parallel: [{ command: 'a' }, { command: 'b' }] },
+        { run: 'bun test' },
+        { parallel: [{ command: 'review' }], for_each: ['api', 'web'] },
+      ];
+      expect(formatStepSequence(steps, ' -> ')).toBe(
+        '`plan` -> [approval] -> [2 parallel] -> `bun test` -> [for each: `review`]'
+      );
+    });
+  });
+});
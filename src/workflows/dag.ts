@@ -0,0 +1,232 @@
+/**
+ * DAG utilities - dependency graph helpers for workflows whose steps declare `depends_on`
+ *
+ * A step-based workflow becomes a DAG as soon as any step declares `depends_on`.
+ * In that mode every top-level step is a node identified by its `id` (defaulting
+ * to the command name, or the shell command reduced to id characters), and
+ * fan-out/fan-in is expressed through dependencies instead of parallel blocks.
+ */
+import type { SingleStep, WorkflowLoadError, WorkflowStep } from './types';
+import {
+  isApprovalStep,
+  isParallelBlock,
+  isRunStep,
+  isSingleStep,
+  isSubWorkflowStep,
+} from './types';
+
+/** Step ids are referenced from YAML and variables - keep them simple */
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Validate a step id (letters, digits, hyphens and underscores only)
+ */
+export function isValidStepId(id: string): boolean {
+  return STEP_ID_PATTERN.test(id);
+}
+
+/** Longest shell step name shown to users before it is truncated */
+const MAX_RUN_STEP_NAME_LENGTH = 60;
+
+/**
+ * Get the identifier of a step - explicit `id`, falling back to the command name
+ * (sub-workflow steps: the workflow name). Shell steps fall back to their command
+ * reduced to id characters (e.g. "bun run lint" -> "bun-run-lint").
+ */
+export function getStepId(step: SingleStep): string {
+  if (step.id !== undefined) return step.id;
+  if (isSubWorkflowStep(step)) return step.workflow;
+  if (!isRunStep(step)) return step.command;
+
+  const id = step.run
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return id || 'run';
+}
+
+/**
+ * Get the display name of a step - the command name, the first line of a shell command
+ * or `workflow:<name>` for a sub-workflow
+ */
+export function getStepName(step: SingleStep): string {
+  if (isSubWorkflowStep(step)) return `workflow:${step.workflow}`;
+  if (!isRunStep(step)) return step.command;
+
+  const lines = step.run.trim().split('\n');
+  const name = lines[0].slice(0, MAX_RUN_STEP_NAME_LENGTH);
+  return lines.length > 1 || name.length < lines[0].length ? `${name}…` : name;
+}
+
+/**
+ * Check if a step list uses dependency-based scheduling
+ */
+export function isDagWorkflow(steps: readonly WorkflowStep[]): boolean {
+  return steps.some(step => isSingleStep(step) && step.depends_on !== undefined);
+}
+
+/**
+ * Find a dependency cycle, returning the ids along the cycle (first id repeated at the end)
+ * or null if the graph is acyclic. Unknown dependencies are ignored here.
+ */
+export function findCycle(steps: readonly SingleStep[]): string[] | null {
+  const byId = new Map(steps.map(step => [getStepId(step), step]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  function visit(id: string): string[] | null {
+    const current = state.get(id);
+    if (current === 'done') return null;
+    if (current === 'visiting') {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dep of byId.get(id)?.depends_on ?? []) {
+      if (!byId.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  }
+
+  for (const id of byId.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Validate a dependency-based step list (the workflow's `steps:`).
+ * Returns all problems at once (empty array when the graph is valid).
+ */
+export function validateDag(steps: readonly WorkflowStep[]): WorkflowLoadError[] {
+  const errors: WorkflowLoadError[] = [];
+  const singleSteps: { step: SingleStep; index: number }[] = [];
+
+  steps.forEach((step, index) => {
+    if (isParallelBlock(step)) {
+      errors.push({
+        message: `Step ${String(index + 1)}: parallel blocks cannot be combined with depends_on (declare fan-out with depends_on instead)`,
+        path: ['steps', index, 'parallel'],
+      });
+    } else if (isApprovalStep(step)) {
+      errors.push({
+        message: `Step ${String(index + 1)}: approval steps cannot be combined with depends_on (use a sequential workflow)`,
+        path: ['steps', index, 'approval'],
+      });
+    } else {
+      singleSteps.push({ step, index });
+    }
+  });
+
+  const seen = new Set<string>();
+  for (const { step, index } of singleSteps) {
+    const id = getStepId(step);
+    if (seen.has(id)) {
+      errors.push({
+        message: `Duplicate step id "${id}" (add an explicit 'id' to disambiguate)`,
+        path: ['steps', index],
+      });
+    }
+    seen.add(id);
+  }
+
+  for (const { step, index } of singleSteps) {
+    const id = getStepId(step);
+    for (const dep of step.depends_on ?? []) {
+      const path = ['steps', index, 'depends_on'];
+      if (dep === id) {
+        errors.push({ message: `Step "${id}" cannot depend on itself`, path });
+      } else if (!seen.has(dep)) {
+        errors.push({ message: `Step "${id}" depends on unknown step "${dep}"`, path });
+      }
+    }
+  }
+
+  const cycle = findCycle(singleSteps.map(({ step }) => step));
+  if (cycle && cycle.length > 2) {
+    errors.push({ message: `Dependency cycle detected: ${cycle.join(' -> ')}`, path: ['steps'] });
+  }
+
+  return errors;
+}
+
+/**
+ * Group steps into execution levels - every step in a level only depends on
+ * steps from earlier levels. Assumes the graph was validated (acyclic).
+ */
+export function getExecutionLevels(steps: readonly SingleStep[]): SingleStep[][] {
+  const levels: SingleStep[][] = [];
+  const placed = new Set<string>();
+  let remaining = [...steps];
+
+  while (remaining.length > 0) {
+    const level = remaining.filter(step => (step.depends_on ?? []).every(dep => placed.has(dep)));
+    if (level.length === 0) break; // Defensive: cycle or unknown dependency
+    for (const step of level) placed.add(getStepId(step));
+    levels.push(level);
+    remaining = remaining.filter(step => !level.includes(step));
+  }
+
+  return levels;
+}
+
+/**
+ * Get ids of all steps that transitively depend on any of the given steps
+ */
+export function getDownstreamStepIds(
+  steps: readonly SingleStep[],
+  rootIds: Iterable<string>
+): string[] {
+  const downstream = new Set<string>();
+  const queue = [...rootIds];
+
+  // Iterating while pushing visits newly queued ids as well
+  for (const current of queue) {
+    for (const step of steps) {
+      const id = getStepId(step);
+      if (!downstream.has(id) && step.depends_on?.includes(current)) {
+        downstream.add(id);
+        queue.push(id);
+      }
+    }
+  }
+
+  return steps.map(getStepId).filter(id => downstream.has(id));
+}
+
+/**
+ * Format steps as execution levels for display, e.g. "`scope` → (`a`, `b`) → `synthesize`"
+ */
+export function formatExecutionLevels(steps: readonly SingleStep[], separator = ' → '): string {
+  return getExecutionLevels(steps)
+    .map(level => {
+      const ids = level.map(step => `\`${getStepId(step)}\``);
+      return ids.length === 1 ? ids[0] : `(${ids.join(', ')})`;
+    })
+    .join(separator);
+}
+
+/**
+ * Format sequential steps for display, e.g. "`plan` → [approval] → [2 parallel]"
+ */
+export function formatStepSequence(steps: readonly WorkflowStep[], separator = ' → '): string {
+  return steps
+    .map(step => {
+      if (isParallelBlock(step)) {
+        return step.for_each !== undefined
+          ? `[for each: \`${getStepName(step.parallel[0])}\`]`
+          : `[${String(step.parallel.length)} parallel]`;
+      }
+      if (isApprovalStep(step)) return '[approval]';
+      return `\`${getStepName(step)}\``;
+    })
+    .join(separator);
+}
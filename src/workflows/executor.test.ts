@@ -2,12 +2,13 @@ import { describe, it, expect, beforeEach, afterEach, mock, spyOn, type Mock } f
 import { mkdir, writeFile, rm, readFile } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
+import type { QueryResult, QueryResultRow } from 'pg';
 import type { IPlatformAdapter } from '../types';
-import type { WorkflowDefinition } from './types';
+import type { WorkflowDefinition, WorkflowRun } from './types';
 import { createQueryResult } from '../test/mocks/database';
 
 // Mock at the connection level to avoid polluting db/workflows module
-const mockQuery = mock((query: string) => {
+function defaultQuery(query: string): Promise<QueryResult<QueryResultRow>> {
   // For getActiveWorkflowRun query, return no active workflow by default
   if (query.includes("status = 'running'")) {
     return Promise.resolve(createQueryResult([]));
@@ -25,6 +26,7 @@ const mockQuery = mock((query: string) => {
           status: 'running' as const,
           user_message: 'test user message',
           metadata: {},
+          parent_run_id: null,
           started_at: new Date(),
           completed_at: null,
         },
@@ -33,7 +35,8 @@ const mockQuery = mock((query: string) => {
   }
   // Default: empty result for UPDATE queries and other operations
   return Promise.resolve(createQueryResult([]));
-});
+}
+const mockQuery = mock(defaultQuery);
 
 mock.module('../db/connection', () => ({
   pool: {
@@ -72,8 +75,16 @@ function createMockPlatform(): IPlatformAdapter {
 }
 
 // Import after mocks are set up
-import { executeWorkflow, isValidCommandName } from './executor';
+import {
+  cancelRunningWorkflow,
+  executeWorkflow,
+  fingerprintWorkflow,
+  isValidCommandName,
+  resumeWorkflow,
+  stopPausedWorkflow,
+} from './executor';
 import * as gitUtils from '../utils/git';
+import * as configLoader from '../config/config-loader';
 
 describe('Workflow Executor', () => {
   let mockPlatform: IPlatformAdapter;
@@ -83,6 +94,7 @@ describe('Workflow Executor', () => {
   beforeEach(async () => {
     mockPlatform = createMockPlatform();
     mockQuery.mockClear();
+    mockQuery.mockImplementation(defaultQuery);
     mockSendQuery.mockClear();
     mockGetAssistantClient.mockClear();
     (mockPlatform.sendMessage as ReturnType<typeof mock>).mockClear();
@@ -1460,6 +1472,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'old-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: staleTime,
                   last_activity_at: staleTime,
                   completed_at: null,
@@ -1478,6 +1491,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'test-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: new Date(),
                   last_activity_at: new Date(),
                   completed_at: null,
@@ -1528,6 +1542,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'test-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: new Date(),
                   completed_at: null,
                   current_step_index: 0,
@@ -1553,6 +1568,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'active-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: recentTime,
                   last_activity_at: recentTime,
                   completed_at: null,
@@ -1602,6 +1618,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'test-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: new Date(),
                   completed_at: null,
                   current_step_index: 0,
@@ -1627,6 +1644,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'old-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: staleTime,
                   last_activity_at: null, // null - should fallback to started_at
                   completed_at: null,
@@ -1645,6 +1663,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'test-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: new Date(),
                   last_activity_at: new Date(),
                   completed_at: null,
@@ -1689,6 +1708,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'test-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: new Date(),
                   completed_at: null,
                   current_step_index: 0,
@@ -1715,6 +1735,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'old-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: staleTime,
                   last_activity_at: staleTime,
                   completed_at: null,
@@ -1774,6 +1795,7 @@ describe('Workflow Executor', () => {
                   workflow_name: 'test-workflow',
                   conversation_id: 'conv-123',
                   status: 'running' as const,
+                  parent_run_id: null,
                   started_at: new Date(),
                   completed_at: null,
                   current_step_index: 0,
@@ -2163,6 +2185,80 @@ describe('Workflow Executor', () => {
         yield { type: 'result', sessionId: 'new-session-id' };
       });
     });
+
+    it('should end when until_command passes and feed failures into the next prompt', async () => {
+      // Fails on the first check, passes on the second
+      const check =
+        'n=$(cat count 2>/dev/null || echo 0); n=$((n+1)); echo $n > count; ' +
+        'echo "check $n failed" >&2; [ $n -ge 2 ]';
+      const loopWorkflow: WorkflowDefinition = {
+        name: 'check-loop',
+        description: 'Loop until a shell check passes',
+        loop: { until_command: check, max_iterations: 5 },
+        prompt: 'Fix it. Last check: [$LAST_CHECK_OUTPUT]',
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, loopWorkflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Fix it. Last check: []');
+      expect(mockSendQuery.mock.calls[1][0]).toBe('Fix it. Last check: [check 1 failed]');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+
+      // Saved with the iteration so a resumed run gets it back
+      const iterationUpdates = mockQuery.mock.calls
+        .flatMap((call: unknown[]) => (call[1] as unknown[] | undefined) ?? [])
+        .filter(param => typeof param === 'string' && param.includes('"iteration_count"'))
+        .map(param => JSON.parse(param as string) as Record<string, unknown>);
+      expect(iterationUpdates.map(metadata => metadata.last_check_output)).toEqual([
+        '',
+        'check 1 failed',
+      ]);
+
+      const events = await parseLogEvents(testDir);
+      const checks = events.filter(e => e.type === 'shell_command');
+      expect(checks.map(e => e.exit_code)).toEqual([1, 0]);
+    });
+
+    it('should only run until_command once the signal is claimed and require both', async () => {
+      let callCount = 0;
+      mockSendQuery.mockImplementation(function* () {
+        callCount++;
+        yield {
+          type: 'assistant',
+          content: callCount === 1 ? 'Still working' : '<promise>COMPLETE</promise>',
+        };
+        yield { type: 'result', sessionId: `session-${String(callCount)}` };
+      });
+      const loopWorkflow: WorkflowDefinition = {
+        name: 'verified-loop',
+        description: 'Signal verified by a check',
+        loop: {
+          until: 'COMPLETE',
+          until_command: 'echo "2 tests failed"; exit 1',
+          max_iterations: 3,
+        },
+        prompt: 'Work. $LAST_CHECK_OUTPUT',
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, loopWorkflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(3);
+      expect(mockSendQuery.mock.calls[2][0]).toBe('Work. 2 tests failed');
+      expect(getWorkflowStatusUpdates('completed')).toHaveLength(0);
+
+      const events = await parseLogEvents(testDir);
+      expect(events.filter(e => e.type === 'shell_command')).toHaveLength(2);
+
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+      expect(messages.some(m => m.includes('failed (exit code 1) - continuing'))).toBe(true);
+      expect(
+        messages.some(m =>
+          m.includes('without completion signal "COMPLETE" and a passing `echo "2 tests failed"')
+        )
+      ).toBe(true);
+    });
   });
 
   describe('issueContext handling', () => {
@@ -2453,7 +2549,14 @@ describe('Workflow Executor', () => {
         expect(insertCalls.length).toBeGreaterThan(0);
         const insertParams = insertCalls[0][1] as string[];
         // The 5th parameter should be the metadata JSON
-        expect(insertParams[4]).toBe(JSON.stringify({ github_context: 'Issue #77 context' }));
+        expect(insertParams[4]).toBe(
+          JSON.stringify({
+            github_context: 'Issue #77 context',
+            models: { 'command-one': 'claude' },
+            cwd: testDir,
+            definition_fingerprint: fingerprintWorkflow(workflow),
+          })
+        );
       });
 
       it('should store empty metadata when issueContext is undefined', async () => {
@@ -2479,7 +2582,13 @@ describe('Workflow Executor', () => {
         );
         expect(insertCalls.length).toBeGreaterThan(0);
         const insertParams = insertCalls[0][1] as string[];
-        expect(insertParams[4]).toBe('{}');
+        expect(insertParams[4]).toBe(
+          JSON.stringify({
+            models: { 'command-one': 'claude' },
+            cwd: testDir,
+            definition_fingerprint: fingerprintWorkflow(workflow),
+          })
+        );
       });
     });
   });
@@ -2920,149 +3029,2523 @@ describe('Workflow Executor', () => {
         yield { type: 'result', sessionId: 'new-session-id' };
       });
     });
+
+    it('should run one instance per item of a previous step JSON output', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(join(commandsDir, 'list-packages.md'), 'List the changed packages');
+      await writeFile(join(commandsDir, 'review-package.md'), 'Review package $item');
+      await writeFile(
+        join(commandsDir, 'summarize.md'),
+        'Summarize:\n$steps.review-package.output'
+      );
+
+      const prompts: string[] = [];
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        prompts.push(prompt);
+        if (prompt.startsWith('List')) {
+          yield { type: 'assistant', content: '```json\n{"packages": ["api", "web"]}\n```' };
+        } else {
+          yield { type: 'assistant', content: `Reviewed: ${prompt.slice(-3)}` };
+        }
+        yield { type: 'result', sessionId: 'session-id' };
+      });
+
+      const workflow: WorkflowDefinition = {
+        name: 'for-each-test',
+        description: 'Test for_each fan-out',
+        steps: [
+          { command: 'list-packages' },
+          {
+            parallel: [{ command: 'review-package' }],
+            for_each: '$steps.list-packages.json.packages',
+            max_concurrency: 1,
+          },
+          { command: 'summarize' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(prompts).toEqual([
+        'List the changed packages',
+        'Review package api',
+        'Review package web',
+        'Summarize:\n### api\n\nReviewed: api\n\n### web\n\nReviewed: web',
+      ]);
+      const messages = (mockPlatform.sendMessage as ReturnType<typeof mock>).mock.calls.map(
+        (call: unknown[]) => call[1] as string
+      );
+      expect(messages).toContain('⏳ **For each** (2 items, 1 at a time): `review-package`');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should report every failed item of a for_each block', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(join(commandsDir, 'review-package.md'), 'Review package $item');
+
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        if (prompt.endsWith('web')) {
+          throw new Error('Review crashed');
+        }
+        yield { type: 'assistant', content: 'Looks good' };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
+
+      const workflow: WorkflowDefinition = {
+        name: 'for-each-fail-test',
+        description: 'Test for_each failure handling',
+        steps: [{ parallel: [{ command: 'review-package' }], for_each: ['api', 'web', 'cli'] }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(3);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+      const messages = (mockPlatform.sendMessage as ReturnType<typeof mock>).mock.calls.map(
+        (call: unknown[]) => call[1] as string
+      );
+      const failureMessage = messages.find(m =>
+        m.includes('**Workflow failed** in parallel block')
+      );
+      expect(failureMessage).toContain('`review-package` (web): Review crashed');
+      expect(failureMessage).not.toContain('(api)');
+    });
+
+    describe('on_failure policies', () => {
+      // parallel-b fails; the others succeed
+      function failParallelB(): void {
+        mockSendQuery.mockImplementation(function* (prompt: string) {
+          if (prompt.includes('Parallel step B')) {
+            throw new Error('Step B: flaky tool error');
+          }
+          yield { type: 'assistant', content: 'Looks good' };
+          yield { type: 'result', sessionId: 'session-id' };
+        });
+      }
+
+      function getSentMessages(): string[] {
+        const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+        return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+      }
+
+      it('should continue past failed steps with on_failure: continue', async () => {
+        failParallelB();
+        const workflow: WorkflowDefinition = {
+          name: 'continue-test',
+          description: 'Tolerates failed reviews',
+          steps: [
+            {
+              parallel: [
+                { command: 'parallel-a' },
+                { command: 'parallel-b' },
+                { command: 'parallel-c' },
+              ],
+              on_failure: 'continue',
+            },
+            { command: 'step-after' },
+          ],
+        };
+
+        await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+        expect(mockSendQuery).toHaveBeenCalledTimes(4);
+        expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+        expect(getSentMessages()).toContain(
+          '⚠️ **Parallel block** continued with 1 failed step(s) (on_failure: continue):\n\n- `parallel-b`: Step B: flaky tool error'
+        );
+        const events = await parseLogEvents(testDir);
+        expect(events.find(e => e.type === 'parallel_block_complete')).toMatchObject({
+          summary: {
+            on_failure: 'continue',
+            succeeded: 2,
+            failed: 1,
+            cancelled: 0,
+            skipped: 0,
+            passed: true,
+          },
+        });
+      });
+
+      it('should require the quorum of completed steps', async () => {
+        failParallelB();
+        const steps = [
+          { command: 'parallel-a' },
+          { command: 'parallel-b' },
+          { command: 'parallel-c' },
+        ];
+
+        await executeWorkflow(
+          mockPlatform,
+          'conv-123',
+          testDir,
+          {
+            name: 'quorum-met',
+            description: 'Two of three',
+            steps: [{ parallel: steps, on_failure: { quorum: 2 } }],
+          },
+          'Run',
+          'db-conv-id'
+        );
+        expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+        expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+
+        await executeWorkflow(
+          mockPlatform,
+          'conv-123',
+          testDir,
+          {
+            name: 'quorum-missed',
+            description: 'All three',
+            steps: [{ parallel: steps, on_failure: { quorum: 3 } }],
+          },
+          'Run',
+          'db-conv-id'
+        );
+        expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+        expect(
+          getSentMessages().some(m =>
+            m.startsWith(
+              '❌ **Workflow failed** in parallel block (2 completed, quorum(3) required):'
+            )
+          )
+        ).toBe(true);
+      });
+
+      it('should count a step that exceeds its own timeout as a failed step of the quorum', async () => {
+        const signals: (AbortSignal | undefined)[] = [];
+        mockSendQuery.mockImplementation(async function* (
+          prompt: string,
+          _cwd: string,
+          _sessionId?: string,
+          options?: { abortSignal?: AbortSignal }
+        ) {
+          yield { type: 'assistant', content: 'Working...' };
+          if (prompt.includes('Parallel step B')) {
+            signals.push(options?.abortSignal);
+            await new Promise<void>((_, reject) => {
+              options?.abortSignal?.addEventListener('abort', () => {
+                reject(new Error('Query aborted by user'));
+              });
+            });
+          }
+          yield { type: 'result', sessionId: 'session-id' };
+        });
+
+        await executeWorkflow(
+          mockPlatform,
+          'conv-123',
+          testDir,
+          {
+            name: 'quorum-timeout',
+            description: 'One review agent hangs',
+            steps: [
+              {
+                parallel: [
+                  { command: 'parallel-a' },
+                  { command: 'parallel-b', timeout_minutes: 0.001 },
+                  { command: 'parallel-c' },
+                ],
+                on_failure: { quorum: 2 },
+              },
+              { command: 'step-after' },
+            ],
+          },
+          'Run',
+          'db-conv-id'
+        );
+
+        expect(signals[0]?.aborted).toBe(true);
+        expect(mockSendQuery).toHaveBeenCalledTimes(4);
+        expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+        expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+        const events = await parseLogEvents(testDir);
+        expect(events.find(e => e.type === 'parallel_block_complete')).toMatchObject({
+          summary: { on_failure: 'quorum(2)', succeeded: 2, failed: 1, passed: true },
+        });
+      });
+
+      it('should cancel the other steps at the first failure with on_failure: fail_fast', async () => {
+        const signals: (AbortSignal | undefined)[] = [];
+        mockSendQuery.mockImplementation(async function* (
+          prompt: string,
+          _cwd: string,
+          _sessionId?: string,
+          options?: { abortSignal?: AbortSignal }
+        ) {
+          if (prompt.includes('Parallel step A')) {
+            throw new Error('Step A: crashed');
+          }
+          // Hangs until the block cancels it
+          signals.push(options?.abortSignal);
+          yield { type: 'assistant', content: 'Working...' };
+          await new Promise<void>((_, reject) => {
+            options?.abortSignal?.addEventListener('abort', () => {
+              reject(new Error('Query aborted by user'));
+            });
+          });
+        });
+
+        const workflow: WorkflowDefinition = {
+          name: 'fail-fast-test',
+          description: 'Stops at the first failure',
+          steps: [
+            {
+              parallel: [
+                { command: 'parallel-b' },
+                { command: 'parallel-a' },
+                { command: 'parallel-c' },
+              ],
+              on_failure: 'fail_fast',
+              max_concurrency: 2,
+            },
+          ],
+        };
+
+        await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+        // parallel-c never started
+        expect(mockSendQuery).toHaveBeenCalledTimes(2);
+        expect(signals[0]?.aborted).toBe(true);
+        expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+        const failureMessage = getSentMessages().find(m =>
+          m.includes('**Workflow failed** in parallel block')
+        );
+        expect(failureMessage).toContain('- `parallel-a`: Step A: crashed');
+        expect(failureMessage).toContain('- `parallel-b`: Cancelled after `parallel-a` failed');
+        expect(failureMessage).toContain('- `parallel-c`: Cancelled after `parallel-a` failed');
+        const events = await parseLogEvents(testDir);
+        expect(events.find(e => e.type === 'parallel_block_complete')).toMatchObject({
+          summary: { on_failure: 'fail_fast', succeeded: 0, failed: 1, cancelled: 2 },
+        });
+      });
+    });
   });
 
-  describe('commitWorkflowArtifacts behavior', () => {
-    const testWorkflow: WorkflowDefinition = {
-      name: 'artifact-test-workflow',
-      description: 'Test workflow for artifact commit behavior',
-      steps: [{ command: 'command-one' }],
+  describe('DAG step execution', () => {
+    beforeEach(async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(join(commandsDir, 'scope.md'), 'Scope prompt');
+      await writeFile(join(commandsDir, 'review-a.md'), 'Review A prompt');
+      await writeFile(join(commandsDir, 'review-b.md'), 'Review B prompt');
+      await writeFile(join(commandsDir, 'synthesize.md'), 'Synthesize prompt');
+      await writeFile(join(commandsDir, 'fix.md'), 'Fix prompt');
+    });
+
+    // scope -> (review-a, review-b) -> synthesize -> fix
+    const dagWorkflow: WorkflowDefinition = {
+      name: 'dag-workflow',
+      description: 'Fan-out then fan-in',
+      steps: [
+        { command: 'scope' },
+        { command: 'review-a', depends_on: ['scope'] },
+        { command: 'review-b', depends_on: ['scope'] },
+        { command: 'synthesize', depends_on: ['review-a', 'review-b'] },
+        { command: 'fix', depends_on: ['synthesize'] },
+      ],
     };
 
-    it('should call commitAllChanges after workflow completion', async () => {
-      // Reset the spy to track calls
-      commitAllChangesSpy.mockResolvedValue(false);
+    it('should run steps in dependency order and complete', async () => {
+      const prompts: string[] = [];
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        prompts.push(prompt);
+        yield { type: 'assistant', content: 'Response' };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
 
       await executeWorkflow(
         mockPlatform,
         'conv-123',
         testDir,
-        testWorkflow,
-        'User message',
+        dagWorkflow,
+        'Run dag',
         'db-conv-id'
       );
 
-      // Verify commitAllChanges was called with the working directory
-      expect(commitAllChangesSpy).toHaveBeenCalledWith(
-        testDir,
-        expect.stringContaining('Auto-commit workflow artifacts')
-      );
+      expect(prompts).toHaveLength(5);
+      expect(prompts[0]).toContain('Scope prompt');
+      expect(prompts.slice(1, 3).sort()).toEqual(['Review A prompt', 'Review B prompt']);
+      expect(prompts[3]).toContain('Synthesize prompt');
+      expect(prompts[4]).toContain('Fix prompt');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
     });
 
-    it('should notify user when artifacts are committed (non-GitHub platform)', async () => {
-      // Mock commitAllChanges to return true (changes were committed)
-      commitAllChangesSpy.mockResolvedValue(true);
-
-      // Ensure platform is not GitHub
-      (mockPlatform.getPlatformType as ReturnType<typeof mock>).mockReturnValue('telegram');
+    it('should run independent steps concurrently', async () => {
+      let active = 0;
+      let maxActive = 0;
+      mockSendQuery.mockImplementation(async function* () {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        active--;
+        yield { type: 'assistant', content: 'Response' };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
 
       await executeWorkflow(
         mockPlatform,
         'conv-123',
         testDir,
-        testWorkflow,
-        'User message',
+        dagWorkflow,
+        'Run dag',
         'db-conv-id'
       );
 
-      // Should send notification about committed artifacts
-      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
-      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1]);
-      expect(
-        messages.some((m: string) => m.includes('Committed remaining workflow artifacts'))
-      ).toBe(true);
+      expect(maxActive).toBe(2);
     });
 
-    it('should suppress artifact commit notification on GitHub platform', async () => {
-      // Mock commitAllChanges to return true (changes were committed)
-      commitAllChangesSpy.mockResolvedValue(true);
-
-      // Set platform to GitHub
-      (mockPlatform.getPlatformType as ReturnType<typeof mock>).mockReturnValue('github');
-
+    it('should show execution levels in startup message', async () => {
       await executeWorkflow(
         mockPlatform,
         'conv-123',
         testDir,
-        testWorkflow,
-        'User message',
+        dagWorkflow,
+        'Run dag',
         'db-conv-id'
       );
 
-      // Should NOT send artifact commit notification on GitHub
       const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
-      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1]);
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
       expect(
-        messages.some((m: string) => m.includes('Committed remaining workflow artifacts'))
-      ).toBe(false);
+        messages.some(m =>
+          m.includes('**Steps**: `scope` → (`review-a`, `review-b`) → `synthesize` → `fix`')
+        )
+      ).toBe(true);
     });
 
-    it('should warn user when artifact commit fails', async () => {
-      // Mock commitAllChanges to throw an error
-      commitAllChangesSpy.mockRejectedValue(new Error('pre-commit hook failed'));
+    it('should resume the session only for sole dependents', async () => {
+      const sessionsByPrompt = new Map<string, string | undefined>();
+      mockSendQuery.mockImplementation(function* (
+        prompt: string,
+        _cwd: string,
+        sessionId?: string
+      ) {
+        sessionsByPrompt.set(prompt, sessionId);
+        yield { type: 'assistant', content: 'Response' };
+        yield { type: 'result', sessionId: `session-${prompt.split(' ')[0]}` };
+      });
 
       await executeWorkflow(
         mockPlatform,
         'conv-123',
         testDir,
-        testWorkflow,
-        'User message',
+        dagWorkflow,
+        'Run dag',
         'db-conv-id'
       );
 
-      // Should send warning about failed commit
-      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
-      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1]);
-      const warningMessage = messages.find(
-        (m: string) => m.includes('Warning') && m.includes('Could not auto-commit')
-      );
-      expect(warningMessage).toBeDefined();
-      expect(warningMessage).toContain('pre-commit hook failed');
-      expect(warningMessage).toContain('manually commit');
+      // Siblings sharing a dependency start fresh
+      expect(sessionsByPrompt.get('Review A prompt')).toBeUndefined();
+      expect(sessionsByPrompt.get('Review B prompt')).toBeUndefined();
+      // Fan-in starts fresh
+      expect(sessionsByPrompt.get('Synthesize prompt')).toBeUndefined();
+      // Sole dependent of a single dependency resumes its session
+      expect(sessionsByPrompt.get('Fix prompt')).toBe('session-Synthesize');
     });
 
-    it('should call commitAllChanges after loop workflow completion', async () => {
-      // Reset the spy to track calls
-      commitAllChangesSpy.mockResolvedValue(false);
-
-      // Mock AI to complete on first iteration
-      mockSendQuery.mockImplementation(function* () {
-        yield { type: 'assistant', content: '<promise>COMPLETE</promise>' };
+    it('should not run downstream steps when a dependency fails', async () => {
+      const prompts: string[] = [];
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        prompts.push(prompt);
+        if (prompt.includes('Review B')) {
+          throw new Error('Review B crashed');
+        }
+        yield { type: 'assistant', content: 'Response' };
         yield { type: 'result', sessionId: 'session-id' };
       });
 
-      const loopWorkflow: WorkflowDefinition = {
-        name: 'loop-artifact-test',
-        description: 'Test loop workflow artifact commit',
-        loop: { until: 'COMPLETE', max_iterations: 5, fresh_context: false },
-        prompt: 'Complete immediately.',
-      };
-
       await executeWorkflow(
         mockPlatform,
         'conv-123',
         testDir,
-        loopWorkflow,
-        'User message',
+        dagWorkflow,
+        'Run dag',
         'db-conv-id'
       );
 
-      // Verify commitAllChanges was called
-      expect(commitAllChangesSpy).toHaveBeenCalledWith(
+      // Sibling review-a still finishes, but nothing downstream starts
+      expect(prompts).toHaveLength(3);
+      expect(prompts.some(p => p.includes('Synthesize'))).toBe(false);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+      const failureMessage = messages.find(m => m.includes('**Workflow failed**'));
+      expect(failureMessage).toContain('`review-b`: Review B crashed');
+      expect(failureMessage).toContain('Not run: `synthesize` (blocked), `fix` (blocked)');
+    });
+
+    it('should record completed step ids in run metadata', async () => {
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
         testDir,
-        expect.stringContaining('Auto-commit workflow artifacts')
+        dagWorkflow,
+        'Run dag',
+        'db-conv-id'
       );
 
-      // Reset mock
-      mockSendQuery.mockImplementation(function* () {
-        yield { type: 'assistant', content: 'AI response' };
-        yield { type: 'result', sessionId: 'new-session-id' };
-      });
+      const metadataUpdates = mockQuery.mock.calls.filter((call: unknown[]) =>
+        (call[0] as string).includes('metadata = metadata ||')
+      );
+      const lastUpdate = metadataUpdates[metadataUpdates.length - 1] as unknown[];
+      const params = lastUpdate[1] as unknown[];
+      const metadata = JSON.parse(params[1] as string) as { completed_steps: string[] };
+      // Concurrent siblings may complete in either order
+      expect(metadata.completed_steps).toHaveLength(5);
+      expect(metadata.completed_steps[0]).toBe('scope');
+      expect(metadata.completed_steps.slice(1, 3).sort()).toEqual(['review-a', 'review-b']);
+      expect(metadata.completed_steps.slice(3)).toEqual(['synthesize', 'fix']);
     });
+  });
 
-    it('should call commitAllChanges even when loop workflow fails', async () => {
-      // Reset the spy to track calls
-      commitAllChangesSpy.mockResolvedValue(false);
+  describe('Conditional steps', () => {
+    it('should skip a step whose condition is not met and keep the session', async () => {
+      const calls: { prompt: string; sessionId?: string }[] = [];
+      mockSendQuery.mockImplementation(function* (
+        prompt: string,
+        _cwd: string,
+        sessionId?: string
+      ) {
+        calls.push({ prompt, sessionId });
+        yield { type: 'assistant', content: 'Everything merged cleanly' };
+        yield { type: 'result', sessionId: 'first-session' };
+      });
+
+      const workflow: WorkflowDefinition = {
+        name: 'conditional-workflow',
+        description: 'Skips conflict resolution',
+        steps: [
+          { command: 'command-one' },
+          { command: 'command-two', when: 'steps.command-one.output contains "CONFLICT"' },
+          { command: 'first-command' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(calls.map(c => c.prompt)).toEqual([
+        'Command one prompt for test user message',
+        'First command prompt',
+      ]);
+      // Skipped step doesn't break session continuity
+      expect(calls[1].sessionId).toBe('first-session');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+      expect(messages).toContain(
+        '⏭️ **Skipped**: `command-two` (condition not met: `steps.command-one.output contains "CONFLICT"`)'
+      );
+
+      const events = await parseLogEvents(testDir);
+      const skipped = events.find(e => e.type === 'step_skipped');
+      expect(skipped).toMatchObject({
+        step: 'command-two',
+        step_index: 1,
+        condition: 'steps.command-one.output contains "CONFLICT"',
+      });
+    });
+
+    it('should run a step whose condition is met', async () => {
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: 'CONFLICT in src/app.ts' };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
+
+      const workflow: WorkflowDefinition = {
+        name: 'conditional-workflow',
+        description: 'Resolves conflicts',
+        steps: [
+          { command: 'command-one' },
+          { command: 'command-two', when: 'steps.command-one.output contains "CONFLICT"' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      const events = await parseLogEvents(testDir);
+      expect(events.some(e => e.type === 'step_skipped')).toBe(false);
+    });
+
+    it('should evaluate exists() against artifacts using the issue number', async () => {
+      const reviewDir = join(testDir, '.archon', 'artifacts', 'reviews', 'pr-42');
+      await mkdir(reviewDir, { recursive: true });
+      await writeFile(join(reviewDir, 'critical.md'), '# Critical');
+
+      const workflow: WorkflowDefinition = {
+        name: 'conditional-workflow',
+        description: 'Fixes critical issues only',
+        steps: [
+          {
+            command: 'command-one',
+            when: 'exists(.archon/artifacts/reviews/pr-$ISSUE_NUMBER/critical.md)',
+          },
+          {
+            command: 'command-two',
+            when: 'exists(.archon/artifacts/reviews/pr-$ISSUE_NUMBER/none.md)',
+          },
+        ],
+      };
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        workflow,
+        'Run',
+        'db-conv-id',
+        undefined,
+        'PR #42: "Add feature"'
+      );
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toContain('Command one prompt');
+    });
+
+    it('should skip parallel branches whose condition is not met', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'conditional-parallel',
+        description: 'Parallel with conditional branch',
+        steps: [
+          {
+            parallel: [
+              { command: 'command-one' },
+              { command: 'command-two', when: '$USER_MESSAGE contains "docs"' },
+            ],
+          },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should let dependents of a skipped DAG step run', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'conditional-dag',
+        description: 'DAG with conditional step',
+        steps: [
+          { command: 'command-one' },
+          {
+            command: 'command-two',
+            depends_on: ['command-one'],
+            when: 'steps.command-one.status == failed',
+          },
+          { command: 'first-command', depends_on: ['command-two'] },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      const prompts = mockSendQuery.mock.calls.map(call => call[0]);
+      expect(prompts).toEqual(['Command one prompt for test user message', 'First command prompt']);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Step outputs', () => {
+    it('should pass earlier step outputs to later prompts', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(
+        join(commandsDir, 'command-two.md'),
+        'Plan: $steps.command-one.output\nRisk: $steps.command-one.json.risk\nFiles: $steps.command-one.json.files'
+      );
+
+      const prompts: string[] = [];
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        prompts.push(prompt);
+        yield { type: 'assistant', content: 'Thinking about it...' };
+        yield {
+          type: 'assistant',
+          content: 'Done.\n```json\n{"risk": "low", "files": ["a.ts", "b.ts"]}\n```',
+        };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
+
+      const workflow: WorkflowDefinition = {
+        name: 'outputs-workflow',
+        description: 'Hands data forward',
+        steps: [{ command: 'command-one' }, { command: 'command-two', clearContext: true }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      // Only the final assistant message is the step output
+      expect(prompts[1]).toBe(
+        'Plan: Done.\n```json\n{"risk": "low", "files": ["a.ts", "b.ts"]}\n```\nRisk: low\nFiles: ["a.ts","b.ts"]'
+      );
+    });
+
+    it('should clear references to steps without output', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(
+        join(commandsDir, 'command-one.md'),
+        'Before [$steps.command-two.output] [$steps.command-two.json.field]'
+      );
+
+      const workflow: WorkflowDefinition = {
+        name: 'outputs-workflow',
+        description: 'References a later step',
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Before [] []');
+    });
+
+    it('should persist step outputs in run metadata', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'outputs-workflow',
+        description: 'Persists outputs',
+        steps: [{ command: 'command-one', id: 'plan' }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      const metadataUpdates = mockQuery.mock.calls.filter((call: unknown[]) =>
+        (call[0] as string).includes('metadata = metadata ||')
+      );
+      const lastUpdate = metadataUpdates[metadataUpdates.length - 1] as unknown[];
+      const params = lastUpdate[1] as unknown[];
+      expect(JSON.parse(params[1] as string)).toEqual({
+        step_outputs: {
+          plan: { status: 'completed', output: 'AI response' },
+          'command-two': { status: 'completed', output: 'AI response' },
+        },
+        session_id: 'new-session-id',
+      });
+    });
+  });
+
+  describe('Retry policy', () => {
+    // Fails with the given errors first, then succeeds
+    function failThenSucceed(errors: string[]): { sessionIds: (string | undefined)[] } {
+      const state = { sessionIds: [] as (string | undefined)[] };
+      mockSendQuery.mockImplementation(function* (
+        _prompt: string,
+        _cwd: string,
+        sessionId?: string
+      ) {
+        state.sessionIds.push(sessionId);
+        const error = errors[state.sessionIds.length - 1];
+        if (error) {
+          throw new Error(error);
+        }
+        yield { type: 'assistant', content: 'Done <promise>COMPLETE</promise>' };
+        yield { type: 'result', sessionId: 'retry-session' };
+      });
+      return state;
+    }
+
+    it('should retry transient errors and complete', async () => {
+      failThenSucceed(['Request timeout: ETIMEDOUT']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Retries transient errors',
+        steps: [{ command: 'command-one', retry: { max_attempts: 3, backoff_seconds: 0 } }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+      expect(messages).toContain(
+        '🔄 **Retrying** `command-one` in 0s (attempt 2/3): Request timeout: ETIMEDOUT'
+      );
+
+      const events = await parseLogEvents(testDir);
+      expect(events.find(e => e.type === 'step_error')).toMatchObject({
+        step: 'command-one',
+        error: 'Request timeout: ETIMEDOUT',
+        attempt: 1,
+        max_attempts: 3,
+      });
+      expect(events.find(e => e.type === 'step_retry')).toMatchObject({
+        step: 'command-one',
+        attempt: 2,
+      });
+    });
+
+    it('should not retry errors outside the policy', async () => {
+      failThenSucceed(['API error: Service unavailable']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Only retries transient errors',
+        steps: [{ command: 'command-one', retry: { max_attempts: 3, backoff_seconds: 0 } }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+    });
+
+    it('should retry any non-fatal error with on: [any]', async () => {
+      failThenSucceed(['API error: Service unavailable']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Retries anything',
+        steps: [
+          { command: 'command-one', retry: { max_attempts: 2, backoff_seconds: 0, on: ['any'] } },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should never retry fatal errors', async () => {
+      failThenSucceed(['401 Unauthorized: Invalid API key']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Auth errors are fatal',
+        steps: [
+          { command: 'command-one', retry: { max_attempts: 3, backoff_seconds: 0, on: ['any'] } },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+    });
+
+    it('should only match rate limits with on: [rate_limit]', async () => {
+      failThenSucceed(['API returned 429: Too many requests', 'Request timeout: ETIMEDOUT']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Retries rate limits only',
+        steps: [
+          {
+            command: 'command-one',
+            retry: { max_attempts: 3, backoff_seconds: 0, on: ['rate_limit'] },
+          },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      // 429 retried, timeout is not a rate limit
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+    });
+
+    it('should fail after max_attempts', async () => {
+      failThenSucceed(['network error', 'network error', 'network error']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Gives up',
+        steps: [{ command: 'command-one', retry: { max_attempts: 2, backoff_seconds: 0 } }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+      const events = await parseLogEvents(testDir);
+      expect(events.filter(e => e.type === 'step_error')).toHaveLength(2);
+    });
+
+    it('should resume the step session on retry unless fresh_context is set', async () => {
+      const resumed = failThenSucceed(['', 'network error']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Resumes on retry',
+        retry: { max_attempts: 2, backoff_seconds: 0 },
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      // Workflow-level default applies to every step
+      expect(resumed.sessionIds).toEqual([undefined, 'retry-session', 'retry-session']);
+
+      mockSendQuery.mockClear();
+      const fresh = failThenSucceed(['', 'network error']);
+      const freshWorkflow: WorkflowDefinition = {
+        ...workflow,
+        retry: { max_attempts: 2, backoff_seconds: 0, fresh_context: true },
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, freshWorkflow, 'Run', 'db-conv-id');
+
+      expect(fresh.sessionIds).toEqual([undefined, 'retry-session', undefined]);
+    });
+
+    it('should let a step policy override the workflow default', async () => {
+      failThenSucceed(['network error']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-workflow',
+        description: 'Step opts out of retries',
+        retry: { max_attempts: 3, backoff_seconds: 0 },
+        steps: [{ command: 'command-one', retry: { max_attempts: 1 } }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+    });
+
+    it('should retry loop iterations with the workflow policy', async () => {
+      failThenSucceed(['API returned 429: Too many requests']);
+      const workflow: WorkflowDefinition = {
+        name: 'retry-loop',
+        description: 'Loop with retries',
+        retry: { max_attempts: 2, backoff_seconds: 0 },
+        loop: { until: 'COMPLETE', max_iterations: 3 },
+        prompt: 'Keep going',
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+      const events = await parseLogEvents(testDir);
+      expect(events.find(e => e.type === 'step_retry')).toMatchObject({
+        step: 'iteration-1',
+        attempt: 2,
+      });
+    });
+  });
+
+  describe('Timeouts', () => {
+    // Yields one message, then hangs until aborted (or forever when ignoreAbort is set)
+    function hangAfterFirstMessage(ignoreAbort = false): { signals: (AbortSignal | undefined)[] } {
+      const state = { signals: [] as (AbortSignal | undefined)[] };
+      mockSendQuery.mockImplementation(async function* (
+        _prompt: string,
+        _cwd: string,
+        _sessionId?: string,
+        options?: { abortSignal?: AbortSignal }
+      ) {
+        state.signals.push(options?.abortSignal);
+        yield { type: 'assistant', content: 'Working...' };
+        await new Promise<void>((_, reject) => {
+          if (!ignoreAbort) {
+            options?.abortSignal?.addEventListener('abort', () => {
+              reject(new Error('Query aborted by user'));
+            });
+          }
+        });
+      });
+      return state;
+    }
+
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    it('should abort the query and fail the run when a step times out', async () => {
+      const state = hangAfterFirstMessage();
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-workflow',
+        description: 'Step hangs',
+        steps: [{ command: 'command-one', timeout_minutes: 0.001 }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      // Second step never started
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(state.signals[0]?.aborted).toBe(true);
+
+      const failedUpdates = getWorkflowStatusUpdates('failed');
+      expect(failedUpdates).toHaveLength(1);
+      expect((failedUpdates[0][1] as unknown[])[1]).toBe(
+        JSON.stringify({
+          error: 'Step `command-one` exceeded its 0.001 minute timeout',
+          failure_reason: 'timeout',
+        })
+      );
+      expect(getSentMessages()).toContain(
+        '⏱️ **Workflow timed out**: Step `command-one` exceeded its 0.001 minute timeout'
+      );
+    });
+
+    it('should not retry a step that timed out', async () => {
+      hangAfterFirstMessage();
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-workflow',
+        description: 'Timeouts are not retried',
+        steps: [
+          {
+            command: 'command-one',
+            timeout_minutes: 0.001,
+            retry: { max_attempts: 3, backoff_seconds: 0, on: ['any'] },
+          },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(1);
+    });
+
+    it('should stop waiting out a retry backoff when the step times out', async () => {
+      // eslint-disable-next-line require-yield
+      mockSendQuery.mockImplementation(async function* () {
+        throw new Error('network error');
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-workflow',
+        description: 'Times out during the backoff',
+        steps: [
+          {
+            command: 'command-one',
+            timeout_minutes: 0.001,
+            retry: { max_attempts: 3, backoff_seconds: 60 },
+          },
+        ],
+      };
+
+      const startedAt = Date.now();
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(Date.now() - startedAt).toBeLessThan(5000);
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      const failedUpdates = getWorkflowStatusUpdates('failed');
+      expect(failedUpdates).toHaveLength(1);
+      expect((failedUpdates[0][1] as unknown[])[1]).toContain('"failure_reason":"timeout"');
+    });
+
+    it('should stop a loop workflow even if the client ignores the abort signal', async () => {
+      hangAfterFirstMessage(true);
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-loop',
+        description: 'Loop hangs',
+        timeout_minutes: 0.001,
+        loop: { until: 'COMPLETE', max_iterations: 3 },
+        prompt: 'Keep going',
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      const failedUpdates = getWorkflowStatusUpdates('failed');
+      expect(failedUpdates).toHaveLength(1);
+      expect((failedUpdates[0][1] as unknown[])[1]).toContain('"failure_reason":"timeout"');
+      expect(getSentMessages()).toContain(
+        '⏱️ **Workflow timed out**: Workflow `timeout-loop` exceeded its 0.001 minute timeout'
+      );
+    });
+
+    it('should abort parallel siblings when the workflow times out', async () => {
+      const state = hangAfterFirstMessage();
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-parallel',
+        description: 'Parallel agents hang',
+        timeout_minutes: 0.001,
+        steps: [{ parallel: [{ command: 'command-one' }, { command: 'command-two' }] }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(state.signals).toHaveLength(2);
+      expect(state.signals.every(signal => signal?.aborted)).toBe(true);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(1);
+    });
+
+    it('should let DAG siblings settle before failing the run on a step timeout', async () => {
+      (mockPlatform.getStreamingMode as ReturnType<typeof mock>).mockReturnValue('stream');
+      const events: string[] = [];
+      mockSendQuery.mockImplementation(async function* (
+        prompt: string,
+        _cwd: string,
+        _sessionId?: string,
+        options?: { abortSignal?: AbortSignal }
+      ) {
+        yield { type: 'assistant', content: prompt.includes('Command two') ? 'Slow' : 'Working' };
+        await new Promise<void>((_, reject) => {
+          options?.abortSignal?.addEventListener('abort', () => {
+            reject(new Error('Query aborted by user'));
+          });
+        });
+      });
+      (mockPlatform.sendMessage as ReturnType<typeof mock>).mockImplementation(
+        async (_conversationId: string, message: string) => {
+          if (message === 'Slow') {
+            // Still sending when command-one times out
+            await new Promise(resolve => setTimeout(resolve, 150));
+            events.push('sibling settled');
+          } else if (message.includes('Workflow timed out')) {
+            events.push('run failed');
+          }
+        }
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-dag',
+        description: 'One DAG step hangs past its timeout',
+        steps: [
+          { command: 'command-one', depends_on: [], timeout_minutes: 0.001 },
+          { command: 'command-two', depends_on: [] },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(events).toEqual(['sibling settled', 'run failed']);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(1);
+    });
+
+    it('should complete normally within the timeout', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'timeout-workflow',
+        description: 'Finishes in time',
+        timeout_minutes: 10,
+        steps: [{ command: 'command-one', timeout_minutes: 5 }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+    });
+  });
+
+  describe('Workflow on_failure and finally steps', () => {
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    beforeEach(async () => {
+      await writeFile(
+        join(testDir, '.archon', 'commands', 'cleanup.md'),
+        'Clean up after [$FAILED_STEP]: $ERROR'
+      );
+    });
+
+    it('should run on_failure steps with the failed step and error, then finally', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Failing check with cleanup',
+        steps: [{ run: 'exit 3', id: 'lint' }, { command: 'command-two' }],
+        on_failure: [{ command: 'cleanup' }],
+        finally: [{ command: 'command-one' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      const cleanupPrompt = mockSendQuery.mock.calls[0][0] as string;
+      expect(cleanupPrompt).toStartWith('Clean up after [exit 3]: ');
+      expect(cleanupPrompt).toContain('exited with code 3');
+      expect(mockSendQuery.mock.calls[1][0]).toBe('Command one prompt for test user message');
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+      expect(getWorkflowStatusUpdates('completed')).toHaveLength(0);
+      expect(getSentMessages()).toContain('🧯 **Running `on_failure` steps**: `cleanup`');
+    });
+
+    it('should run only finally steps after success, before artifacts are committed', async () => {
+      const order: string[] = [];
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        order.push(prompt);
+        yield { type: 'result', sessionId: 'new-session-id' };
+      });
+      commitAllChangesSpy.mockImplementation(() => {
+        order.push('commit');
+        return Promise.resolve(false);
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Cleanup after success',
+        steps: [{ command: 'command-two' }],
+        on_failure: [{ command: 'first-command' }],
+        finally: [{ command: 'cleanup' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(order).toEqual(['Command two prompt', 'Clean up after []: ', 'commit']);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should report a failing hook step without changing the run outcome', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Cleanup fails',
+        steps: [{ command: 'command-two' }],
+        finally: [{ run: 'exit 1' }, { command: 'cleanup' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      // The rest of the finally list is skipped
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+      expect(
+        getSentMessages().some(message => message.startsWith('⚠️ `finally` step `exit 1` failed'))
+      ).toBe(true);
+    });
+
+    it('should stop a cancelled run and still run its on_failure steps', async () => {
+      let started: () => void = () => {};
+      const queryStarted = new Promise<void>(resolve => {
+        started = resolve;
+      });
+      mockSendQuery.mockImplementation(async function* (
+        prompt: string,
+        _cwd: string,
+        _sessionId?: string,
+        options?: { abortSignal?: AbortSignal }
+      ) {
+        if (prompt.startsWith('Clean up')) {
+          yield { type: 'result', sessionId: 'cleanup-session' };
+          return;
+        }
+        started();
+        yield { type: 'assistant', content: 'Working...' };
+        await new Promise<void>((_, reject) => {
+          options?.abortSignal?.addEventListener('abort', () => {
+            reject(new Error('Query aborted by user'));
+          });
+        });
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Long-running step',
+        steps: [{ command: 'command-two' }],
+        on_failure: [{ command: 'cleanup' }],
+      };
+
+      const run = executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+      await queryStarted;
+      expect(cancelRunningWorkflow('test-workflow-run-id', 'Cancelled by user')).toBe(true);
+      await run;
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(mockSendQuery.mock.calls[1][0]).toBe('Clean up after []: Cancelled by user');
+      const failedUpdates = getWorkflowStatusUpdates('failed');
+      expect(failedUpdates).toHaveLength(1);
+      expect((failedUpdates[0][1] as unknown[])[1]).toContain('"failure_reason":"cancelled"');
+      expect(getSentMessages().some(message => message.includes('Workflow failed'))).toBe(false);
+      // No longer registered once the run has ended
+      expect(cancelRunningWorkflow('test-workflow-run-id', 'Cancelled by user')).toBe(false);
+    });
+
+    describe('stopping paused runs', () => {
+      const hookedWorkflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Paused run with cleanup',
+        steps: [{ command: 'command-one' }, { approval: { message: 'Ship it?' } }],
+        on_failure: [{ command: 'cleanup' }],
+        finally: [{ command: 'command-two' }],
+      };
+
+      function createPausedRun(status: 'interrupted' | 'waiting_approval'): WorkflowRun {
+        return {
+          id: 'test-workflow-run-id',
+          workflow_name: 'test-workflow',
+          conversation_id: 'db-conv-id',
+          codebase_id: null,
+          current_step_index: 1,
+          status,
+          user_message: 'Go',
+          metadata: {},
+          parent_run_id: null,
+          started_at: new Date(),
+          completed_at: null,
+          last_activity_at: null,
+        };
+      }
+
+      const cases = [
+        {
+          name: 'rejected',
+          status: 'waiting_approval',
+          error: 'Rejected: wrong approach',
+          reason: 'rejected',
+        },
+        { name: 'abandoned', status: 'interrupted', error: 'Abandoned by user' },
+        {
+          name: 'expired',
+          status: 'waiting_approval',
+          error: 'Approval request expired',
+          reason: 'approval_timeout',
+        },
+      ] as const;
+
+      for (const { name, status, error, reason } of cases) {
+        it(`should fail a ${name} run and run its on_failure and finally steps`, async () => {
+          await stopPausedWorkflow(
+            mockPlatform,
+            'conv-123',
+            testDir,
+            hookedWorkflow,
+            createPausedRun(status),
+            error,
+            reason
+          );
+
+          expect(mockSendQuery).toHaveBeenCalledTimes(2);
+          expect(mockSendQuery.mock.calls[0][0]).toBe(`Clean up after []: ${error}`);
+          expect(mockSendQuery.mock.calls[1][0]).toBe('Command two prompt');
+          const failedUpdates = getWorkflowStatusUpdates('failed');
+          expect(failedUpdates).toHaveLength(1);
+          expect(JSON.parse((failedUpdates[0][1] as unknown[])[1] as string)).toEqual(
+            reason ? { error, failure_reason: reason } : { error }
+          );
+          expect(getSentMessages()).toContain('🧯 **Running `on_failure` steps**: `cleanup`');
+        });
+      }
+    });
+  });
+
+  describe('Model selection', () => {
+    let loadConfigSpy: Mock<typeof configLoader.loadConfig>;
+
+    beforeEach(() => {
+      const realLoadConfig = configLoader.loadConfig;
+      loadConfigSpy = spyOn(configLoader, 'loadConfig').mockImplementation(async repoPath => ({
+        ...(await realLoadConfig(repoPath)),
+        models: { fast: 'claude/haiku', alt: 'codex/gpt-5', broken: 'other/model' },
+      }));
+    });
+
+    afterEach(() => {
+      loadConfigSpy.mockRestore();
+    });
+
+    it('should run each step on its model and record the choice', async () => {
+      let calls = 0;
+      mockSendQuery.mockImplementation(function* () {
+        calls++;
+        yield { type: 'assistant', content: 'AI response' };
+        yield { type: 'result', sessionId: `session-${String(calls)}` };
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Per-step models',
+        model: 'sonnet',
+        steps: [
+          { command: 'command-one', model: 'fast' },
+          { command: 'command-two', model: 'alt' },
+          { command: 'first-command' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockGetAssistantClient.mock.calls.map(call => call[0])).toEqual([
+        'claude',
+        'codex',
+        'claude',
+      ]);
+      const queries = mockSendQuery.mock.calls as unknown as [
+        string,
+        string,
+        string | undefined,
+        { model?: string },
+      ][];
+      expect(queries.map(call => call[3].model)).toEqual(['haiku', 'gpt-5', 'sonnet']);
+      // The codex step runs in a fresh session; the next claude step continues session-1
+      expect(queries[1][2]).toBeUndefined();
+      expect(queries[2][2]).toBe('session-1');
+
+      const insert = mockQuery.mock.calls.find(call =>
+        (call[0] as string).includes('INSERT INTO remote_agent_workflow_runs')
+      );
+      const metadata = JSON.parse((insert?.[1] as unknown[])[4] as string) as {
+        models?: Record<string, string>;
+      };
+      expect(metadata.models).toEqual({
+        'command-one': 'claude/haiku',
+        'command-two': 'codex/gpt-5',
+        'first-command': 'claude/sonnet',
+      });
+
+      const events = await parseLogEvents(testDir);
+      expect(events.filter(e => e.type === 'step_start').map(e => e.model)).toEqual([
+        'claude/haiku',
+        'codex/gpt-5',
+        'claude/sonnet',
+      ]);
+    });
+
+    it('should not start a run with an invalid model', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Broken registry entry',
+        steps: [{ command: 'command-one', model: 'broken' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).not.toHaveBeenCalled();
+      const inserts = mockQuery.mock.calls.filter(call =>
+        (call[0] as string).includes('INSERT INTO remote_agent_workflow_runs')
+      );
+      expect(inserts).toHaveLength(0);
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      expect(sendMessage.mock.calls[0][1] as string).toStartWith(
+        '❌ **Invalid models** for `test-workflow`:\n- Step "command-one": Model \'broken\''
+      );
+    });
+  });
+
+  describe('Workflow inputs', () => {
+    const inputsWorkflow: WorkflowDefinition = {
+      name: 'inputs-workflow',
+      description: 'Typed inputs',
+      inputs: [
+        { name: 'issue', type: 'number', required: true },
+        { name: 'strict', type: 'boolean', default: false },
+      ],
+      steps: [{ command: 'command-one' }],
+    };
+
+    it('should substitute $inputs variables and store the values in run metadata', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(
+        join(commandsDir, 'command-one.md'),
+        'Fix issue #$inputs.issue (strict: $inputs.strict)'
+      );
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        inputsWorkflow,
+        'Fix it',
+        'db-conv-id',
+        undefined,
+        undefined,
+        undefined,
+        { issue: '42' }
+      );
+
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Fix issue #42 (strict: false)');
+      const insertCall = mockQuery.mock.calls.find((call: unknown[]) =>
+        (call[0] as string).includes('INSERT INTO remote_agent_workflow_runs')
+      ) as unknown[];
+      const params = insertCall[1] as unknown[];
+      expect(JSON.parse(params[4] as string)).toEqual({
+        inputs: { issue: 42, strict: false },
+        models: { 'command-one': 'claude' },
+        cwd: testDir,
+        definition_fingerprint: fingerprintWorkflow(inputsWorkflow),
+      });
+    });
+
+    it('should refuse to start when inputs are invalid', async () => {
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        inputsWorkflow,
+        'Fix it',
+        'db-conv-id',
+        undefined,
+        undefined,
+        undefined,
+        { strict: 'maybe' }
+      );
+
+      expect(mockQuery).not.toHaveBeenCalled();
+      expect(mockSendQuery).not.toHaveBeenCalled();
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const message = sendMessage.mock.calls[0][1] as string;
+      expect(message).toContain('Invalid workflow inputs');
+      expect(message).toContain("Missing required input 'issue'");
+      expect(message).toContain('`issue` (number, required)');
+    });
+
+    it('should expose inputs to step conditions', async () => {
+      const workflow: WorkflowDefinition = {
+        ...inputsWorkflow,
+        steps: [
+          { command: 'command-one', when: '$inputs.strict == true' },
+          { command: 'command-two', when: '$inputs.issue == 42' },
+        ],
+      };
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        workflow,
+        'Fix it',
+        'db-conv-id',
+        undefined,
+        undefined,
+        undefined,
+        { issue: '42' }
+      );
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toContain('Command two');
+      expect(getWorkflowStatusUpdates('completed')).toHaveLength(1);
+    });
+  });
+
+  describe('Resuming interrupted runs', () => {
+    function createInterruptedRun(
+      currentStepIndex: number,
+      metadata: Record<string, unknown>
+    ): WorkflowRun {
+      return {
+        id: 'test-workflow-run-id',
+        workflow_name: 'test-workflow',
+        conversation_id: 'db-conv-id',
+        codebase_id: null,
+        current_step_index: currentStepIndex,
+        status: 'interrupted',
+        user_message: 'Run',
+        metadata,
+        parent_run_id: null,
+        started_at: new Date(),
+        completed_at: null,
+        last_activity_at: null,
+      };
+    }
+
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    beforeEach(() => {
+      // The paused run is claimed unless a test says otherwise
+      mockQuery.mockImplementation((query: string) =>
+        query.includes("SET status = 'running'")
+          ? Promise.resolve(
+              createQueryResult([{ ...createInterruptedRun(0, {}), status: 'running' as const }])
+            )
+          : defaultQuery(query)
+      );
+    });
+
+    it('should continue a sequential run at the next step with the saved session', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Two steps',
+        steps: [{ command: 'command-one', id: 'plan' }, { command: 'command-two' }],
+      };
+      const run = createInterruptedRun(1, {
+        session_id: 'saved-session',
+        step_outputs: { plan: { status: 'completed', output: 'The plan' } },
+      });
+
+      await resumeWorkflow(mockPlatform, 'conv-123', testDir, workflow, run);
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Command two prompt');
+      expect(mockSendQuery.mock.calls[0][2]).toBe('saved-session');
+      expect(getSentMessages()[0]).toContain('Resuming workflow');
+      expect(getSentMessages()[0]).toContain('from step 2/2');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+
+      // Restored outputs are kept alongside the new ones
+      const metadataUpdates = mockQuery.mock.calls.filter((call: unknown[]) =>
+        (call[0] as string).includes('metadata = metadata ||')
+      );
+      const lastUpdate = metadataUpdates[metadataUpdates.length - 1] as unknown[];
+      const params = lastUpdate[1] as unknown[];
+      expect(JSON.parse(params[1] as string)).toEqual({
+        step_outputs: {
+          plan: { status: 'completed', output: 'The plan' },
+          'command-two': { status: 'completed', output: 'AI response' },
+        },
+        session_id: 'new-session-id',
+      });
+
+      const events = await parseLogEvents(testDir);
+      expect(events.some(e => e.type === 'workflow_resume' && e.step_index === 1)).toBe(true);
+    });
+
+    it('should skip completed DAG steps', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(join(commandsDir, 'scope.md'), 'Scope prompt');
+      await writeFile(join(commandsDir, 'review.md'), 'Review prompt');
+      await writeFile(join(commandsDir, 'fix.md'), 'Fix prompt');
+      const prompts: string[] = [];
+      mockSendQuery.mockImplementation(function* (prompt: string) {
+        prompts.push(prompt);
+        yield { type: 'assistant', content: 'Response' };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'DAG',
+        steps: [
+          { command: 'scope' },
+          { command: 'review', depends_on: ['scope'] },
+          { command: 'fix', depends_on: ['review'] },
+        ],
+      };
+      const run = createInterruptedRun(1, { completed_steps: ['scope'] });
+
+      await resumeWorkflow(mockPlatform, 'conv-123', testDir, workflow, run);
+
+      expect(prompts).toEqual(['Review prompt', 'Fix prompt']);
+      expect(getSentMessages()[0]).toContain('1/3 steps already completed');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should repeat the interrupted loop iteration', async () => {
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: 'Done <promise>COMPLETE</promise>' };
+        yield { type: 'result', sessionId: 'loop-session' };
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Loop',
+        loop: { until: 'COMPLETE', max_iterations: 5, fresh_context: false },
+        prompt: 'Keep going',
+      };
+      const run = createInterruptedRun(3, { session_id: 'iteration-2-session' });
+
+      await resumeWorkflow(mockPlatform, 'conv-123', testDir, workflow, run);
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][2]).toBe('iteration-2-session');
+      expect(getSentMessages()[0]).toContain('from iteration 3/5');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should restore the last check output of the interrupted loop iteration', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Loop',
+        loop: { until_command: 'true', max_iterations: 5 },
+        prompt: 'Fix it. Last check: [$LAST_CHECK_OUTPUT]',
+      };
+      const run = createInterruptedRun(2, { last_check_output: 'check 1 failed' });
+
+      await resumeWorkflow(mockPlatform, 'conv-123', testDir, workflow, run);
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Fix it. Last check: [check 1 failed]');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should count the tool calls and turns recorded before the interruption', async () => {
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'tool', toolName: 'Read', toolInput: { file_path: 'a.ts' } };
+        yield { type: 'assistant', content: 'Done' };
+        yield { type: 'result', sessionId: 'new-session-id' };
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Two steps',
+        budget: { max_tool_calls: 5 },
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+      const total = {
+        inputTokens: 100,
+        outputTokens: 10,
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+      };
+      const run = createInterruptedRun(1, {
+        usage: { total, steps: { 'command-one': total }, toolCalls: 5, turns: 3 },
+      });
+
+      await resumeWorkflow(mockPlatform, 'conv-123', testDir, workflow, run);
+
+      expect(getWorkflowStatusUpdates('completed')).toHaveLength(0);
+      expect((getWorkflowStatusUpdates('failed')[0][1] as unknown[])[1]).toContain(
+        'Workflow `test-workflow` exceeded its budget: 6 tool calls (max 5)'
+      );
+      // The counts reached are saved for the next resume
+      const usageUpdates = mockQuery.mock.calls
+        .filter((call: unknown[]) => (call[0] as string).includes('metadata = metadata ||'))
+        .map((call: unknown[]) => {
+          const json = (call[1] as unknown[]).find(
+            value => typeof value === 'string' && value.startsWith('{')
+          );
+          return JSON.parse(json as string) as object;
+        })
+        .filter(metadata => 'usage' in metadata);
+      expect(usageUpdates.at(-1)).toMatchObject({ usage: { toolCalls: 6, turns: 3 } });
+    });
+
+    it('should refuse to resume while another workflow is running', async () => {
+      // Not claimed - the active run is another one
+      mockQuery.mockImplementation((query: string) =>
+        query.includes("status = 'waiting_approval'")
+          ? Promise.resolve(
+              createQueryResult([
+                {
+                  ...createInterruptedRun(0, {}),
+                  id: 'other-run-id',
+                  workflow_name: 'other-workflow',
+                  status: 'running' as const,
+                },
+              ])
+            )
+          : defaultQuery(query)
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Two steps',
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+
+      await resumeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        workflow,
+        createInterruptedRun(1, {})
+      );
+
+      expect(mockSendQuery).not.toHaveBeenCalled();
+      expect(getSentMessages()[0]).toContain('Workflow already running');
+      expect(getSentMessages()[0]).toContain('other-workflow');
+    });
+
+    it('should leave a run that another resume already claimed', async () => {
+      // Startup recovery and /workflow resume raced - the other one won
+      mockQuery.mockImplementation((query: string) =>
+        query.includes("status = 'waiting_approval'")
+          ? Promise.resolve(
+              createQueryResult([{ ...createInterruptedRun(1, {}), status: 'running' as const }])
+            )
+          : defaultQuery(query)
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Two steps',
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+
+      await resumeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        workflow,
+        createInterruptedRun(1, {})
+      );
+
+      expect(mockSendQuery).not.toHaveBeenCalled();
+      expect(getSentMessages()).toEqual([]);
+      const [claimQuery, claimParams] = mockQuery.mock.calls[0] as [string, unknown[]];
+      expect(claimQuery).toContain("SET status = 'running'");
+      expect(claimParams).toEqual(['test-workflow-run-id', 'interrupted']);
+    });
+  });
+
+  describe('Approval steps', () => {
+    const gatedWorkflow: WorkflowDefinition = {
+      name: 'test-workflow',
+      description: 'Plan, approve, implement',
+      steps: [
+        { command: 'command-one', id: 'plan' },
+        {
+          approval: {
+            message: 'Approve this plan: $steps.plan.output',
+            approvers: ['alice'],
+            timeout_hours: 2,
+          },
+        },
+        { command: 'command-two' },
+      ],
+    };
+
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    it('should pause at the gate and persist the approval request', async () => {
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, gatedWorkflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getWorkflowStatusUpdates('completed')).toHaveLength(0);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+
+      const waitingUpdate = mockQuery.mock.calls.find(
+        (call: unknown[]) =>
+          (call[0] as string).includes('UPDATE remote_agent_workflow_runs') &&
+          ((call[1] as unknown[] | undefined) ?? []).includes('waiting_approval')
+      ) as unknown[];
+      const params = waitingUpdate[1] as unknown[];
+      expect(params[0]).toBe(1);
+      const metadata = JSON.parse(params[2] as string) as {
+        approval: Record<string, unknown>;
+        session_id: string;
+      };
+      expect(metadata.session_id).toBe('new-session-id');
+      expect(metadata.approval.message).toBe('Approve this plan: AI response');
+      expect(metadata.approval.approvers).toEqual(['alice']);
+      expect(typeof metadata.approval.expires_at).toBe('string');
+
+      const prompt = getSentMessages().find(message => message.includes('Approval required'));
+      expect(prompt).toContain('Approve this plan: AI response');
+      expect(prompt).toContain('/approve test-wor');
+      expect(prompt).toContain('/reject test-wor <reason>');
+      expect(prompt).toContain('Approvers: alice');
+      expect(prompt).toContain('Expires in 2 hour(s).');
+
+      const events = await parseLogEvents(testDir);
+      expect(events.some(e => e.type === 'approval_requested' && e.step_index === 1)).toBe(true);
+    });
+
+    it('should continue after the gate once approved', async () => {
+      const run: WorkflowRun = {
+        id: 'test-workflow-run-id',
+        workflow_name: 'test-workflow',
+        conversation_id: 'db-conv-id',
+        codebase_id: null,
+        current_step_index: 1,
+        status: 'waiting_approval',
+        user_message: 'Run',
+        metadata: {
+          session_id: 'plan-session',
+          step_outputs: { plan: { status: 'completed', output: 'The plan' } },
+        },
+        parent_run_id: null,
+        started_at: new Date(),
+        completed_at: null,
+        last_activity_at: null,
+      };
+      mockQuery.mockImplementation((query: string) =>
+        query.includes("SET status = 'running'")
+          ? Promise.resolve(createQueryResult([{ ...run, status: 'running' as const }]))
+          : defaultQuery(query)
+      );
+
+      await resumeWorkflow(mockPlatform, 'conv-123', testDir, gatedWorkflow, run);
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Command two prompt');
+      expect(mockSendQuery.mock.calls[0][2]).toBe('plan-session');
+      expect(getSentMessages()[0]).toContain('approved');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+      // Claimed as an approval - the database only hands over approved runs
+      expect(mockQuery.mock.calls[0][1]).toEqual(['test-workflow-run-id', 'waiting_approval']);
+    });
+  });
+
+  describe('Shell steps', () => {
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    it('should run commands without the AI and expose their output to later steps', async () => {
+      await writeFile(
+        join(testDir, '.archon', 'commands', 'report.md'),
+        'Tests said: $steps.tests.stdout (exit $steps.tests.exit_code)'
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Run tests, then report',
+        steps: [{ run: 'echo "3 passed"', id: 'tests' }, { command: 'report' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Tests said: 3 passed (exit 0)');
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+
+      const events = await parseLogEvents(testDir);
+      const shellEvent = events.find(e => e.type === 'shell_command');
+      expect(shellEvent).toMatchObject({ step: 'echo "3 passed"', exit_code: 0 });
+      expect(shellEvent?.stdout).toBe('3 passed\n');
+    });
+
+    it('should fail the workflow with the exit code and output tail', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Failing check',
+        steps: [{ run: 'echo "lint error" >&2; exit 2', id: 'lint' }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).not.toHaveBeenCalled();
+      expect(getWorkflowStatusUpdates('failed').length).toBeGreaterThan(0);
+      const failure = getSentMessages().find(message => message.includes('exited with code 2'));
+      expect(failure).toContain('lint error');
+    });
+
+    it('should continue past failures when allow_failure is set', async () => {
+      await writeFile(
+        join(testDir, '.archon', 'commands', 'report.md'),
+        'Exit $steps.flaky.exit_code: $steps.flaky.stderr'
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Tolerated failure',
+        steps: [
+          { run: 'echo broken >&2; exit 1', id: 'flaky', allow_failure: true },
+          { command: 'report', when: 'steps.flaky.exit_code != 0' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Exit 1: broken');
+      expect(getSentMessages().some(message => message.includes('allow_failure'))).toBe(true);
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+    });
+
+    it('should substitute variables into env values only', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Env substitution',
+        steps: [
+          {
+            run: 'printf "%s|%s" "$MESSAGE" "$USER_MESSAGE" > out.txt',
+            env: { MESSAGE: '$USER_MESSAGE' },
+          },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      // $USER_MESSAGE in the command is left to the shell, where it is unset
+      expect(await readFile(join(testDir, 'out.txt'), 'utf-8')).toBe('test user message|');
+    });
+  });
+
+  describe('Token usage', () => {
+    const usage = {
+      inputTokens: 1200,
+      outputTokens: 340,
+      cacheReadTokens: 5000,
+      cacheWriteTokens: 800,
+      costUsd: 0.25,
+    };
+
+    function getUsageUpdates(): unknown[] {
+      return mockQuery.mock.calls
+        .filter((call: unknown[]) => (call[0] as string).includes('metadata = metadata ||'))
+        .map((call: unknown[]) => {
+          const json = (call[1] as unknown[]).find(
+            value => typeof value === 'string' && value.startsWith('{')
+          );
+          return JSON.parse(json as string) as Record<string, unknown>;
+        })
+        .filter(metadata => metadata.usage);
+    }
+
+    function getTotalsUpdates(table: string): unknown[][] {
+      return mockQuery.mock.calls
+        .filter((call: unknown[]) => (call[0] as string).includes(`UPDATE ${table}`))
+        .map((call: unknown[]) => call[1] as unknown[]);
+    }
+
+    beforeEach(() => {
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: 'AI response' };
+        yield { type: 'result', sessionId: 'new-session-id', usage };
+      });
+    });
+
+    it('should record usage per step in the log, run metadata and totals', async () => {
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Two AI steps',
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      const events = await parseLogEvents(testDir);
+      expect(events.filter(e => e.type === 'usage').map(e => [e.step, e.usage])).toEqual([
+        ['command-one', usage],
+        ['command-two', usage],
+      ]);
+      expect(getUsageUpdates().at(-1)).toEqual({
+        usage: {
+          total: {
+            ...usage,
+            inputTokens: 2400,
+            outputTokens: 680,
+            cacheReadTokens: 10_000,
+            cacheWriteTokens: 1600,
+            costUsd: 0.5,
+          },
+          steps: { 'command-one': usage, 'command-two': usage },
+          toolCalls: 0,
+          turns: 2,
+        },
+      });
+      expect(getTotalsUpdates('remote_agent_conversations')).toEqual([
+        [1200, 340, 5000, 800, 0.25, 'conv-123'],
+        [1200, 340, 5000, 800, 0.25, 'conv-123'],
+      ]);
+      expect(getTotalsUpdates('remote_agent_codebases')).toHaveLength(2);
+    });
+
+    it('should count a sub-workflow run toward the calling step once', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+      await writeFile(
+        join(workflowDir, 'child-flow.yaml'),
+        'name: child-flow\ndescription: Child workflow\nsteps:\n  - command: command-two\n'
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Parent workflow',
+        steps: [{ workflow: 'child-flow' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(getUsageUpdates()).toEqual([
+        { usage: { total: usage, steps: { 'command-two': usage }, toolCalls: 0, turns: 1 } },
+        {
+          usage: { total: usage, steps: { 'workflow:child-flow': usage }, toolCalls: 0, turns: 1 },
+        },
+      ]);
+      expect(getTotalsUpdates('remote_agent_conversations')).toHaveLength(1);
+    });
+  });
+
+  describe('Budgets', () => {
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    function getFailure(): unknown {
+      const failedUpdates = getWorkflowStatusUpdates('failed');
+      expect(failedUpdates).toHaveLength(1);
+      return JSON.parse((failedUpdates[0][1] as unknown[])[1] as string);
+    }
+
+    it('should abort the running query when a step exceeds its tool call limit', async () => {
+      const signals: (AbortSignal | undefined)[] = [];
+      mockSendQuery.mockImplementation(async function* (
+        _prompt: string,
+        _cwd: string,
+        _sessionId?: string,
+        options?: { abortSignal?: AbortSignal }
+      ) {
+        signals.push(options?.abortSignal);
+        yield { type: 'assistant', content: 'Working...' };
+        for (const file of ['a.ts', 'b.ts', 'c.ts']) {
+          yield { type: 'tool', toolName: 'Read', toolInput: { file_path: file } };
+        }
+        // Keeps going until aborted
+        await new Promise<void>((_, reject) => {
+          options?.abortSignal?.addEventListener('abort', () => {
+            reject(new Error('Query aborted by user'));
+          });
+        });
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Bounded step',
+        steps: [
+          {
+            command: 'command-one',
+            budget: { max_tool_calls: 2 },
+            retry: { max_attempts: 3, backoff_seconds: 0, on: ['any'] },
+          },
+          { command: 'command-two' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      // Not retried, and the second step never started
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(signals[0]?.aborted).toBe(true);
+      expect(getFailure()).toEqual({
+        error: 'Step `command-one` exceeded its budget: 3 tool calls (max 2)',
+        failure_reason: 'budget_exceeded',
+      });
+      expect(getSentMessages()).toContain(
+        '💸 **Workflow stopped - budget exceeded**: Step `command-one` exceeded its budget: 3 tool calls (max 2)\n\nSpent so far: cost unknown (0 in, 0 out), 3 tool call(s), 1 turn(s)'
+      );
+    });
+
+    it('should abort the running query once its streamed tokens exceed the limit', async () => {
+      const signals: (AbortSignal | undefined)[] = [];
+      mockSendQuery.mockImplementation(async function* (
+        _prompt: string,
+        _cwd: string,
+        _sessionId?: string,
+        options?: { abortSignal?: AbortSignal }
+      ) {
+        signals.push(options?.abortSignal);
+        for (let i = 0; i < 3; i++) {
+          yield { type: 'assistant', content: 'Working...' };
+          yield {
+            type: 'usage',
+            usage: { inputTokens: 100, outputTokens: 500, cacheReadTokens: 0, cacheWriteTokens: 0 },
+          };
+        }
+        // Keeps going until aborted
+        await new Promise<void>((_, reject) => {
+          options?.abortSignal?.addEventListener('abort', () => {
+            reject(new Error('Query aborted by user'));
+          });
+        });
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Bounded step',
+        steps: [{ command: 'command-one', budget: { max_tokens: 1000 } }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(signals[0]?.aborted).toBe(true);
+      expect(getFailure()).toEqual({
+        error: 'Step `command-one` exceeded its budget: 1,200 tokens (max 1,000)',
+        failure_reason: 'budget_exceeded',
+      });
+    });
+
+    it('should only charge the tokens of a query result not already streamed', async () => {
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: 'Done' };
+        yield {
+          type: 'usage',
+          usage: { inputTokens: 100, outputTokens: 500, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        };
+        yield {
+          type: 'result',
+          sessionId: 'session-id',
+          usage: { inputTokens: 100, outputTokens: 800, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        };
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Fits its budget',
+        budget: { max_tokens: 1000 },
+        steps: [{ command: 'command-one' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(getWorkflowStatusUpdates('completed').length).toBeGreaterThan(0);
+      expect(getWorkflowStatusUpdates('failed')).toHaveLength(0);
+    });
+
+    it('should stop a loop once the run costs more than its budget', async () => {
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: 'Still working' };
+        yield {
+          type: 'result',
+          sessionId: 'loop-session',
+          usage: {
+            inputTokens: 1000,
+            outputTokens: 200,
+            cacheReadTokens: 0,
+            cacheWriteTokens: 0,
+            costUsd: 0.25,
+          },
+        };
+      });
+      const workflow: WorkflowDefinition = {
+        name: 'ralph',
+        description: 'Overnight loop',
+        budget: { max_cost_usd: 0.6 },
+        loop: { until: 'COMPLETE', max_iterations: 50 },
+        prompt: 'Keep going',
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(3);
+      expect(getFailure()).toEqual({
+        error: 'Workflow `ralph` exceeded its budget: $0.75 (max $0.60)',
+        failure_reason: 'budget_exceeded',
+      });
+      expect(getSentMessages()).toContain(
+        '💸 **Workflow stopped - budget exceeded**: Workflow `ralph` exceeded its budget: $0.75 (max $0.60)\n\nSpent so far: $0.75 (3.0k in, 600 out), 0 tool call(s), 3 turn(s)'
+      );
+    });
+
+    it('should apply the config ceiling below the workflow budget', async () => {
+      const realLoadConfig = configLoader.loadConfig;
+      const loadConfigSpy = spyOn(configLoader, 'loadConfig').mockImplementation(
+        async repoPath => ({ ...(await realLoadConfig(repoPath)), budget: { maxTurns: 1 } })
+      );
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Two steps',
+        budget: { max_turns: 10 },
+        steps: [{ command: 'command-one' }, { command: 'command-two' }],
+      };
+
+      try {
+        await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Run', 'db-conv-id');
+      } finally {
+        loadConfigSpy.mockRestore();
+      }
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(2);
+      expect(getFailure()).toEqual({
+        error: 'Workflow `test-workflow` exceeded its budget: 2 turns (max 1)',
+        failure_reason: 'budget_exceeded',
+      });
+    });
+  });
+
+  describe('Sub-workflow steps', () => {
+    function getSentMessages(): string[] {
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      return sendMessage.mock.calls.map((call: unknown[]) => call[1] as string);
+    }
+
+    function getRunInserts(): unknown[][] {
+      return mockQuery.mock.calls
+        .filter((call: unknown[]) =>
+          (call[0] as string).includes('INSERT INTO remote_agent_workflow_runs')
+        )
+        .map((call: unknown[]) => call[1] as unknown[]);
+    }
+
+    async function writeChildWorkflow(yaml: string): Promise<void> {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+      await writeFile(join(workflowDir, 'child-flow.yaml'), yaml);
+    }
+
+    it('should run the child as a linked run and expose its output', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(join(commandsDir, 'child-command.md'), 'Child on $inputs.topic');
+      await writeFile(join(commandsDir, 'report.md'), 'Report: $steps.child-flow.output');
+      await writeChildWorkflow(`name: child-flow
+description: Child workflow
+inputs:
+  - name: topic
+    required: true
+steps:
+  - command: child-command
+`);
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Parent workflow',
+        steps: [
+          { command: 'command-one', id: 'plan' },
+          { workflow: 'child-flow', inputs: { topic: '$steps.plan.output' } },
+          { command: 'report' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(3);
+      expect(mockSendQuery.mock.calls[1][0]).toBe('Child on AI response');
+      expect(mockSendQuery.mock.calls[2][0]).toBe('Report: AI response');
+
+      const inserts = getRunInserts();
+      expect(inserts).toHaveLength(2);
+      expect(inserts[1][0]).toBe('child-flow');
+      expect(inserts[1][5]).toBe('test-workflow-run-id');
+      expect(
+        getSentMessages().some(m => m.includes('↪️ **Starting sub-workflow**: `child-flow`'))
+      ).toBe(true);
+      expect(getWorkflowStatusUpdates('completed').length).toBe(2);
+    });
+
+    it('should fail the parent when the child fails', async () => {
+      await writeChildWorkflow(`name: child-flow
+description: Failing child
+steps:
+  - run: exit 3
+`);
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Parent workflow',
+        steps: [{ workflow: 'child-flow' }, { command: 'command-two' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).not.toHaveBeenCalled();
+      expect(getWorkflowStatusUpdates('completed')).toHaveLength(0);
+      expect(getSentMessages().some(m => m.includes('Sub-workflow `child-flow` failed'))).toBe(
+        true
+      );
+    });
+
+    // The child's query hangs until aborted
+    function hangChildQuery(): Promise<void> {
+      return new Promise<void>(resolve => {
+        mockSendQuery.mockImplementation(async function* (
+          _prompt: string,
+          _cwd: string,
+          _sessionId?: string,
+          options?: { abortSignal?: AbortSignal }
+        ) {
+          resolve();
+          yield { type: 'assistant', content: 'Working...' };
+          await new Promise<void>((_, reject) => {
+            options?.abortSignal?.addEventListener('abort', () => {
+              reject(new Error('Query aborted by user'));
+            });
+          });
+        });
+      });
+    }
+
+    function getFailureReasons(): unknown[] {
+      return getWorkflowStatusUpdates('failed').map(
+        update =>
+          (JSON.parse((update[1] as unknown[])[1] as string) as { failure_reason?: string })
+            .failure_reason
+      );
+    }
+
+    it('should cancel the parent when the child is cancelled', async () => {
+      await writeChildWorkflow(`name: child-flow
+description: Long-running child
+steps:
+  - command: command-two
+`);
+      const queryStarted = hangChildQuery();
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Parent workflow',
+        steps: [{ workflow: 'child-flow', retry: { max_attempts: 3, backoff_seconds: 0 } }],
+      };
+
+      const run = executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+      await queryStarted;
+      // The child run is registered under its own id (the mock gives every run the same one)
+      expect(cancelRunningWorkflow('test-workflow-run-id', 'Cancelled by user')).toBe(true);
+      await run;
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getFailureReasons()).toEqual(['cancelled', 'cancelled']);
+      expect(getSentMessages().some(m => m.includes('Sub-workflow `child-flow` failed'))).toBe(
+        false
+      );
+      expect(getSentMessages().some(m => m.includes('Workflow failed'))).toBe(false);
+    });
+
+    it('should report a child timeout once and stop the parent', async () => {
+      await writeChildWorkflow(`name: child-flow
+description: Slow child
+timeout_minutes: 0.001
+steps:
+  - command: command-two
+`);
+      void hangChildQuery();
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Parent workflow',
+        steps: [{ workflow: 'child-flow' }, { command: 'command-one' }],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(getFailureReasons()).toEqual(['timeout', 'timeout']);
+      expect(getSentMessages().filter(m => m.startsWith('⏱️ **Workflow timed out**'))).toEqual([
+        '⏱️ **Workflow timed out**: Workflow `child-flow` exceeded its 0.001 minute timeout',
+      ]);
+    });
+
+    it('should run the child definition found when the run started', async () => {
+      const commandsDir = join(testDir, '.archon', 'commands');
+      await writeFile(join(commandsDir, 'child-command.md'), 'Original child');
+      await writeChildWorkflow(`name: child-flow
+description: Child workflow
+steps:
+  - command: child-command
+`);
+      const workflow: WorkflowDefinition = {
+        name: 'test-workflow',
+        description: 'Parent workflow',
+        steps: [
+          // Edits the child while the run is going
+          { run: "sed -i 's/child-command/command-two/' .archon/workflows/child-flow.yaml" },
+          { workflow: 'child-flow' },
+        ],
+      };
+
+      await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+      expect(mockSendQuery).toHaveBeenCalledTimes(1);
+      expect(mockSendQuery.mock.calls[0][0]).toBe('Original child');
+    });
+
+    it('should reject unknown workflows, invalid inputs and cycles without starting a run', async () => {
+      await writeChildWorkflow(`name: child-flow
+description: Child with a required input
+inputs:
+  - name: topic
+    required: true
+steps:
+  - command: command-two
+`);
+      const cases: [WorkflowDefinition['steps'], string][] = [
+        [[{ workflow: 'missing-flow' }], 'Sub-workflow `missing-flow` not found'],
+        [[{ workflow: 'child-flow' }], "Missing required input 'topic'"],
+        [[{ workflow: 'test-workflow' }], 'Sub-workflow cycle: test-workflow → test-workflow'],
+      ];
+
+      for (const [steps, expected] of cases) {
+        mockQuery.mockClear();
+        (mockPlatform.sendMessage as ReturnType<typeof mock>).mockClear();
+        const workflow = { name: 'test-workflow', description: 'Parent', steps };
+
+        await executeWorkflow(mockPlatform, 'conv-123', testDir, workflow, 'Go', 'db-conv-id');
+
+        expect(getRunInserts()).toHaveLength(1);
+        expect(getSentMessages().some(m => m.includes(expected))).toBe(true);
+      }
+    });
+  });
+
+  describe('commitWorkflowArtifacts behavior', () => {
+    const testWorkflow: WorkflowDefinition = {
+      name: 'artifact-test-workflow',
+      description: 'Test workflow for artifact commit behavior',
+      steps: [{ command: 'command-one' }],
+    };
+
+    it('should call commitAllChanges after workflow completion', async () => {
+      // Reset the spy to track calls
+      commitAllChangesSpy.mockResolvedValue(false);
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        testWorkflow,
+        'User message',
+        'db-conv-id'
+      );
+
+      // Verify commitAllChanges was called with the working directory
+      expect(commitAllChangesSpy).toHaveBeenCalledWith(
+        testDir,
+        expect.stringContaining('Auto-commit workflow artifacts')
+      );
+    });
+
+    it('should notify user when artifacts are committed (non-GitHub platform)', async () => {
+      // Mock commitAllChanges to return true (changes were committed)
+      commitAllChangesSpy.mockResolvedValue(true);
+
+      // Ensure platform is not GitHub
+      (mockPlatform.getPlatformType as ReturnType<typeof mock>).mockReturnValue('telegram');
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        testWorkflow,
+        'User message',
+        'db-conv-id'
+      );
+
+      // Should send notification about committed artifacts
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1]);
+      expect(
+        messages.some((m: string) => m.includes('Committed remaining workflow artifacts'))
+      ).toBe(true);
+    });
+
+    it('should suppress artifact commit notification on GitHub platform', async () => {
+      // Mock commitAllChanges to return true (changes were committed)
+      commitAllChangesSpy.mockResolvedValue(true);
+
+      // Set platform to GitHub
+      (mockPlatform.getPlatformType as ReturnType<typeof mock>).mockReturnValue('github');
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        testWorkflow,
+        'User message',
+        'db-conv-id'
+      );
+
+      // Should NOT send artifact commit notification on GitHub
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1]);
+      expect(
+        messages.some((m: string) => m.includes('Committed remaining workflow artifacts'))
+      ).toBe(false);
+    });
+
+    it('should warn user when artifact commit fails', async () => {
+      // Mock commitAllChanges to throw an error
+      commitAllChangesSpy.mockRejectedValue(new Error('pre-commit hook failed'));
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        testWorkflow,
+        'User message',
+        'db-conv-id'
+      );
+
+      // Should send warning about failed commit
+      const sendMessage = mockPlatform.sendMessage as ReturnType<typeof mock>;
+      const messages = sendMessage.mock.calls.map((call: unknown[]) => call[1]);
+      const warningMessage = messages.find(
+        (m: string) => m.includes('Warning') && m.includes('Could not auto-commit')
+      );
+      expect(warningMessage).toBeDefined();
+      expect(warningMessage).toContain('pre-commit hook failed');
+      expect(warningMessage).toContain('manually commit');
+    });
+
+    it('should call commitAllChanges after loop workflow completion', async () => {
+      // Reset the spy to track calls
+      commitAllChangesSpy.mockResolvedValue(false);
+
+      // Mock AI to complete on first iteration
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: '<promise>COMPLETE</promise>' };
+        yield { type: 'result', sessionId: 'session-id' };
+      });
+
+      const loopWorkflow: WorkflowDefinition = {
+        name: 'loop-artifact-test',
+        description: 'Test loop workflow artifact commit',
+        loop: { until: 'COMPLETE', max_iterations: 5, fresh_context: false },
+        prompt: 'Complete immediately.',
+      };
+
+      await executeWorkflow(
+        mockPlatform,
+        'conv-123',
+        testDir,
+        loopWorkflow,
+        'User message',
+        'db-conv-id'
+      );
+
+      // Verify commitAllChanges was called
+      expect(commitAllChangesSpy).toHaveBeenCalledWith(
+        testDir,
+        expect.stringContaining('Auto-commit workflow artifacts')
+      );
+
+      // Reset mock
+      mockSendQuery.mockImplementation(function* () {
+        yield { type: 'assistant', content: 'AI response' };
+        yield { type: 'result', sessionId: 'new-session-id' };
+      });
+    });
+
+    it('should call commitAllChanges even when loop workflow fails', async () => {
+      // Reset the spy to track calls
+      commitAllChangesSpy.mockResolvedValue(false);
 
       // Mock AI to always fail to complete (hit max iterations)
       mockSendQuery.mockImplementation(function* () {
@@ -3131,6 +5614,7 @@ describe('Workflow Executor', () => {
                 status: 'running' as const,
                 user_message: 'test',
                 metadata: {},
+                parent_run_id: null,
                 started_at: new Date(),
                 last_activity_at: new Date(),
                 completed_at: null,
@@ -3224,6 +5708,49 @@ describe('Workflow Executor', () => {
         findMessage(platform, 'Unable to verify') || findMessage(platform, 'Workflow blocked');
       expect(errorMsg).toBeDefined();
     });
+
+    it('should block workflow while a run waits for approval, however long ago', async () => {
+      const longAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      mockQuery.mockImplementation((query: string) => {
+        if (query.includes("status = 'running'")) {
+          return Promise.resolve(
+            createQueryResult([
+              {
+                id: 'gated-workflow-id',
+                workflow_name: 'gated-workflow',
+                conversation_id: 'db-conv-123',
+                status: 'waiting_approval' as const,
+                parent_run_id: null,
+                started_at: longAgo,
+                last_activity_at: longAgo,
+                completed_at: null,
+                current_step_index: 1,
+                user_message: 'old message',
+                metadata: {},
+              },
+            ])
+          );
+        }
+        throw new Error(`Unexpected query: ${query.slice(0, 100)}`);
+      });
+      const platform = createMockPlatform();
+
+      await executeWorkflow(
+        platform,
+        'conv-123',
+        testDir,
+        simpleWorkflow,
+        'test message',
+        'db-conv-123'
+      );
+
+      // Never failed as stale
+      expect(hasQueryMatching("status = 'failed'")).toBe(false);
+      expect(hasQueryMatching('INSERT INTO remote_agent_workflow_runs')).toBe(false);
+      expect(findMessage(platform, 'Workflow waiting for approval')?.[1]).toContain(
+        '`/approve gated-wo`'
+      );
+    });
   });
 });
 
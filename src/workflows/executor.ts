@@ -1,34 +1,100 @@
 /**
  * Workflow Executor - runs workflow steps sequentially
  */
+import { createHash } from 'crypto';
 import { readFile, access } from 'fs/promises';
-import { join } from 'path';
-import type { IPlatformAdapter } from '../types';
+import { isAbsolute, join, relative, resolve } from 'path';
+import type { IPlatformAdapter, TokenUsage } from '../types';
 import { getAssistantClient } from '../clients/factory';
 import * as workflowDb from '../db/workflows';
+import * as conversationDb from '../db/conversations';
+import * as codebaseDb from '../db/codebases';
 import { formatToolCall } from '../utils/tool-formatter';
 import { getCommandFolderSearchPaths } from '../utils/archon-paths';
-import { loadRepoConfig } from '../config/config-loader';
+import { loadConfig } from '../config/config-loader';
 import { commitAllChanges } from '../utils/git';
+import { addTokenUsage, emptyTokenUsage, formatTokenUsage } from '../utils/token-usage';
+import { escapeRegExp } from '../utils/regexp';
 import type {
+  ApprovalConfig,
   WorkflowDefinition,
   WorkflowRun,
   StepResult,
   LoadCommandResult,
+  LoopConfig,
+  ParallelBlock,
+  RetryErrorClass,
+  RetryPolicy,
+  RunStep,
+  ShellCommandResult,
   SingleStep,
+  StepOutcome,
+  SubWorkflowStep,
+  WorkflowBudget,
+  WorkflowFailureReason,
+  WorkflowInputValue,
+  WorkflowRunUsage,
+  WorkflowStep,
 } from './types';
-import { isParallelBlock, isSingleStep } from './types';
+import {
+  isApprovalStep,
+  isCommandStep,
+  isParallelBlock,
+  isRunStep,
+  isSingleStep,
+  isSubWorkflowStep,
+} from './types';
+import { discoverWorkflows } from './loader';
+import { readRunUsage } from './history';
+import {
+  formatExecutionLevels,
+  formatStepSequence,
+  getDownstreamStepIds,
+  getStepId,
+  getStepName,
+  isDagWorkflow,
+} from './dag';
+import { evaluateCondition, parseCondition } from './conditions';
+import {
+  addBudgetSpend,
+  budgetFromConfig,
+  countBudgetTokens,
+  emptyBudgetSpend,
+  findExceededLimit,
+  mergeBudgets,
+  spendFromUsage,
+} from './budget';
+import type { BudgetSpend } from './budget';
+import { extractJsonBlock, serializeStepOutputs, substituteStepOutputs } from './outputs';
+import { formatInputDeclarations, resolveWorkflowInputs, substituteInputs } from './inputs';
+import { DEFAULT_SHELL_TIMEOUT_SECONDS, runShellCommand } from './shell';
+import {
+  DEFAULT_FOR_EACH_CONCURRENCY,
+  mapWithConcurrency,
+  resolveForEachItems,
+  substituteItem,
+} from './matrix';
+import { formatModelSelection, resolveModelSelection, resolveWorkflowModels } from './models';
+import type { ModelSelection } from './models';
 import {
   logWorkflowStart,
+  logWorkflowResume,
+  logApprovalRequested,
   logStepStart,
   logStepComplete,
+  logStepSkipped,
+  logStepError,
+  logStepRetry,
+  logShellCommand,
   logAssistant,
   logTool,
+  logUsage,
   logWorkflowError,
   logWorkflowComplete,
   logParallelBlockStart,
   logParallelBlockComplete,
 } from './logger';
+import type { ParallelBlockSummary } from './logger';
 
 /** Context for platform message sending */
 interface SendMessageContext {
@@ -37,6 +103,113 @@ interface SendMessageContext {
   stepIndex?: number;
 }
 
+/**
+ * Shared state for a single workflow run - avoids passing many parameters
+ * through the step execution helpers
+ */
+interface WorkflowExecutionContext {
+  platform: IPlatformAdapter;
+  conversationId: string;
+  cwd: string; // All agents share this worktree
+  workflow: WorkflowDefinition;
+  workflowRun: WorkflowRun;
+  configuredCommandFolder?: string;
+  modelRegistry: Readonly<Record<string, string>>; // Named models from the global config
+  issueContext?: string;
+  inputs: Record<string, WorkflowInputValue>; // Resolved `inputs:` values for $inputs.<name>
+  stepOutcomes: Map<string, StepOutcome>; // Step id -> outcome, read by `when` conditions
+  usage: WorkflowRunUsage; // Shared by all steps of the run
+  budgets?: readonly BudgetTracker[]; // Budgets every AI query counts toward (outermost first)
+  budgetCeiling?: WorkflowBudget; // Config ceilings - set for top-level runs only
+  abortSignal: AbortSignal; // Aborted on workflow/step timeout or budget - stops in-flight AI queries
+  resumeFrom?: WorkflowResumePoint; // Set when continuing an interrupted run
+  parentWorkflows?: readonly string[]; // Calling workflows of a sub-workflow run (outermost first)
+  workflows?: readonly WorkflowDefinition[]; // Definitions found at run start - sub-workflow steps resolve against these
+  item?: string; // Current for_each item for $item variables
+  failure?: WorkflowFailure; // Set where the run fails - handed to the on_failure/finally steps
+  hookFailure?: WorkflowFailure; // In on_failure/finally steps: $FAILED_STEP/$ERROR (empty after success)
+}
+
+/**
+ * Where an interrupted run continues, restored from its database record
+ */
+interface WorkflowResumePoint {
+  stepIndex: number; // current_step_index: next step (sequential) or interrupted iteration (loop)
+  sessionId?: string; // Session of the last completed step/iteration
+  completedSteps: string[]; // DAG step ids that already finished
+  lastCheckOutput?: string; // Loop: $LAST_CHECK_OUTPUT of the interrupted iteration
+}
+
+/**
+ * Error that stops the whole run. Never retried or turned into a failed step result -
+ * it propagates to runWorkflow, which fails the run.
+ */
+class WorkflowAbortError extends Error {
+  constructor(
+    message: string,
+    readonly stepName?: string // Step that was running, when known
+  ) {
+    super(message);
+    this.name = 'WorkflowAbortError';
+  }
+}
+
+/**
+ * Error thrown when a step or workflow exceeds its `timeout_minutes`.
+ * The run is failed with reason 'timeout'.
+ */
+class WorkflowTimeoutError extends WorkflowAbortError {
+  constructor(message: string, stepName?: string) {
+    super(message, stepName);
+    this.name = 'WorkflowTimeoutError';
+  }
+}
+
+/**
+ * Error thrown into a running workflow by `/workflow cancel` (see cancelRunningWorkflow).
+ * The run is failed with reason 'cancelled'.
+ */
+class WorkflowCancelledError extends WorkflowAbortError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowCancelledError';
+  }
+}
+
+/**
+ * Error thrown when a run or step spends more than its `budget:` allows.
+ * The run is failed with reason 'budget_exceeded'.
+ */
+class WorkflowBudgetError extends WorkflowAbortError {
+  constructor(message: string, stepName?: string) {
+    super(message, stepName);
+    this.name = 'WorkflowBudgetError';
+  }
+}
+
+/**
+ * Spending of a run or step against its budget. The AI queries of the scope, including
+ * those of sub-workflows it starts, add to it; exceeding a limit aborts the scope.
+ */
+interface BudgetTracker {
+  label: string; // "Workflow `name`" or "Step `name`" for the error message
+  limits: WorkflowBudget;
+  spent: BudgetSpend;
+  stepName?: string; // Set for step budgets
+  abort: (reason: Error) => void; // Aborts the scope's signal
+}
+
+/**
+ * Where and why a run failed - $FAILED_STEP and $ERROR in on_failure/finally steps
+ */
+interface WorkflowFailure {
+  step: string; // Step name (empty when no single step failed, e.g. a workflow timeout)
+  error: string;
+}
+
+/** Aborts runs executing in this process, by run id - used by /workflow cancel */
+const runningWorkflows = new Map<string, (reason: Error) => void>();
+
 /** Result of error classification */
 type ErrorType = 'TRANSIENT' | 'FATAL' | 'UNKNOWN';
 
@@ -66,12 +239,12 @@ const TRANSIENT_PATTERNS = [
   'socket hang up',
 ];
 
-/**
- * Escape special regex characters in string
- */
-function escapeRegExp(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+/** Rate limit patterns - subset of transient errors targeted by retry `on: [rate_limit]` */
+const RATE_LIMIT_PATTERNS = ['rate limit', 'too many requests', '429'];
+
+/** Retry defaults when a policy omits them */
+const DEFAULT_RETRY_ON: readonly RetryErrorClass[] = ['transient'];
+const DEFAULT_RETRY_BACKOFF_SECONDS = 10;
 
 /**
  * Check if AI output contains completion signal
@@ -99,6 +272,16 @@ function detectCompletionSignal(output: string, signal: string): boolean {
   return endPattern.test(output) || ownLinePattern.test(output);
 }
 
+/**
+ * Describe when a loop ends: "`COMPLETE`", "`bun test` passes" or both joined with "and"
+ */
+export function formatLoopCondition(loop: LoopConfig): string {
+  const conditions: string[] = [];
+  if (loop.until) conditions.push(`\`${loop.until}\``);
+  if (loop.until_command) conditions.push(`\`${loop.until_command}\` passes`);
+  return conditions.join(' and ');
+}
+
 /**
  * Check if error message matches any pattern in the list
  */
@@ -177,10 +360,108 @@ async function safeSendMessage(
 }
 
 /**
- * Delay execution for specified milliseconds
+ * Delay execution for specified milliseconds. With a signal the delay ends early,
+ * rejecting with the abort reason, as soon as the signal aborts.
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason as Error);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create a controller that aborts with a WorkflowTimeoutError after the given minutes,
+ * or as soon as the parent signal aborts. Call clear() once the guarded work is done.
+ */
+function createTimeoutController(
+  parentSignal: AbortSignal | undefined,
+  timeoutMinutes: number | undefined,
+  timeoutMessage: string,
+  stepName?: string
+): { signal: AbortSignal; abort: (reason: Error) => void; clear: () => void } {
+  const controller = new AbortController();
+  const abortFromParent = (): void => {
+    controller.abort(parentSignal?.reason);
+  };
+
+  if (parentSignal?.aborted) {
+    abortFromParent();
+  } else {
+    parentSignal?.addEventListener('abort', abortFromParent, { once: true });
+  }
+
+  const timer =
+    timeoutMinutes !== undefined
+      ? setTimeout(
+          () => {
+            controller.abort(new WorkflowTimeoutError(timeoutMessage, stepName));
+          },
+          timeoutMinutes * 60 * 1000
+        )
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    abort: (reason: Error): void => {
+      controller.abort(reason);
+    },
+    clear: (): void => {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', abortFromParent);
+    },
+  };
+}
+
+/**
+ * Iterate a generator until the signal aborts. On abort the pending next() is
+ * abandoned, the generator is asked to return (so the client can clean up) and
+ * the abort reason is thrown.
  */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+async function* withAbort<T>(generator: AsyncGenerator<T>, signal: AbortSignal): AsyncGenerator<T> {
+  let rejectAborted: ((reason: Error) => void) | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    rejectAborted = reject;
+  });
+  aborted.catch(() => undefined); // Only observed through Promise.race
+  const onAbort = (): void => {
+    rejectAborted?.(signal.reason as Error);
+  };
+
+  if (signal.aborted) {
+    onAbort();
+  } else {
+    signal.addEventListener('abort', onAbort, { once: true });
+  }
+
+  try {
+    for (;;) {
+      const next = Promise.resolve(generator.next());
+      next.catch(() => undefined); // Rejections after an abort are expected and ignored
+      const result = await Promise.race([next, aborted]);
+      if (result.done) return;
+      yield result.value;
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      Promise.resolve(generator.return(undefined)).catch(() => undefined);
+      throw signal.reason as Error;
+    }
+    throw error;
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
 }
 
 /**
@@ -252,6 +533,30 @@ export function isValidCommandName(name: string): boolean {
   return true;
 }
 
+/**
+ * Find the file a command step would load, searching the same folders as loadCommandPrompt
+ *
+ * @returns Path relative to cwd, or null when the name is invalid or no file exists
+ */
+export async function findCommandFile(
+  cwd: string,
+  commandName: string,
+  configuredFolder?: string
+): Promise<string | null> {
+  if (!isValidCommandName(commandName)) return null;
+
+  for (const folder of getCommandFolderSearchPaths(configuredFolder)) {
+    const relativePath = join(folder, `${commandName}.md`);
+    try {
+      await access(join(cwd, relativePath));
+      return relativePath;
+    } catch {
+      // Not in this folder - try the next one
+    }
+  }
+  return null;
+}
+
 /**
  * Load command prompt from file
  *
@@ -336,6 +641,12 @@ const CONTEXT_VAR_PATTERN_STR = '\\$(?:CONTEXT|EXTERNAL_CONTEXT|ISSUE_CONTEXT)';
  * - $WORKFLOW_ID - The workflow run ID
  * - $USER_MESSAGE, $ARGUMENTS - The user's trigger message
  * - $CONTEXT, $EXTERNAL_CONTEXT, $ISSUE_CONTEXT - GitHub issue/PR context (if available)
+ * - $inputs.<name> - Declared workflow inputs (if provided)
+ * - $steps.<id>.output, $steps.<id>.json.<field> - Outputs of earlier steps (if provided)
+ * - $item, $item.<field> - The current for_each item (if provided)
+ * - $FAILED_STEP, $ERROR - Where and why the run failed (on_failure/finally steps only)
+ *
+ * Loop prompts also get $LAST_CHECK_OUTPUT (see executeLoopWorkflow).
  *
  * When issueContext is undefined, context variables are replaced with empty string
  * to avoid sending literal "$CONTEXT" to the AI.
@@ -344,13 +655,21 @@ const CONTEXT_VAR_PATTERN_STR = '\\$(?:CONTEXT|EXTERNAL_CONTEXT|ISSUE_CONTEXT)';
  * @param workflowId - The workflow run ID for $WORKFLOW_ID substitution
  * @param userMessage - The user's trigger message for $USER_MESSAGE and $ARGUMENTS
  * @param issueContext - Optional GitHub issue/PR context for $CONTEXT variables
+ * @param inputs - Optional resolved workflow inputs for $inputs variables
+ * @param stepOutcomes - Optional outcomes of earlier steps for $steps variables
+ * @param item - Optional for_each item for $item variables
+ * @param failure - Optional run failure for $FAILED_STEP and $ERROR (hook steps)
  * @returns Object with substituted prompt and whether context variables were found and substituted
  */
 function substituteWorkflowVariables(
   prompt: string,
   workflowId: string,
   userMessage: string,
-  issueContext?: string
+  issueContext?: string,
+  inputs?: Readonly<Record<string, WorkflowInputValue>>,
+  stepOutcomes?: ReadonlyMap<string, StepOutcome>,
+  item?: string,
+  failure?: WorkflowFailure
 ): { prompt: string; contextSubstituted: boolean } {
   // Substitute basic variables
   let result = prompt
@@ -371,6 +690,23 @@ function substituteWorkflowVariables(
   }
   result = result.replace(new RegExp(CONTEXT_VAR_PATTERN_STR, 'g'), contextValue);
 
+  if (inputs) {
+    result = substituteInputs(result, inputs);
+  }
+
+  // Step outputs, items and errors last - their text is inserted verbatim, not scanned for other variables
+  if (item !== undefined) {
+    result = substituteItem(result, item);
+  }
+  if (failure) {
+    result = result
+      .replace(/\$FAILED_STEP/g, () => failure.step)
+      .replace(/\$ERROR/g, () => failure.error);
+  }
+  if (stepOutcomes) {
+    result = substituteStepOutputs(result, stepOutcomes);
+  }
+
   return {
     prompt: result,
     contextSubstituted: hasContextVariables && !!issueContext,
@@ -387,6 +723,10 @@ function substituteWorkflowVariables(
  * @param userMessage - The user's trigger message for variable substitution
  * @param issueContext - Optional GitHub issue/PR context to substitute or append
  * @param logLabel - Human-readable label for logging (e.g., 'workflow step prompt')
+ * @param inputs - Optional resolved workflow inputs for $inputs variables
+ * @param stepOutcomes - Optional outcomes of earlier steps for $steps variables
+ * @param item - Optional for_each item for $item variables
+ * @param failure - Optional run failure for $FAILED_STEP and $ERROR (hook steps)
  * @returns The final prompt with variables substituted and context optionally appended
  */
 function buildPromptWithContext(
@@ -394,13 +734,21 @@ function buildPromptWithContext(
   workflowId: string,
   userMessage: string,
   issueContext: string | undefined,
-  logLabel: string
+  logLabel: string,
+  inputs?: Readonly<Record<string, WorkflowInputValue>>,
+  stepOutcomes?: ReadonlyMap<string, StepOutcome>,
+  item?: string,
+  failure?: WorkflowFailure
 ): string {
   const { prompt, contextSubstituted } = substituteWorkflowVariables(
     template,
     workflowId,
     userMessage,
-    issueContext
+    issueContext,
+    inputs,
+    stepOutcomes,
+    item,
+    failure
   );
 
   if (issueContext && !contextSubstituted) {
@@ -411,137 +759,899 @@ function buildPromptWithContext(
   return prompt;
 }
 
+/** Issue/PR number in GitHub context (format: "Issue #N: "Title"" or "PR #N: "Title"") */
+const ISSUE_NUMBER_PATTERN = /(?:Issue|PR) #(\d+)/;
+
 /**
- * Execute a single workflow step
+ * Variables available to `when` conditions (CONDITION_VARIABLES) - the prompt variables
+ * plus $ISSUE_NUMBER, and `inputs.<name>` for every declared input (empty without a value)
  */
+function getConditionVariables(ctx: WorkflowExecutionContext): Record<string, string> {
+  const { workflow, workflowRun, issueContext, hookFailure } = ctx;
+  const contextValue = issueContext ?? '';
+  return {
+    WORKFLOW_ID: workflowRun.id,
+    USER_MESSAGE: workflowRun.user_message,
+    ARGUMENTS: workflowRun.user_message,
+    CONTEXT: contextValue,
+    EXTERNAL_CONTEXT: contextValue,
+    ISSUE_CONTEXT: contextValue,
+    ISSUE_NUMBER: ISSUE_NUMBER_PATTERN.exec(contextValue)?.[1] ?? '',
+    FAILED_STEP: hookFailure?.step ?? '',
+    ERROR: hookFailure?.error ?? '',
+    ...Object.fromEntries(
+      (workflow.inputs ?? []).map(input => [
+        `inputs.${input.name}`,
+        String(ctx.inputs[input.name] ?? ''),
+      ])
+    ),
+  };
+}
+
 /**
- * Internal function that executes a single step
- * (extracted to allow parallel execution)
+ * Evaluate a step's `when` condition. If it is not met, the step is recorded as
+ * skipped, logged and reported to the user.
+ *
+ * @returns true when the step should be skipped
  */
-async function executeStepInternal(
-  platform: IPlatformAdapter,
-  conversationId: string,
-  cwd: string,
-  workflow: WorkflowDefinition,
-  workflowRun: WorkflowRun,
-  stepDef: SingleStep,
-  stepId: string, // For logging: "0", "1", "2.0", "2.1", etc.
-  currentSessionId?: string,
-  configuredCommandFolder?: string,
-  issueContext?: string
-): Promise<StepResult> {
-  const commandName = stepDef.command;
+async function skipStepIfConditionUnmet(
+  ctx: WorkflowExecutionContext,
+  step: SingleStep,
+  stepIndex: number
+): Promise<boolean> {
+  if (!step.when) {
+    return false;
+  }
 
-  console.log(`[WorkflowExecutor] Executing step ${stepId}: ${commandName}`);
-  await logStepStart(cwd, workflowRun.id, commandName, Number(stepId.split('.')[0]));
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const parsed = parseCondition(step.when);
+  if (!parsed.success) {
+    // The loader rejects invalid conditions - only reachable for hand-built definitions
+    throw new Error(`Invalid 'when' condition on step ${getStepName(step)}: ${parsed.error}`);
+  }
 
-  // Load command prompt
-  const promptResult = await loadCommandPrompt(cwd, commandName, configuredCommandFolder);
-  if (!promptResult.success) {
-    return {
-      commandName,
-      success: false,
-      error: promptResult.message,
-    };
+  const conditionMet = await evaluateCondition(parsed.condition, {
+    cwd,
+    variables: getConditionVariables(ctx),
+    steps: ctx.stepOutcomes,
+  });
+  if (conditionMet) {
+    return false;
   }
 
-  // Substitute variables and append context if needed
-  const substitutedPrompt = buildPromptWithContext(
-    promptResult.content,
+  console.log(`[WorkflowExecutor] Skipping step ${getStepId(step)}: condition not met`, {
+    condition: step.when,
+  });
+  const stepName = getStepName(step);
+  ctx.stepOutcomes.set(getStepId(step), { status: 'skipped', output: '' });
+  await logStepSkipped(cwd, workflowRun.id, stepName, stepIndex, step.when);
+  await safeSendMessage(
+    platform,
+    conversationId,
+    `⏭️ **Skipped**: \`${stepName}\` (condition not met: \`${step.when}\`)`,
+    { workflowId: workflowRun.id, stepName }
+  );
+  return true;
+}
+
+/**
+ * Pause the run at an approval gate: persist status 'waiting_approval' with the request
+ * in the run metadata (so it survives restarts) and post the prompt. `/approve` resumes
+ * the run after the gate through resumeWorkflow; `/reject` fails it.
+ */
+async function requestApproval(
+  ctx: WorkflowExecutionContext,
+  approval: ApprovalConfig,
+  stepIndex: number,
+  sessionId: string | undefined
+): Promise<void> {
+  const { platform, conversationId, cwd, workflow, workflowRun } = ctx;
+  const { prompt: message } = substituteWorkflowVariables(
+    approval.message,
     workflowRun.id,
     workflowRun.user_message,
-    issueContext,
-    'workflow step prompt'
+    ctx.issueContext,
+    ctx.inputs,
+    ctx.stepOutcomes
   );
+  const expiresAt =
+    approval.timeout_hours !== undefined
+      ? new Date(Date.now() + approval.timeout_hours * 60 * 60 * 1000)
+      : undefined;
+
+  // Not wrapped: a run that is not marked as waiting could never be approved
+  await workflowDb.updateWorkflowRun(workflowRun.id, {
+    status: 'waiting_approval',
+    current_step_index: stepIndex,
+    metadata: {
+      step_outputs: serializeStepOutputs(ctx.stepOutcomes),
+      session_id: sessionId ?? null,
+      approval: {
+        message,
+        approvers: approval.approvers ?? [],
+        requested_at: new Date().toISOString(),
+        expires_at: expiresAt?.toISOString() ?? null,
+      },
+    },
+  });
+  console.log(`[WorkflowExecutor] Waiting for approval: ${workflow.name} (${workflowRun.id})`);
+  await logApprovalRequested(cwd, workflowRun.id, stepIndex, message);
 
-  // Determine if we need fresh context
-  const needsFreshSession = stepDef.clearContext === true;
-  const resumeSessionId = needsFreshSession ? undefined : currentSessionId;
-
-  if (needsFreshSession) {
-    console.log(`[WorkflowExecutor] Starting fresh session for step: ${commandName}`);
-  } else if (resumeSessionId) {
-    console.log(`[WorkflowExecutor] Resuming session: ${resumeSessionId}`);
+  const shortId = workflowRun.id.slice(0, 8);
+  let details = '';
+  if (approval.approvers?.length) {
+    details += `\nApprovers: ${approval.approvers.join(', ')}`;
   }
+  if (approval.timeout_hours !== undefined) {
+    details += `\nExpires in ${String(approval.timeout_hours)} hour(s).`;
+  }
+  await sendCriticalMessage(
+    platform,
+    conversationId,
+    `⏸️ **Approval required** for \`${workflow.name}\`\n\n${message}\n\nReply \`/approve ${shortId}\` to continue or \`/reject ${shortId} <reason>\` to stop.${details}`,
+    { workflowId: workflowRun.id }
+  );
+}
 
-  // Get AI client
-  const aiClient = getAssistantClient(workflow.provider ?? 'claude');
-  const streamingMode = platform.getStreamingMode();
+/**
+ * Record the outcome of an executed step for later `when` conditions and `$steps.<id>.*` variables
+ */
+function recordStepOutcome(
+  ctx: WorkflowExecutionContext,
+  step: SingleStep,
+  result: StepResult
+): void {
+  // Trailing newlines are dropped, as in shell command substitution
+  const shellFields = result.shell
+    ? { exit_code: result.shell.exitCode, stderr: result.shell.stderr.replace(/\n+$/, '') }
+    : {};
+  ctx.stepOutcomes.set(
+    getStepId(step),
+    result.success
+      ? {
+          status: 'completed',
+          output: result.output ?? '',
+          json: extractJsonBlock(result.output ?? ''),
+          ...shellFields,
+        }
+      : {
+          status: 'failed',
+          output: result.shell?.stdout.replace(/\n+$/, '') ?? '',
+          ...shellFields,
+        }
+  );
+}
 
-  // Context for error logging
-  const messageContext: SendMessageContext = {
-    workflowId: workflowRun.id,
-    stepName: commandName,
+/**
+ * Add spending to every budget the query counts toward. At the first exceeded limit the
+ * budget's scope is aborted (stopping its other in-flight queries) and the error is thrown.
+ */
+function chargeBudgets(ctx: WorkflowExecutionContext, spend: Partial<BudgetSpend>): void {
+  const budgets = ctx.budgets ?? [];
+  for (const budget of budgets) {
+    budget.spent = addBudgetSpend(budget.spent, { ...emptyBudgetSpend(), ...spend });
+  }
+  for (const budget of budgets) {
+    const exceeded = findExceededLimit(budget.limits, budget.spent);
+    if (exceeded) {
+      const error = new WorkflowBudgetError(
+        `${budget.label} exceeded its budget: ${exceeded}`,
+        budget.stepName
+      );
+      budget.abort(error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Budgets for a step's queries: the enclosing ones plus the step's own `budget:`, which
+ * covers all attempts (sub-workflow steps: the whole child run)
+ * @param abort - Aborts the step's signal
+ */
+function withStepBudget(
+  ctx: WorkflowExecutionContext,
+  budget: WorkflowBudget | undefined,
+  stepName: string,
+  abort: (reason: Error) => void
+): readonly BudgetTracker[] | undefined {
+  if (!budget) return ctx.budgets;
+  const stepBudget: BudgetTracker = {
+    label: `Step \`${stepName}\``,
+    limits: budget,
+    spent: emptyBudgetSpend(),
+    stepName,
+    abort,
   };
+  return [...(ctx.budgets ?? []), stepBudget];
+}
+
+/**
+ * Usage of a run before its first AI query
+ */
+function emptyRunUsage(): WorkflowRunUsage {
+  return { total: emptyTokenUsage(), steps: {}, toolCalls: 0, turns: 0 };
+}
+
+/**
+ * Save the run's usage (with the tool calls and turns counted so far) in its metadata.
+ * Non-critical - database errors are logged.
+ */
+async function saveRunUsage(ctx: WorkflowExecutionContext): Promise<void> {
+  try {
+    await workflowDb.updateWorkflowRun(ctx.workflowRun.id, { metadata: { usage: ctx.usage } });
+  } catch (error) {
+    console.error('[WorkflowExecutor] Database error recording token usage', {
+      error: (error as Error).message,
+      workflowId: ctx.workflowRun.id,
+    });
+  }
+}
 
-  let newSessionId: string | undefined;
+/**
+ * Add token usage to a step of the run: logged with the step and saved in the run
+ * metadata. The usage of AI queries (not sub-workflow totals, which their own queries
+ * already counted) is also added to the conversation's and codebase's totals.
+ * Non-critical - database errors are logged.
+ */
+async function recordStepUsage(
+  ctx: WorkflowExecutionContext,
+  stepName: string,
+  usage: TokenUsage,
+  source: 'query' | 'sub_workflow'
+): Promise<void> {
+  const { cwd, workflowRun } = ctx;
+  ctx.usage.total = addTokenUsage(ctx.usage.total, usage);
+  ctx.usage.steps[stepName] = addTokenUsage(ctx.usage.steps[stepName] ?? emptyTokenUsage(), usage);
+  await logUsage(cwd, workflowRun.id, usage, stepName);
 
   try {
-    const assistantMessages: string[] = [];
-    let droppedMessageCount = 0;
+    await workflowDb.updateWorkflowRun(workflowRun.id, { metadata: { usage: ctx.usage } });
+    if (source === 'query') {
+      await conversationDb.addConversationUsage(workflowRun.conversation_id, usage);
+      if (workflowRun.codebase_id) {
+        await codebaseDb.addCodebaseUsage(workflowRun.codebase_id, usage);
+      }
+    }
+  } catch (error) {
+    console.error('[WorkflowExecutor] Database error recording token usage', {
+      error: (error as Error).message,
+      workflowId: workflowRun.id,
+      stepName,
+    });
+  }
+}
+
+/** Result of streaming one AI query to the platform */
+interface AssistantQueryResult {
+  sessionId?: string;
+  finalMessage: string; // Last assistant message
+  fullOutput: string; // All assistant messages concatenated
+}
 
-    for await (const msg of aiClient.sendQuery(substitutedPrompt, cwd, resumeSessionId)) {
+/**
+ * Stream one AI query, forwarding assistant and tool messages to the platform
+ * (per streaming mode) and the workflow log. AI client errors are thrown to the caller.
+ *
+ * @param dropLabel - Appended to the dropped-messages warning (e.g. " in iteration 3")
+ */
+async function streamAssistantQuery(
+  ctx: WorkflowExecutionContext,
+  selection: ModelSelection,
+  prompt: string,
+  resumeSessionId: string | undefined,
+  messageContext: SendMessageContext,
+  dropLabel = ''
+): Promise<AssistantQueryResult> {
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const aiClient = getAssistantClient(selection.provider);
+  const streamingMode = platform.getStreamingMode();
+
+  const assistantMessages: string[] = [];
+  const result: AssistantQueryResult = { finalMessage: '', fullOutput: '' };
+  let droppedMessageCount = 0;
+
+  const messages = withAbort(
+    aiClient.sendQuery(prompt, cwd, resumeSessionId, {
+      abortSignal: ctx.abortSignal,
+      model: selection.model,
+    }),
+    ctx.abortSignal
+  );
+
+  // Tool calls and turns not yet saved with a reported usage
+  let unsavedActivity = false;
+  // Tokens charged from usage chunks - the result's usage only charges the rest
+  let streamedTokens = 0;
+  try {
+    for await (const msg of messages) {
       // Update activity timestamp on each message (non-blocking, non-critical)
       void workflowDb.updateWorkflowActivity(workflowRun.id);
 
       if (msg.type === 'assistant' && msg.content) {
+        result.finalMessage = msg.content;
+        result.fullOutput += msg.content;
         if (streamingMode === 'stream') {
           const sent = await safeSendMessage(platform, conversationId, msg.content, messageContext);
           if (!sent) droppedMessageCount++;
         } else {
           assistantMessages.push(msg.content);
         }
-        await logAssistant(cwd, workflowRun.id, msg.content);
+        await logAssistant(cwd, workflowRun.id, msg.content, messageContext.stepName);
+        ctx.usage.turns++;
+        unsavedActivity = true;
+        chargeBudgets(ctx, { turns: 1 });
       } else if (msg.type === 'tool' && msg.toolName) {
         if (streamingMode === 'stream') {
           const toolMessage = formatToolCall(msg.toolName, msg.toolInput);
           const sent = await safeSendMessage(platform, conversationId, toolMessage, messageContext);
           if (!sent) droppedMessageCount++;
         }
-        await logTool(cwd, workflowRun.id, msg.toolName, msg.toolInput ?? {});
-      } else if (msg.type === 'result' && msg.sessionId) {
-        newSessionId = msg.sessionId;
+        await logTool(
+          cwd,
+          workflowRun.id,
+          msg.toolName,
+          msg.toolInput ?? {},
+          messageContext.stepName
+        );
+        ctx.usage.toolCalls++;
+        unsavedActivity = true;
+        chargeBudgets(ctx, { toolCalls: 1 });
+      } else if (msg.type === 'usage' && msg.usage) {
+        const tokens = countBudgetTokens(msg.usage);
+        streamedTokens += tokens;
+        chargeBudgets(ctx, { tokens });
+      } else if (msg.type === 'result') {
+        if (msg.sessionId) result.sessionId = msg.sessionId;
+        if (msg.usage) {
+          await recordStepUsage(
+            ctx,
+            messageContext.stepName ?? ctx.workflow.name,
+            msg.usage,
+            'query'
+          );
+          unsavedActivity = false;
+          const spend = spendFromUsage(msg.usage);
+          chargeBudgets(ctx, { ...spend, tokens: Math.max(0, spend.tokens - streamedTokens) });
+        }
       }
     }
-
-    // Batch mode: send accumulated messages
-    if (streamingMode === 'batch' && assistantMessages.length > 0) {
-      await safeSendMessage(
-        platform,
-        conversationId,
-        assistantMessages.join('\n\n'),
-        messageContext
-      );
-    }
-
-    // Warn user about dropped messages in streaming mode
-    if (droppedMessageCount > 0) {
-      await safeSendMessage(
-        platform,
-        conversationId,
-        `⚠️ ${String(droppedMessageCount)} message(s) failed to deliver. Check workflow logs for full output.`,
-        messageContext
-      );
+  } finally {
+    // A query stopped early (or reporting no usage) still counts when the run is resumed
+    if (unsavedActivity) {
+      await saveRunUsage(ctx);
     }
+  }
 
-    await logStepComplete(cwd, workflowRun.id, commandName, Number(stepId.split('.')[0]));
+  // Batch mode: send accumulated messages
+  if (streamingMode === 'batch' && assistantMessages.length > 0) {
+    await safeSendMessage(platform, conversationId, assistantMessages.join('\n\n'), messageContext);
+  }
 
-    return {
-      commandName,
-      success: true,
-      sessionId: newSessionId,
-    };
-  } catch (error) {
-    const err = error as Error;
-    const errorType = classifyError(err);
-    console.error(`[WorkflowExecutor] Step failed: ${commandName}`, {
-      error: err.message,
-      errorType,
-    });
+  // Warn user about dropped messages in streaming mode
+  if (droppedMessageCount > 0) {
+    await safeSendMessage(
+      platform,
+      conversationId,
+      `⚠️ ${String(droppedMessageCount)} message(s) failed to deliver${dropLabel}. Check workflow logs for full output.`,
+      messageContext
+    );
+  }
 
-    // Add user-friendly hints based on error classification
-    let userHint = '';
-    const lowerMessage = err.message.toLowerCase();
+  return result;
+}
+
+/**
+ * Check if an error should be retried under a policy.
+ * Fatal (auth/permission) errors are never retried - they won't resolve on their own.
+ */
+function isRetryableError(error: Error, policy: RetryPolicy): boolean {
+  if (error instanceof WorkflowAbortError) {
+    return false;
+  }
+
+  const errorType = classifyError(error);
+  if (errorType === 'FATAL') {
+    return false;
+  }
+
+  const message = error.message.toLowerCase();
+  return (policy.on ?? DEFAULT_RETRY_ON).some(
+    errorClass =>
+      errorClass === 'any' ||
+      (errorClass === 'transient' && errorType === 'TRANSIENT') ||
+      (errorClass === 'rate_limit' && matchesPattern(message, RATE_LIMIT_PATTERNS))
+  );
+}
+
+/**
+ * Run an AI call with the retry policy. Every failed attempt is logged; retryable
+ * failures are reported to the user and retried after exponential backoff.
+ * The last error is rethrown once attempts are exhausted or the error isn't retryable.
+ *
+ * @param attemptFn - Runs one attempt (attempt numbers start at 1)
+ */
+async function runWithRetry<T>(
+  ctx: WorkflowExecutionContext,
+  policy: RetryPolicy | undefined,
+  stepName: string,
+  stepIndex: number,
+  attemptFn: (attempt: number) => Promise<T>
+): Promise<T> {
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const maxAttempts = policy?.max_attempts ?? 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptFn(attempt);
+    } catch (error) {
+      const err = error as Error;
+      await logStepError(
+        cwd,
+        workflowRun.id,
+        stepName,
+        stepIndex,
+        err.message,
+        attempt,
+        maxAttempts
+      );
+
+      // An aborted step (timeout, fail_fast cancellation) is never retried
+      if (
+        !policy ||
+        attempt >= maxAttempts ||
+        ctx.abortSignal.aborted ||
+        !isRetryableError(err, policy)
+      ) {
+        throw err;
+      }
+
+      const backoffSeconds =
+        (policy.backoff_seconds ?? DEFAULT_RETRY_BACKOFF_SECONDS) * 2 ** (attempt - 1);
+      console.warn(
+        `[WorkflowExecutor] Attempt ${String(attempt)} failed for ${stepName}, retrying`,
+        {
+          error: err.message,
+          errorType: classifyError(err),
+          nextAttempt: attempt + 1,
+          maxAttempts,
+          backoffSeconds,
+        }
+      );
+      await safeSendMessage(
+        platform,
+        conversationId,
+        `🔄 **Retrying** \`${stepName}\` in ${String(backoffSeconds)}s (attempt ${String(attempt + 1)}/${String(maxAttempts)}): ${err.message}`,
+        { workflowId: workflowRun.id, stepName }
+      );
+      // A timeout or cancellation during the backoff ends the wait and is never retried
+      await delay(backoffSeconds * 1000, ctx.abortSignal);
+      await logStepRetry(cwd, workflowRun.id, stepName, stepIndex, attempt + 1, maxAttempts);
+    }
+  }
+}
+
+/** Lines of command output included in a shell step's failure message */
+const SHELL_FAILURE_TAIL_LINES = 20;
+
+/**
+ * Describe a failed shell command: the exit code (or timeout) and the end of its output
+ */
+function describeShellFailure(step: RunStep, result: ShellCommandResult): string {
+  const reason = result.timedOut
+    ? `Command timed out after ${String(step.timeout ?? DEFAULT_SHELL_TIMEOUT_SECONDS)}s`
+    : `Command exited with code ${String(result.exitCode)}`;
+  const output = (result.stderr.trim() || result.stdout.trim())
+    .split('\n')
+    .slice(-SHELL_FAILURE_TAIL_LINES)
+    .join('\n');
+  return output ? `${reason}\n\`\`\`\n${output}\n\`\`\`` : reason;
+}
+
+/**
+ * Execute a shell step: run its command in the worktree (or `cwd` below it) without an
+ * AI agent. Every attempt is logged with exit code, stdout and stderr. A non-zero exit
+ * fails the step unless `allow_failure` is set; only a step-level `retry` re-runs it.
+ */
+async function executeRunStep(
+  ctx: WorkflowExecutionContext,
+  step: RunStep,
+  stepId: string
+): Promise<StepResult> {
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const stepName = getStepName(step);
+  const stepIndex = Number(stepId.split('.')[0]);
+
+  console.log(`[WorkflowExecutor] Executing step ${stepId}: ${stepName}`);
+  await logStepStart(cwd, workflowRun.id, stepName, stepIndex);
+
+  // The loader rejects paths outside the worktree - only reachable for hand-built definitions
+  const commandCwd = resolve(cwd, step.cwd ?? '.');
+  const relativeCwd = relative(cwd, commandCwd);
+  if (relativeCwd.split(/[\\/]/)[0] === '..' || isAbsolute(relativeCwd)) {
+    return {
+      commandName: stepName,
+      success: false,
+      error: `Working directory is outside the worktree: ${step.cwd ?? ''}`,
+    };
+  }
+
+  // Variables are substituted into env values only - never into the command itself
+  const env = Object.fromEntries(
+    Object.entries(step.env ?? {}).map(([name, value]) => [
+      name,
+      substituteWorkflowVariables(
+        value,
+        workflowRun.id,
+        workflowRun.user_message,
+        ctx.issueContext,
+        ctx.inputs,
+        ctx.stepOutcomes,
+        ctx.item,
+        ctx.hookFailure
+      ).prompt,
+    ])
+  );
+  const timeoutSeconds = step.timeout ?? DEFAULT_SHELL_TIMEOUT_SECONDS;
+  let lastResult: ShellCommandResult | undefined;
+
+  try {
+    const result = await runWithRetry(ctx, step.retry, stepName, stepIndex, async () => {
+      lastResult = await runShellCommand(step.run, {
+        cwd: commandCwd,
+        env,
+        timeoutSeconds,
+        signal: ctx.abortSignal,
+      });
+      await logShellCommand(cwd, workflowRun.id, stepName, stepIndex, lastResult);
+
+      if (ctx.abortSignal.aborted) {
+        throw ctx.abortSignal.reason as Error;
+      }
+      if ((lastResult.exitCode !== 0 || lastResult.timedOut) && !step.allow_failure) {
+        throw new Error(describeShellFailure(step, lastResult));
+      }
+      return lastResult;
+    });
+
+    await logStepComplete(cwd, workflowRun.id, stepName, stepIndex);
+    if (result.exitCode !== 0 || result.timedOut) {
+      await safeSendMessage(
+        platform,
+        conversationId,
+        `⚠️ \`${stepName}\` failed (${describeShellFailure(step, result).split('\n')[0]}) - continuing (allow_failure)`,
+        { workflowId: workflowRun.id, stepName }
+      );
+    }
+
+    return {
+      commandName: stepName,
+      success: true,
+      output: result.stdout.replace(/\n+$/, ''),
+      shell: result,
+    };
+  } catch (error) {
+    if (error instanceof WorkflowAbortError) {
+      throw error;
+    }
+
+    const err = error as Error;
+    console.error(`[WorkflowExecutor] Step failed: ${stepName}`, { error: err.message });
+    return { commandName: stepName, success: false, error: err.message, shell: lastResult };
+  }
+}
+
+/**
+ * Fingerprint of a workflow definition, saved in the run metadata at start
+ * (`definition_fingerprint`). A paused run is only resumed while its workflow still
+ * has this fingerprint - its position (step index, completed steps) refers to it.
+ */
+export function fingerprintWorkflow(workflow: WorkflowDefinition): string {
+  return createHash('sha256').update(JSON.stringify(workflow)).digest('hex');
+}
+
+/**
+ * Capture the workflow definitions a run's sub-workflow steps resolve against, so edits
+ * to workflow files (hot-reloaded while the run is going) do not change a run in progress.
+ * Returns undefined for workflows without sub-workflow steps - nothing to capture.
+ */
+async function captureWorkflows(
+  cwd: string,
+  workflow: WorkflowDefinition
+): Promise<readonly WorkflowDefinition[] | undefined> {
+  const steps = [
+    ...(workflow.steps ?? []),
+    ...(workflow.on_failure ?? []),
+    ...(workflow.finally ?? []),
+  ];
+  return steps.some(isSubWorkflowStep) ? discoverWorkflows(cwd) : undefined;
+}
+
+/**
+ * Execute a sub-workflow step: run another workflow as a child run in the same worktree
+ * and conversation. The child run is recorded with parent_run_id and stops when this run
+ * is aborted (timeout or a failing sibling); a failed child fails the step. A child that
+ * times out, is cancelled or exceeds a budget stops this run with the same error. The
+ * step output is the output of the child's last step.
+ */
+async function executeSubWorkflowStep(
+  ctx: WorkflowExecutionContext,
+  step: SubWorkflowStep,
+  stepId: string
+): Promise<StepResult> {
+  const { platform, conversationId, cwd, workflow, workflowRun } = ctx;
+  const stepName = getStepName(step);
+  const stepIndex = Number(stepId.split('.')[0]);
+  const fail = (error: string): StepResult => {
+    console.error(`[WorkflowExecutor] Step failed: ${stepName}`, { error });
+    return { commandName: stepName, success: false, error };
+  };
+
+  console.log(`[WorkflowExecutor] Executing step ${stepId}: ${stepName}`);
+  await logStepStart(cwd, workflowRun.id, stepName, stepIndex);
+
+  const callers = [...(ctx.parentWorkflows ?? []), workflow.name];
+  if (callers.includes(step.workflow)) {
+    return fail(`Sub-workflow cycle: ${[...callers, step.workflow].join(' → ')}`);
+  }
+
+  const child = (ctx.workflows ?? (await discoverWorkflows(cwd))).find(
+    w => w.name === step.workflow
+  );
+  if (!child) {
+    return fail(`Sub-workflow \`${step.workflow}\` not found`);
+  }
+  if (child.steps?.some(isApprovalStep)) {
+    return fail(
+      `Sub-workflow \`${child.name}\` has approval steps, which only top-level runs support`
+    );
+  }
+
+  const substitute = (text: string): string =>
+    substituteWorkflowVariables(
+      text,
+      workflowRun.id,
+      workflowRun.user_message,
+      ctx.issueContext,
+      ctx.inputs,
+      ctx.stepOutcomes,
+      ctx.item,
+      ctx.hookFailure
+    ).prompt;
+  const inputs = resolveWorkflowInputs(
+    child.inputs,
+    Object.fromEntries(
+      Object.entries(step.inputs ?? {}).map(([name, value]) => [name, substitute(value)])
+    )
+  );
+  if (!inputs.success) {
+    return fail(`Invalid inputs for sub-workflow \`${child.name}\`: ${inputs.errors.join('; ')}`);
+  }
+  const models = resolveWorkflowModels(child, ctx.modelRegistry);
+  if (!models.success) {
+    return fail(`Invalid models in sub-workflow \`${child.name}\`: ${models.errors.join('; ')}`);
+  }
+  const userMessage =
+    step.message !== undefined ? substitute(step.message) : workflowRun.user_message;
+
+  let childRun: WorkflowRun;
+  try {
+    childRun = await workflowDb.createWorkflowRun({
+      workflow_name: child.name,
+      conversation_id: workflowRun.conversation_id,
+      codebase_id: workflowRun.codebase_id ?? undefined,
+      user_message: userMessage,
+      parent_run_id: workflowRun.id,
+      metadata: {
+        ...(ctx.issueContext ? { github_context: ctx.issueContext } : {}),
+        ...(child.inputs?.length ? { inputs: inputs.values } : {}),
+        ...(Object.keys(models.models).length > 0 ? { models: models.models } : {}),
+        cwd, // Where the run's log is written
+      },
+    });
+  } catch (error) {
+    console.error('[WorkflowExecutor] Database error creating sub-workflow run', {
+      error: (error as Error).message,
+      workflow: child.name,
+      parentWorkflowId: workflowRun.id,
+    });
+    return fail(`Unable to start sub-workflow \`${child.name}\` (database error)`);
+  }
+
+  console.log(`[WorkflowExecutor] Starting sub-workflow: ${child.name} (${childRun.id})`);
+  await logWorkflowStart(cwd, childRun.id, child.name, userMessage);
+
+  // A step timeout covers the whole child run
+  const stepTimeout = createTimeoutController(
+    ctx.abortSignal,
+    step.timeout_minutes,
+    `Step \`${stepName}\` exceeded its ${String(step.timeout_minutes)} minute timeout`,
+    stepName
+  );
+  const childOutcomes = new Map<string, StepOutcome>();
+  const childUsage = emptyRunUsage();
+  let completed: boolean;
+  try {
+    completed = await runWorkflow(
+      {
+        platform,
+        conversationId,
+        cwd,
+        workflow: child,
+        workflowRun: childRun,
+        configuredCommandFolder: ctx.configuredCommandFolder,
+        modelRegistry: ctx.modelRegistry,
+        issueContext: ctx.issueContext,
+        inputs: inputs.values,
+        stepOutcomes: childOutcomes,
+        usage: childUsage,
+        budgets: withStepBudget(ctx, step.budget, stepName, stepTimeout.abort),
+        parentWorkflows: callers,
+        workflows: ctx.workflows,
+      },
+      `↪️ **Starting sub-workflow**: \`${child.name}\` (from \`${workflow.name}\`)\n\n> ${child.description}${describeWorkflowSteps(child)}`,
+      stepTimeout.signal
+    );
+  } finally {
+    stepTimeout.clear();
+    ctx.usage.toolCalls += childUsage.toolCalls;
+    ctx.usage.turns += childUsage.turns;
+    if (Object.keys(childUsage.steps).length > 0) {
+      await recordStepUsage(ctx, stepName, childUsage.total, 'sub_workflow');
+    } else if (childUsage.toolCalls + childUsage.turns > 0) {
+      await saveRunUsage(ctx);
+    }
+  }
+
+  // A child stopped by an abort that did not reach its run still stops this run
+  if (stepTimeout.signal.aborted) {
+    throw stepTimeout.signal.reason as Error;
+  }
+  if (!completed) {
+    return fail(`Sub-workflow \`${child.name}\` failed (ID: ${childRun.id.slice(0, 8)})`);
+  }
+
+  await logStepComplete(cwd, workflowRun.id, stepName, stepIndex);
+  const outcomes = [...childOutcomes.values()];
+  return {
+    commandName: stepName,
+    success: true,
+    output: outcomes.length > 0 ? outcomes[outcomes.length - 1].output : '',
+  };
+}
+
+/**
+ * Internal function that executes a single step
+ * (extracted to allow parallel execution)
+ *
+ * A step `timeout_minutes` covers all retry attempts. Timeouts and cancellation are
+ * thrown (not returned as a failed result) so the whole run stops.
+ * Shell steps are delegated to executeRunStep, sub-workflows to executeSubWorkflowStep.
+ */
+async function executeStepInternal(
+  ctx: WorkflowExecutionContext,
+  stepDef: SingleStep,
+  stepId: string, // For logging: "0", "1", "2.0", "2.1", etc.
+  currentSessionId?: string
+): Promise<StepResult> {
+  if (isRunStep(stepDef)) {
+    return executeRunStep(ctx, stepDef, stepId);
+  }
+  if (isSubWorkflowStep(stepDef)) {
+    return executeSubWorkflowStep(ctx, stepDef, stepId);
+  }
+
+  const { cwd, workflow, workflowRun } = ctx;
+  const commandName = stepDef.command;
+
+  const modelResult = resolveModelSelection(workflow, stepDef, ctx.modelRegistry);
+  if (!modelResult.success) {
+    return { commandName, success: false, error: modelResult.error };
+  }
+  const selection = modelResult.selection;
+
+  console.log(`[WorkflowExecutor] Executing step ${stepId}: ${commandName}`);
+  await logStepStart(
+    cwd,
+    workflowRun.id,
+    commandName,
+    Number(stepId.split('.')[0]),
+    formatModelSelection(selection)
+  );
+
+  // Load command prompt
+  const promptResult = await loadCommandPrompt(cwd, commandName, ctx.configuredCommandFolder);
+  if (!promptResult.success) {
+    return {
+      commandName,
+      success: false,
+      error: promptResult.message,
+    };
+  }
+
+  // Substitute variables and append context if needed
+  const substitutedPrompt = buildPromptWithContext(
+    promptResult.content,
+    workflowRun.id,
+    workflowRun.user_message,
+    ctx.issueContext,
+    'workflow step prompt',
+    ctx.inputs,
+    ctx.stepOutcomes,
+    ctx.item,
+    ctx.hookFailure
+  );
+
+  // Determine if we need fresh context - sessions can't move between providers
+  const otherProvider = selection.provider !== (workflow.provider ?? 'claude');
+  const needsFreshSession = stepDef.clearContext === true || otherProvider;
+  const resumeSessionId = needsFreshSession ? undefined : currentSessionId;
+
+  if (needsFreshSession) {
+    console.log(`[WorkflowExecutor] Starting fresh session for step: ${commandName}`);
+  } else if (resumeSessionId) {
+    console.log(`[WorkflowExecutor] Resuming session: ${resumeSessionId}`);
+  }
+
+  // Context for error logging
+  const messageContext: SendMessageContext = {
+    workflowId: workflowRun.id,
+    stepName: commandName,
+  };
+  const stepIndex = Number(stepId.split('.')[0]);
+  const retryPolicy = stepDef.retry ?? workflow.retry;
+  const stepTimeout = createTimeoutController(
+    ctx.abortSignal,
+    stepDef.timeout_minutes,
+    `Step \`${commandName}\` exceeded its ${String(stepDef.timeout_minutes)} minute timeout`,
+    commandName
+  );
+  const stepCtx: WorkflowExecutionContext = {
+    ...ctx,
+    abortSignal: stepTimeout.signal,
+    budgets: withStepBudget(ctx, stepDef.budget, commandName, stepTimeout.abort),
+  };
+
+  try {
+    const { sessionId: newSessionId, finalMessage } = await runWithRetry(
+      stepCtx,
+      retryPolicy,
+      commandName,
+      stepIndex,
+      attempt =>
+        streamAssistantQuery(
+          stepCtx,
+          selection,
+          substitutedPrompt,
+          attempt > 1 && retryPolicy?.fresh_context ? undefined : resumeSessionId,
+          messageContext
+        )
+    );
+
+    await logStepComplete(cwd, workflowRun.id, commandName, stepIndex);
+
+    return {
+      commandName,
+      success: true,
+      // Later steps on the workflow's provider continue the session from before this step
+      sessionId: otherProvider ? undefined : newSessionId,
+      output: finalMessage,
+    };
+  } catch (error) {
+    if (error instanceof WorkflowAbortError) {
+      throw error;
+    }
+
+    const err = error as Error;
+    const errorType = classifyError(err);
+    console.error(`[WorkflowExecutor] Step failed: ${commandName}`, {
+      error: err.message,
+      errorType,
+    });
+
+    // Add user-friendly hints based on error classification
+    let userHint = '';
+    const lowerMessage = err.message.toLowerCase();
 
     if (errorType === 'TRANSIENT') {
       if (lowerMessage.includes('rate') || lowerMessage.includes('429')) {
@@ -555,122 +1665,748 @@ async function executeStepInternal(
       } else {
         userHint = ' (Hint: Temporary error - try again)';
       }
-    } else if (errorType === 'FATAL') {
-      if (lowerMessage.includes('401') || lowerMessage.includes('auth')) {
-        userHint = ' (Hint: Check your API key configuration)';
-      } else if (lowerMessage.includes('403') || lowerMessage.includes('permission')) {
-        userHint = ' (Hint: Permission denied - check API access)';
+    } else if (errorType === 'FATAL') {
+      if (lowerMessage.includes('401') || lowerMessage.includes('auth')) {
+        userHint = ' (Hint: Check your API key configuration)';
+      } else if (lowerMessage.includes('403') || lowerMessage.includes('permission')) {
+        userHint = ' (Hint: Permission denied - check API access)';
+      }
+    }
+
+    return {
+      commandName,
+      success: false,
+      error: err.message + userHint,
+    };
+  } finally {
+    stepTimeout.clear();
+  }
+}
+
+/**
+ * Parallel step result interface
+ */
+interface ParallelStepResult {
+  index: number; // Index within parallel block
+  item?: string; // for_each item of this instance
+  result: StepResult;
+  cancelled?: boolean; // Stopped by on_failure: fail_fast after another step failed
+}
+
+/**
+ * One step run of a parallel block - a block step, or a for_each step with its item
+ */
+interface ParallelInstance {
+  index: number; // Index within parallel block
+  item?: string;
+  step: SingleStep;
+}
+
+/**
+ * Run a block's instances, at most `limit` at a time.
+ *
+ * With `on_failure: fail_fast` the first failure aborts the others: in-flight AI queries
+ * and shell commands are stopped, instances not started yet are not run, and all of them
+ * are reported as cancelled. An instance that exceeds its own step `timeout_minutes` or
+ * `budget:` fails like any other instance. Any other error (e.g. an abort of the run
+ * itself) stops the instances still running and is rethrown once they have settled.
+ *
+ * @param runInstance - Runs one instance; `position` is its place in the run order
+ */
+async function runParallelInstances(
+  ctx: WorkflowExecutionContext,
+  block: ParallelBlock,
+  instances: readonly ParallelInstance[],
+  limit: number,
+  runInstance: (
+    instanceCtx: WorkflowExecutionContext,
+    instance: ParallelInstance,
+    position: number
+  ) => Promise<StepResult>
+): Promise<ParallelStepResult[]> {
+  const failFast = block.on_failure === 'fail_fast' ? new AbortController() : undefined;
+  // Aborted when an instance throws, so the others unwind before the error reaches the run
+  const stop = new AbortController();
+  const instanceCtx: WorkflowExecutionContext = {
+    ...ctx,
+    abortSignal: AbortSignal.any(
+      failFast ? [ctx.abortSignal, stop.signal, failFast.signal] : [ctx.abortSignal, stop.signal]
+    ),
+  };
+
+  return mapWithConcurrency(instances, limit, async (instance, position) => {
+    if (ctx.abortSignal.aborted) {
+      throw ctx.abortSignal.reason as Error;
+    }
+    const { index, item, step } = instance;
+    if (failFast?.signal.aborted) {
+      const reason = failFast.signal.reason as Error;
+      return {
+        index,
+        item,
+        result: { success: false, commandName: getStepName(step), error: reason.message },
+        cancelled: true,
+      };
+    }
+
+    let result: StepResult;
+    try {
+      result = await runInstance(instanceCtx, instance, position);
+    } catch (error) {
+      const ownAbort =
+        error instanceof WorkflowAbortError &&
+        error.stepName === getStepName(step) &&
+        !ctx.abortSignal.aborted;
+      if (!ownAbort) {
+        stop.abort(error);
+        throw error;
+      }
+      console.error(`[WorkflowExecutor] Parallel step stopped: ${error.message}`);
+      result = { success: false, commandName: getStepName(step), error: error.message };
+    }
+    if (!result.success && failFast) {
+      if (failFast.signal.aborted) {
+        return { index, item, result, cancelled: true };
+      }
+      const label = item !== undefined ? ` (${item})` : '';
+      console.log(
+        `[WorkflowExecutor] Cancelling parallel block: ${result.commandName}${label} failed`
+      );
+      failFast.abort(new Error(`Cancelled after \`${result.commandName}\`${label} failed`));
+    }
+    return { index, item, result };
+  });
+}
+
+/**
+ * Aggregate a finished parallel block and check it against the block's `on_failure` policy
+ */
+function summarizeParallelBlock(
+  block: ParallelBlock,
+  results: readonly ParallelStepResult[]
+): ParallelBlockSummary {
+  const policy = block.on_failure;
+  const succeeded = results.filter(r => r.result.success && !r.result.skipped).length;
+  const skipped = results.filter(r => r.result.success && r.result.skipped).length;
+  const cancelled = results.filter(r => r.cancelled).length;
+  const failed = results.length - succeeded - skipped - cancelled;
+
+  let passed: boolean;
+  if (policy === 'continue') {
+    passed = true;
+  } else if (typeof policy === 'object') {
+    passed = succeeded >= policy.quorum;
+  } else {
+    passed = failed === 0 && cancelled === 0;
+  }
+
+  return {
+    on_failure:
+      typeof policy === 'object' ? `quorum(${String(policy.quorum)})` : (policy ?? 'wait_all'),
+    succeeded,
+    failed,
+    cancelled,
+    skipped,
+    passed,
+  };
+}
+
+/**
+ * Execute multiple steps in parallel - each as a separate Claude agent.
+ *
+ * Architecture:
+ * - Each step spawns an independent Claude Code session
+ * - All agents work on the SAME worktree (cwd) simultaneously
+ * - No session context is shared between parallel agents
+ * - Useful for read-heavy workflows (reviews) where agents don't conflict
+ *
+ * Error handling (per the block's `on_failure`, applied by executeSequentialSteps):
+ * - Default: waits for ALL steps, then fails the workflow with details of ALL failures
+ * - fail_fast: the first failure cancels the other steps
+ * - continue / quorum(n): failures are recorded and the workflow goes on
+ *   (quorum: as long as at least n steps completed)
+ *
+ * @param block - Parallel block whose steps execute concurrently (up to `max_concurrency` at once)
+ * @param blockIndex - Index of the block within the workflow steps
+ */
+async function executeParallelBlock(
+  ctx: WorkflowExecutionContext,
+  block: ParallelBlock,
+  blockIndex: number
+): Promise<ParallelStepResult[]> {
+  const parallelSteps = block.parallel;
+  console.log(
+    `[WorkflowExecutor] Starting parallel block with ${String(parallelSteps.length)} agents on ${ctx.cwd}`
+  );
+
+  // Spawn agents concurrently - each gets its own fresh session
+  const results = await runParallelInstances(
+    ctx,
+    block,
+    parallelSteps.map((step, index) => ({ index, step })),
+    block.max_concurrency ?? parallelSteps.length,
+    async (instanceCtx, { step }, i) => {
+      if (await skipStepIfConditionUnmet(instanceCtx, step, blockIndex)) {
+        return { success: true, commandName: getStepName(step), skipped: true };
+      }
+
+      console.log(
+        `[WorkflowExecutor] Spawning agent ${String(blockIndex)}.${String(i)}: ${getStepName(step)}`
+      );
+
+      // Each parallel step is an independent agent
+      // clearContext is always effectively true (fresh session)
+      const result = await executeStepInternal(
+        instanceCtx, // Same worktree for all agents
+        step,
+        `${String(blockIndex)}.${String(i)}`, // Step identifier for logging
+        undefined // Always fresh session for parallel (no resume)
+      );
+      recordStepOutcome(instanceCtx, step, result);
+
+      return result;
+    }
+  );
+
+  console.log(
+    `[WorkflowExecutor] Parallel block complete: ${String(results.filter(r => r.result.success).length)}/${String(results.length)} succeeded`
+  );
+  return results;
+}
+
+/**
+ * Execute a for_each block: resolve its item list, then run one instance of the block's
+ * step per item (fresh session, `$item` substituted), at most `max_concurrency` at a time.
+ * As in a parallel block, every instance finishes before failures are reported.
+ *
+ * The step's outcome aggregates all instances: `output` has one section per item and
+ * `json` lists `{ item, status, output, json }` entries in item order.
+ *
+ * @param forEach - The block's `for_each` source
+ * @param blockIndex - Index of the block within the workflow steps
+ */
+async function executeForEachBlock(
+  ctx: WorkflowExecutionContext,
+  block: ParallelBlock,
+  forEach: readonly string[] | string,
+  blockIndex: number
+): Promise<ParallelStepResult[]> {
+  const { platform, conversationId, workflowRun } = ctx;
+  const step = block.parallel[0];
+  const stepName = getStepName(step);
+
+  if (await skipStepIfConditionUnmet(ctx, step, blockIndex)) {
+    return [{ index: 0, result: { success: true, commandName: stepName, skipped: true } }];
+  }
+
+  const resolved = resolveForEachItems(
+    forEach,
+    text =>
+      substituteWorkflowVariables(
+        text,
+        workflowRun.id,
+        workflowRun.user_message,
+        ctx.issueContext,
+        ctx.inputs,
+        ctx.stepOutcomes
+      ).prompt
+  );
+  if (!resolved.success) {
+    ctx.stepOutcomes.set(getStepId(step), { status: 'failed', output: '' });
+    return [{ index: 0, result: { success: false, commandName: stepName, error: resolved.error } }];
+  }
+
+  const { items } = resolved;
+  if (items.length === 0) {
+    ctx.stepOutcomes.set(getStepId(step), { status: 'completed', output: '', json: [] });
+    await safeSendMessage(platform, conversationId, `⏭️ **For each**: \`${stepName}\` (no items)`, {
+      workflowId: workflowRun.id,
+      stepName,
+    });
+    return [{ index: 0, result: { success: true, commandName: stepName, output: '' } }];
+  }
+
+  const concurrency = Math.min(block.max_concurrency ?? DEFAULT_FOR_EACH_CONCURRENCY, items.length);
+  console.log(
+    `[WorkflowExecutor] Starting for_each block with ${String(items.length)} items (${String(concurrency)} at a time) on ${ctx.cwd}`
+  );
+  await safeSendMessage(
+    platform,
+    conversationId,
+    `⏳ **For each** (${String(items.length)} items, ${String(concurrency)} at a time): \`${stepName}\``,
+    { workflowId: workflowRun.id, stepName }
+  );
+
+  const results = await runParallelInstances(
+    ctx,
+    block,
+    items.map(item => ({ index: 0, item, step })),
+    concurrency,
+    (instanceCtx, { item }, i) => {
+      console.log(
+        `[WorkflowExecutor] Spawning agent ${String(blockIndex)}.${String(i)}: ${stepName} (${item ?? ''})`
+      );
+      return executeStepInternal(
+        { ...instanceCtx, item },
+        step,
+        `${String(blockIndex)}.${String(i)}`,
+        undefined // Always fresh session, as in parallel blocks
+      );
+    }
+  );
+
+  ctx.stepOutcomes.set(getStepId(step), {
+    status: results.every(r => r.result.success) ? 'completed' : 'failed',
+    output: results
+      .map(
+        ({ item = '', result }) =>
+          `### ${item}\n\n${result.success ? (result.output ?? '') : result.error}`
+      )
+      .join('\n\n'),
+    json: results.map(({ item, result, cancelled }) =>
+      result.success
+        ? {
+            item,
+            status: 'completed',
+            output: result.output ?? '',
+            json: extractJsonBlock(result.output ?? ''),
+          }
+        : { item, status: cancelled ? 'cancelled' : 'failed', error: result.error }
+    ),
+  });
+
+  console.log(
+    `[WorkflowExecutor] For_each block complete: ${String(results.filter(r => r.result.success).length)}/${String(results.length)} succeeded`
+  );
+  return results;
+}
+
+/**
+ * Execute steps in declaration order (single steps, parallel blocks and approval gates).
+ * Returns true when all steps succeeded. Returns false when the run failed (already
+ * marked failed and the user notified) or paused at an approval gate.
+ */
+async function executeSequentialSteps(
+  ctx: WorkflowExecutionContext,
+  steps: readonly WorkflowStep[]
+): Promise<boolean> {
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const workflowContext: SendMessageContext = { workflowId: workflowRun.id };
+  const startIndex = ctx.resumeFrom?.stepIndex ?? 0;
+  let currentSessionId = ctx.resumeFrom?.sessionId;
+  let stepNumber = startIndex; // For user-facing step count
+
+  // Execute steps sequentially (for step-based workflows)
+  for (let i = startIndex; i < steps.length; i++) {
+    const step = steps[i];
+
+    if (isParallelBlock(step)) {
+      // Parallel block execution
+      const parallelSteps = step.parallel;
+      const stepCount = parallelSteps.length;
+      stepNumber++;
+      const stepCommands = parallelSteps.map(getStepName);
+
+      // Log parallel block start
+      await logParallelBlockStart(cwd, workflowRun.id, i, stepCommands);
+
+      let results: ParallelStepResult[];
+      if (step.for_each !== undefined) {
+        // One instance per item - the block reports its own progress
+        results = await executeForEachBlock(ctx, step, step.for_each, i);
+      } else {
+        // Notify user
+        const stepNames = stepCommands.map(name => `\`${name}\``).join(', ');
+        await safeSendMessage(
+          platform,
+          conversationId,
+          `⏳ **Parallel block** (${String(stepCount)} steps): ${stepNames}`,
+          { workflowId: workflowRun.id }
+        );
+
+        // Execute all in parallel
+        results = await executeParallelBlock(ctx, step, i);
+      }
+
+      // Log every result and the aggregate before applying the failure policy
+      const blockResults = results.map(r => ({
+        command: getStepName(parallelSteps[r.index]) + (r.item !== undefined ? ` (${r.item})` : ''),
+        success: r.result.success,
+        ...(r.cancelled ? { cancelled: true } : {}),
+      }));
+      const summary = summarizeParallelBlock(step, results);
+      await logParallelBlockComplete(cwd, workflowRun.id, i, blockResults, summary);
+
+      // Report ALL failures, not just the first one
+      const failureDetails = results
+        .filter(r => !r.result.success)
+        .map(f => {
+          const failedStep = parallelSteps[f.index];
+          const failedResult = f.result;
+          const errorText = !failedResult.success ? failedResult.error : 'Unknown error';
+          const itemLabel = f.item !== undefined ? ` (${f.item})` : '';
+          return `- \`${getStepName(failedStep)}\`${itemLabel}: ${errorText}`;
+        });
+
+      if (!summary.passed) {
+        const quorumNote =
+          typeof step.on_failure === 'object'
+            ? ` (${String(summary.succeeded)} completed, ${summary.on_failure} required)`
+            : '';
+        const cancelledNote =
+          summary.cancelled > 0 ? `, ${String(summary.cancelled)} cancelled` : '';
+        const errorMsg = `${String(summary.failed)} parallel step(s) failed${cancelledNote}${quorumNote}:\n${failureDetails.join('\n')}`;
+        const failedSteps = results
+          .filter(r => !r.result.success && !r.cancelled)
+          .map(r => r.result.commandName);
+        ctx.failure = { step: [...new Set(failedSteps)].join(', '), error: errorMsg };
+        await logWorkflowError(cwd, workflowRun.id, errorMsg);
+
+        // Record failure in database (non-critical - log but don't prevent user notification)
+        try {
+          await workflowDb.failWorkflowRun(workflowRun.id, errorMsg);
+        } catch (dbError) {
+          console.error('[WorkflowExecutor] Database error recording parallel block failure', {
+            error: (dbError as Error).message,
+            workflowId: workflowRun.id,
+          });
+        }
+
+        // Always attempt to notify user with all failure details
+        await sendCriticalMessage(
+          platform,
+          conversationId,
+          `❌ **Workflow failed** in parallel block${quorumNote}:\n\n${failureDetails.join('\n')}`
+        );
+        return false;
+      }
+
+      if (failureDetails.length > 0) {
+        // Tolerated by on_failure: continue / quorum - outcomes record the failures for later steps
+        await safeSendMessage(
+          platform,
+          conversationId,
+          `⚠️ **Parallel block** continued with ${String(summary.failed)} failed step(s) (on_failure: ${summary.on_failure}):\n\n${failureDetails.join('\n')}`,
+          { workflowId: workflowRun.id }
+        );
+      }
+
+      // Parallel steps never carry a session forward
+      currentSessionId = undefined;
+    } else if (isApprovalStep(step)) {
+      // The run stops here; resumeWorkflow continues after the gate once approved
+      await requestApproval(ctx, step.approval, i, currentSessionId);
+      return false;
+    } else if (await skipStepIfConditionUnmet(ctx, step, i)) {
+      // Condition not met - the current session carries over to the next step
+      stepNumber++;
+    } else {
+      // Single step execution (existing logic)
+      stepNumber++;
+      const needsFreshSession = (isCommandStep(step) && step.clearContext === true) || i === 0;
+      const resumeSessionId = needsFreshSession ? undefined : currentSessionId;
+
+      // Send step notification
+      if (steps.length > 1) {
+        await safeSendMessage(
+          platform,
+          conversationId,
+          `⏳ **Step ${String(stepNumber)}/${String(steps.length)}**: \`${getStepName(step)}\``,
+          workflowContext
+        );
+      }
+
+      const result = await executeStepInternal(ctx, step, String(i), resumeSessionId);
+      recordStepOutcome(ctx, step, result);
+
+      if (!result.success) {
+        ctx.failure = { step: result.commandName, error: result.error };
+        await logWorkflowError(cwd, workflowRun.id, result.error);
+
+        // Record failure in database (non-critical - log but don't prevent user notification)
+        try {
+          await workflowDb.failWorkflowRun(workflowRun.id, result.error);
+        } catch (dbError) {
+          console.error('[WorkflowExecutor] Database error recording step failure', {
+            error: (dbError as Error).message,
+            workflowId: workflowRun.id,
+            stepName: result.commandName,
+          });
+        }
+
+        // Always attempt to notify user
+        await sendCriticalMessage(
+          platform,
+          conversationId,
+          `❌ **Workflow failed** at step: \`${result.commandName}\`\n\nError: ${result.error}`,
+          { ...workflowContext, stepName: result.commandName }
+        );
+        return false;
+      }
+
+      if (result.sessionId) {
+        currentSessionId = result.sessionId;
       }
     }
 
-    return {
-      commandName,
-      success: false,
-      error: err.message + userHint,
-    };
+    // Update progress (non-critical - log but don't fail workflow on db error)
+    try {
+      await workflowDb.updateWorkflowRun(workflowRun.id, {
+        current_step_index: i + 1,
+        metadata: {
+          step_outputs: serializeStepOutputs(ctx.stepOutcomes),
+          session_id: currentSessionId ?? null, // null clears a stale id (metadata is merged)
+        },
+      });
+    } catch (dbError) {
+      console.error('[WorkflowExecutor] Database error updating workflow progress', {
+        error: (dbError as Error).message,
+        workflowId: workflowRun.id,
+        stepIndex: i + 1,
+      });
+      // Continue execution - progress tracking is non-critical
+    }
   }
-}
 
-/**
- * Parallel step result interface
- */
-interface ParallelStepResult {
-  index: number; // Index within parallel block
-  result: StepResult;
+  return true;
 }
 
 /**
- * Execute multiple steps in parallel - each as a separate Claude agent.
+ * Execute a dependency-based step list (DAG).
  *
- * Architecture:
- * - Each step spawns an independent Claude Code session
- * - All agents work on the SAME worktree (cwd) simultaneously
- * - No session context is shared between parallel agents
- * - Useful for read-heavy workflows (reviews) where agents don't conflict
+ * Scheduling:
+ * - A step starts as soon as every step in its `depends_on` list has succeeded or was skipped
+ *   (a `when` condition should only reference dependencies, which are guaranteed to have finished)
+ * - Independent steps run concurrently as separate agents on the same worktree
+ * - A step resumes its dependency's session only when it has exactly one dependency,
+ *   is that dependency's sole dependent and doesn't set clearContext; otherwise it starts fresh
  *
  * Error handling:
- * - Waits for ALL steps to complete before checking for failures
- * - If any step fails, workflow fails with details of ALL failures
- * - This is NOT fail-fast: slow-failing steps won't abort fast-failing ones
+ * - After the first failure no new steps are started; in-flight steps finish
+ * - A step that throws (e.g. an abort of the run) stops the in-flight steps, and the error
+ *   is rethrown once they have settled
+ * - Downstream steps of failed steps are reported as not run
  *
- * @param parallelSteps - Steps to execute concurrently
- * @param cwd - Working directory (same for all agents)
+ * Returns true when all steps succeeded; on failure the run is already marked
+ * failed and the user notified.
  */
-async function executeParallelBlock(
-  platform: IPlatformAdapter,
-  conversationId: string,
-  cwd: string, // All agents share this worktree
-  workflow: WorkflowDefinition,
-  workflowRun: WorkflowRun,
-  parallelSteps: readonly SingleStep[],
-  blockIndex: number,
-  configuredCommandFolder?: string,
-  issueContext?: string
-): Promise<ParallelStepResult[]> {
+async function executeDagSteps(
+  ctx: WorkflowExecutionContext,
+  steps: readonly SingleStep[]
+): Promise<boolean> {
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const workflowContext: SendMessageContext = { workflowId: workflowRun.id };
+
+  const stepIds = steps.map(getStepId);
+  const dependentCounts = new Map<string, number>();
+  for (const step of steps) {
+    for (const dep of step.depends_on ?? []) {
+      dependentCounts.set(dep, (dependentCounts.get(dep) ?? 0) + 1);
+    }
+  }
+
+  // A resumed run skips the steps that finished before the interruption
+  const completed: string[] = [...(ctx.resumeFrom?.completedSteps ?? [])];
+  const started = new Set<string>(completed);
+  const sessionIds = new Map<string, string | undefined>();
+  const failures: { stepId: string; commandName: string; error: string }[] = [];
+  const running = new Map<string, Promise<{ stepId: string; result: StepResult }>>();
+  let stepNumber = completed.length; // For user-facing step count (in start order)
+  // Aborted when a step throws, so the others unwind before the error reaches the run
+  const stop = new AbortController();
+  const stepCtx: WorkflowExecutionContext = {
+    ...ctx,
+    abortSignal: AbortSignal.any([ctx.abortSignal, stop.signal]),
+  };
+
   console.log(
-    `[WorkflowExecutor] Starting parallel block with ${String(parallelSteps.length)} agents on ${cwd}`
+    `[WorkflowExecutor] Starting DAG execution with ${String(steps.length)} steps on ${cwd}`
   );
 
-  // Spawn all agents concurrently - each gets its own fresh session
-  const results = await Promise.all(
-    parallelSteps.map(async (step, i) => {
-      console.log(
-        `[WorkflowExecutor] Spawning agent ${String(blockIndex)}.${String(i)}: ${step.command}`
-      );
+  for (;;) {
+    // Start every step whose dependencies are all complete (none after a failure)
+    if (failures.length === 0) {
+      for (const [index, step] of steps.entries()) {
+        const stepId = stepIds[index];
+        const dependsOn = step.depends_on ?? [];
+        if (started.has(stepId) || !dependsOn.every(dep => completed.includes(dep))) {
+          continue;
+        }
 
-      // Each parallel step is an independent agent
-      // clearContext is always effectively true (fresh session)
-      const result = await executeStepInternal(
-        platform,
-        conversationId,
-        cwd, // Same worktree for all agents
-        workflow,
-        workflowRun,
-        step,
-        `${String(blockIndex)}.${String(i)}`, // Step identifier for logging
-        undefined, // Always fresh session for parallel (no resume)
-        configuredCommandFolder,
-        issueContext
-      );
+        started.add(stepId);
+        stepNumber++;
+
+        const canResume =
+          isCommandStep(step) &&
+          step.clearContext !== true &&
+          dependsOn.length === 1 &&
+          dependentCounts.get(dependsOn[0]) === 1;
+        const resumeSessionId = canResume ? sessionIds.get(dependsOn[0]) : undefined;
+        const currentStepNumber = stepNumber;
+
+        const runStep = async (): Promise<{ stepId: string; result: StepResult }> => {
+          if (await skipStepIfConditionUnmet(ctx, step, index)) {
+            return {
+              stepId,
+              result: { success: true, commandName: getStepName(step), skipped: true },
+            };
+          }
+
+          await safeSendMessage(
+            platform,
+            conversationId,
+            `⏳ **Step ${String(currentStepNumber)}/${String(steps.length)}**: \`${getStepName(step)}\``,
+            workflowContext
+          );
+
+          const result = await executeStepInternal(stepCtx, step, String(index), resumeSessionId);
+          recordStepOutcome(ctx, step, result);
+          return { stepId, result };
+        };
+        running.set(stepId, runStep());
+      }
+    }
+
+    if (running.size === 0) break;
+
+    let settled: { stepId: string; result: StepResult };
+    try {
+      settled = await Promise.race(running.values());
+    } catch (error) {
+      stop.abort(error);
+      await Promise.allSettled(running.values());
+      throw error;
+    }
+    const { stepId, result } = settled;
+    running.delete(stepId);
+
+    if (!result.success) {
+      failures.push({ stepId, commandName: result.commandName, error: result.error });
+      continue;
+    }
+
+    completed.push(stepId);
+    sessionIds.set(stepId, result.sessionId);
+
+    // Update progress (non-critical - log but don't fail workflow on db error)
+    try {
+      await workflowDb.updateWorkflowRun(workflowRun.id, {
+        current_step_index: completed.length,
+        metadata: {
+          completed_steps: completed,
+          step_outputs: serializeStepOutputs(ctx.stepOutcomes),
+        },
+      });
+    } catch (dbError) {
+      console.error('[WorkflowExecutor] Database error updating workflow progress', {
+        error: (dbError as Error).message,
+        workflowId: workflowRun.id,
+        stepId,
+      });
+      // Continue execution - progress tracking is non-critical
+    }
+  }
+
+  if (failures.length === 0) {
+    return true;
+  }
 
-      return { index: i, result };
-    })
+  // Report all failures plus the downstream steps that were never started
+  const failureDetails = failures.map(f => `- \`${f.commandName}\`: ${f.error}`);
+  const notRun = stepIds.filter(id => !started.has(id));
+  const downstream = getDownstreamStepIds(
+    steps,
+    failures.map(f => f.stepId)
   );
+  const notRunDetails =
+    notRun.length > 0
+      ? `\n\nNot run: ${notRun.map(id => `\`${id}\`${downstream.includes(id) ? ' (blocked)' : ''}`).join(', ')}`
+      : '';
 
-  console.log(
-    `[WorkflowExecutor] Parallel block complete: ${String(results.filter(r => r.result.success).length)}/${String(results.length)} succeeded`
+  const errorMsg = `${String(failures.length)} step(s) failed:\n${failureDetails.join('\n')}`;
+  ctx.failure = { step: failures.map(f => f.commandName).join(', '), error: errorMsg };
+  await logWorkflowError(cwd, workflowRun.id, errorMsg);
+
+  // Record failure in database (non-critical - log but don't prevent user notification)
+  try {
+    await workflowDb.failWorkflowRun(workflowRun.id, errorMsg);
+  } catch (dbError) {
+    console.error('[WorkflowExecutor] Database error recording step failure', {
+      error: (dbError as Error).message,
+      workflowId: workflowRun.id,
+      failedSteps: failures.map(f => f.stepId),
+    });
+  }
+
+  // Always attempt to notify user with all failure details
+  await sendCriticalMessage(
+    platform,
+    conversationId,
+    `❌ **Workflow failed**:\n\n${failureDetails.join('\n')}${notRunDetails}`,
+    workflowContext
   );
-  return results;
+  return false;
+}
+
+/**
+ * Run a loop's `until_command` in the worktree and log the result like a shell step.
+ * Workflow timeouts and cancellation are thrown; a check that cannot be started rejects.
+ */
+async function runLoopCheck(
+  ctx: WorkflowExecutionContext,
+  command: string,
+  iteration: number
+): Promise<ShellCommandResult> {
+  const result = await runShellCommand(command, {
+    cwd: ctx.cwd,
+    env: {},
+    timeoutSeconds: DEFAULT_SHELL_TIMEOUT_SECONDS,
+    signal: ctx.abortSignal,
+  });
+  await logShellCommand(ctx.cwd, ctx.workflowRun.id, 'until_command', iteration - 1, result);
+
+  if (ctx.abortSignal.aborted) {
+    throw ctx.abortSignal.reason as Error;
+  }
+  return result;
 }
 
 /**
  * Execute a loop-based workflow (Ralph-style autonomous iteration)
+ * @returns The iteration that met the completion condition, or undefined when the loop
+ *   failed (recorded and reported here). runWorkflow completes the run and commits artifacts.
  */
-async function executeLoopWorkflow(
-  platform: IPlatformAdapter,
-  conversationId: string,
-  cwd: string,
-  workflow: WorkflowDefinition,
-  workflowRun: WorkflowRun,
-  issueContext?: string
-): Promise<void> {
+async function executeLoopWorkflow(ctx: WorkflowExecutionContext): Promise<number | undefined> {
+  const { platform, conversationId, cwd, workflow, workflowRun, issueContext } = ctx;
   const loop = workflow.loop!;
   const prompt = workflow.prompt!;
+  const modelResult = resolveModelSelection(workflow, undefined, ctx.modelRegistry);
+  if (!modelResult.success) {
+    throw new Error(modelResult.error);
+  }
 
   console.log(
     `[WorkflowExecutor] Starting loop workflow: ${workflow.name} (max ${String(loop.max_iterations)} iterations)`
   );
 
   const workflowContext: SendMessageContext = { workflowId: workflowRun.id };
-  let currentSessionId: string | undefined;
+  let currentSessionId = ctx.resumeFrom?.sessionId;
   let metadataTrackingFailed = false;
+  // Output of the last failing until_command, substituted as $LAST_CHECK_OUTPUT
+  let lastCheckOutput = ctx.resumeFrom?.lastCheckOutput ?? '';
 
-  for (let i = 1; i <= loop.max_iterations; i++) {
+  // A resumed run repeats the iteration that was interrupted
+  for (let i = Math.max(ctx.resumeFrom?.stepIndex ?? 1, 1); i <= loop.max_iterations; i++) {
     // Update metadata with current iteration (non-critical - log but don't fail on db error)
     try {
       await workflowDb.updateWorkflowRun(workflowRun.id, {
         current_step_index: i,
-        metadata: { iteration_count: i, max_iterations: loop.max_iterations },
+        metadata: {
+          iteration_count: i,
+          max_iterations: loop.max_iterations,
+          session_id: currentSessionId ?? null, // Session this iteration resumes
+          last_check_output: lastCheckOutput, // $LAST_CHECK_OUTPUT of this iteration
+        },
       });
     } catch (dbError) {
       console.error('[WorkflowExecutor] Database error updating loop iteration metadata', {
@@ -709,107 +2445,67 @@ async function executeLoopWorkflow(
       );
     }
 
-    // Substitute variables and append context if needed
+    // Substitute variables and append context if needed - check output last, verbatim
     const substitutedPrompt = buildPromptWithContext(
       prompt,
       workflowRun.id,
       workflowRun.user_message,
       issueContext,
-      'workflow loop prompt'
-    );
+      'workflow loop prompt',
+      ctx.inputs
+    ).replace(/\$LAST_CHECK_OUTPUT/g, () => lastCheckOutput);
 
-    // Execute iteration
-    const aiClient = getAssistantClient(workflow.provider ?? 'claude');
-    const streamingMode = platform.getStreamingMode();
+    // Execute iteration (workflow-level retry policy applies to each iteration)
+    const retryPolicy = workflow.retry;
+    const iterationName = `iteration-${String(i)}`;
 
     try {
-      const assistantMessages: string[] = [];
-      let fullOutput = '';
-      let droppedMessageCount = 0;
-
-      for await (const msg of aiClient.sendQuery(substitutedPrompt, cwd, resumeSessionId)) {
-        // Update activity timestamp on each message (non-blocking, non-critical)
-        void workflowDb.updateWorkflowActivity(workflowRun.id);
-
-        if (msg.type === 'assistant' && msg.content) {
-          fullOutput += msg.content;
-          if (streamingMode === 'stream') {
-            const sent = await safeSendMessage(
-              platform,
-              conversationId,
-              msg.content,
-              workflowContext
-            );
-            if (!sent) droppedMessageCount++;
-          } else {
-            assistantMessages.push(msg.content);
-          }
-          await logAssistant(cwd, workflowRun.id, msg.content);
-        } else if (msg.type === 'tool' && msg.toolName) {
-          if (streamingMode === 'stream') {
-            const toolMessage = formatToolCall(msg.toolName, msg.toolInput);
-            const sent = await safeSendMessage(
-              platform,
-              conversationId,
-              toolMessage,
-              workflowContext
-            );
-            if (!sent) droppedMessageCount++;
-          }
-          await logTool(cwd, workflowRun.id, msg.toolName, msg.toolInput ?? {});
-        } else if (msg.type === 'result' && msg.sessionId) {
-          currentSessionId = msg.sessionId;
-        }
+      const iteration = await runWithRetry(ctx, retryPolicy, iterationName, i - 1, attempt =>
+        streamAssistantQuery(
+          ctx,
+          modelResult.selection,
+          substitutedPrompt,
+          attempt > 1 && retryPolicy?.fresh_context ? undefined : resumeSessionId,
+          { ...workflowContext, stepName: iterationName },
+          ` in iteration ${String(i)}`
+        )
+      );
+      if (iteration.sessionId) {
+        currentSessionId = iteration.sessionId;
       }
-
-      // Batch mode: send accumulated messages
-      if (streamingMode === 'batch' && assistantMessages.length > 0) {
-        await safeSendMessage(
-          platform,
-          conversationId,
-          assistantMessages.join('\n\n'),
-          workflowContext
-        );
+      const fullOutput = iteration.fullOutput;
+
+      // Check for completion - with both conditions, the check verifies a claimed signal
+      let complete = loop.until === undefined || detectCompletionSignal(fullOutput, loop.until);
+      if (complete && loop.until_command) {
+        const check = await runLoopCheck(ctx, loop.until_command, i);
+        complete = check.exitCode === 0 && !check.timedOut;
+        if (!complete) {
+          lastCheckOutput = [check.stdout.trim(), check.stderr.trim()].filter(Boolean).join('\n');
+          const reason = check.timedOut ? 'timed out' : `exit code ${String(check.exitCode)}`;
+          await safeSendMessage(
+            platform,
+            conversationId,
+            `🔁 \`${loop.until_command}\` failed (${reason}) - continuing`,
+            workflowContext
+          );
+        }
       }
 
-      // Warn user about dropped messages in streaming mode
-      if (droppedMessageCount > 0) {
-        await safeSendMessage(
-          platform,
-          conversationId,
-          `⚠️ ${String(droppedMessageCount)} message(s) failed to deliver in iteration ${String(i)}. Check workflow logs for full output.`,
-          workflowContext
-        );
+      if (complete) {
+        console.log(`[WorkflowExecutor] Completion condition met at iteration ${String(i)}`);
+        return i;
       }
 
-      // Check for completion signal
-      if (detectCompletionSignal(fullOutput, loop.until)) {
-        console.log(`[WorkflowExecutor] Completion signal detected at iteration ${String(i)}`);
-        await workflowDb.completeWorkflowRun(workflowRun.id);
-        await logWorkflowComplete(cwd, workflowRun.id);
-        await sendCriticalMessage(
-          platform,
-          conversationId,
-          `✅ **Loop complete**: \`${workflow.name}\` (${String(i)} iterations)`,
-          workflowContext
-        );
-
-        // Safety net: Commit any uncommitted artifacts before returning
-        await commitWorkflowArtifacts(
-          platform,
-          conversationId,
-          cwd,
-          workflow.name,
-          workflowRun.id,
-          workflowContext
-        );
-        return;
+      await logStepComplete(cwd, workflowRun.id, iterationName, i - 1);
+    } catch (error) {
+      if (error instanceof WorkflowAbortError) {
+        throw error;
       }
 
-      await logStepComplete(cwd, workflowRun.id, `iteration-${String(i)}`, i - 1);
-    } catch (error) {
       const err = error as Error;
       console.error(`[WorkflowExecutor] Loop iteration ${String(i)} failed:`, err.message);
+      ctx.failure = { step: iterationName, error: err.message };
       await workflowDb.failWorkflowRun(workflowRun.id, `Iteration ${String(i)}: ${err.message}`);
       await logWorkflowError(cwd, workflowRun.id, err.message);
       await sendCriticalMessage(
@@ -818,23 +2514,17 @@ async function executeLoopWorkflow(
         `❌ **Loop failed** at iteration ${String(i)}: ${err.message}`,
         workflowContext
       );
-
-      // Safety net: Try to commit any artifacts created before failure
-      await commitWorkflowArtifacts(
-        platform,
-        conversationId,
-        cwd,
-        workflow.name,
-        workflowRun.id,
-        workflowContext
-      );
-      return;
+      return undefined;
     }
   }
 
   // Max iterations reached without completion
-  const errorMsg = `Max iterations (${String(loop.max_iterations)}) reached without completion signal "${loop.until}"`;
+  const missing: string[] = [];
+  if (loop.until) missing.push(`completion signal "${loop.until}"`);
+  if (loop.until_command) missing.push(`a passing \`${loop.until_command}\``);
+  const errorMsg = `Max iterations (${String(loop.max_iterations)}) reached without ${missing.join(' and ')}`;
   console.warn(`[WorkflowExecutor] ${errorMsg}`);
+  ctx.failure = { step: `iteration-${String(loop.max_iterations)}`, error: errorMsg };
   await workflowDb.failWorkflowRun(workflowRun.id, errorMsg);
   await logWorkflowError(cwd, workflowRun.id, errorMsg);
 
@@ -843,21 +2533,41 @@ async function executeLoopWorkflow(
 ${errorMsg}
 
 **Possible actions:**
-- Increase \`max_iterations\` in your workflow YAML
-- Verify your prompt instructs AI to output \`<promise>${loop.until}</promise>\` when done
+- Increase \`max_iterations\` in your workflow YAML${
+    loop.until
+      ? `\n- Verify your prompt instructs AI to output \`<promise>${loop.until}</promise>\` when done`
+      : ''
+  }${
+    loop.until_command
+      ? '\n- Include `$LAST_CHECK_OUTPUT` in your prompt so the AI sees why the check failed'
+      : ''
+  }
 - Review logs at \`.archon/logs/${workflowRun.id}.jsonl\``;
 
   await sendCriticalMessage(platform, conversationId, userMsg, workflowContext);
+  return undefined;
+}
 
-  // Safety net: Try to commit any artifacts created before max iterations exceeded
-  await commitWorkflowArtifacts(
-    platform,
-    conversationId,
-    cwd,
-    workflow.name,
-    workflowRun.id,
-    workflowContext
-  );
+/**
+ * Describe a workflow's steps or loop for its startup message
+ */
+function describeWorkflowSteps(workflow: WorkflowDefinition): string {
+  let description: string;
+  // Use type narrowing from discriminated union
+  if (!workflow.steps) {
+    description = `\n\n**Loop**: until ${formatLoopCondition(workflow.loop)} (max ${String(workflow.loop.max_iterations)} iterations)`;
+  } else if (isDagWorkflow(workflow.steps)) {
+    description = `\n\n**Steps**: ${formatExecutionLevels(workflow.steps.filter(isSingleStep))}`;
+  } else {
+    description = `\n\n**Steps**: ${formatStepSequence(workflow.steps)}`;
+  }
+  if (workflow.on_failure?.length) {
+    description += `\n**On failure**: ${formatStepSequence(workflow.on_failure)}`;
+  }
+  if (workflow.finally?.length) {
+    description += `\n**Finally**: ${formatStepSequence(workflow.finally)}`;
+  }
+  return description;
 }
 
 /**
@@ -875,6 +2585,9 @@ ${errorMsg}
  *   - Used to substitute $CONTEXT, $EXTERNAL_CONTEXT, $ISSUE_CONTEXT variables in prompts
  *   - Appended to prompts if no context variables are present (to ensure AI receives context)
  *   Expected format: Markdown with issue title, author, labels, and body
+ * @param isolationContext - Optional worktree/PR details shown in the startup message
+ * @param inputs - Raw `name=value` pairs for the workflow's declared `inputs:`. Checked
+ *   against the declarations before the run starts; stored in run metadata as `inputs`.
  */
 export async function executeWorkflow(
   platform: IPlatformAdapter,
@@ -890,16 +2603,49 @@ export async function executeWorkflow(
     isPrReview?: boolean;
     prSha?: string;
     prBranch?: string;
-  }
+  },
+  inputs: Readonly<Record<string, string>> = {}
 ): Promise<void> {
-  // Load repo config to get configured command folder
-  const repoConfig = await loadRepoConfig(cwd);
-  const configuredCommandFolder = repoConfig.commands?.folder;
+  // Reject invalid inputs before touching the database
+  const resolvedInputs = resolveWorkflowInputs(workflow.inputs, inputs);
+  if (!resolvedInputs.success) {
+    console.warn(`[WorkflowExecutor] Invalid inputs for workflow ${workflow.name}`, {
+      errors: resolvedInputs.errors,
+      conversationId,
+    });
+    const usage = workflow.inputs?.length
+      ? `\n\n**Inputs**:\n${formatInputDeclarations(workflow.inputs)}`
+      : '';
+    await sendCriticalMessage(
+      platform,
+      conversationId,
+      `❌ **Invalid workflow inputs** for \`${workflow.name}\`:\n${resolvedInputs.errors.map(e => `- ${e}`).join('\n')}${usage}`
+    );
+    return;
+  }
+
+  // Load config for the configured command folder and the model registry
+  const config = await loadConfig(cwd);
+  const configuredCommandFolder = config.commands.folder;
 
   if (configuredCommandFolder) {
     console.log(`[WorkflowExecutor] Using configured command folder: ${configuredCommandFolder}`);
   }
 
+  const resolvedModels = resolveWorkflowModels(workflow, config.models);
+  if (!resolvedModels.success) {
+    console.warn(`[WorkflowExecutor] Invalid models for workflow ${workflow.name}`, {
+      errors: resolvedModels.errors,
+      conversationId,
+    });
+    await sendCriticalMessage(
+      platform,
+      conversationId,
+      `❌ **Invalid models** for \`${workflow.name}\`:\n${resolvedModels.errors.map(e => `- ${e}`).join('\n')}`
+    );
+    return;
+  }
+
   // Check for concurrent workflow execution with staleness detection
   let activeWorkflow;
   try {
@@ -918,6 +2664,16 @@ export async function executeWorkflow(
     );
     return;
   }
+  if (activeWorkflow?.status === 'waiting_approval') {
+    // Paused runs are never stale - they continue after /approve
+    const shortId = activeWorkflow.id.slice(0, 8);
+    await sendCriticalMessage(
+      platform,
+      conversationId,
+      `❌ **Workflow waiting for approval**: A \`${activeWorkflow.workflow_name}\` workflow (ID: ${shortId}) is waiting for approval. Use \`/approve ${shortId}\`, \`/reject ${shortId} <reason>\` or \`/workflow cancel\` first.`
+    );
+    return;
+  }
   if (activeWorkflow) {
     // Check staleness based on last activity, not start time
     const lastActivity = activeWorkflow.last_activity_at ?? activeWorkflow.started_at;
@@ -957,70 +2713,314 @@ export async function executeWorkflow(
     }
   }
 
-  // Create workflow run record
-  let workflowRun;
+  // Create workflow run record
+  let workflowRun;
+  try {
+    workflowRun = await workflowDb.createWorkflowRun({
+      workflow_name: workflow.name,
+      conversation_id: conversationDbId,
+      codebase_id: codebaseId,
+      user_message: userMessage,
+      metadata: {
+        ...(issueContext ? { github_context: issueContext } : {}),
+        ...(workflow.inputs?.length ? { inputs: resolvedInputs.values } : {}),
+        ...(Object.keys(resolvedModels.models).length > 0 ? { models: resolvedModels.models } : {}),
+        cwd, // Where the run's log is written
+        definition_fingerprint: fingerprintWorkflow(workflow),
+      },
+    });
+  } catch (error) {
+    const err = error as Error;
+    console.error('[WorkflowExecutor] Database error creating workflow run', {
+      error: err.message,
+      workflow: workflow.name,
+      conversationId,
+    });
+    await sendCriticalMessage(
+      platform,
+      conversationId,
+      '❌ **Workflow failed**: Unable to start workflow (database error). Please try again later.'
+    );
+    return;
+  }
+
+  console.log(`[WorkflowExecutor] Starting workflow: ${workflow.name} (${workflowRun.id})`);
+  await logWorkflowStart(cwd, workflowRun.id, workflow.name, userMessage);
+
+  // Build consolidated startup message
+  let startupMessage = '';
+
+  // Add isolation context to startup message
+  if (isolationContext) {
+    const { isPrReview, prSha, prBranch, branchName } = isolationContext;
+
+    if (isPrReview && prSha && prBranch) {
+      startupMessage += `Reviewing PR at commit \`${prSha.substring(0, 7)}\` (branch: \`${prBranch}\`)\n\n`;
+    } else if (branchName) {
+      const repoName = cwd.split('/').pop() || 'repository';
+      startupMessage += `📍 ${repoName} @ \`${branchName}\`\n\n`;
+    } else {
+      console.warn(
+        '[WorkflowExecutor] Incomplete isolation context - omitting from startup message',
+        {
+          workflowId: workflowRun.id,
+          hasFields: {
+            isPrReview: !!isPrReview,
+            prSha: !!prSha,
+            prBranch: !!prBranch,
+            branchName: !!branchName,
+          },
+        }
+      );
+    }
+  }
+
+  // Add workflow start message
+  startupMessage += `🚀 **Starting workflow**: \`${workflow.name}\`\n\n> ${workflow.description}`;
+
+  startupMessage += describeWorkflowSteps(workflow);
+
+  await runWorkflow(
+    {
+      platform,
+      conversationId,
+      cwd,
+      workflow,
+      workflowRun,
+      configuredCommandFolder,
+      modelRegistry: config.models,
+      budgetCeiling: budgetFromConfig(config.budget),
+      issueContext,
+      inputs: resolvedInputs.values,
+      stepOutcomes: new Map(),
+      usage: emptyRunUsage(),
+      workflows: await captureWorkflows(cwd, workflow),
+    },
+    startupMessage
+  );
+}
+
+/**
+ * Resume an interrupted workflow run (the process died while it was running) or an
+ * approved run waiting at an approval gate.
+ *
+ * Sequential workflows continue at current_step_index (the step after it for an approved
+ * gate), loop workflows repeat the interrupted iteration and DAG workflows skip the steps
+ * in completed_steps. Inputs, step outputs and the session of the last completed
+ * step/iteration are restored from the run metadata.
+ * Work that was in flight when the process died runs again from the start.
+ *
+ * @param platform - The platform adapter for sending messages
+ * @param conversationId - The platform-specific conversation ID
+ * @param cwd - The working directory for command execution
+ * @param workflow - The (re-discovered) definition of the interrupted workflow
+ * @param workflowRun - The interrupted or approved run record
+ */
+export async function resumeWorkflow(
+  platform: IPlatformAdapter,
+  conversationId: string,
+  cwd: string,
+  workflow: WorkflowDefinition,
+  workflowRun: WorkflowRun
+): Promise<void> {
+  const baseCtx = await restoreRunContext(platform, conversationId, cwd, workflow, workflowRun);
+
+  // Claimed only while still paused and no other run of the conversation is active, so
+  // a run is never resumed twice and two workflows never run in one conversation
+  const pausedStatus =
+    workflowRun.status === 'waiting_approval' ? 'waiting_approval' : 'interrupted';
+  let claimed: WorkflowRun | null;
+  let activeWorkflow: WorkflowRun | null = null;
   try {
-    workflowRun = await workflowDb.createWorkflowRun({
-      workflow_name: workflow.name,
-      conversation_id: conversationDbId,
-      codebase_id: codebaseId,
-      user_message: userMessage,
-      metadata: issueContext ? { github_context: issueContext } : {},
-    });
+    claimed = await workflowDb.claimPausedWorkflowRun(workflowRun.id, pausedStatus);
+    if (!claimed) {
+      activeWorkflow = await workflowDb.getActiveWorkflowRun(workflowRun.conversation_id);
+    }
   } catch (error) {
-    const err = error as Error;
-    console.error('[WorkflowExecutor] Database error creating workflow run', {
-      error: err.message,
-      workflow: workflow.name,
+    console.error('[WorkflowExecutor] Database error resuming workflow run', {
+      error: (error as Error).message,
+      workflowId: workflowRun.id,
       conversationId,
     });
     await sendCriticalMessage(
       platform,
       conversationId,
-      '❌ **Workflow failed**: Unable to start workflow (database error). Please try again later.'
+      '❌ **Workflow resume failed**: Unable to update the workflow run (database error). Please try again later.'
     );
     return;
   }
+  if (!claimed) {
+    if (activeWorkflow && activeWorkflow.id !== workflowRun.id) {
+      await sendCriticalMessage(
+        platform,
+        conversationId,
+        `❌ **Workflow already running**: A \`${activeWorkflow.workflow_name}\` workflow (ID: ${activeWorkflow.id.slice(0, 8)}) is ${activeWorkflow.status === 'waiting_approval' ? 'waiting for approval' : 'running'}. Wait for it to complete or use \`/workflow cancel\` before resuming.`
+      );
+    } else {
+      // Already resumed elsewhere, abandoned, rejected or not approved
+      console.log(
+        `[WorkflowExecutor] Run ${workflowRun.id} is no longer ${pausedStatus}, skipping`
+      );
+    }
+    return;
+  }
 
-  // Wrap execution in try-catch to ensure workflow is marked as failed on any error
-  try {
-    console.log(`[WorkflowExecutor] Starting workflow: ${workflow.name} (${workflowRun.id})`);
-    await logWorkflowStart(cwd, workflowRun.id, workflow.name, userMessage);
+  const { metadata } = workflowRun;
+  // An approved run continues after its approval gate
+  const approved = pausedStatus === 'waiting_approval';
+  const resumeFrom: WorkflowResumePoint = {
+    stepIndex: workflowRun.current_step_index + (approved ? 1 : 0),
+    sessionId: typeof metadata.session_id === 'string' ? metadata.session_id : undefined,
+    completedSteps: Array.isArray(metadata.completed_steps)
+      ? metadata.completed_steps.filter((id): id is string => typeof id === 'string')
+      : [],
+    lastCheckOutput:
+      typeof metadata.last_check_output === 'string' ? metadata.last_check_output : undefined,
+  };
 
-    // Context for error logging
-    const workflowContext: SendMessageContext = {
-      workflowId: workflowRun.id,
-    };
+  console.log(
+    `[WorkflowExecutor] Resuming workflow: ${workflow.name} (${workflowRun.id}) at step index ${String(resumeFrom.stepIndex)}`
+  );
+  await logWorkflowResume(cwd, workflowRun.id, workflow.name, resumeFrom.stepIndex);
+
+  let progress: string;
+  if (!workflow.steps) {
+    progress = `from iteration ${String(Math.max(resumeFrom.stepIndex, 1))}/${String(workflow.loop.max_iterations)}`;
+  } else if (isDagWorkflow(workflow.steps)) {
+    progress = `${String(resumeFrom.completedSteps.length)}/${String(workflow.steps.length)} steps already completed`;
+  } else {
+    progress = `from step ${String(Math.min(resumeFrom.stepIndex + 1, workflow.steps.length))}/${String(workflow.steps.length)}`;
+  }
+  if (approved) {
+    progress = `approved, ${progress}`;
+  }
 
-    // Build consolidated startup message
-    let startupMessage = '';
+  await runWorkflow(
+    { ...baseCtx, resumeFrom },
+    `🔄 **Resuming workflow**: \`${workflow.name}\` (${progress})`
+  );
+}
 
-    // Add isolation context to startup message
-    if (isolationContext) {
-      const { isPrReview, prSha, prBranch, branchName } = isolationContext;
+/**
+ * Stop a run paused at an approval gate or by a restart without resuming it (rejected,
+ * approval expired, abandoned or cancelled): record the failure and run the workflow's
+ * `on_failure` and `finally` steps, like a run that fails while executing.
+ *
+ * @param workflow - The (re-discovered) definition of the paused workflow
+ * @param workflowRun - The interrupted or waiting run record
+ * @param error - Error recorded for the run and handed to the hooks as $ERROR
+ */
+export async function stopPausedWorkflow(
+  platform: IPlatformAdapter,
+  conversationId: string,
+  cwd: string,
+  workflow: WorkflowDefinition,
+  workflowRun: WorkflowRun,
+  error: string,
+  reason?: WorkflowFailureReason
+): Promise<void> {
+  const baseCtx = await restoreRunContext(platform, conversationId, cwd, workflow, workflowRun);
+  console.log(`[WorkflowExecutor] Stopping paused workflow: ${workflow.name} (${workflowRun.id})`);
+  await recordRunFailure({ ...baseCtx, abortSignal: new AbortController().signal }, error, reason);
+}
 
-      if (isPrReview && prSha && prBranch) {
-        startupMessage += `Reviewing PR at commit \`${prSha.substring(0, 7)}\` (branch: \`${prBranch}\`)\n\n`;
-      } else if (branchName) {
-        const repoName = cwd.split('/').pop() || 'repository';
-        startupMessage += `📍 ${repoName} @ \`${branchName}\`\n\n`;
-      } else {
-        console.warn('[WorkflowExecutor] Incomplete isolation context - omitting from startup message', {
-          workflowId: workflowRun.id,
-          hasFields: { isPrReview: !!isPrReview, prSha: !!prSha, prBranch: !!prBranch, branchName: !!branchName },
-        });
-      }
-    }
+/**
+ * Rebuild the context of a paused run from its database record: inputs, step outputs,
+ * usage and issue context from the run metadata, everything else as at run start
+ */
+async function restoreRunContext(
+  platform: IPlatformAdapter,
+  conversationId: string,
+  cwd: string,
+  workflow: WorkflowDefinition,
+  workflowRun: WorkflowRun
+): Promise<Omit<WorkflowExecutionContext, 'abortSignal'>> {
+  const config = await loadConfig(cwd);
+  const { metadata } = workflowRun;
+  const stepOutputs = (metadata.step_outputs ?? {}) as Record<string, StepOutcome>;
+  return {
+    platform,
+    conversationId,
+    cwd,
+    workflow,
+    workflowRun,
+    configuredCommandFolder: config.commands.folder,
+    modelRegistry: config.models,
+    budgetCeiling: budgetFromConfig(config.budget),
+    issueContext: typeof metadata.github_context === 'string' ? metadata.github_context : undefined,
+    inputs: (metadata.inputs ?? {}) as Record<string, WorkflowInputValue>,
+    stepOutcomes: new Map(Object.entries(stepOutputs)),
+    usage: readRunUsage(workflowRun) ?? emptyRunUsage(),
+    workflows: await captureWorkflows(cwd, workflow),
+  };
+}
+
+/**
+ * Abort a run executing in this process. The in-flight step is stopped, the run's
+ * `on_failure` and `finally` steps run and the run is failed with reason 'cancelled'.
+ * @returns false when the run is not executing in this process
+ */
+export function cancelRunningWorkflow(workflowRunId: string, reason: string): boolean {
+  const abort = runningWorkflows.get(workflowRunId);
+  if (!abort) return false;
+  console.log('[WorkflowExecutor] Cancelling running workflow', { workflowRunId, reason });
+  abort(new WorkflowCancelledError(reason));
+  return true;
+}
+
+/**
+ * Run a workflow whose run record already exists (new, resumed or a sub-workflow):
+ * send the startup message, dispatch to the execution mode and record completion.
+ * Any unhandled error marks the run as failed and notifies the user.
+ *
+ * After a failure, timeout, cancellation or exceeded budget the `on_failure` steps run,
+ * then (after any outcome but an approval pause) the `finally` steps - before the run is
+ * completed and artifacts are committed.
+ *
+ * @param parentSignal - Signal of the calling step for sub-workflow runs - aborting it
+ *   stops this run. A sub-workflow run re-throws its timeout, cancellation or exceeded
+ *   budget (after recording it and running its hooks) for the parent run to report.
+ * @returns true when the run completed (false when it failed or paused for approval)
+ */
+async function runWorkflow(
+  baseCtx: Omit<WorkflowExecutionContext, 'abortSignal'>,
+  startupMessage: string,
+  parentSignal?: AbortSignal
+): Promise<boolean> {
+  const { platform, conversationId, cwd, workflow, workflowRun } = baseCtx;
 
-    // Add workflow start message
-    startupMessage += `🚀 **Starting workflow**: \`${workflow.name}\`\n\n> ${workflow.description}`;
+  // Workflow-level timeout aborts every in-flight AI query of this run
+  const workflowTimeout = createTimeoutController(
+    parentSignal,
+    workflow.timeout_minutes,
+    `Workflow \`${workflow.name}\` exceeded its ${String(workflow.timeout_minutes)} minute timeout`
+  );
+  runningWorkflows.set(workflowRun.id, workflowTimeout.abort);
+  // Counts every query of the run (also without limits, for the spend report); a
+  // resumed run starts from its recorded usage
+  const runBudget: BudgetTracker = {
+    label: `Workflow \`${workflow.name}\``,
+    limits: mergeBudgets(workflow.budget, baseCtx.budgetCeiling),
+    spent: {
+      ...spendFromUsage(baseCtx.usage.total),
+      toolCalls: baseCtx.usage.toolCalls,
+      turns: baseCtx.usage.turns,
+    },
+    abort: workflowTimeout.abort,
+  };
+  const ctx: WorkflowExecutionContext = {
+    ...baseCtx,
+    abortSignal: workflowTimeout.signal,
+    budgets: [...(baseCtx.budgets ?? []), runBudget],
+  };
 
-    // Add steps info - use type narrowing from discriminated union
-    const stepsInfo = workflow.steps
-      ? `\n\n**Steps**: ${workflow.steps.map(s => (isSingleStep(s) ? `\`${s.command}\`` : `[${String(s.parallel.length)} parallel]`)).join(' → ')}`
-      : `\n\n**Loop**: until \`${workflow.loop.until}\` (max ${String(workflow.loop.max_iterations)} iterations)`;
-    startupMessage += stepsInfo;
+  // Context for error logging
+  const workflowContext: SendMessageContext = {
+    workflowId: workflowRun.id,
+  };
 
+  // Wrap execution in try-catch to ensure workflow is marked as failed on any error
+  try {
     // Send consolidated message - use critical send with limited retries (1 retry max)
     // to avoid blocking workflow execution while still catching transient failures
     const startupSent = await sendCriticalMessage(
@@ -1042,212 +3042,80 @@ export async function executeWorkflow(
     }
 
     // Dispatch to appropriate execution mode
+    let completed: boolean;
+    let completionMessage: string | undefined;
     if (workflow.loop) {
-      await executeLoopWorkflow(platform, conversationId, cwd, workflow, workflowRun, issueContext);
-      return;
+      const iterations = await executeLoopWorkflow(ctx);
+      completed = iterations !== undefined;
+      completionMessage = `✅ **Loop complete**: \`${workflow.name}\` (${String(iterations)} iterations)`;
+    } else {
+      // After the loop check above, TypeScript knows workflow.steps exists
+      // Dependency-based workflows schedule each step as soon as its dependencies complete
+      completed = isDagWorkflow(workflow.steps)
+        ? await executeDagSteps(ctx, workflow.steps.filter(isSingleStep))
+        : await executeSequentialSteps(ctx, workflow.steps);
+      // Only send completion message for non-GitHub platforms
+      // GitHub's comment-based interface makes explicit completion messages redundant
+      // (the final step's output already signals completion)
+      if (platform.getPlatformType() !== 'github') {
+        completionMessage = `✅ **Workflow complete**: \`${workflow.name}\``;
+      }
     }
 
-    let currentSessionId: string | undefined;
-    let stepNumber = 0; // For user-facing step count
-
-    // Execute steps sequentially (for step-based workflows)
-    // After the loop check above, TypeScript knows workflow.steps exists
-    const steps = workflow.steps;
-    for (let i = 0; i < steps.length; i++) {
-      const step = steps[i];
-
-      if (isParallelBlock(step)) {
-        // Parallel block execution
-        const parallelSteps = step.parallel;
-        const stepCount = parallelSteps.length;
-        stepNumber++;
-        const stepCommands = parallelSteps.map(s => s.command);
-
-        // Log parallel block start
-        await logParallelBlockStart(cwd, workflowRun.id, i, stepCommands);
-
-        // Notify user
-        const stepNames = parallelSteps.map(s => `\`${s.command}\``).join(', ');
-        await safeSendMessage(
-          platform,
-          conversationId,
-          `⏳ **Parallel block** (${String(stepCount)} steps): ${stepNames}`,
-          { workflowId: workflowRun.id }
-        );
-
-        // Execute all in parallel
-        const results = await executeParallelBlock(
-          platform,
-          conversationId,
-          cwd,
-          workflow,
-          workflowRun,
-          parallelSteps,
-          i,
-          configuredCommandFolder,
-          issueContext
-        );
-
-        // Check for failures - report ALL failures, not just the first one
-        const failures = results.filter(r => !r.result.success);
-        if (failures.length > 0) {
-          // Build error message with all failures
-          const failureDetails = failures.map(f => {
-            const failedStep = parallelSteps[f.index];
-            const failedResult = f.result;
-            // Type narrowing: we know success is false from the filter
-            const errorText = !failedResult.success ? failedResult.error : 'Unknown error';
-            return `- \`${failedStep.command}\`: ${errorText}`;
-          });
-
-          const errorMsg = `${String(failures.length)} parallel step(s) failed:\n${failureDetails.join('\n')}`;
-          await logWorkflowError(cwd, workflowRun.id, errorMsg);
-
-          // Record failure in database (non-critical - log but don't prevent user notification)
-          try {
-            await workflowDb.failWorkflowRun(workflowRun.id, errorMsg);
-          } catch (dbError) {
-            console.error('[WorkflowExecutor] Database error recording parallel block failure', {
-              error: (dbError as Error).message,
-              workflowId: workflowRun.id,
-            });
-          }
-
-          // Always attempt to notify user with all failure details
-          await sendCriticalMessage(
-            platform,
-            conversationId,
-            `❌ **Workflow failed** in parallel block:\n\n${failureDetails.join('\n')}`
-          );
-          return;
-        }
-
-        // Log parallel block complete
-        const blockResults = results.map(r => ({
-          command: parallelSteps[r.index].command,
-          success: r.result.success,
-        }));
-        await logParallelBlockComplete(cwd, workflowRun.id, i, blockResults);
-
-        // All parallel steps succeeded - no session to carry forward
-        currentSessionId = undefined;
-      } else {
-        // Single step execution (existing logic)
-        stepNumber++;
-        const needsFreshSession = step.clearContext === true || i === 0;
-        const resumeSessionId = needsFreshSession ? undefined : currentSessionId;
-
-        // Send step notification
-        if (steps.length > 1) {
-          await safeSendMessage(
-            platform,
-            conversationId,
-            `⏳ **Step ${String(stepNumber)}/${String(steps.length)}**: \`${step.command}\``,
-            workflowContext
-          );
-        }
-
-        const result = await executeStepInternal(
-          platform,
-          conversationId,
-          cwd,
-          workflow,
-          workflowRun,
-          step,
-          String(i),
-          resumeSessionId,
-          configuredCommandFolder,
-          issueContext
-        );
-
-        if (!result.success) {
-          await logWorkflowError(cwd, workflowRun.id, result.error);
-
-          // Record failure in database (non-critical - log but don't prevent user notification)
-          try {
-            await workflowDb.failWorkflowRun(workflowRun.id, result.error);
-          } catch (dbError) {
-            console.error('[WorkflowExecutor] Database error recording step failure', {
-              error: (dbError as Error).message,
-              workflowId: workflowRun.id,
-              stepName: result.commandName,
-            });
-          }
-
-          // Always attempt to notify user
-          await sendCriticalMessage(
-            platform,
-            conversationId,
-            `❌ **Workflow failed** at step: \`${result.commandName}\`\n\nError: ${result.error}`,
-            { ...workflowContext, stepName: result.commandName }
-          );
-          return;
-        }
+    // Paused at an approval gate - the run continues after /approve
+    if (!completed && !ctx.failure) {
+      return false;
+    }
 
-        if (result.sessionId) {
-          currentSessionId = result.sessionId;
-        }
-      }
+    await executeWorkflowHooks(ctx);
 
-      // Update progress (non-critical - log but don't fail workflow on db error)
+    if (completed) {
       try {
-        await workflowDb.updateWorkflowRun(workflowRun.id, {
-          current_step_index: i + 1,
-        });
+        await workflowDb.completeWorkflowRun(workflowRun.id);
       } catch (dbError) {
-        console.error('[WorkflowExecutor] Database error updating workflow progress', {
+        console.error('[WorkflowExecutor] Database error recording workflow completion', {
           error: (dbError as Error).message,
           workflowId: workflowRun.id,
-          stepIndex: i + 1,
         });
-        // Continue execution - progress tracking is non-critical
       }
-    }
+      await logWorkflowComplete(cwd, workflowRun.id);
+      // Critical message - retry to ensure user knows about completion
+      if (completionMessage) {
+        await sendCriticalMessage(platform, conversationId, completionMessage, workflowContext);
+      } else {
+        console.log('[WorkflowExecutor] Suppressing completion message for GitHub', {
+          workflowName: workflow.name,
+          workflowId: workflowRun.id,
+          conversationId,
+        });
+      }
 
-    // Workflow complete
-    try {
-      await workflowDb.completeWorkflowRun(workflowRun.id);
-    } catch (dbError) {
-      console.error('[WorkflowExecutor] Database error recording workflow completion', {
-        error: (dbError as Error).message,
-        workflowId: workflowRun.id,
-      });
+      console.log(`[WorkflowExecutor] Workflow completed: ${workflow.name}`);
     }
-    await logWorkflowComplete(cwd, workflowRun.id);
-    // Critical message - retry to ensure user knows about completion
-    // Only send completion message for non-GitHub platforms
-    // GitHub's comment-based interface makes explicit completion messages redundant
-    // (the final step's output already signals completion)
-    const platformType = platform.getPlatformType();
-    if (platformType !== 'github') {
-      await sendCriticalMessage(
+
+    // Safety net: Commit any artifacts created during workflow but not yet committed
+    // (loops also keep what a failed run produced)
+    if (completed || workflow.loop) {
+      await commitWorkflowArtifacts(
         platform,
         conversationId,
-        `✅ **Workflow complete**: \`${workflow.name}\``,
+        cwd,
+        workflow.name,
+        workflowRun.id,
         workflowContext
       );
-    } else {
-      console.log('[WorkflowExecutor] Suppressing completion message for GitHub', {
-        workflowName: workflow.name,
-        workflowId: workflowRun.id,
-        conversationId,
-      });
     }
-
-    console.log(`[WorkflowExecutor] Workflow completed: ${workflow.name}`);
-
-    // Safety net: Commit any artifacts created during workflow but not yet committed
-    await commitWorkflowArtifacts(
-      platform,
-      conversationId,
-      cwd,
-      workflow.name,
-      workflowRun.id,
-      workflowContext
-    );
+    return completed;
   } catch (error) {
     // Top-level error handler: ensure workflow is marked as failed
     const err = error as Error;
+    const isTimeout = err instanceof WorkflowTimeoutError;
+    const isCancelled = err instanceof WorkflowCancelledError;
+    const isOverBudget = err instanceof WorkflowBudgetError;
+    const reportedByParent = parentSignal !== undefined && err instanceof WorkflowAbortError;
+
+    // Stop AI queries still running in parallel/DAG siblings of the failed step
+    workflowTimeout.abort(err);
     console.error('[WorkflowExecutor] Workflow execution failed with unhandled error:', {
       error: err.message,
       errorName: err.name,
@@ -1257,40 +3125,173 @@ export async function executeWorkflow(
       workflowId: workflowRun.id,
     });
 
-    // Record failure in database (non-blocking - log but don't re-throw on DB error)
-    try {
-      await workflowDb.failWorkflowRun(workflowRun.id, err.message);
-    } catch (dbError) {
-      console.error('[WorkflowExecutor] Failed to record workflow failure in database:', {
-        workflowId: workflowRun.id,
-        originalError: err.message,
-        dbError: (dbError as Error).message,
-      });
+    // Notify user about the failure - /workflow cancel already confirmed a cancellation
+    if (!isCancelled && !reportedByParent) {
+      let failureMessage = `❌ **Workflow failed**: ${err.message}`;
+      if (isTimeout) {
+        failureMessage = `⏱️ **Workflow timed out**: ${err.message}`;
+      } else if (isOverBudget) {
+        const { toolCalls, turns } = runBudget.spent;
+        failureMessage = `💸 **Workflow stopped - budget exceeded**: ${err.message}\n\nSpent so far: ${formatTokenUsage(ctx.usage.total)}, ${String(toolCalls)} tool call(s), ${String(turns)} turn(s)`;
+      }
+      const delivered = await sendCriticalMessage(platform, conversationId, failureMessage);
+      if (!delivered) {
+        console.error('[WorkflowExecutor] ALERT: User was NOT notified of workflow failure', {
+          workflowId: workflowRun.id,
+          originalError: err.message,
+        });
+      }
+    }
+
+    await recordRunFailure(
+      ctx,
+      err.message,
+      isTimeout
+        ? 'timeout'
+        : isCancelled
+          ? 'cancelled'
+          : isOverBudget
+            ? 'budget_exceeded'
+            : undefined,
+      err instanceof WorkflowAbortError ? err.stepName : undefined
+    );
+
+    if (reportedByParent) {
+      throw err;
     }
+    // Don't re-throw - orchestrator already has error handling
+    return false;
+  } finally {
+    runningWorkflows.delete(workflowRun.id);
+    workflowTimeout.clear();
+  }
+}
+
+/**
+ * Record a run's failure in the database and its log, then run its `on_failure` and
+ * `finally` steps. Every way a run ends other than completing goes through here.
+ *
+ * @param stepName - Step the failure happened in, when not already in ctx.failure
+ */
+async function recordRunFailure(
+  ctx: WorkflowExecutionContext,
+  error: string,
+  reason?: WorkflowFailureReason,
+  stepName?: string
+): Promise<void> {
+  const { cwd, workflowRun } = ctx;
+
+  // Record failure in database (non-blocking - log but don't re-throw on DB error)
+  try {
+    await workflowDb.failWorkflowRun(workflowRun.id, error, reason);
+  } catch (dbError) {
+    console.error('[WorkflowExecutor] Failed to record workflow failure in database:', {
+      workflowId: workflowRun.id,
+      originalError: error,
+      dbError: (dbError as Error).message,
+    });
+  }
+
+  // Log to file (separate from database - non-blocking)
+  try {
+    await logWorkflowError(cwd, workflowRun.id, error);
+  } catch (logError) {
+    console.error('[WorkflowExecutor] Failed to write workflow error to log file:', {
+      workflowId: workflowRun.id,
+      logError: (logError as Error).message,
+    });
+  }
+
+  ctx.failure ??= { step: stepName ?? '', error };
+  await executeWorkflowHooks(ctx);
+}
+
+/**
+ * Run the workflow's `on_failure` steps (when the run failed) and then its `finally` steps.
+ *
+ * Hook steps run in order in a fresh session that carries over between them, with
+ * $FAILED_STEP and $ERROR describing the failure (empty after success). They are not
+ * stopped by the run's timeout, cancellation or budget - only by their own
+ * `timeout_minutes` and `budget:`.
+ * A failing hook step is reported and ends its list; it never changes the run's outcome.
+ */
+async function executeWorkflowHooks(ctx: WorkflowExecutionContext): Promise<void> {
+  const { workflow } = ctx;
+  const hooks: { name: 'on_failure' | 'finally'; steps: readonly SingleStep[] }[] = [];
+  if (ctx.failure && workflow.on_failure?.length) {
+    hooks.push({ name: 'on_failure', steps: workflow.on_failure });
+  }
+  if (workflow.finally?.length) {
+    hooks.push({ name: 'finally', steps: workflow.finally });
+  }
+
+  const hookCtx: WorkflowExecutionContext = {
+    ...ctx,
+    abortSignal: new AbortController().signal,
+    budgets: undefined,
+    hookFailure: ctx.failure ?? { step: '', error: '' },
+  };
+  // Hook steps are logged after the workflow's own steps/iterations
+  let stepIndex = workflow.loop ? workflow.loop.max_iterations : workflow.steps.length;
+
+  for (const hook of hooks) {
+    await runHookSteps(hookCtx, hook.name, hook.steps, stepIndex);
+    stepIndex += hook.steps.length;
+  }
+}
+
+/**
+ * Run one hook list (see executeWorkflowHooks). Errors are contained so hooks can
+ * never break the run's own failure handling.
+ */
+async function runHookSteps(
+  ctx: WorkflowExecutionContext,
+  hookName: 'on_failure' | 'finally',
+  steps: readonly SingleStep[],
+  firstStepIndex: number
+): Promise<void> {
+  const { platform, conversationId, cwd, workflowRun } = ctx;
+  const workflowContext: SendMessageContext = { workflowId: workflowRun.id };
+
+  console.log(`[WorkflowExecutor] Running ${hookName} steps for ${ctx.workflow.name}`);
+  await safeSendMessage(
+    platform,
+    conversationId,
+    `${hookName === 'on_failure' ? '🧯' : '🧹'} **Running \`${hookName}\` steps**: ${formatStepSequence(steps)}`,
+    workflowContext
+  );
 
-    // Log to file (separate from database - non-blocking)
+  let sessionId: string | undefined;
+  for (const [offset, step] of steps.entries()) {
+    const stepIndex = firstStepIndex + offset;
+    let result: StepResult;
     try {
-      await logWorkflowError(cwd, workflowRun.id, err.message);
-    } catch (logError) {
-      console.error('[WorkflowExecutor] Failed to write workflow error to log file:', {
-        workflowId: workflowRun.id,
-        logError: (logError as Error).message,
-      });
+      if (await skipStepIfConditionUnmet(ctx, step, stepIndex)) {
+        continue;
+      }
+      const resumeSessionId = isCommandStep(step) && step.clearContext ? undefined : sessionId;
+      result = await executeStepInternal(ctx, step, String(stepIndex), resumeSessionId);
+    } catch (error) {
+      // Own step timeouts are thrown like run timeouts
+      result = { success: false, commandName: getStepName(step), error: (error as Error).message };
     }
+    recordStepOutcome(ctx, step, result);
 
-    // Notify user about the failure
-    const delivered = await sendCriticalMessage(
-      platform,
-      conversationId,
-      `❌ **Workflow failed**: ${err.message}`
-    );
-    if (!delivered) {
-      console.error('[WorkflowExecutor] ALERT: User was NOT notified of workflow failure', {
+    if (!result.success) {
+      console.error(`[WorkflowExecutor] ${hookName} step failed: ${result.commandName}`, {
+        error: result.error,
         workflowId: workflowRun.id,
-        originalError: err.message,
       });
+      await logWorkflowError(cwd, workflowRun.id, `${hookName} step failed: ${result.error}`);
+      await safeSendMessage(
+        platform,
+        conversationId,
+        `⚠️ \`${hookName}\` step \`${result.commandName}\` failed: ${result.error}`,
+        { ...workflowContext, stepName: result.commandName }
+      );
+      return;
     }
-    // Don't re-throw - orchestrator already has error handling
+    sessionId = result.sessionId ?? sessionId;
   }
 }
 
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'bun:test';
+import { resolveWorkflowExtends } from './extends';
+import type { RawWorkflow } from './extends';
+
+const review: RawWorkflow = {
+  name: 'review',
+  description: 'Review a PR',
+  model: 'sonnet',
+  steps: [
+    { command: 'scope' },
+    {
+      parallel: [{ command: 'code-review' }, { command: 'docs-review' }],
+      on_failure: 'continue',
+    },
+    { command: 'synthesize', id: 'summary' },
+  ],
+};
+
+const bases: Record<string, RawWorkflow> = { review };
+const findBase = (name: string): RawWorkflow | undefined => bases[name];
+
+describe('resolveWorkflowExtends', () => {
+  it('should return workflows without extends unchanged', () => {
+    expect(resolveWorkflowExtends(review, findBase)).toEqual({ success: true, raw: review });
+  });
+
+  it('should override top-level fields and inherit the rest', () => {
+    const result = resolveWorkflowExtends(
+      { name: 'review-opus', extends: 'review', model: 'opus' },
+      findBase
+    );
+
+    expect(result).toEqual({
+      success: true,
+      raw: { ...review, name: 'review-opus', model: 'opus' },
+    });
+  });
+
+  it('should insert steps and parallel branches and remove steps by id', () => {
+    const result = resolveWorkflowExtends(
+      {
+        name: 'review-plus',
+        extends: 'review',
+        remove: ['docs-review'],
+        insert: [
+          { after: 'code-review', steps: [{ command: 'security-review' }] },
+          { before: 'summary', steps: [{ run: 'bun test' }] },
+        ],
+      },
+      findBase
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.success && result.raw.steps).toEqual([
+      { command: 'scope' },
+      {
+        parallel: [{ command: 'code-review' }, { command: 'security-review' }],
+        on_failure: 'continue',
+      },
+      { run: 'bun test' },
+      { command: 'synthesize', id: 'summary' },
+    ]);
+    // The base is shared with other workflows and must not change
+    expect(review.steps).toHaveLength(3);
+    expect((review.steps as RawWorkflow[])[1].parallel).toHaveLength(2);
+  });
+
+  it('should drop parallel blocks left without branches', () => {
+    const result = resolveWorkflowExtends(
+      { name: 'quick-review', extends: 'review', remove: ['code-review', 'docs-review'] },
+      findBase
+    );
+
+    expect(result.success && result.raw.steps).toEqual([
+      { command: 'scope' },
+      { command: 'synthesize', id: 'summary' },
+    ]);
+  });
+
+  it('should follow the extends of the base workflow', () => {
+    bases['review-plus'] = { name: 'review-plus', extends: 'review', remove: 'scope' };
+    const result = resolveWorkflowExtends(
+      { name: 'review-plus-opus', extends: 'review-plus', model: 'opus' },
+      findBase
+    );
+    delete bases['review-plus'];
+
+    expect(result.success && result.raw).toMatchObject({ name: 'review-plus-opus', model: 'opus' });
+    expect(result.success && result.raw.steps).toHaveLength(2);
+  });
+
+  it('should report unknown bases, unknown steps and invalid entries', () => {
+    expect(resolveWorkflowExtends({ name: 'x', extends: 'missing' }, findBase)).toEqual({
+      success: false,
+      errors: [{ message: '\'extends\' references unknown workflow "missing"', path: ['extends'] }],
+    });
+
+    expect(
+      resolveWorkflowExtends(
+        {
+          name: 'x',
+          extends: 'review',
+          remove: ['nope'],
+          insert: [
+            { after: 'scope', before: 'summary', steps: [] },
+            { after: 'gone', steps: [{}] },
+          ],
+        },
+        findBase
+      )
+    ).toEqual({
+      success: false,
+      errors: [
+        { message: '\'remove\' references unknown step "nope"', path: ['remove', 0] },
+        {
+          message: "'insert' entry 1: set exactly one of 'before' and 'after'",
+          path: ['insert', 0],
+        },
+        { message: '\'insert\' entry 2: unknown step "gone"', path: ['insert', 1, 'after'] },
+      ],
+    });
+
+    expect(
+      resolveWorkflowExtends({ name: 'x', extends: 'review', steps: [], remove: 'scope' }, findBase)
+    ).toEqual({
+      success: false,
+      errors: [
+        {
+          message:
+            "'insert' and 'remove' cannot be combined with 'steps' (it replaces the base steps)",
+          path: ['steps'],
+        },
+      ],
+    });
+  });
+
+  it('should detect inheritance cycles', () => {
+    bases.a = { name: 'a', extends: 'b' };
+    bases.b = { name: 'b', extends: 'a' };
+    const result = resolveWorkflowExtends(bases.a, findBase);
+    delete bases.a;
+    delete bases.b;
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        {
+          message: 'Base workflow "b": Inheritance cycle detected: a -> b -> a',
+          path: ['extends'],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Workflow inheritance - a workflow can build on another with `extends: <workflow>`
+ *
+ *   name: pr-review-with-security
+ *   extends: comprehensive-pr-review
+ *   model: opus                          # top-level fields replace the base's
+ *   remove: [docs-impact-agent]          # step ids - also branches of parallel blocks
+ *   insert:
+ *     - after: code-review-agent         # next to a parallel branch adds a branch
+ *       steps:
+ *         - command: security-review-agent
+ *
+ * Inheritance works on the raw YAML mappings before validation, so the merged workflow
+ * is checked like any other. `remove` runs before `insert`; setting `steps` replaces the
+ * base's steps instead. Bases may extend other workflows themselves.
+ */
+import { getStepId } from './dag';
+import type { SingleStep, WorkflowLoadError } from './types';
+
+/** A workflow file's YAML mapping, before validation */
+export type RawWorkflow = Record<string, unknown>;
+
+/** Finds the raw definition of a workflow by name, for `extends:` */
+export type WorkflowBaseLookup = (name: string) => RawWorkflow | undefined;
+
+/**
+ * Result of resolving `extends:` - the merged mapping or the errors that prevented it
+ */
+export type ResolveExtendsResult =
+  | { success: true; raw: RawWorkflow }
+  | { success: false; errors: WorkflowLoadError[] };
+
+/** Fields that describe how to inherit - not copied into the merged workflow */
+const INHERITANCE_KEYS = ['extends', 'insert', 'remove'];
+
+/**
+ * Get the id of a raw step mapping (same defaults as getStepId), or undefined for
+ * parallel blocks, approval gates and malformed steps
+ */
+function getRawStepId(step: unknown): string | undefined {
+  if (!step || typeof step !== 'object' || Array.isArray(step)) return undefined;
+  const raw = step as Record<string, unknown>;
+  if (typeof raw.id === 'string') return raw.id;
+  if (
+    typeof raw.workflow === 'string' ||
+    typeof raw.run === 'string' ||
+    typeof raw.command === 'string'
+  ) {
+    return getStepId(raw as unknown as SingleStep);
+  }
+  return typeof raw.step === 'string' ? raw.step : undefined;
+}
+
+/** Get the branch list of a raw parallel block, or undefined for other steps */
+function getParallelBranches(step: unknown): unknown[] | undefined {
+  if (!step || typeof step !== 'object') return undefined;
+  const parallel = (step as Record<string, unknown>).parallel;
+  return Array.isArray(parallel) ? parallel : undefined;
+}
+
+/**
+ * Find the first step with an id - top-level steps first, then parallel branches.
+ * Returns the list holding the step, so callers can splice it.
+ */
+function findStep(steps: unknown[], id: string): { list: unknown[]; index: number } | undefined {
+  const index = steps.findIndex(step => getRawStepId(step) === id);
+  if (index !== -1) return { list: steps, index };
+
+  for (const step of steps) {
+    const branches = getParallelBranches(step);
+    const branchIndex = branches?.findIndex(branch => getRawStepId(branch) === id) ?? -1;
+    if (branches && branchIndex !== -1) return { list: branches, index: branchIndex };
+  }
+  return undefined;
+}
+
+/**
+ * Apply `remove` to a copy of the base steps. Parallel blocks left without branches
+ * are dropped.
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function removeSteps(steps: unknown[], remove: unknown, errors: WorkflowLoadError[]): unknown[] {
+  // Accept a single id or a list of ids
+  const ids = typeof remove === 'string' ? [remove] : remove;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    errors.push({ message: "'remove' must be a step id or a list of step ids", path: ['remove'] });
+    return steps;
+  }
+
+  for (const [index, id] of ids.entries()) {
+    const found = findStep(steps, id);
+    if (!found) {
+      errors.push({
+        message: `'remove' references unknown step "${id}"`,
+        path: typeof remove === 'string' ? ['remove'] : ['remove', index],
+      });
+      continue;
+    }
+    found.list.splice(found.index, 1);
+  }
+
+  return steps.filter(step => getParallelBranches(step)?.length !== 0);
+}
+
+/**
+ * Apply `insert` to a copy of the base steps. Entries are applied in order, so several
+ * entries after the same step keep their order.
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function insertSteps(steps: unknown[], insert: unknown, errors: WorkflowLoadError[]): unknown[] {
+  if (!Array.isArray(insert)) {
+    errors.push({
+      message: "'insert' must be a list of { before | after, steps } entries",
+      path: ['insert'],
+    });
+    return steps;
+  }
+
+  for (const [index, entry] of insert.entries()) {
+    const label = `'insert' entry ${String(index + 1)}`;
+    const path = ['insert', index];
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push({
+        message: `${label}: must be a mapping with 'before' or 'after' and 'steps'`,
+        path,
+      });
+      continue;
+    }
+    const { before, after, steps: inserted } = entry as Record<string, unknown>;
+
+    if ((before === undefined) === (after === undefined)) {
+      errors.push({ message: `${label}: set exactly one of 'before' and 'after'`, path });
+      continue;
+    }
+    const anchor = before ?? after;
+    const anchorKey = before !== undefined ? 'before' : 'after';
+    if (typeof anchor !== 'string') {
+      errors.push({
+        message: `${label}: '${anchorKey}' must be a step id`,
+        path: [...path, anchorKey],
+      });
+      continue;
+    }
+    if (!Array.isArray(inserted) || inserted.length === 0) {
+      errors.push({
+        message: `${label}: 'steps' must be a non-empty list of steps`,
+        path: [...path, 'steps'],
+      });
+      continue;
+    }
+
+    const found = findStep(steps, anchor);
+    if (!found) {
+      errors.push({
+        message: `${label}: unknown step "${anchor}"`,
+        path: [...path, anchorKey],
+      });
+      continue;
+    }
+    found.list.splice(
+      before !== undefined ? found.index : found.index + 1,
+      0,
+      ...(inserted as unknown[])
+    );
+  }
+
+  return steps;
+}
+
+/**
+ * Merge a workflow into the (resolved) workflow it extends
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function mergeWorkflow(
+  base: RawWorkflow,
+  child: RawWorkflow,
+  errors: WorkflowLoadError[]
+): RawWorkflow {
+  const overrides = Object.fromEntries(
+    Object.entries(child).filter(([key]) => !INHERITANCE_KEYS.includes(key))
+  );
+  const merged: RawWorkflow = { ...base, ...overrides };
+
+  // A workflow is either step-based or loop-based - switching drops the base's mode
+  if (overrides.steps !== undefined) {
+    delete merged.loop;
+    delete merged.prompt;
+  } else if (overrides.loop !== undefined || overrides.prompt !== undefined) {
+    delete merged.steps;
+  }
+
+  if (child.insert === undefined && child.remove === undefined) {
+    return merged;
+  }
+  if (overrides.steps !== undefined) {
+    errors.push({
+      message: "'insert' and 'remove' cannot be combined with 'steps' (it replaces the base steps)",
+      path: ['steps'],
+    });
+    return merged;
+  }
+  if (!Array.isArray(base.steps)) {
+    errors.push({
+      message: "'insert' and 'remove' need a step-based base workflow",
+      path: [child.insert !== undefined ? 'insert' : 'remove'],
+    });
+    return merged;
+  }
+
+  // Copy the base steps (and parallel branch lists) - bases are shared between workflows
+  let steps = (base.steps as unknown[]).map(step => {
+    const branches = getParallelBranches(step);
+    return branches ? { ...(step as RawWorkflow), parallel: [...branches] } : step;
+  });
+  if (child.remove !== undefined) {
+    steps = removeSteps(steps, child.remove, errors);
+  }
+  if (child.insert !== undefined) {
+    steps = insertSteps(steps, child.insert, errors);
+  }
+  merged.steps = steps;
+  return merged;
+}
+
+/**
+ * Resolve `extends:` - merge the workflow into its base, following the base's own
+ * `extends:` first. Workflows without `extends:` are returned unchanged.
+ *
+ * @param raw - Parsed YAML mapping of the workflow
+ * @param findBase - Finds base workflows by name
+ * @param chain - Names of the workflows extending this one (for cycle detection)
+ */
+export function resolveWorkflowExtends(
+  raw: RawWorkflow,
+  findBase: WorkflowBaseLookup,
+  chain: readonly string[] = []
+): ResolveExtendsResult {
+  if (raw.extends === undefined) {
+    if (raw.insert !== undefined || raw.remove !== undefined) {
+      return {
+        success: false,
+        errors: [
+          {
+            message: "'insert' and 'remove' require 'extends'",
+            path: [raw.insert !== undefined ? 'insert' : 'remove'],
+          },
+        ],
+      };
+    }
+    return { success: true, raw };
+  }
+
+  if (!raw.name || typeof raw.name !== 'string') {
+    return { success: false, errors: [{ message: "Missing 'name'", path: ['name'] }] };
+  }
+  if (typeof raw.extends !== 'string' || !raw.extends.trim()) {
+    return {
+      success: false,
+      errors: [{ message: "'extends' must be a workflow name", path: ['extends'] }],
+    };
+  }
+  const baseName = raw.extends.trim();
+  const path = [...chain, raw.name];
+  if (path.includes(baseName)) {
+    return {
+      success: false,
+      errors: [
+        {
+          message: `Inheritance cycle detected: ${[...path, baseName].join(' -> ')}`,
+          path: ['extends'],
+        },
+      ],
+    };
+  }
+
+  const base = findBase(baseName);
+  if (!base) {
+    return {
+      success: false,
+      errors: [
+        { message: `'extends' references unknown workflow "${baseName}"`, path: ['extends'] },
+      ],
+    };
+  }
+  const resolvedBase = resolveWorkflowExtends(base, findBase, path);
+  if (!resolvedBase.success) {
+    return {
+      success: false,
+      // The base's errors are in another file - point at the `extends:` naming it
+      errors: resolvedBase.errors.map(error => ({
+        message: `Base workflow "${baseName}": ${error.message}`,
+        path: ['extends'],
+      })),
+    };
+  }
+
+  const errors: WorkflowLoadError[] = [];
+  const merged = mergeWorkflow(resolvedBase.raw, raw, errors);
+  return errors.length > 0 ? { success: false, errors } : { success: true, raw: merged };
+}
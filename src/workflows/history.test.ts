@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  formatDuration,
+  formatWorkflowLogEvents,
+  formatWorkflowRunLine,
+  formatWorkflowRunStatus,
+  readWorkflowRunLog,
+  summarizeWorkflowLog,
+} from './history';
+import { logStepStart, type WorkflowEvent } from './logger';
+import type { WorkflowRun } from './types';
+
+/** Build an event at a number of seconds after 10:00:00 */
+function event(seconds: number, fields: Omit<WorkflowEvent, 'ts' | 'workflow_id'>): WorkflowEvent {
+  return {
+    ...fields,
+    workflow_id: 'run-1',
+    ts: new Date(Date.UTC(2026, 0, 1, 10, 0, seconds)).toISOString(),
+  };
+}
+
+const events: WorkflowEvent[] = [
+  event(0, { type: 'workflow_start', workflow_name: 'fix-issue', content: 'Fix #42' }),
+  event(1, { type: 'step_start', step: 'investigate', step_index: 0, model: 'claude/sonnet' }),
+  // Logs written before tool events carried their step
+  event(5, { type: 'tool', tool_name: 'Read', tool_input: { file_path: '/repo/a.ts' } }),
+  event(
+    9,
+    // Written inside the working directory - shown relative to it
+    {
+      type: 'tool',
+      step: 'investigate',
+      tool_name: 'Write',
+      tool_input: { file_path: '/repo/.archon/artifacts/plan.md' },
+    }
+  ),
+  event(31, { type: 'step_complete', step: 'investigate', step_index: 0 }),
+  event(32, { type: 'step_skipped', step: 'docs', step_index: 1, condition: '$docs == true' }),
+  event(33, { type: 'step_start', step: 'bun test', step_index: 2 }),
+  event(40, { type: 'shell_command', step: 'bun test', step_index: 2, exit_code: 1 }),
+  event(40, {
+    type: 'step_error',
+    step: 'bun test',
+    step_index: 2,
+    error: 'Command exited with 1',
+    attempt: 1,
+    max_attempts: 2,
+  }),
+  event(41, { type: 'step_retry', step: 'bun test', step_index: 2, attempt: 2, max_attempts: 2 }),
+  event(50, { type: 'shell_command', step: 'bun test', step_index: 2, exit_code: 1 }),
+  event(50, {
+    type: 'step_error',
+    step: 'bun test',
+    step_index: 2,
+    error: 'Command exited with 1',
+    attempt: 2,
+    max_attempts: 2,
+  }),
+  event(51, { type: 'workflow_error', error: 'Step bun test failed' }),
+];
+
+const run: WorkflowRun = {
+  id: 'abcd1234-5678-90ab-cdef-1234567890ab',
+  workflow_name: 'fix-issue',
+  conversation_id: 'conv-1',
+  codebase_id: 'codebase-1',
+  current_step_index: 2,
+  status: 'failed',
+  user_message: 'Fix #42',
+  metadata: { error: 'Step bun test failed', cwd: '/repo' },
+  parent_run_id: null,
+  started_at: new Date(Date.UTC(2026, 0, 1, 10, 0, 0)),
+  completed_at: new Date(Date.UTC(2026, 0, 1, 10, 3, 12)),
+  last_activity_at: null,
+};
+
+describe('Workflow history', () => {
+  describe('formatDuration', () => {
+    it('should format seconds, minutes and hours', () => {
+      expect(formatDuration(45_000)).toBe('45s');
+      expect(formatDuration(192_000)).toBe('3m 12s');
+      expect(formatDuration(3_840_000)).toBe('1h 4m');
+    });
+  });
+
+  describe('summarizeWorkflowLog', () => {
+    it('should reconstruct steps, tool counts, artifacts and errors', () => {
+      const summary = summarizeWorkflowLog(events, '/repo');
+
+      expect(summary.steps).toEqual([
+        {
+          name: 'investigate',
+          status: 'completed',
+          model: 'claude/sonnet',
+          durationMs: 30_000,
+          toolCount: 2,
+          attempts: 0,
+          errors: [],
+        },
+        {
+          name: 'docs',
+          status: 'skipped',
+          condition: '$docs == true',
+          toolCount: 0,
+          attempts: 0,
+          errors: [],
+        },
+        {
+          name: 'bun test',
+          status: 'failed',
+          model: undefined,
+          durationMs: 17_000,
+          toolCount: 0,
+          attempts: 2,
+          errors: ['Command exited with 1', 'Command exited with 1'],
+        },
+      ]);
+      expect(summary.toolCount).toBe(2);
+      expect(summary.artifacts).toEqual(['.archon/artifacts/plan.md']);
+      expect(summary.errors).toEqual(['Step bun test failed']);
+    });
+  });
+
+  describe('formatWorkflowRunLine', () => {
+    it('should show status, duration and error', () => {
+      const line = formatWorkflowRunLine(run);
+
+      expect(line).toStartWith(
+        '❌ `abcd1234` **fix-issue** - failed after 3m 12s: Step bun test failed ('
+      );
+    });
+
+    it('should mark sub-workflow runs', () => {
+      const line = formatWorkflowRunLine({
+        ...run,
+        status: 'completed',
+        parent_run_id: 'parent-run',
+      });
+
+      expect(line).toStartWith('✅ ↳ `abcd1234` **fix-issue** - completed in 3m 12s (');
+    });
+  });
+
+  describe('formatWorkflowRunStatus', () => {
+    it('should render steps, errors and artifacts', () => {
+      const status = formatWorkflowRunStatus(run, events);
+
+      expect(status).toContain('❌ **fix-issue** (`abcd1234`)');
+      expect(status).toContain('Message: Fix #42');
+      expect(status).toContain('Error: Step bun test failed');
+      expect(status).toContain(
+        '**Steps**:\n' +
+          '✅ `investigate` - 30s · 2 tool call(s) · claude/sonnet\n' +
+          '⏭️ `docs` - skipped (`$docs == true`)\n' +
+          '❌ `bun test` - 17s · 2 attempts\n' +
+          '   Command exited with 1'
+      );
+      expect(status).toContain('**Artifacts**:\n- `.archon/artifacts/plan.md`');
+      expect(status).toContain('Full log: `/workflow logs abcd1234`');
+    });
+
+    it('should say when the log is missing', () => {
+      expect(formatWorkflowRunStatus(run, null)).toContain('No log file found for this run.');
+    });
+
+    it('should show the run total and the usage of each step', () => {
+      const usage = {
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheReadTokens: 50_000,
+        cacheWriteTokens: 800,
+        costUsd: 0.25,
+      };
+      const withUsage = [
+        ...events.slice(0, 4),
+        event(20, { type: 'usage', step: 'investigate', usage }),
+        event(30, { type: 'usage', step: 'investigate', usage }),
+        ...events.slice(4),
+      ];
+      const total = { ...usage, inputTokens: 2400, outputTokens: 680, costUsd: 0.5 };
+
+      const status = formatWorkflowRunStatus(
+        { ...run, metadata: { ...run.metadata, usage: { total, steps: { investigate: total } } } },
+        withUsage
+      );
+
+      expect(status).toContain('Usage: $0.50 (3.2k in, 680 out, 50.0k cached)');
+      expect(status).toContain(
+        '✅ `investigate` - 30s · 2 tool call(s) · claude/sonnet · $0.50 (4.0k in, 680 out, 100.0k cached)'
+      );
+      expect(formatWorkflowLogEvents(withUsage, { step: 'investigate', tail: 2 })).toEqual([
+        '10:00:30 💰 `investigate` $0.25 (2.0k in, 340 out, 50.0k cached)',
+        '10:00:31 ✅ `investigate` completed',
+      ]);
+    });
+  });
+
+  describe('formatWorkflowLogEvents', () => {
+    it('should format the last events', () => {
+      const lines = formatWorkflowLogEvents(events, { tail: 2 });
+
+      expect(lines).toEqual([
+        '10:00:50 ❌ `bun test` attempt 2/2: Command exited with 1',
+        '10:00:51 ❌ Step bun test failed',
+      ]);
+    });
+
+    it('should filter by step, including tool calls attributed to it', () => {
+      const lines = formatWorkflowLogEvents(events, { step: 'investigate', tail: 10 });
+
+      expect(lines).toEqual([
+        '10:00:01 ▶️ `investigate` started (claude/sonnet)',
+        '10:00:05 [investigate] 🔧 READ Reading: /repo/a.ts',
+        '10:00:09 [investigate] 🔧 WRITE Writing: /repo/.archon/artifacts/plan.md',
+        '10:00:31 ✅ `investigate` completed',
+      ]);
+    });
+  });
+
+  describe('readWorkflowRunLog', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `history-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      await mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should fall back to other directories when the recorded one has no log', async () => {
+      await logStepStart(testDir, run.id, 'investigate', 0);
+
+      const found = await readWorkflowRunLog(run, [undefined, testDir]);
+      const missing = await readWorkflowRunLog(run, [null]);
+
+      expect(found?.map(e => e.type)).toEqual(['step_start']);
+      expect(missing).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,430 @@
+/**
+ * Workflow run history - what `/workflow history`, `/workflow status` and `/workflow logs` show
+ *
+ * Built from the run record (remote_agent_workflow_runs) and the run's JSONL log, which
+ * logger.ts writes to `.archon/logs/<id>.jsonl` in the working directory the run used.
+ */
+import { readWorkflowEvents } from './logger';
+import type { WorkflowEvent } from './logger';
+import type { WorkflowRun, WorkflowRunUsage } from './types';
+import type { TokenUsage } from '../types';
+import { formatToolCall } from '../utils/tool-formatter';
+import {
+  addTokenUsage,
+  emptyTokenUsage,
+  formatTokenUsage,
+  parseTokenUsage,
+} from '../utils/token-usage';
+
+/** Longest user message, error or log line shown before truncating */
+const MAX_TEXT_LENGTH = 200;
+
+/** Tools whose `file_path` input is reported as an artifact of the run */
+const FILE_WRITING_TOOLS = ['Write'];
+
+const RUN_STATUS_ICONS: Record<WorkflowRun['status'], string> = {
+  running: '⏳',
+  completed: '✅',
+  failed: '❌',
+  interrupted: '⚠️',
+  waiting_approval: '⏸️',
+};
+
+/**
+ * One step (or loop iteration) of a run, as reconstructed from its log
+ */
+export interface StepSummary {
+  name: string;
+  status: 'running' | 'completed' | 'failed' | 'skipped';
+  model?: string;
+  durationMs?: number;
+  toolCount: number;
+  attempts: number;
+  errors: string[];
+  condition?: string; // `when` condition of a skipped step
+  usage?: TokenUsage; // AI queries of the step (and of its sub-workflow run)
+}
+
+/**
+ * Steps, artifacts and workflow-level errors of a run
+ */
+export interface WorkflowLogSummary {
+  steps: StepSummary[];
+  toolCount: number;
+  artifacts: string[]; // Files written by the run's AI steps
+  errors: string[];
+}
+
+/** Internal step entry - tracks timestamps while the log is replayed */
+interface StepEntry extends StepSummary {
+  index?: number;
+  startedAt?: string;
+  endedAt?: string;
+}
+
+/**
+ * Format a duration for display, e.g. "45s", "3m 12s", "1h 4m"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${String(hours)}h ${String(minutes)}m`;
+  if (minutes > 0) return `${String(minutes)}m ${String(seconds)}s`;
+  return `${String(seconds)}s`;
+}
+
+/** Collapse text to one line and cut it at `maxLength` characters */
+function truncate(text: string, maxLength = MAX_TEXT_LENGTH): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength)}…` : line;
+}
+
+/**
+ * Read the token usage a run recorded in its metadata
+ * @returns null for runs without AI queries and runs started before usage was recorded
+ */
+export function readRunUsage(run: WorkflowRun): WorkflowRunUsage | null {
+  const raw = run.metadata.usage as
+    | { total?: unknown; steps?: unknown; toolCalls?: unknown; turns?: unknown }
+    | undefined;
+  const total = parseTokenUsage(raw?.total);
+  if (!total) return null;
+  const steps: Record<string, TokenUsage> = {};
+  if (raw?.steps && typeof raw.steps === 'object') {
+    for (const [name, value] of Object.entries(raw.steps)) {
+      const usage = parseTokenUsage(value);
+      if (usage) steps[name] = usage;
+    }
+  }
+  // Runs recorded before tool calls and turns were counted have none
+  const count = (value: unknown): number => (typeof value === 'number' ? value : 0);
+  return { total, steps, toolCalls: count(raw?.toolCalls), turns: count(raw?.turns) };
+}
+
+/**
+ * Read a run's log from the working directory it recorded, falling back to the given
+ * directories for runs started before the directory was recorded.
+ *
+ * @returns The events, or null when no log file was found
+ */
+export async function readWorkflowRunLog(
+  run: WorkflowRun,
+  fallbackCwds: readonly (string | null | undefined)[]
+): Promise<WorkflowEvent[] | null> {
+  const recordedCwd = typeof run.metadata.cwd === 'string' ? run.metadata.cwd : undefined;
+  const candidates = [recordedCwd, ...fallbackCwds].filter(
+    (cwd, index, all): cwd is string => Boolean(cwd) && all.indexOf(cwd) === index
+  );
+
+  for (const cwd of candidates) {
+    const events = await readWorkflowEvents(cwd, run.id);
+    if (events) return events;
+  }
+  return null;
+}
+
+/**
+ * Attribute each log event to the step it belongs to. Events carry their step name,
+ * except run-level events and tool/assistant events from logs written before they did -
+ * those are attributed to the most recently started step that has not finished.
+ */
+function attributeEvents(events: readonly WorkflowEvent[]): {
+  event: WorkflowEvent;
+  step?: string;
+}[] {
+  let current: string | undefined;
+  return events.map(event => {
+    if (event.type === 'step_start') current = event.step;
+    const step =
+      event.step ?? (event.type === 'tool' || event.type === 'assistant' ? current : undefined);
+    if (
+      (event.type === 'step_complete' || event.type === 'step_skipped') &&
+      event.step === current
+    ) {
+      current = undefined;
+    }
+    return { event, step };
+  });
+}
+
+/**
+ * Reconstruct a run's steps from its log: status, duration, tool calls, attempts and errors
+ *
+ * @param cwd - The run's working directory; artifact paths inside it are shown relative to it
+ */
+export function summarizeWorkflowLog(
+  events: readonly WorkflowEvent[],
+  cwd?: string
+): WorkflowLogSummary {
+  const steps: StepEntry[] = [];
+  const artifacts = new Set<string>();
+  const errors: string[] = [];
+  let toolCount = 0;
+
+  const getStep = (name: string, index: number | undefined, ts: string): StepEntry => {
+    for (let i = steps.length - 1; i >= 0; i--) {
+      const step = steps[i];
+      if (
+        step.name === name &&
+        (index === undefined || step.index === undefined || step.index === index)
+      ) {
+        return step;
+      }
+    }
+    const step: StepEntry = {
+      name,
+      index,
+      status: 'running',
+      startedAt: ts,
+      toolCount: 0,
+      attempts: 0,
+      errors: [],
+    };
+    steps.push(step);
+    return step;
+  };
+
+  for (const { event, step: stepName } of attributeEvents(events)) {
+    if (event.type === 'workflow_error' && event.error) {
+      errors.push(event.error);
+      continue;
+    }
+    if (event.type === 'tool') {
+      toolCount++;
+      const filePath = event.tool_input?.file_path;
+      if (FILE_WRITING_TOOLS.includes(event.tool_name ?? '') && typeof filePath === 'string') {
+        artifacts.add(
+          cwd && filePath.startsWith(`${cwd}/`) ? filePath.slice(cwd.length + 1) : filePath
+        );
+      }
+    }
+    if (!stepName) continue;
+
+    if (event.type === 'step_start') {
+      // A resumed or repeated step starts a new entry
+      const step: StepEntry = {
+        name: stepName,
+        index: event.step_index,
+        status: 'running',
+        model: event.model,
+        startedAt: event.ts,
+        toolCount: 0,
+        attempts: 0,
+        errors: [],
+      };
+      steps.push(step);
+      continue;
+    }
+
+    const step = getStep(stepName, event.step_index, event.ts);
+    switch (event.type) {
+      case 'tool':
+        step.toolCount++;
+        break;
+      case 'step_complete':
+        step.status = 'completed';
+        step.endedAt = event.ts;
+        break;
+      case 'step_error':
+        step.status = 'failed';
+        step.endedAt = event.ts;
+        step.attempts = Math.max(step.attempts, event.attempt ?? 1);
+        if (event.error) step.errors.push(event.error);
+        break;
+      case 'step_retry':
+        step.status = 'running';
+        step.attempts = Math.max(step.attempts, event.attempt ?? 1);
+        break;
+      case 'step_skipped':
+        step.status = 'skipped';
+        step.condition = event.condition;
+        break;
+      case 'shell_command':
+        // Exit codes are reported by the step_error that follows; only timeouts add detail
+        if (event.error) step.errors.push(event.error);
+        break;
+      case 'usage':
+        if (event.usage) step.usage = addTokenUsage(step.usage ?? emptyTokenUsage(), event.usage);
+        break;
+    }
+  }
+
+  return {
+    steps: steps.map(({ index: _index, startedAt, endedAt, ...step }) => ({
+      ...step,
+      ...(startedAt && endedAt ? { durationMs: Date.parse(endedAt) - Date.parse(startedAt) } : {}),
+    })),
+    toolCount,
+    artifacts: [...artifacts],
+    errors,
+  };
+}
+
+/** Duration of a run so far (running runs) or in total */
+function getRunDuration(run: WorkflowRun, now: Date): number {
+  const end = run.completed_at ? new Date(run.completed_at) : now;
+  return end.getTime() - new Date(run.started_at).getTime();
+}
+
+/** Describe a run's status, e.g. "completed in 3m 12s" or "failed after 45s" */
+function describeRunStatus(run: WorkflowRun, now: Date): string {
+  const duration = formatDuration(getRunDuration(run, now));
+  switch (run.status) {
+    case 'completed':
+      return `completed in ${duration}`;
+    case 'failed':
+      return `failed after ${duration}`;
+    case 'running':
+      return `running for ${duration}`;
+    case 'waiting_approval':
+      return 'waiting for approval';
+    case 'interrupted':
+      return 'interrupted by a restart';
+  }
+}
+
+/**
+ * Format one line of `/workflow history`
+ */
+export function formatWorkflowRunLine(run: WorkflowRun, now = new Date()): string {
+  const error =
+    run.status === 'failed' && typeof run.metadata.error === 'string'
+      ? `: ${truncate(run.metadata.error, 80)}`
+      : '';
+  const child = run.parent_run_id ? '↳ ' : '';
+  return `${RUN_STATUS_ICONS[run.status]} ${child}\`${run.id.slice(0, 8)}\` **${run.workflow_name}** - ${describeRunStatus(run, now)}${error} (${new Date(run.started_at).toLocaleString()})`;
+}
+
+/** Format one step of `/workflow status` */
+function formatStepSummary(step: StepSummary): string {
+  const icon = { running: '⏳', completed: '✅', failed: '❌', skipped: '⏭️' }[step.status];
+  if (step.status === 'skipped') {
+    return `${icon} \`${step.name}\` - skipped${step.condition ? ` (\`${step.condition}\`)` : ''}`;
+  }
+
+  const details: string[] = [];
+  if (step.durationMs !== undefined) details.push(formatDuration(step.durationMs));
+  else if (step.status === 'running') details.push('running');
+  if (step.toolCount > 0) details.push(`${String(step.toolCount)} tool call(s)`);
+  if (step.attempts > 1) details.push(`${String(step.attempts)} attempts`);
+  if (step.model) details.push(step.model);
+  if (step.usage) details.push(formatTokenUsage(step.usage));
+
+  let line = `${icon} \`${step.name}\`${details.length > 0 ? ` - ${details.join(' · ')}` : ''}`;
+  const lastError = step.errors.at(-1);
+  if (step.status === 'failed' && lastError) {
+    line += `\n   ${truncate(lastError)}`;
+  }
+  return line;
+}
+
+/**
+ * Format `/workflow status`: the run record and its token usage plus, when its log was
+ * found, per-step durations, tool calls, usage, errors and the files the run wrote
+ */
+export function formatWorkflowRunStatus(
+  run: WorkflowRun,
+  events: readonly WorkflowEvent[] | null,
+  now = new Date()
+): string {
+  const id = run.id.slice(0, 8);
+  const lines = [
+    `${RUN_STATUS_ICONS[run.status]} **${run.workflow_name}** (\`${id}\`)`,
+    `Status: ${describeRunStatus(run, now)} · Started: ${new Date(run.started_at).toLocaleString()}`,
+  ];
+  if (run.parent_run_id) {
+    lines.push(`Sub-workflow of \`${run.parent_run_id.slice(0, 8)}\``);
+  }
+  if (run.user_message.trim()) {
+    lines.push(`Message: ${truncate(run.user_message)}`);
+  }
+  if (run.status === 'failed' && typeof run.metadata.error === 'string') {
+    const reason =
+      typeof run.metadata.failure_reason === 'string' ? ` (${run.metadata.failure_reason})` : '';
+    lines.push(`Error${reason}: ${truncate(run.metadata.error)}`);
+  }
+  const usage = readRunUsage(run);
+  if (usage) {
+    lines.push(`Usage: ${formatTokenUsage(usage.total)}`);
+  }
+
+  if (!events) {
+    lines.push('', 'No log file found for this run.');
+    return lines.join('\n');
+  }
+
+  const cwd = typeof run.metadata.cwd === 'string' ? run.metadata.cwd : undefined;
+  const summary = summarizeWorkflowLog(events, cwd);
+  if (summary.steps.length > 0) {
+    lines.push('', '**Steps**:', ...summary.steps.map(formatStepSummary));
+  }
+  if (summary.artifacts.length > 0) {
+    lines.push('', '**Artifacts**:', ...summary.artifacts.map(path => `- \`${path}\``));
+  }
+  lines.push('', `Full log: \`/workflow logs ${id}\``);
+  return lines.join('\n');
+}
+
+/** Describe one log event for `/workflow logs` */
+function describeEvent(event: WorkflowEvent): string {
+  const step = event.step ? `\`${event.step}\`` : '';
+  switch (event.type) {
+    case 'workflow_start':
+      return `▶️ Started \`${event.workflow_name ?? ''}\`${event.content ? `: ${event.content}` : ''}`;
+    case 'workflow_resume':
+      return `🔄 Resumed at step ${String((event.step_index ?? 0) + 1)}`;
+    case 'workflow_complete':
+      return '✅ Workflow completed';
+    case 'workflow_error':
+      return `❌ ${event.error ?? 'Workflow failed'}`;
+    case 'step_start':
+      return `▶️ ${step} started${event.model ? ` (${event.model})` : ''}`;
+    case 'step_complete':
+      return `✅ ${step} completed`;
+    case 'step_error':
+      return `❌ ${step} attempt ${String(event.attempt ?? 1)}/${String(event.max_attempts ?? 1)}: ${event.error ?? ''}`;
+    case 'step_retry':
+      return `🔁 ${step} retry ${String(event.attempt ?? 1)}/${String(event.max_attempts ?? 1)}`;
+    case 'step_skipped':
+      return `⏭️ ${step} skipped (\`${event.condition ?? ''}\`)`;
+    case 'approval_requested':
+      return `⏸️ Approval requested: ${event.content ?? ''}`;
+    case 'shell_command':
+      return `🐚 ${step} exit ${String(event.exit_code ?? '?')}${event.error ? ` (${event.error})` : ''}`;
+    case 'assistant':
+      return `💬 ${event.content ?? ''}`;
+    case 'tool':
+      return formatToolCall(event.tool_name ?? 'tool', event.tool_input);
+    case 'usage':
+      return `💰 ${step} ${event.usage ? formatTokenUsage(event.usage) : ''}`;
+    case 'parallel_block_start':
+      return `⏩ Parallel block: ${(event.steps ?? []).map(name => `\`${name}\``).join(', ')}`;
+    case 'parallel_block_complete': {
+      const results = event.results ?? [];
+      const succeeded = results.filter(result => result.success).length;
+      return `⏩ Parallel block finished: ${String(succeeded)}/${String(results.length)} succeeded`;
+    }
+  }
+}
+
+/**
+ * Format the last `tail` events of a run's log (optionally only one step's) for
+ * `/workflow logs`, one line per event: `12:03:45 [step] description`
+ */
+export function formatWorkflowLogEvents(
+  events: readonly WorkflowEvent[],
+  options: { step?: string; tail: number }
+): string[] {
+  return attributeEvents(events)
+    .filter(({ step }) => options.step === undefined || step === options.step)
+    .slice(-options.tail)
+    .map(({ event, step }) => {
+      const time = event.ts.slice(11, 19);
+      // Step events name their step already
+      const stepLabel =
+        step && (event.type === 'tool' || event.type === 'assistant') ? ` [${step}]` : '';
+      return truncate(`${time}${stepLabel} ${describeEvent(event)}`);
+    });
+}
@@ -4,6 +4,14 @@
 
 export * from './types';
 export * from './loader';
+export * from './schema';
+export * from './dag';
+export * from './conditions';
+export * from './budget';
+export * from './outputs';
 export * from './router';
+export * from './router-eval';
 export * from './executor';
 export * from './logger';
+export * from './inspect';
+export * from './history';
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  filterDeclaredInputs,
+  formatInputDeclarations,
+  parseInputAssignments,
+  resolveWorkflowInputs,
+  substituteInputs,
+} from './inputs';
+import type { WorkflowInput } from './types';
+
+describe('Workflow inputs', () => {
+  const declared: WorkflowInput[] = [
+    { name: 'issue', type: 'number', required: true, description: 'GitHub issue number' },
+    { name: 'strict', type: 'boolean', default: false },
+    { name: 'target', type: 'enum', values: ['main', 'develop'], default: 'main' },
+    { name: 'note', type: 'string' },
+  ];
+
+  describe('parseInputAssignments', () => {
+    it('should parse plain and quoted values', () => {
+      const result = parseInputAssignments(`issue=42 note="two words" target='develop'`);
+
+      expect(result.inputs).toEqual({ issue: '42', note: 'two words', target: 'develop' });
+      expect(result.remaining).toBe('');
+    });
+
+    it('should stop at the first token that is not an assignment', () => {
+      const result = parseInputAssignments('issue=42 please hurry strict=true');
+
+      expect(result.inputs).toEqual({ issue: '42' });
+      expect(result.remaining).toBe('please hurry strict=true');
+    });
+
+    it('should stop at a line break', () => {
+      const result = parseInputAssignments(' issue=42\nstrict=true');
+
+      expect(result.inputs).toEqual({ issue: '42' });
+      expect(result.remaining).toBe('strict=true');
+    });
+
+    it('should accept empty values', () => {
+      expect(parseInputAssignments('note=').inputs).toEqual({ note: '' });
+    });
+  });
+
+  describe('resolveWorkflowInputs', () => {
+    it('should convert values to their declared types and apply defaults', () => {
+      const result = resolveWorkflowInputs(declared, { issue: '42', strict: 'yes' });
+
+      expect(result).toEqual({
+        success: true,
+        values: { issue: 42, strict: true, target: 'main' },
+      });
+    });
+
+    it('should report every problem at once', () => {
+      const result = resolveWorkflowInputs(declared, {
+        strict: 'maybe',
+        target: 'release',
+        color: 'red',
+      });
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.errors).toEqual([
+        "Unknown input 'color'",
+        "Missing required input 'issue'",
+        `'strict' must be true or false (got "maybe")`,
+        `'target' must be one of: main, develop (got "release")`,
+      ]);
+    });
+
+    it('should reject non-numeric numbers', () => {
+      const result = resolveWorkflowInputs(declared, { issue: '#42' });
+
+      expect(result).toEqual({
+        success: false,
+        errors: [`'issue' must be a number (got "#42")`],
+      });
+    });
+
+    it('should accept no values when nothing is declared', () => {
+      expect(resolveWorkflowInputs(undefined, {})).toEqual({ success: true, values: {} });
+    });
+  });
+
+  describe('filterDeclaredInputs', () => {
+    it('should drop undeclared names and values that do not fit the declared type', () => {
+      expect(
+        filterDeclaredInputs(declared, { issue: '42', strict: 'maybe', target: 'main', extra: 'x' })
+      ).toEqual({ issue: '42', target: 'main' });
+      expect(filterDeclaredInputs(undefined, { issue: '42' })).toEqual({});
+    });
+  });
+
+  describe('substituteInputs', () => {
+    it('should substitute declared values and clear the rest', () => {
+      const prompt = 'Fix #$inputs.issue (strict: $inputs.strict) [$inputs.note]';
+
+      expect(substituteInputs(prompt, { issue: 42, strict: false })).toBe(
+        'Fix #42 (strict: false) []'
+      );
+    });
+  });
+
+  describe('formatInputDeclarations', () => {
+    it('should describe each input on its own line', () => {
+      expect(formatInputDeclarations(declared)).toBe(
+        [
+          '`issue` (number, required) - GitHub issue number',
+          '`strict` (boolean, default: false)',
+          '`target` (main | develop, default: main)',
+          '`note` (string)',
+        ].join('\n')
+      );
+    });
+  });
+});
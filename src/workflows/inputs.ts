@@ -0,0 +1,212 @@
+/**
+ * Workflow inputs - typed parameters declared with `inputs:` in the workflow YAML
+ *
+ * Values arrive from the router's decision (`"inputs": {...}`) or as `name=value` pairs
+ * typed by the user, are checked against the declarations and substituted into
+ * prompts as `$inputs.<name>`:
+ *
+ *   /workflow run fix-github-issue issue=42 strict=true target="release branch"
+ */
+import type { WorkflowInput, WorkflowInputValue } from './types';
+
+/** Input names: letters, digits, '_' and '-', starting with a letter or '_' */
+const INPUT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/** One `name=value` pair; values may be double- or single-quoted to include spaces */
+const INPUT_ASSIGNMENT_PATTERN = /^([A-Za-z_][A-Za-z0-9_-]*)=("[^"]*"|'[^']*'|[^\s"']*)(?=\s|$)/;
+
+/** Pattern string for input variables - used to create fresh regex instances */
+const INPUT_VAR_PATTERN_STR = '\\$inputs\\.([A-Za-z_][A-Za-z0-9_-]*)';
+
+const TRUE_VALUES = ['true', 'yes', 'on', '1'];
+const FALSE_VALUES = ['false', 'no', 'off', '0'];
+
+/**
+ * Result of resolving provided values against the declared inputs
+ */
+export type ResolveInputsResult =
+  | { success: true; values: Record<string, WorkflowInputValue> }
+  | { success: false; errors: string[] };
+
+/**
+ * Check an input name (also used by the loader for declarations)
+ */
+export function isValidInputName(name: string): boolean {
+  return INPUT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Parse leading `name=value` pairs from a single line of text.
+ * Parsing stops at the first token that is not an assignment or at a line break;
+ * everything from there on is returned as `remaining`.
+ */
+export function parseInputAssignments(text: string): {
+  inputs: Record<string, string>;
+  remaining: string;
+} {
+  const inputs: Record<string, string> = {};
+  let rest = text.replace(/^[ \t]+/, '');
+
+  for (;;) {
+    const match = INPUT_ASSIGNMENT_PATTERN.exec(rest);
+    if (!match) break;
+    inputs[match[1]] = match[2].replace(/^(["'])(.*)\1$/, '$2');
+    rest = rest.slice(match[0].length).replace(/^[ \t]+/, '');
+  }
+
+  return { inputs, remaining: rest.trim() };
+}
+
+/**
+ * Convert a provided string to the declared input type
+ * @returns The typed value, or an error message
+ */
+function coerceInputValue(
+  input: WorkflowInput,
+  raw: string
+): { value: WorkflowInputValue } | { error: string } {
+  switch (input.type) {
+    case 'string':
+      return { value: raw };
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        return { error: `'${input.name}' must be a number (got "${raw}")` };
+      }
+      return { value };
+    }
+    case 'boolean': {
+      const normalized = raw.toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return { error: `'${input.name}' must be true or false (got "${raw}")` };
+    }
+    case 'enum': {
+      const values = input.values ?? [];
+      if (!values.includes(raw)) {
+        return { error: `'${input.name}' must be one of: ${values.join(', ')} (got "${raw}")` };
+      }
+      return { value: raw };
+    }
+  }
+}
+
+/**
+ * Check provided values against a workflow's input declarations.
+ * Values are converted to their declared types and defaults fill in missing inputs.
+ * Unknown names, invalid values and missing required inputs are all reported at once.
+ */
+export function resolveWorkflowInputs(
+  declared: readonly WorkflowInput[] | undefined,
+  provided: Readonly<Record<string, string>>
+): ResolveInputsResult {
+  const inputs = declared ?? [];
+  const values: Record<string, WorkflowInputValue> = {};
+  const errors: string[] = [];
+
+  for (const name of Object.keys(provided)) {
+    if (!inputs.some(input => input.name === name)) {
+      errors.push(`Unknown input '${name}'`);
+    }
+  }
+
+  for (const input of inputs) {
+    if (!Object.hasOwn(provided, input.name)) {
+      if (input.default !== undefined) {
+        values[input.name] = input.default;
+      } else if (input.required) {
+        errors.push(`Missing required input '${input.name}'`);
+      }
+      continue;
+    }
+
+    const coerced = coerceInputValue(input, provided[input.name]);
+    if ('error' in coerced) {
+      errors.push(coerced.error);
+    } else {
+      values[input.name] = coerced.value;
+    }
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, values };
+}
+
+/**
+ * Keep the provided values a workflow declares and that convert to the declared type.
+ * Used for values guessed by the router, which must not stop the workflow from starting -
+ * undeclared names and invalid values are dropped (with a warning) instead of rejected.
+ */
+export function filterDeclaredInputs(
+  declared: readonly WorkflowInput[] | undefined,
+  provided: Readonly<Record<string, string>>
+): Record<string, string> {
+  const kept: Record<string, string> = {};
+  const dropped: string[] = [];
+
+  for (const [name, raw] of Object.entries(provided)) {
+    const input = declared?.find(i => i.name === name);
+    if (input && !('error' in coerceInputValue(input, raw))) {
+      kept[name] = raw;
+    } else {
+      dropped.push(name);
+    }
+  }
+
+  if (dropped.length > 0) {
+    console.warn('[WorkflowInputs] Dropping undeclared or invalid inputs', { inputs: dropped });
+  }
+  return kept;
+}
+
+/**
+ * Describe a workflow's inputs for users and the router, one line per input:
+ * `issue` (number, required) - GitHub issue number
+ */
+export function formatInputDeclarations(inputs: readonly WorkflowInput[]): string {
+  return inputs
+    .map(input => {
+      const details: string[] = [
+        input.type === 'enum' ? (input.values ?? []).join(' | ') : input.type,
+      ];
+      if (input.default !== undefined) {
+        details.push(`default: ${String(input.default)}`);
+      } else if (input.required) {
+        details.push('required');
+      }
+      const description = input.description ? ` - ${input.description}` : '';
+      return `\`${input.name}\` (${details.join(', ')})${description}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Substitute $inputs.<name> variables. Inputs without a value (optional, no default)
+ * and undeclared names are replaced with an empty string so the AI never sees the
+ * literal variable.
+ */
+export function substituteInputs(
+  prompt: string,
+  values: Readonly<Record<string, WorkflowInputValue>>
+): string {
+  const unresolved: string[] = [];
+
+  const result = prompt.replace(
+    new RegExp(INPUT_VAR_PATTERN_STR, 'g'),
+    (variable: string, name: string) => {
+      if (!Object.hasOwn(values, name)) {
+        unresolved.push(variable);
+        return '';
+      }
+      return String(values[name]);
+    }
+  );
+
+  if (unresolved.length > 0) {
+    console.log('[WorkflowInputs] Input variables without a value', {
+      action: 'clearing variables',
+      variables: unresolved,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { describeWorkflow } from './inspect';
+import type { WorkflowDefinition } from './types';
+
+describe('describeWorkflow', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `inspect-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, '.archon', 'commands'), { recursive: true });
+    await writeFile(join(testDir, '.archon', 'commands', 'plan.md'), 'Plan the work');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list steps with models, parallel blocks, hooks and missing commands', async () => {
+    const workflow: WorkflowDefinition = {
+      name: 'review',
+      description: 'Review a change',
+      model: 'sonnet',
+      steps: [
+        { command: 'plan', clearContext: false },
+        { approval: { message: 'Looks good?' } },
+        {
+          parallel: [{ command: 'review-package', clearContext: false, model: 'fast' }],
+          for_each: '$inputs.packages',
+          max_concurrency: 2,
+        },
+        { run: 'bun test', allow_failure: true },
+      ],
+      finally: [{ workflow: 'notify' }],
+    };
+
+    const description = await describeWorkflow(workflow, testDir, {
+      models: { fast: 'claude/haiku' },
+    });
+
+    expect(description).toBe(
+      [
+        '**`review`**\nReview a change',
+        '**Steps**:\n' +
+          '1. `plan` - claude/sonnet\n' +
+          '2. [approval] Looks good?\n' +
+          '3. [parallel, for each: $inputs.packages, max 2]\n' +
+          '   3.1 `review-package` - claude/haiku ⚠️ missing command file\n' +
+          '4. run: `bun test` (failure allowed)',
+        '**Finally**:\n1. workflow: `notify`',
+        '⚠️ **Missing command files**: `review-package.md`',
+      ].join('\n\n')
+    );
+  });
+
+  it('should show step ids, dependencies and model errors for DAG workflows', async () => {
+    const workflow: WorkflowDefinition = {
+      name: 'dag',
+      description: 'Fan out',
+      steps: [
+        { command: 'plan', clearContext: false },
+        { id: 'check', run: 'bun run lint', depends_on: ['plan'], when: "$plan.output != ''" },
+        {
+          command: 'plan',
+          id: 'replan',
+          clearContext: false,
+          provider: 'codex',
+          model: 'claude/opus',
+          depends_on: ['plan', 'check'],
+        },
+      ],
+    };
+
+    const description = await describeWorkflow(workflow, testDir, { models: {} });
+
+    expect(description).toContain('**Steps** (dependency graph):');
+    expect(description).toContain('1. **plan**: `plan` - claude');
+    expect(description).toContain(
+      "2. **check**: run: `bun run lint` (after `plan`) - when `$plan.output != ''`"
+    );
+    expect(description).toContain(
+      "3. **replan**: `plan` - ⚠️ Model 'claude/opus' runs on claude, but the step sets provider: codex (after `plan`, `check`)"
+    );
+    expect(description).not.toContain('Missing command files');
+  });
+
+  it('should describe loop workflows', async () => {
+    const workflow: WorkflowDefinition = {
+      name: 'ralph',
+      description: 'Iterate',
+      provider: 'codex',
+      loop: { until: 'DONE', max_iterations: 5, fresh_context: true },
+      prompt: 'Keep going',
+    };
+
+    const description = await describeWorkflow(workflow, testDir, { models: {} });
+
+    expect(description).toContain(
+      '**Loop**: until `DONE` (max 5 iterations, fresh context) - codex'
+    );
+  });
+
+  it('should list trigger rules', async () => {
+    const workflow: WorkflowDefinition = {
+      name: 'ralph',
+      description: 'Iterate',
+      loop: { until: 'DONE', max_iterations: 5 },
+      prompt: 'Keep going',
+      triggers: { keywords: ['keep going'], labels: ['ralph'], target: 'issue' },
+    };
+
+    const description = await describeWorkflow(workflow, testDir, { models: {} });
+
+    expect(description).toContain(
+      '**Triggers** (routed without the AI router):\n- keyword "keep going"\n- label `ralph`\n- only on issues'
+    );
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Workflow inspection - the resolved step graph shown by `/workflow show <name>`
+ *
+ * Each AI step is listed with the provider/model it will run on; command steps whose
+ * command file cannot be found are flagged so broken workflows surface before a run.
+ */
+import { getStepId, getStepName, isDagWorkflow } from './dag';
+import { findCommandFile, formatLoopCondition } from './executor';
+import { formatInputDeclarations } from './inputs';
+import { formatModelSelection, resolveModelSelection } from './models';
+import { isApprovalStep, isCommandStep, isParallelBlock, isRunStep } from './types';
+import type {
+  ParallelBlock,
+  SingleStep,
+  WorkflowDefinition,
+  WorkflowStep,
+  WorkflowTriggers,
+} from './types';
+
+/**
+ * Settings the step graph is resolved against
+ */
+export interface DescribeWorkflowOptions {
+  /** Named models from the global config (`models:`) */
+  models: Readonly<Record<string, string>>;
+  /** Additional command folder from the repo config (`commands.folder`) */
+  commandFolder?: string;
+}
+
+/**
+ * Format a selection for one AI step (or the loop when `step` is undefined)
+ */
+function describeModel(
+  workflow: WorkflowDefinition,
+  step: SingleStep | undefined,
+  models: Readonly<Record<string, string>>
+): string {
+  const result = resolveModelSelection(
+    workflow,
+    step && isCommandStep(step) ? step : undefined,
+    models
+  );
+  return result.success ? formatModelSelection(result.selection) : `⚠️ ${result.error}`;
+}
+
+/**
+ * Format the `triggers:` rules, one line per rule kind
+ */
+function describeTriggers(triggers: WorkflowTriggers): string {
+  const lines = [
+    ...(triggers.patterns ?? []).map(pattern => `- pattern \`/${pattern}/\``),
+    ...(triggers.keywords ?? []).map(keyword => `- keyword "${keyword}"`),
+    ...(triggers.labels ?? []).map(label => `- label \`${label}\``),
+  ];
+  if (triggers.target) {
+    lines.push(`- only on ${triggers.target === 'pr' ? 'pull requests' : 'issues'}`);
+  }
+  if (triggers.platforms) {
+    lines.push(`- only on platforms: ${triggers.platforms.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a parallel block's header, e.g. "[parallel, for each: $inputs.pkgs, max 3]"
+ */
+function describeParallelBlock(block: ParallelBlock): string {
+  const details: string[] = [];
+  if (block.for_each !== undefined) {
+    const source = typeof block.for_each === 'string' ? block.for_each : block.for_each.join(', ');
+    details.push(`for each: ${source}`);
+  }
+  if (block.max_concurrency !== undefined) {
+    details.push(`max ${String(block.max_concurrency)}`);
+  }
+  if (block.on_failure !== undefined) {
+    const policy =
+      typeof block.on_failure === 'string'
+        ? block.on_failure
+        : `quorum(${String(block.on_failure.quorum)})`;
+    details.push(`on failure: ${policy}`);
+  }
+  return `[parallel${details.length > 0 ? `, ${details.join(', ')}` : ''}]`;
+}
+
+/**
+ * Render a workflow's steps, their providers/models and dependencies as a markdown list
+ */
+export async function describeWorkflow(
+  workflow: WorkflowDefinition,
+  cwd: string,
+  options: DescribeWorkflowOptions
+): Promise<string> {
+  const missingCommands = new Set<string>();
+  const checkedCommands = new Set<string>();
+  const dag = workflow.steps !== undefined && isDagWorkflow(workflow.steps);
+
+  const describeSingleStep = async (step: SingleStep, showIds: boolean): Promise<string> => {
+    let line: string;
+    if (isRunStep(step)) {
+      line = `run: \`${getStepName(step)}\`${step.allow_failure ? ' (failure allowed)' : ''}`;
+    } else if (!isCommandStep(step)) {
+      line = `workflow: \`${step.workflow}\``;
+    } else {
+      line = `\`${step.command}\` - ${describeModel(workflow, step, options.models)}`;
+      if (!checkedCommands.has(step.command)) {
+        checkedCommands.add(step.command);
+        if (!(await findCommandFile(cwd, step.command, options.commandFolder))) {
+          missingCommands.add(step.command);
+        }
+      }
+      if (missingCommands.has(step.command)) {
+        line += ' ⚠️ missing command file';
+      }
+    }
+
+    if (showIds) {
+      const id = getStepId(step);
+      line = `**${id}**: ${line}`;
+      if (step.depends_on?.length) {
+        line += ` (after ${step.depends_on.map(dep => `\`${dep}\``).join(', ')})`;
+      }
+    }
+    if (step.when !== undefined) {
+      line += ` - when \`${step.when}\``;
+    }
+    return line;
+  };
+
+  const describeSteps = async (
+    steps: readonly WorkflowStep[],
+    showIds = false
+  ): Promise<string[]> => {
+    const lines: string[] = [];
+    for (const [index, step] of steps.entries()) {
+      const position = String(index + 1);
+      if (isParallelBlock(step)) {
+        lines.push(`${position}. ${describeParallelBlock(step)}`);
+        for (const [nestedIndex, nested] of step.parallel.entries()) {
+          lines.push(
+            `   ${position}.${String(nestedIndex + 1)} ${await describeSingleStep(nested, showIds)}`
+          );
+        }
+      } else if (isApprovalStep(step)) {
+        lines.push(`${position}. [approval] ${step.approval.message}`);
+      } else {
+        lines.push(`${position}. ${await describeSingleStep(step, showIds)}`);
+      }
+    }
+    return lines;
+  };
+
+  const sections: string[] = [`**\`${workflow.name}\`**\n${workflow.description.trim()}`];
+
+  if (workflow.inputs?.length) {
+    sections.push(`**Inputs**:\n${formatInputDeclarations(workflow.inputs)}`);
+  }
+  if (workflow.triggers) {
+    sections.push(
+      `**Triggers** (routed without the AI router):\n${describeTriggers(workflow.triggers)}`
+    );
+  }
+
+  if (!workflow.steps) {
+    sections.push(
+      `**Loop**: until ${formatLoopCondition(workflow.loop)} (max ${String(workflow.loop.max_iterations)} iterations${workflow.loop.fresh_context ? ', fresh context' : ''}) - ${describeModel(workflow, undefined, options.models)}`
+    );
+  } else {
+    sections.push(
+      `**Steps**${dag ? ' (dependency graph)' : ''}:\n${(await describeSteps(workflow.steps, dag)).join('\n')}`
+    );
+  }
+
+  if (workflow.on_failure?.length) {
+    sections.push(`**On failure**:\n${(await describeSteps(workflow.on_failure)).join('\n')}`);
+  }
+  if (workflow.finally?.length) {
+    sections.push(`**Finally**:\n${(await describeSteps(workflow.finally)).join('\n')}`);
+  }
+
+  if (missingCommands.size > 0) {
+    sections.push(
+      `⚠️ **Missing command files**: ${[...missingCommands].map(name => `\`${name}.md\``).join(', ')}`
+    );
+  }
+
+  return sections.join('\n\n');
+}
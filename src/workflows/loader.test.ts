@@ -1,8 +1,15 @@
-import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
 import { mkdir, writeFile, rm } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { discoverWorkflows } from './loader';
+import {
+  discoverWorkflows,
+  forgetWorkflows,
+  hasWorkflowSnapshot,
+  reloadWorkflows,
+  validateWorkflowFiles,
+  validateWorkflowSource,
+} from './loader';
 import { isParallelBlock } from './types';
 
 describe('Workflow Loader', () => {
@@ -661,6 +668,66 @@ prompt: ""
 
       expect(workflows).toHaveLength(0);
     });
+
+    it('should parse until_command alone or combined with until', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'check.yaml'),
+        `name: check-loop
+description: Ends when tests pass
+loop:
+  until_command: bun test
+  max_iterations: 5
+prompt: "Fix the failures: $LAST_CHECK_OUTPUT"
+`
+      );
+      await writeFile(
+        join(workflowDir, 'both.yaml'),
+        `name: verified-loop
+description: Signal verified by a check
+loop:
+  until: COMPLETE
+  until_command: bun run validate
+  max_iterations: 5
+prompt: Work.
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+      const byName = new Map(workflows.map(w => [w.name, w]));
+
+      expect(byName.get('check-loop')?.loop).toEqual({
+        until_command: 'bun test',
+        max_iterations: 5,
+        fresh_context: false,
+      });
+      expect(byName.get('verified-loop')?.loop).toEqual({
+        until: 'COMPLETE',
+        until_command: 'bun run validate',
+        max_iterations: 5,
+        fresh_context: false,
+      });
+    });
+
+    it('should reject loop with empty until_command', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const emptyCommandYaml = `name: empty-command-loop
+description: Loop with empty until_command
+loop:
+  until_command: "  "
+  max_iterations: 5
+prompt: Do work.
+`;
+      await writeFile(join(workflowDir, 'emptycommand.yaml'), emptyCommandYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
   });
 
   describe('Parallel block parsing', () => {
@@ -854,4 +921,1310 @@ steps:
       }
     });
   });
+
+  describe('DAG dependency parsing', () => {
+    it('should parse id and depends_on fields', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const dagYaml = `name: dag-test
+description: Fan-out and fan-in
+steps:
+  - command: scope
+  - command: code-review
+    depends_on: [scope]
+  - command: test-review
+    id: tests
+    depends_on: scope
+  - command: synthesize
+    depends_on: [code-review, tests]
+`;
+      await writeFile(join(workflowDir, 'dag.yaml'), dagYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps).toHaveLength(4);
+      expect(workflows[0].steps[0]).not.toHaveProperty('depends_on');
+      expect(workflows[0].steps[1]).toHaveProperty('depends_on', ['scope']);
+      // Single string is normalized to a list
+      expect(workflows[0].steps[2]).toHaveProperty('id', 'tests');
+      expect(workflows[0].steps[2]).toHaveProperty('depends_on', ['scope']);
+      expect(workflows[0].steps[3]).toHaveProperty('depends_on', ['code-review', 'tests']);
+    });
+
+    it('should reject workflow with dependency cycle', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const cycleYaml = `name: cycle
+description: Cyclic dependencies
+steps:
+  - command: a
+    depends_on: [b]
+  - command: b
+    depends_on: [a]
+`;
+      await writeFile(join(workflowDir, 'cycle.yaml'), cycleYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject workflow with unknown dependency', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const unknownYaml = `name: unknown-dep
+description: Unknown dependency
+steps:
+  - command: a
+  - command: b
+    depends_on: [missing]
+`;
+      await writeFile(join(workflowDir, 'unknown.yaml'), unknownYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject duplicate step ids in DAG workflow', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const duplicateYaml = `name: duplicate-ids
+description: Same command twice without ids
+steps:
+  - command: review
+  - command: review
+    depends_on: [review]
+`;
+      await writeFile(join(workflowDir, 'duplicate.yaml'), duplicateYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject invalid step ids', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidIdYaml = `name: invalid-id
+description: Step id with dots
+steps:
+  - command: plan
+    id: plan.v2
+`;
+      await writeFile(join(workflowDir, 'invalid-id.yaml'), invalidIdYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject depends_on inside parallel blocks', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const parallelDepYaml = `name: parallel-dep
+description: Dependency inside parallel block
+steps:
+  - command: scope
+  - parallel:
+      - command: review
+        depends_on: [scope]
+`;
+      await writeFile(join(workflowDir, 'parallel-dep.yaml'), parallelDepYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject parallel blocks in DAG workflow', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const mixedYaml = `name: mixed-dag
+description: DAG plus parallel block
+steps:
+  - command: scope
+  - parallel:
+      - command: review-a
+      - command: review-b
+  - command: synthesize
+    depends_on: [scope]
+`;
+      await writeFile(join(workflowDir, 'mixed.yaml'), mixedYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should allow explicit ids in linear workflows', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const linearYaml = `name: linear-ids
+description: Ids without dependencies
+steps:
+  - command: review
+    id: first-review
+  - command: review
+    id: second-review
+`;
+      await writeFile(join(workflowDir, 'linear.yaml'), linearYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps[1]).toHaveProperty('id', 'second-review');
+    });
+  });
+
+  describe('Step condition parsing', () => {
+    it('should parse when conditions on steps and parallel branches', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const conditionYaml = `name: conditional
+description: Conditional steps
+steps:
+  - command: sync
+  - parallel:
+      - command: review
+      - command: resolve
+        when: steps.sync.output contains "CONFLICT"
+  - command: fix
+    when: exists(.archon/artifacts/reviews/pr-$ISSUE_NUMBER/critical.md)
+`;
+      await writeFile(join(workflowDir, 'conditional.yaml'), conditionYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps[0]).not.toHaveProperty('when');
+      expect(workflows[0].steps[1]).toEqual({
+        parallel: [
+          { command: 'review', clearContext: false },
+          {
+            command: 'resolve',
+            clearContext: false,
+            when: 'steps.sync.output contains "CONFLICT"',
+          },
+        ],
+      });
+      expect(workflows[0].steps[2]).toHaveProperty(
+        'when',
+        'exists(.archon/artifacts/reviews/pr-$ISSUE_NUMBER/critical.md)'
+      );
+    });
+
+    it('should reject invalid condition syntax', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidYaml = `name: bad-condition
+description: Broken condition
+steps:
+  - command: sync
+  - command: fix
+    when: steps.sync.output contains
+`;
+      await writeFile(join(workflowDir, 'bad.yaml'), invalidYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject conditions referencing unknown steps', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const unknownYaml = `name: unknown-ref
+description: Unknown step reference
+steps:
+  - command: sync
+  - command: fix
+    when: steps.missing.output contains "x"
+`;
+      await writeFile(join(workflowDir, 'unknown.yaml'), unknownYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+
+    it('should reject conditions referencing unknown variables', () => {
+      const result = validateWorkflowSource(`name: deploy
+description: Deploy a change
+inputs:
+  - name: target
+    type: string
+steps:
+  - command: deploy
+    when: $inputs.target == production
+  - command: notify
+    when: $ISSUE_NUMER != "" and exists(pr-$PR/review.md)
+  - command: report
+    when: $inputs.region == eu
+`);
+
+      expect(result.definition).toBeUndefined();
+      expect(result.errors.map(error => error.message)).toEqual([
+        'Step "notify": \'when\' references unknown variable "$ISSUE_NUMER"',
+        'Step "notify": \'when\' references unknown variable "$PR"',
+        'Step "report": \'when\' references unknown variable "$inputs.region"',
+      ]);
+    });
+  });
+
+  describe('Retry policy parsing', () => {
+    it('should parse workflow-level and step-level retry policies', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const retryYaml = `name: retrying
+description: Retries flaky steps
+retry:
+  max_attempts: 3
+  backoff_seconds: 30
+  on: [transient, rate_limit]
+steps:
+  - command: investigate
+  - command: implement
+    retry:
+      max_attempts: 2
+      on: any
+      fresh_context: true
+`;
+      await writeFile(join(workflowDir, 'retry.yaml'), retryYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].retry).toEqual({
+        max_attempts: 3,
+        backoff_seconds: 30,
+        on: ['transient', 'rate_limit'],
+      });
+      expect(workflows[0].steps[0]).not.toHaveProperty('retry');
+      // Single class is normalized to a list
+      expect(workflows[0].steps[1]).toHaveProperty('retry', {
+        max_attempts: 2,
+        on: ['any'],
+        fresh_context: true,
+      });
+    });
+
+    it('should parse retry on loop workflows', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const loopYaml = `name: retry-loop
+description: Loop with retries
+retry:
+  max_attempts: 5
+loop:
+  until: COMPLETE
+  max_iterations: 10
+prompt: Keep going
+`;
+      await writeFile(join(workflowDir, 'loop.yaml'), loopYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].retry).toEqual({ max_attempts: 5 });
+    });
+
+    it('should reject invalid retry policies', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'zero.yaml'),
+        `name: zero-attempts
+description: Invalid
+retry:
+  max_attempts: 0
+steps:
+  - command: a
+`
+      );
+      await writeFile(
+        join(workflowDir, 'bad-class.yaml'),
+        `name: bad-class
+description: Invalid
+steps:
+  - command: a
+    retry:
+      max_attempts: 2
+      on: [sometimes]
+`
+      );
+      await writeFile(
+        join(workflowDir, 'negative.yaml'),
+        `name: negative-backoff
+description: Invalid
+steps:
+  - command: a
+    retry:
+      max_attempts: 2
+      backoff_seconds: -1
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+
+  describe('Timeout parsing', () => {
+    it('should parse workflow-level and step-level timeouts', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const timeoutYaml = `name: timed
+description: Bounded run
+timeout_minutes: 90
+steps:
+  - command: investigate
+  - command: implement
+    timeout_minutes: 45.5
+`;
+      await writeFile(join(workflowDir, 'timed.yaml'), timeoutYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].timeout_minutes).toBe(90);
+      expect(workflows[0].steps[0]).not.toHaveProperty('timeout_minutes');
+      expect(workflows[0].steps[1]).toHaveProperty('timeout_minutes', 45.5);
+    });
+
+    it('should reject non-positive or non-numeric timeouts', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'zero.yaml'),
+        `name: zero-timeout
+description: Invalid
+timeout_minutes: 0
+steps:
+  - command: a
+`
+      );
+      await writeFile(
+        join(workflowDir, 'text.yaml'),
+        `name: text-timeout
+description: Invalid
+steps:
+  - command: a
+    timeout_minutes: soon
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+
+  describe('Input parsing', () => {
+    it('should parse typed input declarations', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const inputsYaml = `name: with-inputs
+description: Typed inputs
+inputs:
+  - name: issue
+    type: number
+    required: true
+    description: GitHub issue number
+  - name: strict
+    type: boolean
+    default: false
+  - name: target
+    type: enum
+    values: [main, develop]
+    default: main
+  - name: note
+steps:
+  - command: investigate
+`;
+      await writeFile(join(workflowDir, 'inputs.yaml'), inputsYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].inputs).toEqual([
+        { name: 'issue', type: 'number', required: true, description: 'GitHub issue number' },
+        { name: 'strict', type: 'boolean', default: false },
+        { name: 'target', type: 'enum', values: ['main', 'develop'], default: 'main' },
+        { name: 'note', type: 'string' },
+      ]);
+    });
+
+    it('should reject invalid input declarations', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidInputs = {
+        'bad-type.yaml': '  - name: a\n    type: date',
+        'bad-default.yaml': '  - name: a\n    type: number\n    default: lots',
+        'enum-no-values.yaml': '  - name: a\n    type: enum',
+        'enum-bad-default.yaml': '  - name: a\n    type: enum\n    values: [x, y]\n    default: z',
+        'bad-name.yaml': '  - name: 1st',
+        'duplicate.yaml': '  - name: a\n  - name: a',
+      };
+      for (const [file, inputs] of Object.entries(invalidInputs)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+inputs:
+${inputs}
+steps:
+  - command: a
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+
+  describe('Trigger parsing', () => {
+    it('should parse trigger rules, accepting single values', () => {
+      const result = validateWorkflowSource(`name: review
+description: Review a PR
+triggers:
+  patterns: '^review\\b'
+  keywords: [code review, review this pr]
+  labels: needs-review
+  platforms: [github]
+  target: pr
+steps:
+  - command: review
+`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.definition?.triggers).toEqual({
+        patterns: ['^review\\b'],
+        keywords: ['code review', 'review this pr'],
+        labels: ['needs-review'],
+        platforms: ['github'],
+        target: 'pr',
+      });
+    });
+
+    it('should report invalid trigger rules on the keys they are about', () => {
+      const result = validateWorkflowSource(`name: review
+description: Review a PR
+triggers:
+  patterns: ['review(']
+  labels: []
+  target: commit
+  branch: main
+steps:
+  - command: review
+`);
+
+      expect(result.definition).toBeUndefined();
+      expect(result.errors.map(error => error.line)).toEqual([7, 5, 4, 6]);
+      expect(result.errors.map(error => error.message)).toEqual([
+        "'triggers' has unknown fields: branch",
+        "'triggers' labels: must be a string or a non-empty list of strings",
+        expect.stringMatching(/^'triggers' pattern \/review\(\/ is invalid/),
+        "'triggers' target: must be 'pr' or 'issue'",
+      ]);
+      expect(
+        validateWorkflowSource(
+          'name: x\ndescription: y\ntriggers:\n  target: pr\nsteps:\n  - command: a\n'
+        ).errors[0].message
+      ).toBe("'triggers' needs at least one of 'patterns', 'keywords' or 'labels'");
+    });
+  });
+
+  describe('Budget parsing', () => {
+    it('should parse workflow-level and step-level budgets', () => {
+      const result = validateWorkflowSource(`name: bounded
+description: Bounded spend
+budget:
+  max_cost_usd: 2.5
+  max_turns: 200
+steps:
+  - command: investigate
+    budget:
+      max_tool_calls: 40
+  - workflow: fix-issue
+    budget:
+      max_tokens: 500000
+`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.definition?.budget).toEqual({ max_cost_usd: 2.5, max_turns: 200 });
+      expect(result.definition?.steps?.[0]).toHaveProperty('budget', { max_tool_calls: 40 });
+      expect(result.definition?.steps?.[1]).toHaveProperty('budget', { max_tokens: 500_000 });
+    });
+
+    it('should reject unknown or invalid limits and budgets on shell steps', () => {
+      const errorFor = (yaml: string): string | undefined =>
+        validateWorkflowSource(`name: x\ndescription: y\n${yaml}`).errors[0]?.message;
+
+      expect(errorFor('budget:\n  max_steps: 3\nsteps:\n  - command: a\n')).toBe(
+        "Workflow: unknown budget limit 'max_steps' (use max_tokens, max_cost_usd, max_tool_calls, max_turns)"
+      );
+      expect(errorFor('budget: {}\nsteps:\n  - command: a\n')).toBe(
+        "Workflow: 'budget' needs at least one limit"
+      );
+      expect(errorFor('steps:\n  - command: a\n    budget:\n      max_turns: 2.5\n')).toBe(
+        "Step 1: budget 'max_turns' must be a positive integer"
+      );
+      expect(errorFor('steps:\n  - run: ls\n    budget:\n      max_tokens: 10\n')).toBe(
+        "Step 1: shell steps do not support 'budget'"
+      );
+    });
+  });
+
+  describe('Approval step parsing', () => {
+    it('should parse approval steps between commands', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const approvalYaml = `name: gated
+description: Approval gate
+steps:
+  - command: plan
+  - approval:
+      message: Approve the plan?
+      approvers: [alice, 12345]
+      timeout_hours: 24
+  - approval:
+      message: Ship it?
+  - command: implement
+`;
+      await writeFile(join(workflowDir, 'gated.yaml'), approvalYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps).toEqual([
+        { command: 'plan', clearContext: false },
+        {
+          approval: {
+            message: 'Approve the plan?',
+            approvers: ['alice', '12345'],
+            timeout_hours: 24,
+          },
+        },
+        { approval: { message: 'Ship it?' } },
+        { command: 'implement', clearContext: false },
+      ]);
+    });
+
+    it('should reject invalid approval steps', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidSteps = {
+        'no-message.yaml': '  - approval:\n      timeout_hours: 1',
+        'with-command.yaml': '  - command: plan\n    approval:\n      message: ok?',
+        'bad-timeout.yaml': '  - approval:\n      message: ok?\n      timeout_hours: 0',
+        'bad-approvers.yaml': '  - approval:\n      message: ok?\n      approvers: []',
+        'in-parallel.yaml':
+          '  - parallel:\n      - command: a\n      - approval:\n          message: ok?',
+        'in-dag.yaml':
+          '  - command: a\n  - approval:\n      message: ok?\n  - command: b\n    depends_on: [a]',
+      };
+      for (const [file, steps] of Object.entries(invalidSteps)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+steps:
+${steps}
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+  describe('Shell step parsing', () => {
+    it('should parse run steps with their options', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const runYaml = `name: checks
+description: Shell steps
+steps:
+  - command: implement
+  - run: bun run lint
+    id: lint
+    cwd: packages/api
+    env:
+      CI: true
+      RETRIES: 3
+      ISSUE: $inputs.issue
+    timeout: 300
+    allow_failure: true
+  - run: bun test
+    retry:
+      max_attempts: 2
+`;
+      await writeFile(join(workflowDir, 'checks.yaml'), runYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps).toEqual([
+        { command: 'implement', clearContext: false },
+        {
+          run: 'bun run lint',
+          id: 'lint',
+          cwd: 'packages/api',
+          env: { CI: 'true', RETRIES: '3', ISSUE: '$inputs.issue' },
+          timeout: 300,
+          allow_failure: true,
+        },
+        { run: 'bun test', retry: { max_attempts: 2 } },
+      ]);
+    });
+
+    it('should reject invalid run steps', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidSteps = {
+        'empty.yaml': '  - run: ""',
+        'with-command.yaml': '  - command: plan\n    run: bun test',
+        'absolute-cwd.yaml': '  - run: ls\n    cwd: /etc',
+        'escaping-cwd.yaml': '  - run: ls\n    cwd: ../other-repo',
+        'bad-env-name.yaml': '  - run: ls\n    env:\n      BAD-NAME: x',
+        'bad-env-value.yaml': '  - run: ls\n    env:\n      LIST: [a, b]',
+        'bad-timeout.yaml': '  - run: ls\n    timeout: -5',
+        'timeout-minutes.yaml': '  - run: ls\n    timeout_minutes: 5',
+      };
+      for (const [file, steps] of Object.entries(invalidSteps)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+steps:
+${steps}
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+  describe('Sub-workflow step parsing', () => {
+    it('should parse workflow steps with inputs and message', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const subYaml = `name: caller
+description: Calls another workflow
+steps:
+  - command: sync
+    id: sync
+  - workflow: resolve-conflicts
+    when: steps.sync.output contains "CONFLICT"
+    inputs:
+      pr: $inputs.pr
+      strict: true
+    message: Resolve the conflicts
+    timeout_minutes: 30
+`;
+      await writeFile(join(workflowDir, 'caller.yaml'), subYaml);
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps?.[1]).toEqual({
+        workflow: 'resolve-conflicts',
+        when: 'steps.sync.output contains "CONFLICT"',
+        inputs: { pr: '$inputs.pr', strict: 'true' },
+        message: 'Resolve the conflicts',
+        timeout_minutes: 30,
+      });
+    });
+
+    it('should reject invalid workflow steps', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidSteps = {
+        'empty.yaml': '  - workflow: ""',
+        'with-command.yaml': '  - command: plan\n    workflow: other',
+        'with-retry.yaml': '  - workflow: other\n    retry:\n      max_attempts: 2',
+        'bad-inputs.yaml': '  - workflow: other\n    inputs: [a, b]',
+        'in-parallel.yaml': '  - parallel:\n      - command: a\n      - workflow: other',
+      };
+      for (const [file, steps] of Object.entries(invalidSteps)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+steps:
+${steps}
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+  describe('for_each parsing', () => {
+    it('should parse literal and variable for_each sources', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'fan-out.yaml'),
+        `name: fan-out
+description: Fans out over packages
+steps:
+  - command: list-packages
+  - parallel:
+      - command: review-package
+    for_each: $steps.list-packages.json.packages
+    max_concurrency: 2
+  - parallel:
+      - run: bun test
+        env:
+          PACKAGE: $item
+    for_each: [api, web, 3]
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].steps?.[1]).toEqual({
+        parallel: [{ command: 'review-package', clearContext: false }],
+        for_each: '$steps.list-packages.json.packages',
+        max_concurrency: 2,
+      });
+      expect(workflows[0].steps?.[2]).toEqual({
+        parallel: [{ run: 'bun test', env: { PACKAGE: '$item' } }],
+        for_each: ['api', 'web', '3'],
+      });
+    });
+
+    it('should reject invalid for_each blocks', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidBlocks = {
+        'two-steps.yaml': '      - command: a\n      - command: b\n    for_each: [x, y]',
+        'empty-list.yaml': '      - command: a\n    for_each: []',
+        'object-items.yaml': '      - command: a\n    for_each:\n      - name: x',
+        'bad-concurrency.yaml': '      - command: a\n    max_concurrency: 0',
+      };
+      for (const [file, block] of Object.entries(invalidBlocks)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+steps:
+  - parallel:
+${block}
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+  describe('Parallel on_failure parsing', () => {
+    it('should parse failure policies', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'policies.yaml'),
+        `name: policies
+description: Parallel failure policies
+steps:
+  - parallel:
+      - command: a
+      - command: b
+    on_failure: fail_fast
+  - parallel:
+      - command: a
+      - command: b
+    on_failure: continue
+  - parallel:
+      - command: a
+      - command: b
+      - command: c
+    on_failure: quorum(2)
+  - parallel:
+      - command: review
+    for_each: $steps.a.json.files
+    on_failure: quorum(10)
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      const onFailure = workflows[0].steps?.map(step =>
+        'parallel' in step ? step.on_failure : undefined
+      );
+      expect(onFailure).toEqual(['fail_fast', 'continue', { quorum: 2 }, { quorum: 10 }]);
+    });
+
+    it('should reject unknown policies and unreachable quorums', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidPolicies = {
+        'unknown.yaml': 'sometimes',
+        'zero.yaml': 'quorum(0)',
+        'too-many.yaml': 'quorum(3)',
+      };
+      for (const [file, policy] of Object.entries(invalidPolicies)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+steps:
+  - parallel:
+      - command: a
+      - command: b
+    on_failure: ${policy}
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+
+  describe('Workflow on_failure and finally parsing', () => {
+    it('should parse hook steps for step and loop workflows', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'steps.yaml'),
+        `name: steps
+description: Cleanup hooks
+steps:
+  - command: build
+    id: build
+on_failure:
+  - run: git stash
+  - command: report-failure
+    when: steps.build.output contains "error"
+finally:
+  - run: rm -rf tmp
+`
+      );
+      await writeFile(
+        join(workflowDir, 'loop.yaml'),
+        `name: loop
+description: Loop with cleanup
+loop:
+  until: COMPLETE
+  max_iterations: 3
+prompt: Keep going
+finally:
+  - command: summarize
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(2);
+      const steps = workflows.find(w => w.name === 'steps');
+      expect(steps?.on_failure).toEqual([
+        { run: 'git stash' },
+        {
+          command: 'report-failure',
+          clearContext: false,
+          when: 'steps.build.output contains "error"',
+        },
+      ]);
+      expect(steps?.finally).toEqual([{ run: 'rm -rf tmp' }]);
+      const loop = workflows.find(w => w.name === 'loop');
+      expect(loop?.finally).toEqual([{ command: 'summarize', clearContext: false }]);
+    });
+
+    it('should reject parallel, approval, depends_on and unknown condition refs', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      const invalidHooks = {
+        'empty.yaml': 'on_failure: []',
+        'parallel.yaml': 'finally:\n  - parallel:\n      - command: a',
+        'approval.yaml': 'on_failure:\n  - approval:\n      message: Continue?',
+        'depends.yaml': 'finally:\n  - command: a\n    depends_on: build',
+        'unknown-ref.yaml': 'finally:\n  - command: a\n    when: steps.missing.output contains "x"',
+      };
+      for (const [file, hooks] of Object.entries(invalidHooks)) {
+        await writeFile(
+          join(workflowDir, file),
+          `name: ${file.replace('.yaml', '')}
+description: Invalid
+steps:
+  - command: build
+    id: build
+${hooks}
+`
+        );
+      }
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+
+  describe('Step provider and model parsing', () => {
+    it('should parse provider and model on command steps', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'models.yaml'),
+        `name: models
+description: Per-step models
+model: sonnet
+steps:
+  - command: scope
+    model: fast
+  - command: second-opinion
+    provider: codex
+    model: gpt-5
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].model).toBe('sonnet');
+      expect(workflows[0].steps).toEqual([
+        { command: 'scope', clearContext: false, model: 'fast' },
+        { command: 'second-opinion', clearContext: false, provider: 'codex', model: 'gpt-5' },
+      ]);
+    });
+
+    it('should reject unknown providers and models on shell steps', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'bad-provider.yaml'),
+        `name: bad-provider
+description: Invalid
+steps:
+  - command: scope
+    provider: gemini
+`
+      );
+      await writeFile(
+        join(workflowDir, 'shell-model.yaml'),
+        `name: shell-model
+description: Invalid
+steps:
+  - run: bun test
+    model: fast
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(0);
+    });
+  });
+
+  describe('Workflow extends', () => {
+    it('should merge a workflow into the repo workflow it extends', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(join(workflowDir, 'defaults'), { recursive: true });
+      await writeFile(
+        join(workflowDir, 'defaults', 'review.yaml'),
+        `name: review
+description: Review a change
+steps:
+  - command: scope
+  - parallel:
+      - command: code-review
+      - command: docs-review
+  - command: synthesize
+`
+      );
+      await writeFile(
+        join(workflowDir, 'review-plus.yaml'),
+        `name: review-plus
+extends: review
+description: Review with a security agent
+model: opus
+remove: docs-review
+insert:
+  - after: code-review
+    steps:
+      - command: security-review
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+      const extended = workflows.find(workflow => workflow.name === 'review-plus');
+
+      expect(workflows).toHaveLength(2);
+      expect(extended?.description).toBe('Review with a security agent');
+      expect(extended?.model).toBe('opus');
+      expect(extended?.steps).toEqual([
+        { command: 'scope', clearContext: false },
+        {
+          parallel: [
+            { command: 'code-review', clearContext: false },
+            { command: 'security-review', clearContext: false },
+          ],
+        },
+        { command: 'synthesize', clearContext: false },
+      ]);
+    });
+
+    it('should fall back to the bundled default workflows', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+      await writeFile(
+        join(workflowDir, 'quick-review.yaml'),
+        `name: quick-review
+extends: comprehensive-pr-review
+model: haiku
+`
+      );
+
+      const workflows = await discoverWorkflows(testDir);
+
+      expect(workflows).toHaveLength(1);
+      expect(workflows[0].name).toBe('quick-review');
+      expect(workflows[0].model).toBe('haiku');
+      expect(workflows[0].description).toContain('comprehensive code review');
+    });
+
+    it('should validate the merged workflow', () => {
+      const base = `name: review
+description: Review a change
+steps:
+  - command: scope
+  - command: synthesize
+    when: steps.scope.output contains "x"
+`;
+
+      const result = validateWorkflowSource(
+        `name: review-lite
+extends: review
+remove: [scope]
+`,
+        [base]
+      );
+
+      expect(result.definition).toBeUndefined();
+      expect(result.errors).toEqual([
+        { message: 'Step "synthesize": \'when\' references unknown step "scope"' },
+      ]);
+      expect(validateWorkflowSource('name: x\nextends: missing\n').errors[0]).toEqual({
+        message: '\'extends\' references unknown workflow "missing"',
+        line: 2,
+        column: 1,
+      });
+    });
+  });
+
+  describe('validateWorkflowFiles', () => {
+    it('should report every file with its errors and their lines', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(join(workflowDir, 'defaults'), { recursive: true });
+
+      await writeFile(
+        join(workflowDir, 'defaults', 'good.yaml'),
+        `name: good
+description: Valid
+steps:
+  - command: plan
+`
+      );
+      await writeFile(
+        join(workflowDir, 'bad-steps.yaml'),
+        `name: bad-steps
+description: Invalid
+
+steps:
+  - command: plan
+  # A shell step with an AI setting
+  - run: bun test
+    model: fast
+  - parallel:
+      - command: review
+      - command: ../escape
+`
+      );
+      await writeFile(
+        join(workflowDir, 'bad-timeout.yaml'),
+        `name: bad-timeout
+description: Invalid
+timeout_minutes: -1
+steps:
+  - command: plan
+`
+      );
+      await writeFile(join(workflowDir, 'broken.yaml'), 'name: broken\nsteps: [\n');
+
+      const results = await validateWorkflowFiles(testDir);
+
+      expect(results.map(result => result.file)).toEqual([
+        join('.archon', 'workflows', 'bad-steps.yaml'),
+        join('.archon', 'workflows', 'bad-timeout.yaml'),
+        join('.archon', 'workflows', 'broken.yaml'),
+        join('.archon', 'workflows', 'defaults', 'good.yaml'),
+      ]);
+      expect(results[0].errors).toEqual([
+        {
+          message: "Step 2: 'provider' and 'model' only apply to command steps",
+          line: 8,
+          column: 5,
+        },
+        { message: 'Step 3.2: invalid command name "../escape"', line: 11, column: 9 },
+      ]);
+      expect(results[1].errors).toEqual([
+        { message: "Workflow: 'timeout_minutes' must be a positive number", line: 3, column: 1 },
+      ]);
+      expect(results[2].errors).toHaveLength(1);
+      expect(results[2].errors[0].message).toStartWith('Invalid YAML');
+      expect(results[2].errors[0].line).toBe(3);
+      expect(results[3]).toEqual({
+        file: join('.archon', 'workflows', 'defaults', 'good.yaml'),
+        name: 'good',
+        errors: [],
+      });
+    });
+
+    it('should return no results without a workflow folder', async () => {
+      expect(await validateWorkflowFiles(testDir)).toEqual([]);
+    });
+  });
+
+  describe('validateWorkflowSource', () => {
+    it('should return the definition of a valid workflow', () => {
+      const result = validateWorkflowSource(`name: review
+description: Review a change
+steps:
+  - command: review
+`);
+
+      expect(result.errors).toEqual([]);
+      expect(result.definition?.name).toBe('review');
+      expect(result.definition?.steps).toEqual([{ command: 'review', clearContext: false }]);
+    });
+
+    it('should point each error at its line and column without logging', () => {
+      const warnSpy = spyOn(console, 'warn');
+      const result = validateWorkflowSource(`name: dag
+description: Invalid
+inputs:
+  - name: 1bad
+steps:
+  - command: plan
+  - id: check
+    run: bun test
+    depends_on: missing
+`);
+
+      expect(result.definition).toBeUndefined();
+      expect(result.errors).toEqual([
+        {
+          message: "Input 1: invalid name (use letters, digits, '-' or '_')",
+          line: 4,
+          column: 5,
+        },
+      ]);
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should find the line of a YAML syntax error', () => {
+      const result = validateWorkflowSource(`name: broken
+description: Unclosed list
+steps: [
+  - command: plan
+`);
+
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({ line: 4, column: 3 });
+      expect(result.errors[0].message).toStartWith('Invalid YAML');
+    });
+  });
+
+  describe('reloadWorkflows', () => {
+    const workflowYaml = (name: string, command: string): string =>
+      `name: ${name}\ndescription: ${name}\nsteps:\n  - command: ${command}\n`;
+
+    afterEach(() => {
+      forgetWorkflows(testDir);
+    });
+
+    it('should serve discovery from the reloaded snapshot until forgotten', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+      await writeFile(join(workflowDir, 'build.yaml'), workflowYaml('build', 'plan'));
+
+      await reloadWorkflows(testDir);
+      await writeFile(join(workflowDir, 'deploy.yaml'), workflowYaml('deploy', 'ship'));
+
+      expect(hasWorkflowSnapshot(testDir)).toBe(true);
+      expect((await discoverWorkflows(testDir)).map(w => w.name)).toEqual(['build']);
+
+      forgetWorkflows(testDir);
+      expect(hasWorkflowSnapshot(testDir)).toBe(false);
+      expect((await discoverWorkflows(testDir)).map(w => w.name)).toEqual(['build', 'deploy']);
+    });
+
+    it('should keep the last valid definition of a broken file and drop deleted files', async () => {
+      const workflowDir = join(testDir, '.archon', 'workflows');
+      await mkdir(workflowDir, { recursive: true });
+      await writeFile(join(workflowDir, 'build.yaml'), workflowYaml('build', 'plan'));
+      await writeFile(join(workflowDir, 'deploy.yaml'), workflowYaml('deploy', 'ship'));
+      await reloadWorkflows(testDir);
+
+      await writeFile(join(workflowDir, 'build.yaml'), 'name: build\nsteps: [\n');
+      await rm(join(workflowDir, 'deploy.yaml'));
+      const results = await reloadWorkflows(testDir);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].file).toBe(join('.archon', 'workflows', 'build.yaml'));
+      expect(results[0].errors[0].message).toStartWith('Invalid YAML');
+      const workflows = await discoverWorkflows(testDir);
+      expect(workflows.map(w => w.name)).toEqual(['build']);
+      expect(workflows[0].steps).toEqual([{ command: 'plan', clearContext: false }]);
+    });
+  });
 });
@@ -2,10 +2,44 @@
  * Workflow loader - discovers and parses workflow YAML files
  */
 import { readFile, readdir, access, stat } from 'fs/promises';
-import { join } from 'path';
-import type { WorkflowDefinition, LoopConfig, SingleStep, WorkflowStep } from './types';
-import { getWorkflowFolderSearchPaths } from '../utils/archon-paths';
+import { basename, isAbsolute, join, normalize, relative } from 'path';
+import { LineCounter, isMap, isNode, isScalar, isSeq, parseDocument } from 'yaml';
+import type { Document, Scalar } from 'yaml';
+import type {
+  ApprovalConfig,
+  ApprovalStep,
+  CommandStep,
+  WorkflowDefinition,
+  LoopConfig,
+  ParallelBlock,
+  RetryErrorClass,
+  RetryPolicy,
+  RunStep,
+  SingleStep,
+  SubWorkflowStep,
+  WorkflowBudget,
+  WorkflowInput,
+  WorkflowInputType,
+  WorkflowLoadError,
+  WorkflowNodePath,
+  WorkflowStep,
+  WorkflowTriggers,
+} from './types';
+import { isParallelBlock, isRunStep, isSingleStep } from './types';
+import { getDefaultWorkflowsPath, getWorkflowFolderSearchPaths } from '../utils/archon-paths';
 import { isValidCommandName } from './executor';
+import { getStepId, isDagWorkflow, isValidStepId, validateDag } from './dag';
+import {
+  CONDITION_VARIABLES,
+  getConditionStepRefs,
+  getConditionVariableRefs,
+  parseCondition,
+} from './conditions';
+import { isValidInputName } from './inputs';
+import { isAssistantProvider } from './models';
+import { resolveWorkflowExtends } from './extends';
+import { BUDGET_LIMIT_KEYS } from './budget';
+import type { RawWorkflow, WorkflowBaseLookup } from './extends';
 
 /**
  * Parse YAML using Bun's native YAML parser
@@ -14,55 +48,959 @@ function parseYaml(content: string): unknown {
   return Bun.YAML.parse(content);
 }
 
+const RETRY_ERROR_CLASSES: readonly RetryErrorClass[] = ['transient', 'rate_limit', 'any'];
+
 /**
- * Parse a single step (helper for parseStep)
+ * Parse a retry policy (step-level or workflow-level)
+ * @param label - Prefix for error messages (e.g. "Step 2" or "Workflow")
+ * @param path - Path of the `retry` node
  * @param errors - Array to collect validation errors for aggregated reporting
  */
-function parseSingleStep(s: unknown, indexPath: string, errors: string[]): SingleStep | null {
-  const step = s as Record<string, unknown>;
+function parseRetryPolicy(
+  r: unknown,
+  label: string,
+  path: WorkflowNodePath,
+  errors: WorkflowLoadError[]
+): RetryPolicy | null {
+  if (!r || typeof r !== 'object' || Array.isArray(r)) {
+    errors.push({ message: `${label}: 'retry' must be a mapping with 'max_attempts'`, path });
+    return null;
+  }
+  const retry = r as Record<string, unknown>;
+
+  if (
+    typeof retry.max_attempts !== 'number' ||
+    !Number.isInteger(retry.max_attempts) ||
+    retry.max_attempts < 1
+  ) {
+    errors.push({
+      message: `${label}: retry requires a positive integer 'max_attempts'`,
+      path: retry.max_attempts === undefined ? path : [...path, 'max_attempts'],
+    });
+    return null;
+  }
+  const policy: RetryPolicy = { max_attempts: retry.max_attempts };
+
+  if (retry.backoff_seconds !== undefined) {
+    if (typeof retry.backoff_seconds !== 'number' || retry.backoff_seconds < 0) {
+      errors.push({
+        message: `${label}: retry 'backoff_seconds' must be a non-negative number`,
+        path: [...path, 'backoff_seconds'],
+      });
+      return null;
+    }
+    policy.backoff_seconds = retry.backoff_seconds;
+  }
+
+  if (retry.on !== undefined) {
+    // Accept a single class or a list of classes
+    const on = typeof retry.on === 'string' ? [retry.on] : retry.on;
+    if (
+      !Array.isArray(on) ||
+      on.length === 0 ||
+      !on.every(cls => RETRY_ERROR_CLASSES.includes(cls as RetryErrorClass))
+    ) {
+      errors.push({
+        message: `${label}: retry 'on' must list any of: ${RETRY_ERROR_CLASSES.join(', ')}`,
+        path: [...path, 'on'],
+      });
+      return null;
+    }
+    policy.on = on as RetryErrorClass[];
+  }
+
+  if (retry.fresh_context !== undefined) {
+    policy.fresh_context = Boolean(retry.fresh_context);
+  }
+
+  return policy;
+}
+
+/**
+ * Check a timeout value (`timeout_minutes` on steps and workflows, shell step `timeout`,
+ * approval `timeout_hours`)
+ */
+function isValidTimeout(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Parse a `budget:` mapping (workflow-level or step-level)
+ * @param label - Prefix for error messages (e.g. "Step 2" or "Workflow")
+ * @param path - Path of the `budget` node
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseBudget(
+  b: unknown,
+  label: string,
+  path: WorkflowNodePath,
+  errors: WorkflowLoadError[]
+): WorkflowBudget | null {
+  if (!b || typeof b !== 'object' || Array.isArray(b)) {
+    errors.push({ message: `${label}: 'budget' must be a mapping of limits`, path });
+    return null;
+  }
+  const budget: WorkflowBudget = {};
+  for (const [key, value] of Object.entries(b as Record<string, unknown>)) {
+    const limit = BUDGET_LIMIT_KEYS.find(name => name === key);
+    if (!limit) {
+      errors.push({
+        message: `${label}: unknown budget limit '${key}' (use ${BUDGET_LIMIT_KEYS.join(', ')})`,
+        path: [...path, key],
+      });
+      return null;
+    }
+    // Counts are whole numbers; only the cost limit takes fractions
+    if (
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      value <= 0 ||
+      (limit !== 'max_cost_usd' && !Number.isInteger(value))
+    ) {
+      const expected = limit === 'max_cost_usd' ? 'number' : 'integer';
+      errors.push({
+        message: `${label}: budget '${key}' must be a positive ${expected}`,
+        path: [...path, key],
+      });
+      return null;
+    }
+    budget[limit] = value;
+  }
+  if (Object.keys(budget).length === 0) {
+    errors.push({ message: `${label}: 'budget' needs at least one limit`, path });
+    return null;
+  }
+  return budget;
+}
+
+const INPUT_TYPES: readonly WorkflowInputType[] = ['string', 'number', 'boolean', 'enum'];
+
+/**
+ * Parse one entry of the workflow `inputs:` list
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseInputDeclaration(
+  i: unknown,
+  index: number,
+  errors: WorkflowLoadError[]
+): WorkflowInput | null {
+  const label = `Input ${String(index + 1)}`;
+  const path = ['inputs', index];
+  if (!i || typeof i !== 'object' || Array.isArray(i)) {
+    errors.push({ message: `${label}: must be a mapping with 'name' and 'type'`, path });
+    return null;
+  }
+  const raw = i as Record<string, unknown>;
+
+  if (typeof raw.name !== 'string' || !isValidInputName(raw.name)) {
+    errors.push({
+      message: `${label}: invalid name (use letters, digits, '-' or '_')`,
+      path: raw.name === undefined ? path : [...path, 'name'],
+    });
+    return null;
+  }
+  const type = raw.type ?? 'string';
+  if (!INPUT_TYPES.includes(type as WorkflowInputType)) {
+    errors.push({
+      message: `Input "${raw.name}": 'type' must be one of: ${INPUT_TYPES.join(', ')}`,
+      path: [...path, 'type'],
+    });
+    return null;
+  }
+  const input: WorkflowInput = { name: raw.name, type: type as WorkflowInputType };
+
+  if (input.type === 'enum') {
+    if (
+      !Array.isArray(raw.values) ||
+      raw.values.length === 0 ||
+      !raw.values.every(value => typeof value === 'string')
+    ) {
+      errors.push({
+        message: `Input "${input.name}": enum inputs require a non-empty 'values' list`,
+        path: raw.values === undefined ? path : [...path, 'values'],
+      });
+      return null;
+    }
+    input.values = raw.values;
+  } else if (raw.values !== undefined) {
+    errors.push({
+      message: `Input "${input.name}": 'values' is only allowed on enum inputs`,
+      path: [...path, 'values'],
+    });
+    return null;
+  }
+
+  if (raw.description !== undefined) {
+    if (typeof raw.description !== 'string') {
+      errors.push({
+        message: `Input "${input.name}": 'description' must be a string`,
+        path: [...path, 'description'],
+      });
+      return null;
+    }
+    input.description = raw.description;
+  }
+
+  if (raw.required !== undefined) {
+    input.required = Boolean(raw.required);
+  }
+
+  if (raw.default !== undefined) {
+    const defaultValue = raw.default;
+    const matchesType =
+      input.type === 'enum'
+        ? input.values?.includes(defaultValue as string)
+        : typeof defaultValue === input.type;
+    if (!matchesType) {
+      errors.push({
+        message: `Input "${input.name}": 'default' does not match type ${input.type}`,
+        path: [...path, 'default'],
+      });
+      return null;
+    }
+    input.default = defaultValue as WorkflowInput['default'];
+  }
+
+  return input;
+}
+
+/**
+ * Parse the workflow `inputs:` list
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseInputDeclarations(raw: unknown, errors: WorkflowLoadError[]): WorkflowInput[] | null {
+  if (!Array.isArray(raw)) {
+    errors.push({ message: "'inputs' must be a list of input declarations", path: ['inputs'] });
+    return null;
+  }
+
+  const inputs = raw
+    .map((i: unknown, index: number) => parseInputDeclaration(i, index, errors))
+    .filter((input): input is WorkflowInput => input !== null);
+  if (inputs.length !== raw.length) {
+    return null;
+  }
+
+  const seen = new Set<string>();
+  for (const [index, input] of inputs.entries()) {
+    if (seen.has(input.name)) {
+      errors.push({
+        message: `Duplicate input name "${input.name}"`,
+        path: ['inputs', index, 'name'],
+      });
+      return null;
+    }
+    seen.add(input.name);
+  }
+
+  return inputs;
+}
+
+/** Trigger fields holding one value or a list of values */
+const TRIGGER_LIST_KEYS = ['patterns', 'keywords', 'labels', 'platforms'] as const;
+
+/**
+ * Parse the workflow `triggers:` rules
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseTriggers(raw: unknown, errors: WorkflowLoadError[]): WorkflowTriggers | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push({
+      message: "'triggers' must be a mapping of patterns, keywords, labels and filters",
+      path: ['triggers'],
+    });
+    return null;
+  }
+  const rules = raw as Record<string, unknown>;
+  const startingErrors = errors.length;
+
+  const unknownKeys = Object.keys(rules).filter(
+    key => key !== 'target' && !(TRIGGER_LIST_KEYS as readonly string[]).includes(key)
+  );
+  if (unknownKeys.length > 0) {
+    errors.push({
+      message: `'triggers' has unknown fields: ${unknownKeys.join(', ')}`,
+      path: ['triggers', unknownKeys[0]],
+    });
+  }
+
+  const triggers: WorkflowTriggers = {};
+  for (const key of TRIGGER_LIST_KEYS) {
+    if (rules[key] === undefined) continue;
+    // Accept a single value or a list of values
+    const values = typeof rules[key] === 'string' ? [rules[key]] : rules[key];
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every(value => typeof value === 'string' && value.trim() !== '')
+    ) {
+      errors.push({
+        message: `'triggers' ${key}: must be a string or a non-empty list of strings`,
+        path: ['triggers', key],
+      });
+      continue;
+    }
+    triggers[key] = values as string[];
+  }
+
+  for (const pattern of triggers.patterns ?? []) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      errors.push({
+        message: `'triggers' pattern /${pattern}/ is invalid: ${(error as Error).message}`,
+        path: ['triggers', 'patterns'],
+      });
+    }
+  }
+
+  if (rules.target !== undefined) {
+    if (rules.target !== 'pr' && rules.target !== 'issue') {
+      errors.push({
+        message: "'triggers' target: must be 'pr' or 'issue'",
+        path: ['triggers', 'target'],
+      });
+    } else {
+      triggers.target = rules.target;
+    }
+  }
+
+  if (!triggers.patterns && !triggers.keywords && !triggers.labels) {
+    errors.push({
+      message: "'triggers' needs at least one of 'patterns', 'keywords' or 'labels'",
+      path: ['triggers'],
+    });
+  }
+
+  return errors.length > startingErrors ? null : triggers;
+}
+
+/** Environment variable names accepted in a shell step's `env` */
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parse the fields specific to an AI command step (helper for parseSingleStep)
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseCommandStep(
+  step: Record<string, unknown>,
+  indexPath: string,
+  path: WorkflowNodePath,
+  errors: WorkflowLoadError[]
+): CommandStep | null {
   const command = String(step.command ?? step.step);
 
   if (!isValidCommandName(command)) {
-    errors.push(`Step ${indexPath}: invalid command name "${command}"`);
+    errors.push({
+      message: `Step ${indexPath}: invalid command name "${command}"`,
+      path: [...path, step.command !== undefined ? 'command' : 'step'],
+    });
     return null;
   }
 
-  return {
+  const parsed: CommandStep = {
     command,
     clearContext: Boolean(step.clearContext),
   };
+
+  if (step.timeout_minutes !== undefined) {
+    if (!isValidTimeout(step.timeout_minutes)) {
+      errors.push({
+        message: `Step ${indexPath}: 'timeout_minutes' must be a positive number`,
+        path: [...path, 'timeout_minutes'],
+      });
+      return null;
+    }
+    parsed.timeout_minutes = step.timeout_minutes;
+  }
+
+  if (step.provider !== undefined) {
+    if (!isAssistantProvider(step.provider)) {
+      errors.push({
+        message: `Step ${indexPath}: 'provider' must be claude or codex`,
+        path: [...path, 'provider'],
+      });
+      return null;
+    }
+    parsed.provider = step.provider;
+  }
+
+  if (step.model !== undefined) {
+    if (typeof step.model !== 'string' || !step.model.trim()) {
+      errors.push({
+        message: `Step ${indexPath}: 'model' must be a non-empty string`,
+        path: [...path, 'model'],
+      });
+      return null;
+    }
+    parsed.model = step.model.trim();
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the fields specific to a shell step (helper for parseSingleStep)
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseRunStep(
+  step: Record<string, unknown>,
+  indexPath: string,
+  path: WorkflowNodePath,
+  errors: WorkflowLoadError[]
+): RunStep | null {
+  const label = `Step ${indexPath}`;
+  if (step.command !== undefined || step.step !== undefined) {
+    errors.push({ message: `${label}: a step cannot have both 'run' and 'command'`, path });
+    return null;
+  }
+  if (step.clearContext !== undefined || step.timeout_minutes !== undefined) {
+    errors.push({
+      message: `${label}: shell steps do not support 'clearContext' or 'timeout_minutes'`,
+      path: [...path, step.clearContext !== undefined ? 'clearContext' : 'timeout_minutes'],
+    });
+    return null;
+  }
+  if (typeof step.run !== 'string' || !step.run.trim()) {
+    errors.push({
+      message: `${label}: 'run' must be a non-empty shell command`,
+      path: [...path, 'run'],
+    });
+    return null;
+  }
+  const parsed: RunStep = { run: step.run };
+
+  if (step.cwd !== undefined) {
+    if (
+      typeof step.cwd !== 'string' ||
+      isAbsolute(step.cwd) ||
+      normalize(step.cwd).split(/[\\/]/)[0] === '..'
+    ) {
+      errors.push({
+        message: `${label}: 'cwd' must be a relative path inside the worktree`,
+        path: [...path, 'cwd'],
+      });
+      return null;
+    }
+    parsed.cwd = step.cwd;
+  }
+
+  if (step.env !== undefined) {
+    if (!step.env || typeof step.env !== 'object' || Array.isArray(step.env)) {
+      errors.push({
+        message: `${label}: 'env' must be a mapping of variable names to values`,
+        path: [...path, 'env'],
+      });
+      return null;
+    }
+    const env: Record<string, string> = {};
+    for (const [name, value] of Object.entries(step.env as Record<string, unknown>)) {
+      if (
+        !ENV_NAME_PATTERN.test(name) ||
+        (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean')
+      ) {
+        errors.push({
+          message: `${label}: invalid env variable "${name}" (values must be scalars)`,
+          path: [...path, 'env', name],
+        });
+        return null;
+      }
+      env[name] = String(value);
+    }
+    parsed.env = env;
+  }
+
+  if (step.timeout !== undefined) {
+    if (!isValidTimeout(step.timeout)) {
+      errors.push({
+        message: `${label}: 'timeout' must be a positive number of seconds`,
+        path: [...path, 'timeout'],
+      });
+      return null;
+    }
+    parsed.timeout = step.timeout;
+  }
+
+  if (step.allow_failure !== undefined) {
+    parsed.allow_failure = Boolean(step.allow_failure);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the fields specific to a sub-workflow step (helper for parseSingleStep).
+ * Whether the called workflow exists is checked when the step runs.
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseSubWorkflowStep(
+  step: Record<string, unknown>,
+  indexPath: string,
+  path: WorkflowNodePath,
+  errors: WorkflowLoadError[]
+): SubWorkflowStep | null {
+  const label = `Step ${indexPath}`;
+  if (step.command !== undefined || step.step !== undefined || step.run !== undefined) {
+    errors.push({
+      message: `${label}: a step cannot have both 'workflow' and 'command' or 'run'`,
+      path,
+    });
+    return null;
+  }
+  if (step.clearContext !== undefined || step.retry !== undefined) {
+    errors.push({
+      message: `${label}: sub-workflow steps do not support 'clearContext' or 'retry' (set them in the called workflow)`,
+      path: [...path, step.clearContext !== undefined ? 'clearContext' : 'retry'],
+    });
+    return null;
+  }
+  if (typeof step.workflow !== 'string' || !step.workflow.trim()) {
+    errors.push({
+      message: `${label}: 'workflow' must be a workflow name`,
+      path: [...path, 'workflow'],
+    });
+    return null;
+  }
+  const parsed: SubWorkflowStep = { workflow: step.workflow.trim() };
+
+  if (step.inputs !== undefined) {
+    if (!step.inputs || typeof step.inputs !== 'object' || Array.isArray(step.inputs)) {
+      errors.push({
+        message: `${label}: 'inputs' must be a mapping of input names to values`,
+        path: [...path, 'inputs'],
+      });
+      return null;
+    }
+    const inputs: Record<string, string> = {};
+    for (const [name, value] of Object.entries(step.inputs as Record<string, unknown>)) {
+      if (
+        !isValidInputName(name) ||
+        (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean')
+      ) {
+        errors.push({
+          message: `${label}: invalid input "${name}" (values must be scalars)`,
+          path: [...path, 'inputs', name],
+        });
+        return null;
+      }
+      inputs[name] = String(value);
+    }
+    parsed.inputs = inputs;
+  }
+
+  if (step.message !== undefined) {
+    if (typeof step.message !== 'string') {
+      errors.push({ message: `${label}: 'message' must be a string`, path: [...path, 'message'] });
+      return null;
+    }
+    parsed.message = step.message;
+  }
+
+  if (step.timeout_minutes !== undefined) {
+    if (!isValidTimeout(step.timeout_minutes)) {
+      errors.push({
+        message: `${label}: 'timeout_minutes' must be a positive number`,
+        path: [...path, 'timeout_minutes'],
+      });
+      return null;
+    }
+    parsed.timeout_minutes = step.timeout_minutes;
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse a single step (helper for parseStep) - an AI command, a shell command or a
+ * sub-workflow
+ * @param indexPath - Step position for error messages (e.g. "2", "3.1" or "finally.1")
+ * @param path - Path of the step node
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseSingleStep(
+  s: unknown,
+  indexPath: string,
+  path: WorkflowNodePath,
+  errors: WorkflowLoadError[]
+): SingleStep | null {
+  const step = s as Record<string, unknown>;
+  if (
+    (step.workflow !== undefined || step.run !== undefined) &&
+    (step.provider !== undefined || step.model !== undefined)
+  ) {
+    errors.push({
+      message: `Step ${indexPath}: 'provider' and 'model' only apply to command steps`,
+      path: [...path, step.provider !== undefined ? 'provider' : 'model'],
+    });
+    return null;
+  }
+
+  let parsed: SingleStep | null;
+  if (step.workflow !== undefined) {
+    parsed = parseSubWorkflowStep(step, indexPath, path, errors);
+  } else if (step.run !== undefined) {
+    parsed = parseRunStep(step, indexPath, path, errors);
+  } else {
+    parsed = parseCommandStep(step, indexPath, path, errors);
+  }
+  if (!parsed) {
+    return null;
+  }
+
+  if (step.id !== undefined) {
+    if (typeof step.id !== 'string' || !isValidStepId(step.id)) {
+      const idLabel = typeof step.id === 'string' ? ` "${step.id}"` : '';
+      errors.push({
+        message: `Step ${indexPath}: invalid id${idLabel} (use letters, digits, '-' or '_')`,
+        path: [...path, 'id'],
+      });
+      return null;
+    }
+    parsed.id = step.id;
+  }
+
+  if (step.depends_on !== undefined) {
+    // Accept a single id or a list of ids
+    const dependsOn = typeof step.depends_on === 'string' ? [step.depends_on] : step.depends_on;
+    if (!Array.isArray(dependsOn) || !dependsOn.every(dep => typeof dep === 'string')) {
+      errors.push({
+        message: `Step ${indexPath}: 'depends_on' must be a step id or a list of step ids`,
+        path: [...path, 'depends_on'],
+      });
+      return null;
+    }
+    parsed.depends_on = dependsOn;
+  }
+
+  if (step.when !== undefined) {
+    if (typeof step.when !== 'string' || !step.when.trim()) {
+      errors.push({
+        message: `Step ${indexPath}: 'when' must be a non-empty condition expression`,
+        path: [...path, 'when'],
+      });
+      return null;
+    }
+    const condition = parseCondition(step.when);
+    if (!condition.success) {
+      errors.push({
+        message: `Step ${indexPath}: invalid 'when' condition: ${condition.error}`,
+        path: [...path, 'when'],
+      });
+      return null;
+    }
+    parsed.when = step.when;
+  }
+
+  if (step.retry !== undefined) {
+    const retry = parseRetryPolicy(step.retry, `Step ${indexPath}`, [...path, 'retry'], errors);
+    if (!retry) return null;
+    parsed.retry = retry;
+  }
+
+  if (step.budget !== undefined) {
+    if (isRunStep(parsed)) {
+      errors.push({
+        message: `Step ${indexPath}: shell steps do not support 'budget'`,
+        path: [...path, 'budget'],
+      });
+      return null;
+    }
+    const budget = parseBudget(step.budget, `Step ${indexPath}`, [...path, 'budget'], errors);
+    if (!budget) return null;
+    parsed.budget = budget;
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse an approval gate step
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseApprovalStep(
+  step: Record<string, unknown>,
+  index: number,
+  errors: WorkflowLoadError[]
+): ApprovalStep | null {
+  const label = `Step ${String(index + 1)}`;
+  const path = ['steps', index, 'approval'];
+  if (step.command !== undefined || step.step !== undefined) {
+    errors.push({
+      message: `${label}: a step cannot have both 'approval' and 'command'`,
+      path: ['steps', index],
+    });
+    return null;
+  }
+  if (!step.approval || typeof step.approval !== 'object' || Array.isArray(step.approval)) {
+    errors.push({ message: `${label}: 'approval' must be a mapping with 'message'`, path });
+    return null;
+  }
+  const raw = step.approval as Record<string, unknown>;
+
+  if (typeof raw.message !== 'string' || !raw.message.trim()) {
+    errors.push({
+      message: `${label}: approval requires a non-empty 'message'`,
+      path: raw.message === undefined ? path : [...path, 'message'],
+    });
+    return null;
+  }
+  const approval: ApprovalConfig = { message: raw.message };
+
+  if (raw.approvers !== undefined) {
+    // Accept a single approver or a list; numeric platform ids may be parsed as numbers
+    const approvers: unknown[] = Array.isArray(raw.approvers) ? raw.approvers : [raw.approvers];
+    if (
+      approvers.length === 0 ||
+      !approvers.every(approver => typeof approver === 'string' || typeof approver === 'number')
+    ) {
+      errors.push({
+        message: `${label}: approval 'approvers' must be a user id or a list of user ids`,
+        path: [...path, 'approvers'],
+      });
+      return null;
+    }
+    approval.approvers = approvers.map(String);
+  }
+
+  if (raw.timeout_hours !== undefined) {
+    if (!isValidTimeout(raw.timeout_hours)) {
+      errors.push({
+        message: `${label}: approval 'timeout_hours' must be a positive number`,
+        path: [...path, 'timeout_hours'],
+      });
+      return null;
+    }
+    approval.timeout_hours = raw.timeout_hours;
+  }
+
+  return { approval };
+}
+
+/**
+ * Check that `when` conditions only reference step ids declared in the workflow and
+ * known variables (CONDITION_VARIABLES and `$inputs.<name>` of declared inputs)
+ * @param sections - Parsed steps by top-level key (`steps`, `on_failure`, `finally`),
+ *   `null` where a step was rejected
+ */
+function validateConditionRefs(
+  sections: Record<string, readonly (WorkflowStep | null)[] | undefined>,
+  inputs: readonly WorkflowInput[] | undefined
+): WorkflowLoadError[] {
+  const singleSteps = Object.entries(sections).flatMap(([section, steps]) =>
+    (steps ?? []).flatMap((step, index) => {
+      if (step && isParallelBlock(step)) {
+        return step.parallel.map((s, pi) => ({ step: s, path: [section, index, 'parallel', pi] }));
+      }
+      return step && isSingleStep(step) ? [{ step, path: [section, index] }] : [];
+    })
+  );
+  const stepIds = new Set(singleSteps.map(({ step }) => getStepId(step)));
+  const variables = new Set([
+    ...CONDITION_VARIABLES,
+    ...(inputs ?? []).map(input => `inputs.${input.name}`),
+  ]);
+  const errors: WorkflowLoadError[] = [];
+
+  for (const { step, path } of singleSteps) {
+    if (!step.when) continue;
+    const condition = parseCondition(step.when);
+    if (!condition.success) continue; // Already reported while parsing the step
+    for (const ref of getConditionStepRefs(condition.condition)) {
+      if (!stepIds.has(ref)) {
+        errors.push({
+          message: `Step "${getStepId(step)}": 'when' references unknown step "${ref}"`,
+          path: [...path, 'when'],
+        });
+      }
+    }
+    for (const name of getConditionVariableRefs(condition.condition)) {
+      if (!variables.has(name)) {
+        errors.push({
+          message: `Step "${getStepId(step)}": 'when' references unknown variable "$${name}"`,
+          path: [...path, 'when'],
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/** `quorum(n)` failure policy of a parallel block */
+const QUORUM_PATTERN = /^quorum\(\s*(\d+)\s*\)$/;
+
+/**
+ * Parse the `for_each`, `on_failure` and `max_concurrency` options of a parallel block
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseParallelOptions(
+  step: Record<string, unknown>,
+  block: ParallelBlock,
+  index: number,
+  errors: WorkflowLoadError[]
+): ParallelBlock | null {
+  const label = `Step ${String(index + 1)}`;
+  const path = ['steps', index];
+  const parsed: ParallelBlock = { ...block };
+
+  if (step.for_each !== undefined) {
+    // One step fanned out over the items - its outcome aggregates every instance
+    if (block.parallel.length !== 1) {
+      errors.push({
+        message: `${label}: for_each blocks must contain exactly one step`,
+        path: [...path, 'parallel'],
+      });
+      return null;
+    }
+    if (Array.isArray(step.for_each)) {
+      const items: unknown[] = step.for_each;
+      if (
+        items.length === 0 ||
+        !items.every(
+          item => typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean'
+        )
+      ) {
+        errors.push({
+          message: `${label}: 'for_each' list must be a non-empty list of strings or numbers`,
+          path: [...path, 'for_each'],
+        });
+        return null;
+      }
+      parsed.for_each = items.map(String);
+    } else if (typeof step.for_each === 'string' && step.for_each.trim()) {
+      parsed.for_each = step.for_each.trim();
+    } else {
+      errors.push({
+        message: `${label}: 'for_each' must be a list or a variable such as $steps.<id>.json.<field>`,
+        path: [...path, 'for_each'],
+      });
+      return null;
+    }
+  }
+
+  if (step.on_failure !== undefined) {
+    const policy = typeof step.on_failure === 'string' ? step.on_failure.trim() : undefined;
+    const quorum = policy !== undefined ? QUORUM_PATTERN.exec(policy) : null;
+    if (policy === 'fail_fast' || policy === 'continue') {
+      parsed.on_failure = policy;
+    } else if (quorum && Number(quorum[1]) >= 1) {
+      const required = Number(quorum[1]);
+      // Item counts of variable for_each sources are only known at run time
+      const instanceCount =
+        typeof parsed.for_each === 'string'
+          ? undefined
+          : (parsed.for_each?.length ?? block.parallel.length);
+      if (instanceCount !== undefined && required > instanceCount) {
+        errors.push({
+          message: `${label}: 'on_failure' quorum(${String(required)}) exceeds the ${String(instanceCount)} parallel step(s)`,
+          path: [...path, 'on_failure'],
+        });
+        return null;
+      }
+      parsed.on_failure = { quorum: required };
+    } else {
+      errors.push({
+        message: `${label}: 'on_failure' must be fail_fast, continue or quorum(<n>)`,
+        path: [...path, 'on_failure'],
+      });
+      return null;
+    }
+  }
+
+  if (step.max_concurrency !== undefined) {
+    if (
+      typeof step.max_concurrency !== 'number' ||
+      !Number.isInteger(step.max_concurrency) ||
+      step.max_concurrency < 1
+    ) {
+      errors.push({
+        message: `${label}: 'max_concurrency' must be a positive integer`,
+        path: [...path, 'max_concurrency'],
+      });
+      return null;
+    }
+    parsed.max_concurrency = step.max_concurrency;
+  }
+
+  return parsed;
 }
 
 /**
  * Parse a workflow step (either single step or parallel block)
  * @param errors - Array to collect validation errors for aggregated reporting
  */
-function parseStep(s: unknown, index: number, errors: string[]): WorkflowStep | null {
+function parseStep(s: unknown, index: number, errors: WorkflowLoadError[]): WorkflowStep | null {
   const step = s as Record<string, unknown>;
+  const path = ['steps', index];
 
   // Check for parallel block
   if (Array.isArray(step.parallel)) {
     const rawParallelSteps = step.parallel;
 
     // Check for nested parallel BEFORE parsing (raw input still has parallel property)
-    if (
-      rawParallelSteps.some((ps: unknown) => {
-        const pstep = ps as Record<string, unknown>;
-        return Array.isArray(pstep.parallel);
-      })
-    ) {
-      errors.push(`Step ${String(index + 1)}: nested parallel blocks not allowed`);
+    const findBranch = (key: string): number =>
+      rawParallelSteps.findIndex(
+        (ps: unknown) => (ps as Record<string, unknown> | null)?.[key] !== undefined
+      );
+
+    let branch = rawParallelSteps.findIndex((ps: unknown) => {
+      const pstep = ps as Record<string, unknown>;
+      return Array.isArray(pstep.parallel);
+    });
+    if (branch !== -1) {
+      errors.push({
+        message: `Step ${String(index + 1)}: nested parallel blocks not allowed`,
+        path: [...path, 'parallel', branch, 'parallel'],
+      });
+      return null;
+    }
+
+    // Dependencies are declared between top-level steps only
+    branch = findBranch('depends_on');
+    if (branch !== -1) {
+      errors.push({
+        message: `Step ${String(index + 1)}: depends_on not allowed inside parallel blocks`,
+        path: [...path, 'parallel', branch, 'depends_on'],
+      });
+      return null;
+    }
+
+    // Approval gates pause the whole run
+    branch = findBranch('approval');
+    if (branch !== -1) {
+      errors.push({
+        message: `Step ${String(index + 1)}: approval steps not allowed inside parallel blocks`,
+        path: [...path, 'parallel', branch, 'approval'],
+      });
+      return null;
+    }
+
+    // Child runs report progress to the conversation like a top-level run
+    branch = findBranch('workflow');
+    if (branch !== -1) {
+      errors.push({
+        message: `Step ${String(index + 1)}: sub-workflow steps not allowed inside parallel blocks`,
+        path: [...path, 'parallel', branch, 'workflow'],
+      });
       return null;
     }
 
     const parallelSteps = rawParallelSteps
       .map((ps: unknown, pi: number) =>
-        parseSingleStep(ps, `${String(index + 1)}.${String(pi + 1)}`, errors)
+        parseSingleStep(
+          ps,
+          `${String(index + 1)}.${String(pi + 1)}`,
+          [...path, 'parallel', pi],
+          errors
+        )
       )
       .filter((ps): ps is SingleStep => ps !== null);
 
     if (parallelSteps.length === 0) {
-      errors.push(`Step ${String(index + 1)}: empty parallel block`);
+      errors.push({
+        message: `Step ${String(index + 1)}: empty parallel block`,
+        path: [...path, 'parallel'],
+      });
       return null;
     }
 
@@ -71,27 +1009,97 @@ function parseStep(s: unknown, index: number, errors: string[]): WorkflowStep |
       return null;
     }
 
-    return { parallel: parallelSteps };
+    return parseParallelOptions(step, { parallel: parallelSteps }, index, errors);
+  }
+
+  // Approval gate
+  if (step.approval !== undefined) {
+    return parseApprovalStep(step, index, errors);
   }
 
   // Regular single step
-  return parseSingleStep(step, String(index + 1), errors);
+  return parseSingleStep(step, String(index + 1), path, errors);
+}
+
+/**
+ * Parse a workflow-level `on_failure` or `finally` list. Hook steps run one after
+ * another, so parallel blocks, approval gates and dependencies are not allowed.
+ * @param errors - Array to collect validation errors for aggregated reporting
+ */
+function parseHookSteps(
+  raw: unknown,
+  hookName: 'on_failure' | 'finally',
+  errors: WorkflowLoadError[]
+): SingleStep[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    errors.push({ message: `'${hookName}' must be a non-empty list of steps`, path: [hookName] });
+    return null;
+  }
+
+  const steps: SingleStep[] = [];
+  for (const [index, s] of raw.entries()) {
+    const step = s as Record<string, unknown>;
+    const indexPath = `${hookName}.${String(index + 1)}`;
+    const path = [hookName, index];
+    if (step.parallel !== undefined || step.approval !== undefined) {
+      errors.push({
+        message: `Step ${indexPath}: parallel blocks and approval steps not allowed`,
+        path: [...path, step.parallel !== undefined ? 'parallel' : 'approval'],
+      });
+      continue;
+    }
+    if (step.depends_on !== undefined) {
+      errors.push({
+        message: `Step ${indexPath}: depends_on not allowed in '${hookName}' steps`,
+        path: [...path, 'depends_on'],
+      });
+      continue;
+    }
+    const parsed = parseSingleStep(step, indexPath, path, errors);
+    if (parsed) steps.push(parsed);
+  }
+
+  return steps.length === raw.length ? steps : null;
 }
 
 /**
- * Parse and validate a workflow YAML file
+ * Result of parsing one workflow file - the definition, or every error that rejected it.
+ * `invalidYaml` marks files the YAML parser itself rejected.
+ */
+type ParseWorkflowResult =
+  | { workflow: WorkflowDefinition; errors: [] }
+  | { workflow: null; errors: WorkflowLoadError[]; invalidYaml?: boolean };
+
+/**
+ * Parse and validate a workflow YAML file, collecting errors instead of logging them
+ * @param findBase - Finds the workflows `extends:` may name
  */
-function parseWorkflow(content: string, filename: string): WorkflowDefinition | null {
+function parseWorkflowSource(content: string, findBase: WorkflowBaseLookup): ParseWorkflowResult {
+  const reject = (...errors: WorkflowLoadError[]): ParseWorkflowResult => ({
+    workflow: null,
+    errors,
+  });
+  const rejectAt = (path: WorkflowNodePath, message: string): ParseWorkflowResult =>
+    reject({ message, path });
+
   try {
-    const raw = parseYaml(content) as Record<string, unknown>;
+    const source = parseYaml(content) as RawWorkflow | null;
+    if (!source || typeof source !== 'object' || Array.isArray(source)) {
+      return rejectAt([], 'Workflow file must be a YAML mapping');
+    }
+
+    // Merge with the base workflow first - the result is validated like any workflow
+    const inheritance = resolveWorkflowExtends(source, findBase);
+    if (!inheritance.success) {
+      return reject(...inheritance.errors);
+    }
+    const raw = inheritance.raw;
 
     if (!raw.name || typeof raw.name !== 'string') {
-      console.warn(`[WorkflowLoader] Missing 'name' in ${filename}`);
-      return null;
+      return rejectAt(['name'], "Missing 'name'");
     }
     if (!raw.description || typeof raw.description !== 'string') {
-      console.warn(`[WorkflowLoader] Missing 'description' in ${filename}`);
-      return null;
+      return rejectAt(['description'], "Missing 'description'");
     }
 
     // Validate mutual exclusivity: steps XOR (loop + prompt)
@@ -102,53 +1110,142 @@ function parseWorkflow(content: string, filename: string): WorkflowDefinition |
     const hasPrompt = typeof raw.prompt === 'string' && raw.prompt.trim().length > 0;
 
     if (hasSteps && hasLoop) {
-      console.warn(`[WorkflowLoader] Cannot have both 'steps' and 'loop' in ${filename}`);
-      return null;
+      return rejectAt(['loop'], "Cannot have both 'steps' and 'loop'");
     }
 
     if (hasLoop && !hasPrompt) {
-      console.warn(`[WorkflowLoader] Loop workflow requires 'prompt' in ${filename}`);
-      return null;
+      return rejectAt(['loop'], "Loop workflow requires 'prompt'");
     }
 
     if (!hasSteps && !hasLoop) {
-      console.warn(`[WorkflowLoader] Workflow must have 'steps' or 'loop' in ${filename}`);
-      return null;
+      return rejectAt(['steps'], "Workflow must have 'steps' or 'loop'");
     }
 
     // Parse loop config if present
     let loopConfig: LoopConfig | undefined;
     if (hasLoop) {
       const loop = raw.loop as Record<string, unknown>;
-      if (typeof loop.until !== 'string' || !loop.until.trim()) {
-        console.warn(`[WorkflowLoader] Loop requires 'until' signal in ${filename}`);
-        return null;
+      if (loop.until === undefined && loop.until_command === undefined) {
+        return rejectAt(['loop'], "Loop requires 'until' signal or 'until_command'");
+      }
+      if (loop.until !== undefined && (typeof loop.until !== 'string' || !loop.until.trim())) {
+        return rejectAt(['loop', 'until'], "Loop 'until' signal must be non-empty");
+      }
+      if (
+        loop.until_command !== undefined &&
+        (typeof loop.until_command !== 'string' || !loop.until_command.trim())
+      ) {
+        return rejectAt(['loop', 'until_command'], "Loop 'until_command' must be non-empty");
       }
       if (typeof loop.max_iterations !== 'number' || loop.max_iterations < 1) {
-        console.warn(`[WorkflowLoader] Loop requires positive 'max_iterations' in ${filename}`);
-        return null;
+        return rejectAt(['loop', 'max_iterations'], "Loop requires positive 'max_iterations'");
       }
       loopConfig = {
-        until: loop.until,
         max_iterations: loop.max_iterations,
         fresh_context: Boolean(loop.fresh_context),
       };
+      if (typeof loop.until === 'string') {
+        loopConfig.until = loop.until;
+      }
+      if (typeof loop.until_command === 'string') {
+        loopConfig.until_command = loop.until_command;
+      }
+    }
+
+    // Parse workflow-level retry default if present
+    let retry: RetryPolicy | undefined;
+    if (raw.retry !== undefined) {
+      const retryErrors: WorkflowLoadError[] = [];
+      retry = parseRetryPolicy(raw.retry, 'Workflow', ['retry'], retryErrors) ?? undefined;
+      if (!retry) {
+        return reject(...retryErrors);
+      }
+    }
+
+    // Parse workflow-level timeout if present
+    if (raw.timeout_minutes !== undefined && !isValidTimeout(raw.timeout_minutes)) {
+      return rejectAt(['timeout_minutes'], "Workflow: 'timeout_minutes' must be a positive number");
+    }
+    const timeoutMinutes = raw.timeout_minutes;
+
+    // Parse workflow-level budget if present
+    let budget: WorkflowBudget | undefined;
+    if (raw.budget !== undefined) {
+      const budgetErrors: WorkflowLoadError[] = [];
+      budget = parseBudget(raw.budget, 'Workflow', ['budget'], budgetErrors) ?? undefined;
+      if (!budget) {
+        return reject(...budgetErrors);
+      }
+    }
+
+    // Parse input declarations if present
+    let inputs: WorkflowInput[] | undefined;
+    if (raw.inputs !== undefined) {
+      const inputErrors: WorkflowLoadError[] = [];
+      inputs = parseInputDeclarations(raw.inputs, inputErrors) ?? undefined;
+      if (!inputs) {
+        return reject(...inputErrors);
+      }
+    }
+
+    // Parse routing rules if present
+    let triggers: WorkflowTriggers | undefined;
+    if (raw.triggers !== undefined) {
+      const triggerErrors: WorkflowLoadError[] = [];
+      triggers = parseTriggers(raw.triggers, triggerErrors) ?? undefined;
+      if (!triggers) {
+        return reject(...triggerErrors);
+      }
+    }
+
+    // Parse workflow-level on_failure / finally steps if present
+    const hookErrors: WorkflowLoadError[] = [];
+    const onFailure =
+      raw.on_failure !== undefined
+        ? (parseHookSteps(raw.on_failure, 'on_failure', hookErrors) ?? undefined)
+        : undefined;
+    const finallySteps =
+      raw.finally !== undefined
+        ? (parseHookSteps(raw.finally, 'finally', hookErrors) ?? undefined)
+        : undefined;
+    if (hookErrors.length > 0) {
+      return reject(...hookErrors);
     }
 
     // Parse steps if present (for step-based workflows)
     let steps: WorkflowStep[] | undefined;
     if (hasSteps) {
       // Collect validation errors for aggregated reporting
-      const validationErrors: string[] = [];
+      const validationErrors: WorkflowLoadError[] = [];
 
-      steps = (raw.steps as unknown[])
-        .map((s: unknown, index: number) => parseStep(s, index, validationErrors))
-        .filter((step): step is WorkflowStep => step !== null);
+      const parsedSteps = (raw.steps as unknown[]).map((s: unknown, index: number) =>
+        parseStep(s, index, validationErrors)
+      );
+      steps = parsedSteps.filter((step): step is WorkflowStep => step !== null);
+
+      // Dependency graph checks (ids, unknown references, cycles) for DAG workflows
+      if (steps.length === (raw.steps as unknown[]).length && isDagWorkflow(steps)) {
+        validationErrors.push(...validateDag(steps));
+      }
+      // Hook steps may check the outcome of any step
+      validationErrors.push(
+        ...validateConditionRefs(
+          { steps: parsedSteps, on_failure: onFailure, finally: finallySteps },
+          inputs
+        )
+      );
 
       // Reject workflow if any steps were invalid - report all errors at once
-      if (steps.length !== (raw.steps as unknown[]).length) {
-        console.warn(`[WorkflowLoader] Workflow ${filename} failed validation:`, validationErrors);
-        return null;
+      if (validationErrors.length > 0 || steps.length !== (raw.steps as unknown[]).length) {
+        return reject(...validationErrors);
+      }
+    } else {
+      const refErrors = validateConditionRefs(
+        { on_failure: onFailure, finally: finallySteps },
+        inputs
+      );
+      if (refErrors.length > 0) {
+        return reject(...refErrors);
       }
     }
 
@@ -159,82 +1256,341 @@ function parseWorkflow(content: string, filename: string): WorkflowDefinition |
 
     // Return appropriate workflow type based on discriminated union
     if (hasLoop && loopConfig) {
-      return {
+      const workflow: WorkflowDefinition = {
         name: raw.name,
         description: raw.description,
         provider,
         model,
+        retry,
+        timeout_minutes: timeoutMinutes,
+        inputs,
+        triggers,
+        budget,
+        on_failure: onFailure,
+        finally: finallySteps,
         loop: loopConfig,
         prompt: raw.prompt as string,
       };
+      return { workflow, errors: [] };
     }
 
     // Step-based workflow
-    return {
+    const workflow: WorkflowDefinition = {
       name: raw.name,
       description: raw.description,
       provider,
       model,
+      retry,
+      timeout_minutes: timeoutMinutes,
+      inputs,
+      triggers,
+      budget,
+      on_failure: onFailure,
+      finally: finallySteps,
       steps: steps!,
     };
+    return { workflow, errors: [] };
   } catch (error) {
     const err = error as Error;
-    // Extract line number from YAML parse errors if available
-    const linePattern = /line (\d+)/i;
-    const lineMatch = linePattern.exec(err.message);
-    const lineInfo = lineMatch ? ` (near line ${lineMatch[1]})` : '';
+    return {
+      workflow: null,
+      errors: [{ message: `Invalid YAML: ${err.message}`, path: [] }],
+      invalidYaml: true,
+    };
+  }
+}
+
+/**
+ * Parse a workflow YAML file, logging why it was rejected
+ */
+function parseWorkflow(
+  content: string,
+  filename: string,
+  findBase: WorkflowBaseLookup
+): WorkflowDefinition | null {
+  const result = parseWorkflowSource(content, findBase);
+  if (result.workflow) return result.workflow;
+
+  const messages = result.errors.map(error => error.message);
+  if (result.invalidYaml) {
+    const line = locateYamlSyntaxError(content)?.line;
+    const lineInfo = line !== undefined ? ` (near line ${String(line)})` : '';
     console.error(`[WorkflowLoader] Failed to parse ${filename}${lineInfo}:`, {
-      error: err.message,
+      error: messages.join('; '),
       contentPreview: content.slice(0, 200) + (content.length > 200 ? '...' : ''),
     });
-    return null;
+  } else {
+    console.warn(`[WorkflowLoader] Workflow ${filename} failed validation:`, messages);
   }
+  return null;
 }
 
 /**
- * Load workflows from a directory (recursively includes subdirectories)
+ * Collect the workflows `extends:` can name from YAML sources - the first source
+ * declaring a name wins. Sources that fail to parse are skipped (they report their own errors).
  */
-async function loadWorkflowsFromDir(dirPath: string): Promise<WorkflowDefinition[]> {
-  const workflows: WorkflowDefinition[] = [];
-
-  try {
-    const entries = await readdir(dirPath);
-
-    for (const entry of entries) {
-      const entryPath = join(dirPath, entry);
-      const entryStat = await stat(entryPath);
-
-      if (entryStat.isDirectory()) {
-        // Recursively load from subdirectories
-        const subWorkflows = await loadWorkflowsFromDir(entryPath);
-        workflows.push(...subWorkflows);
-      } else if (entry.endsWith('.yaml') || entry.endsWith('.yml')) {
-        const content = await readFile(entryPath, 'utf-8');
-        const workflow = parseWorkflow(content, entry);
-
-        if (workflow) {
-          workflows.push(workflow);
-          console.log(`[WorkflowLoader] Loaded workflow: ${workflow.name}`);
-        }
+function collectBaseWorkflows(contents: readonly string[], bases: Map<string, RawWorkflow>): void {
+  for (const content of contents) {
+    try {
+      const raw = parseYaml(content) as RawWorkflow | null;
+      if (raw && typeof raw === 'object' && !Array.isArray(raw) && typeof raw.name === 'string') {
+        if (!bases.has(raw.name)) bases.set(raw.name, raw);
       }
+    } catch {
+      // Invalid YAML - reported when the file itself is loaded
+    }
+  }
+}
+
+/**
+ * Build the lookup `extends:` resolves base workflows with: the repository's workflow
+ * files first, then the bundled defaults - so a repo can extend a default it never copied
+ * and picks up improvements to the defaults it did not customize.
+ */
+async function createBaseLookup(contents: readonly string[]): Promise<WorkflowBaseLookup> {
+  const bases = new Map<string, RawWorkflow>();
+  collectBaseWorkflows(contents, bases);
+
+  // Only read the bundled defaults when some workflow needs a base
+  if (contents.some(content => /^extends:/m.test(content))) {
+    const defaultFiles = await findWorkflowFiles(getDefaultWorkflowsPath());
+    const defaults = await Promise.all(defaultFiles.map(file => readFile(file, 'utf-8')));
+    collectBaseWorkflows(defaults, bases);
+  }
+
+  return (name: string) => bases.get(name);
+}
+
+/**
+ * A loader error and the position in the YAML source it points at (1-based).
+ * The position is omitted when the error cannot be traced to a line.
+ */
+export interface WorkflowValidationError {
+  message: string;
+  line?: number;
+  /** Column of the mapping key or list item the error is about */
+  column?: number;
+}
+
+/**
+ * Result of validating workflow YAML - `definition` is set only when there are no errors
+ */
+export interface WorkflowSourceValidation {
+  definition?: WorkflowDefinition;
+  errors: WorkflowValidationError[];
+}
+
+/**
+ * Loader errors for one workflow file, as reported by `/workflow validate`
+ */
+export interface WorkflowFileValidation {
+  /** Path relative to the repository root */
+  file: string;
+  /** Workflow name when the file loaded */
+  name?: string;
+  errors: WorkflowValidationError[];
+}
+
+/**
+ * Line and column (1-based) of a YAML syntax error, as reported by the `yaml` parser.
+ * Bun's parser, which loads the workflows, reports no positions.
+ */
+function locateYamlSyntaxError(yaml: string): { line: number; column: number } | undefined {
+  const position = parseDocument(yaml).errors[0]?.linePos?.[0];
+  return position && { line: position.line, column: position.col };
+}
+
+/**
+ * Line and column (1-based) of the deepest node on `path` that exists in the document:
+ * the key of a mapping entry or the start of a list item. Undefined when not even the
+ * first node exists (e.g. merged steps of a workflow that uses `extends:`).
+ */
+function locateNode(
+  doc: Document,
+  lineCounter: LineCounter,
+  path: WorkflowNodePath
+): { line: number; column: number } | undefined {
+  let node: unknown = doc.contents;
+  let offset: number | undefined;
+
+  for (const segment of path) {
+    let next: unknown;
+    if (isMap(node)) {
+      const pair = node.items.find(item => isScalar(item.key) && item.key.value === segment);
+      if (!pair) break;
+      offset = (pair.key as Scalar).range?.[0];
+      next = pair.value;
+    } else if (isSeq(node) && typeof segment === 'number') {
+      next = node.items[segment];
+      if (!isNode(next)) break;
+      offset = next.range?.[0];
+    } else {
+      break;
     }
+    node = next;
+  }
+
+  if (offset === undefined) return undefined;
+  const { line, col } = lineCounter.linePos(offset);
+  return { line, column: col };
+}
+
+/**
+ * Validate one workflow file's YAML, locating its errors
+ */
+function validateWithLookup(yaml: string, findBase: WorkflowBaseLookup): WorkflowSourceValidation {
+  const result = parseWorkflowSource(yaml, findBase);
+  if (result.workflow) {
+    return { definition: result.workflow, errors: [] };
+  }
+
+  if (result.invalidYaml) {
+    const position = locateYamlSyntaxError(yaml);
+    return { errors: result.errors.map(({ message }) => ({ message, ...position })) };
+  }
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(yaml, { lineCounter });
+  return {
+    errors: result.errors.map(({ message, path }) => ({
+      message,
+      ...locateNode(doc, lineCounter, path),
+    })),
+  };
+}
+
+/**
+ * Validate workflow YAML without loading it - the same checks as discoverWorkflows,
+ * with every error and the line/column it points at instead of log messages.
+ * Pure: reads no files and logs nothing, so editors and hooks can call it directly.
+ *
+ * @param bases - YAML of the other workflows `extends:` may name
+ */
+export function validateWorkflowSource(
+  yaml: string,
+  bases: readonly string[] = []
+): WorkflowSourceValidation {
+  const baseWorkflows = new Map<string, RawWorkflow>();
+  collectBaseWorkflows(bases, baseWorkflows);
+  return validateWithLookup(yaml, name => baseWorkflows.get(name));
+}
+
+/**
+ * Collect workflow YAML files under a directory (recursively), as absolute paths
+ */
+async function findWorkflowFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+  let entries: string[];
+  try {
+    entries = await readdir(dirPath);
   } catch (error) {
     const err = error as NodeJS.ErrnoException;
-    if (err.code === 'ENOENT') {
-      console.log(`[WorkflowLoader] Directory not found: ${dirPath}`);
-    } else {
+    if (err.code !== 'ENOENT') {
       console.warn(`[WorkflowLoader] Error reading ${dirPath}: ${err.message}`);
     }
+    return files;
   }
 
-  return workflows;
+  for (const entry of entries.sort()) {
+    const entryPath = join(dirPath, entry);
+    const entryStat = await stat(entryPath);
+    if (entryStat.isDirectory()) {
+      files.push(...(await findWorkflowFiles(entryPath)));
+    } else if (entry.endsWith('.yaml') || entry.endsWith('.yml')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse every workflow file in the repository's workflow folders and report all
+ * loader errors per file, with the line they point at where it can be found.
+ * Unlike discoverWorkflows, files that fail to load are reported instead of skipped.
+ */
+export async function validateWorkflowFiles(cwd: string): Promise<WorkflowFileValidation[]> {
+  const results = await loadWorkflowFiles(cwd);
+  return results.map(toFileValidation);
+}
+
+/** Report form of a file's validation - the name instead of the definition */
+function toFileValidation({
+  file,
+  definition,
+  errors,
+}: WorkflowSourceValidation & { file: string }): WorkflowFileValidation {
+  return definition ? { file, name: definition.name, errors: [] } : { file, errors };
+}
+
+/**
+ * Read and validate every workflow file in the repository's workflow folders
+ */
+async function loadWorkflowFiles(
+  cwd: string
+): Promise<(WorkflowSourceValidation & { file: string })[]> {
+  const sources: { file: string; content: string }[] = [];
+  for (const folder of getWorkflowFolderSearchPaths()) {
+    for (const filePath of await findWorkflowFiles(join(cwd, folder))) {
+      sources.push({ file: relative(cwd, filePath), content: await readFile(filePath, 'utf-8') });
+    }
+  }
+
+  const findBase = await createBaseLookup(sources.map(source => source.content));
+  return sources.map(({ file, content }) => ({ file, ...validateWithLookup(content, findBase) }));
+}
+
+/**
+ * Workflows of watched repositories, keyed by cwd and then by file (relative path).
+ * discoverWorkflows serves these instead of reading the files; other repositories are
+ * read from disk on every discovery.
+ */
+const workflowSnapshots = new Map<string, ReadonlyMap<string, WorkflowDefinition>>();
+
+/**
+ * Re-read a repository's workflow files and swap in the new definitions at once (used by
+ * the config watcher). A file that fails to load keeps its last loaded definition, so a
+ * half-edited file does not make its workflow disappear; deleted files are dropped.
+ * @returns The loader errors per file, as validateWorkflowFiles reports them
+ */
+export async function reloadWorkflows(cwd: string): Promise<WorkflowFileValidation[]> {
+  const results = await loadWorkflowFiles(cwd);
+  const previous = workflowSnapshots.get(cwd);
+
+  const snapshot = new Map<string, WorkflowDefinition>();
+  for (const { file, definition } of results) {
+    const kept = definition ?? previous?.get(file);
+    if (kept) snapshot.set(file, kept);
+  }
+  workflowSnapshots.set(cwd, snapshot);
+
+  return results.map(toFileValidation);
+}
+
+/**
+ * Whether a repository's workflows are kept in memory (see reloadWorkflows)
+ */
+export function hasWorkflowSnapshot(cwd: string): boolean {
+  return workflowSnapshots.has(cwd);
+}
+
+/**
+ * Stop keeping a repository's workflows - discoverWorkflows reads the files again
+ */
+export function forgetWorkflows(cwd: string): void {
+  workflowSnapshots.delete(cwd);
 }
 
 /**
  * Discover and load workflows from codebase
  * Searches .archon/workflows/ recursively (includes subdirectories like defaults/).
+ * Watched repositories are served from their last reload instead (see reloadWorkflows).
  */
 export async function discoverWorkflows(cwd: string): Promise<WorkflowDefinition[]> {
+  const snapshot = workflowSnapshots.get(cwd);
+  if (snapshot) {
+    return [...snapshot.values()];
+  }
+
   const [workflowFolder] = getWorkflowFolderSearchPaths();
   const workflowPath = join(cwd, workflowFolder);
 
@@ -252,7 +1608,22 @@ export async function discoverWorkflows(cwd: string): Promise<WorkflowDefinition
     return [];
   }
 
-  const workflows = await loadWorkflowsFromDir(workflowPath);
+  const sources = await Promise.all(
+    (await findWorkflowFiles(workflowPath)).map(async filePath => ({
+      filePath,
+      content: await readFile(filePath, 'utf-8'),
+    }))
+  );
+  const findBase = await createBaseLookup(sources.map(source => source.content));
+
+  const workflows: WorkflowDefinition[] = [];
+  for (const { filePath, content } of sources) {
+    const workflow = parseWorkflow(content, basename(filePath), findBase);
+    if (workflow) {
+      workflows.push(workflow);
+      console.log(`[WorkflowLoader] Loaded workflow: ${workflow.name}`);
+    }
+  }
   console.log(
     `[WorkflowLoader] Loaded ${String(workflows.length)} workflows from ${workflowFolder}`
   );
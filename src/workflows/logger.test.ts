@@ -1,16 +1,24 @@
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
-import { mkdir, rm, readFile, chmod } from 'fs/promises';
+import { appendFile, mkdir, rm, readFile, chmod } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import {
   logWorkflowEvent,
   logWorkflowStart,
+  logWorkflowResume,
+  logApprovalRequested,
+  logShellCommand,
   logStepStart,
   logStepComplete,
+  logStepSkipped,
+  logStepError,
+  logStepRetry,
   logAssistant,
   logTool,
+  logUsage,
   logWorkflowError,
   logWorkflowComplete,
+  readWorkflowEvents,
   type WorkflowEvent,
 } from './logger';
 
@@ -112,6 +120,65 @@ describe('Workflow Logger', () => {
     });
   });
 
+  describe('logWorkflowResume', () => {
+    it('should log workflow resume with name and step index', async () => {
+      await logWorkflowResume(testDir, 'resume-test', 'my-workflow', 3);
+
+      const events = await readLogFile('resume-test');
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('workflow_resume');
+      expect(events[0].workflow_name).toBe('my-workflow');
+      expect(events[0].step_index).toBe(3);
+    });
+  });
+
+  describe('logApprovalRequested', () => {
+    it('should log the approval prompt and step index', async () => {
+      await logApprovalRequested(testDir, 'approval-test', 2, 'Approve the plan?');
+
+      const events = await readLogFile('approval-test');
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('approval_requested');
+      expect(events[0].step_index).toBe(2);
+      expect(events[0].content).toBe('Approve the plan?');
+    });
+  });
+
+  describe('logShellCommand', () => {
+    it('should log exit code and output of the command', async () => {
+      await logShellCommand(testDir, 'shell-test', 'bun test', 1, {
+        exitCode: 1,
+        stdout: '3 pass\n1 fail',
+        stderr: 'error: expected 2',
+        timedOut: false,
+      });
+
+      const events = await readLogFile('shell-test');
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: 'shell_command',
+        step: 'bun test',
+        step_index: 1,
+        exit_code: 1,
+        stdout: '3 pass\n1 fail',
+        stderr: 'error: expected 2',
+      });
+      expect(events[0].error).toBeUndefined();
+    });
+
+    it('should record timeouts as an error', async () => {
+      await logShellCommand(testDir, 'shell-timeout', 'sleep 60', 0, {
+        exitCode: 1,
+        stdout: '',
+        stderr: '',
+        timedOut: true,
+      });
+
+      const events = await readLogFile('shell-timeout');
+      expect(events[0].error).toBe('Command timed out');
+    });
+  });
+
   describe('logStepStart', () => {
     it('should log step start with name and index', async () => {
       await logStepStart(testDir, 'step-start-test', 'plan', 0);
@@ -136,6 +203,51 @@ describe('Workflow Logger', () => {
     });
   });
 
+  describe('logStepSkipped', () => {
+    it('should log skipped step with name, index and condition', async () => {
+      await logStepSkipped(testDir, 'step-skipped-test', 'fix', 3, 'exists(fixes.md)');
+
+      const events = await readLogFile('step-skipped-test');
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('step_skipped');
+      expect(events[0].step).toBe('fix');
+      expect(events[0].step_index).toBe(3);
+      expect(events[0].condition).toBe('exists(fixes.md)');
+    });
+  });
+
+  describe('logStepError', () => {
+    it('should log failed attempt with error and attempt counts', async () => {
+      await logStepError(testDir, 'step-error-test', 'implement', 1, 'API 429', 2, 3);
+
+      const events = await readLogFile('step-error-test');
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: 'step_error',
+        step: 'implement',
+        step_index: 1,
+        error: 'API 429',
+        attempt: 2,
+        max_attempts: 3,
+      });
+    });
+  });
+
+  describe('logStepRetry', () => {
+    it('should log retry attempt number', async () => {
+      await logStepRetry(testDir, 'step-retry-test', 'implement', 1, 2, 3);
+
+      const events = await readLogFile('step-retry-test');
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: 'step_retry',
+        step: 'implement',
+        attempt: 2,
+        max_attempts: 3,
+      });
+    });
+  });
+
   describe('logAssistant', () => {
     it('should log assistant message content', async () => {
       await logAssistant(testDir, 'assistant-test', 'Here is my response to your request.');
@@ -179,6 +291,46 @@ Line 3`;
       const events = await readLogFile('complex-tool-test');
       expect(events[0].tool_input).toEqual(complexInput);
     });
+
+    it('should record the step that made the call', async () => {
+      await logTool(testDir, 'tool-step-test', 'Read', { file_path: '/a.ts' }, 'investigate');
+      await logAssistant(testDir, 'tool-step-test', 'Found it', 'investigate');
+
+      const events = await readLogFile('tool-step-test');
+      expect(events.map(e => e.step)).toEqual(['investigate', 'investigate']);
+    });
+  });
+
+  describe('logUsage', () => {
+    it('should log the usage of a query with its step', async () => {
+      const usage = {
+        inputTokens: 1200,
+        outputTokens: 340,
+        cacheReadTokens: 5000,
+        cacheWriteTokens: 800,
+        costUsd: 0.125,
+      };
+      await logUsage(testDir, 'usage-test', usage, 'investigate');
+
+      const events = await readLogFile('usage-test');
+      expect(events[0]).toMatchObject({ type: 'usage', step: 'investigate', usage });
+    });
+  });
+
+  describe('readWorkflowEvents', () => {
+    it('should read events in order and skip partial lines', async () => {
+      await logStepStart(testDir, 'read-test', 'plan', 0);
+      await logStepComplete(testDir, 'read-test', 'plan', 0);
+      await appendFile(join(testDir, '.archon', 'logs', 'read-test.jsonl'), '{"type":"to');
+
+      const events = await readWorkflowEvents(testDir, 'read-test');
+
+      expect(events?.map(e => e.type)).toEqual(['step_start', 'step_complete']);
+    });
+
+    it('should return null when the run has no log', async () => {
+      expect(await readWorkflowEvents(testDir, 'missing-run')).toBeNull();
+    });
   });
 
   describe('logWorkflowError', () => {
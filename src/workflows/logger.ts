@@ -1,22 +1,47 @@
 /**
  * SDK Event Logger - captures workflow execution to JSONL
  */
-import { appendFile, mkdir } from 'fs/promises';
+import { appendFile, mkdir, readFile } from 'fs/promises';
 import { join, dirname } from 'path';
+import type { ShellCommandResult } from './types';
+import type { TokenUsage } from '../types';
 
 // Track whether we've warned about logging failures (warn once per session)
 let logWarningShown = false;
 
+/** Result of one step (or for_each instance) in a parallel block */
+export interface ParallelBlockStepResult {
+  command: string;
+  success: boolean;
+  cancelled?: boolean; // Stopped by on_failure: fail_fast after another step failed
+}
+
+/** Aggregate of a parallel block, checked against its `on_failure` policy */
+export interface ParallelBlockSummary {
+  on_failure: string; // 'wait_all' (default), 'fail_fast', 'continue' or 'quorum(n)'
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  skipped: number;
+  passed: boolean; // Whether the workflow continues after the block
+}
+
 export interface WorkflowEvent {
   type:
     | 'workflow_start'
+    | 'workflow_resume'
     | 'workflow_complete'
     | 'workflow_error'
     | 'step_start'
     | 'step_complete'
     | 'step_error'
+    | 'step_skipped'
+    | 'step_retry'
+    | 'approval_requested'
+    | 'shell_command'
     | 'assistant'
     | 'tool'
+    | 'usage'
     | 'parallel_block_start'
     | 'parallel_block_complete';
   workflow_id: string;
@@ -25,11 +50,20 @@ export interface WorkflowEvent {
   step_index?: number;
   block_index?: number;
   steps?: string[];
-  results?: { command: string; success: boolean }[];
+  results?: ParallelBlockStepResult[];
+  summary?: ParallelBlockSummary;
   content?: string;
   tool_name?: string;
   tool_input?: Record<string, unknown>;
   error?: string;
+  condition?: string;
+  attempt?: number;
+  max_attempts?: number;
+  model?: string;
+  exit_code?: number;
+  stdout?: string;
+  stderr?: string;
+  usage?: TokenUsage;
   ts: string;
 }
 
@@ -40,6 +74,37 @@ function getLogPath(cwd: string, workflowRunId: string): string {
   return join(cwd, '.archon', 'logs', `${workflowRunId}.jsonl`);
 }
 
+/**
+ * Read all events of a workflow run's log, oldest first.
+ * Lines that are not valid JSON (e.g. a partial write) are skipped.
+ *
+ * @returns The events, or null when the run has no log in this working directory
+ */
+export async function readWorkflowEvents(
+  cwd: string,
+  workflowRunId: string
+): Promise<WorkflowEvent[] | null> {
+  let content: string;
+  try {
+    content = await readFile(getLogPath(cwd, workflowRunId), 'utf-8');
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  const events: WorkflowEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      events.push(JSON.parse(line) as WorkflowEvent);
+    } catch {
+      // Partial line from an interrupted write
+    }
+  }
+  return events;
+}
+
 /**
  * Append event to workflow log
  */
@@ -93,19 +158,54 @@ export async function logWorkflowStart(
   });
 }
 
+/**
+ * Log workflow resumption after an interruption (process restart) or an approval
+ */
+export async function logWorkflowResume(
+  cwd: string,
+  workflowRunId: string,
+  workflowName: string,
+  stepIndex: number
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'workflow_resume',
+    workflow_name: workflowName,
+    step_index: stepIndex,
+  });
+}
+
+/**
+ * Log an approval gate pausing the run
+ */
+export async function logApprovalRequested(
+  cwd: string,
+  workflowRunId: string,
+  stepIndex: number,
+  message: string
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'approval_requested',
+    step_index: stepIndex,
+    content: message,
+  });
+}
+
 /**
  * Log step start
+ * @param model - `<provider>/<model>` an AI step runs on
  */
 export async function logStepStart(
   cwd: string,
   workflowRunId: string,
   stepName: string,
-  stepIndex: number
+  stepIndex: number,
+  model?: string
 ): Promise<void> {
   await logWorkflowEvent(cwd, workflowRunId, {
     type: 'step_start',
     step: stepName,
     step_index: stepIndex,
+    ...(model ? { model } : {}),
   });
 }
 
@@ -125,36 +225,140 @@ export async function logStepComplete(
   });
 }
 
+/**
+ * Log the result of a shell step's command (one event per attempt)
+ */
+export async function logShellCommand(
+  cwd: string,
+  workflowRunId: string,
+  stepName: string,
+  stepIndex: number,
+  result: ShellCommandResult
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'shell_command',
+    step: stepName,
+    step_index: stepIndex,
+    exit_code: result.exitCode,
+    stdout: result.stdout,
+    stderr: result.stderr,
+    ...(result.timedOut ? { error: 'Command timed out' } : {}),
+  });
+}
+
+/**
+ * Log step skipped because its `when` condition was not met
+ */
+export async function logStepSkipped(
+  cwd: string,
+  workflowRunId: string,
+  stepName: string,
+  stepIndex: number,
+  condition: string
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'step_skipped',
+    step: stepName,
+    step_index: stepIndex,
+    condition,
+  });
+}
+
+/**
+ * Log a failed step attempt
+ */
+export async function logStepError(
+  cwd: string,
+  workflowRunId: string,
+  stepName: string,
+  stepIndex: number,
+  error: string,
+  attempt: number,
+  maxAttempts: number
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'step_error',
+    step: stepName,
+    step_index: stepIndex,
+    error,
+    attempt,
+    max_attempts: maxAttempts,
+  });
+}
+
+/**
+ * Log the start of a step retry attempt
+ */
+export async function logStepRetry(
+  cwd: string,
+  workflowRunId: string,
+  stepName: string,
+  stepIndex: number,
+  attempt: number,
+  maxAttempts: number
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'step_retry',
+    step: stepName,
+    step_index: stepIndex,
+    attempt,
+    max_attempts: maxAttempts,
+  });
+}
+
 /**
  * Log assistant message
+ * @param stepName - Step (or loop iteration) the message belongs to
  */
 export async function logAssistant(
   cwd: string,
   workflowRunId: string,
-  content: string
+  content: string,
+  stepName?: string
 ): Promise<void> {
   await logWorkflowEvent(cwd, workflowRunId, {
     type: 'assistant',
+    ...(stepName ? { step: stepName } : {}),
     content,
   });
 }
 
 /**
  * Log tool call
+ * @param stepName - Step (or loop iteration) that made the call
  */
 export async function logTool(
   cwd: string,
   workflowRunId: string,
   toolName: string,
-  toolInput: Record<string, unknown>
+  toolInput: Record<string, unknown>,
+  stepName?: string
 ): Promise<void> {
   await logWorkflowEvent(cwd, workflowRunId, {
     type: 'tool',
+    ...(stepName ? { step: stepName } : {}),
     tool_name: toolName,
     tool_input: toolInput,
   });
 }
 
+/**
+ * Log the token usage and cost of one AI query
+ * @param stepName - Step (or loop iteration) that made the query
+ */
+export async function logUsage(
+  cwd: string,
+  workflowRunId: string,
+  usage: TokenUsage,
+  stepName?: string
+): Promise<void> {
+  await logWorkflowEvent(cwd, workflowRunId, {
+    type: 'usage',
+    ...(stepName ? { step: stepName } : {}),
+    usage,
+  });
+}
+
 /**
  * Log workflow error
  */
@@ -195,17 +399,19 @@ export async function logParallelBlockStart(
 }
 
 /**
- * Log parallel block completion
+ * Log parallel block completion with per-step results and the aggregate
  */
 export async function logParallelBlockComplete(
   cwd: string,
   workflowRunId: string,
   blockIndex: number,
-  results: { command: string; success: boolean }[]
+  results: ParallelBlockStepResult[],
+  summary?: ParallelBlockSummary
 ): Promise<void> {
   await logWorkflowEvent(cwd, workflowRunId, {
     type: 'parallel_block_complete',
     block_index: blockIndex,
     results,
+    ...(summary ? { summary } : {}),
   });
 }
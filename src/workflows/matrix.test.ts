@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test';
+import { mapWithConcurrency, resolveForEachItems, substituteItem } from './matrix';
+
+describe('Matrix fan-out', () => {
+  const substitute = (text: string): string =>
+    text
+      .replace('$steps.changes.json.packages', '["api", {"name": "web"}, 3]')
+      .replace('$inputs.files', 'a.ts, b.ts\nc.ts,');
+
+  describe('resolveForEachItems', () => {
+    it('should substitute variables into literal items', () => {
+      expect(resolveForEachItems(['api', '$inputs.files'], substitute)).toEqual({
+        success: true,
+        items: ['api', 'a.ts, b.ts\nc.ts,'],
+      });
+    });
+
+    it('should parse JSON arrays and serialize non-string items', () => {
+      expect(resolveForEachItems('$steps.changes.json.packages', substitute)).toEqual({
+        success: true,
+        items: ['api', '{"name":"web"}', '3'],
+      });
+    });
+
+    it('should split comma and newline separated text', () => {
+      expect(resolveForEachItems('$inputs.files', substitute)).toEqual({
+        success: true,
+        items: ['a.ts', 'b.ts', 'c.ts'],
+      });
+    });
+
+    it('should resolve an empty value to no items', () => {
+      expect(resolveForEachItems('$steps.missing.json', () => '')).toEqual({
+        success: true,
+        items: [],
+      });
+    });
+
+    it('should reject malformed JSON arrays', () => {
+      const result = resolveForEachItems('[1, 2', text => text);
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error).toContain('not a valid JSON array');
+    });
+  });
+
+  describe('substituteItem', () => {
+    it('should substitute the item and fields of object items', () => {
+      const item = '{"name": "web", "owner": {"team": "ui"}}';
+
+      expect(substituteItem('$item.name by $item.owner.team ($item.missing)', item)).toBe(
+        'web by ui ()'
+      );
+      expect(substituteItem('Review $item.', 'api')).toBe('Review api.');
+    });
+
+    it('should leave longer variable names alone', () => {
+      expect(substituteItem('$items $item_count', 'api')).toBe('$items $item_count');
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should keep result order and cap the calls in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        inFlight--;
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3]);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should stop starting items after a rejection and settle the calls in flight', async () => {
+      const started: number[] = [];
+      const finished: number[] = [];
+
+      const call = mapWithConcurrency([5, 30, 5, 5], 2, async (ms, index) => {
+        started.push(index);
+        await new Promise(resolve => setTimeout(resolve, ms));
+        if (index === 0) throw new Error('boom');
+        finished.push(index);
+        return index;
+      });
+
+      await expect(call).rejects.toThrow('boom');
+      expect(started).toEqual([0, 1]);
+      expect(finished).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Matrix fan-out - run one instance of a parallel block's step per list item
+ *
+ *   - parallel:
+ *       - command: review-package
+ *     for_each: $steps.changes.json.packages
+ *     max_concurrency: 3
+ *
+ * `for_each` is a literal YAML list or a variable that resolves to a JSON array
+ * (`$steps.<id>.json.<field>`) or to comma/newline-separated text (`$inputs.<name>`).
+ * Each instance sees its item as `$item`; fields of object items as `$item.<field>`.
+ */
+import { getJsonField } from './outputs';
+
+/** Instances running at once when a for_each block does not set `max_concurrency` */
+export const DEFAULT_FOR_EACH_CONCURRENCY = 4;
+
+/** Pattern string for item variables - used to create fresh regex instances */
+const ITEM_VAR_PATTERN_STR = '\\$item((?:\\.[A-Za-z0-9_-]+)*)(?![A-Za-z0-9_])';
+
+/**
+ * Result of resolving a `for_each` source to its items
+ */
+export type ResolveItemsResult =
+  | { success: true; items: string[] }
+  | { success: false; error: string };
+
+/** Items are passed around as text; non-string JSON values are serialized */
+function itemToString(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Resolve a `for_each` source to its items.
+ *
+ * @param source - Literal list or variable expression from the workflow YAML
+ * @param substitute - Substitutes workflow variables ($inputs, $steps, ...) into text
+ */
+export function resolveForEachItems(
+  source: readonly string[] | string,
+  substitute: (text: string) => string
+): ResolveItemsResult {
+  if (typeof source !== 'string') {
+    return { success: true, items: source.map(substitute) };
+  }
+
+  const value = substitute(source).trim();
+  if (value.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value) as unknown;
+      if (Array.isArray(parsed)) {
+        return { success: true, items: parsed.map(itemToString) };
+      }
+    } catch {
+      // Reported below
+    }
+    return { success: false, error: `'for_each' value is not a valid JSON array: ${value}` };
+  }
+
+  return {
+    success: true,
+    items: value
+      .split(/[\n,]/)
+      .map(item => item.trim())
+      .filter(item => item.length > 0),
+  };
+}
+
+/**
+ * Substitute $item and $item.<field> variables. Fields are read from object items
+ * (JSON text); missing fields are replaced with an empty string.
+ */
+export function substituteItem(prompt: string, item: string): string {
+  return prompt.replace(
+    new RegExp(ITEM_VAR_PATTERN_STR, 'g'),
+    (_variable: string, fieldPath: string) => {
+      if (!fieldPath) return item;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(item) as unknown;
+      } catch {
+        return '';
+      }
+      const value = getJsonField(parsed, fieldPath.split('.').filter(Boolean));
+      return value === undefined || value === null ? '' : itemToString(value);
+    }
+  );
+}
+
+/**
+ * Map items through an async function with at most `limit` calls in flight.
+ * Results keep the order of the items. The first rejection stops new calls from starting,
+ * and the whole call rejects with it once the calls already in flight have settled.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const errors: unknown[] = [];
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (errors.length === 0 && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  if (errors.length > 0) {
+    throw errors[0] as Error;
+  }
+  return results;
+}
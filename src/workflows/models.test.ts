@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'bun:test';
+import { formatModelSelection, resolveModelSelection, resolveWorkflowModels } from './models';
+import type { WorkflowDefinition } from './types';
+
+describe('Model selection', () => {
+  const registry = { fast: 'claude/haiku', alt: 'codex/gpt-5', broken: 'other/model' };
+
+  describe('resolveModelSelection', () => {
+    it('should default to the workflow provider and model', () => {
+      expect(resolveModelSelection({}, undefined, registry)).toEqual({
+        success: true,
+        selection: { provider: 'claude' },
+      });
+      expect(
+        resolveModelSelection({ provider: 'claude', model: 'sonnet' }, { model: undefined }, {})
+      ).toEqual({ success: true, selection: { provider: 'claude', model: 'sonnet' } });
+    });
+
+    it('should resolve registry names and <provider>/<model> specs', () => {
+      expect(resolveModelSelection({ model: 'sonnet' }, { model: 'fast' }, registry)).toEqual({
+        success: true,
+        selection: { provider: 'claude', model: 'haiku' },
+      });
+      expect(resolveModelSelection({}, { model: 'alt' }, registry)).toEqual({
+        success: true,
+        selection: { provider: 'codex', model: 'gpt-5' },
+      });
+      expect(resolveModelSelection({}, { model: 'claude/opus' }, registry)).toEqual({
+        success: true,
+        selection: { provider: 'claude', model: 'opus' },
+      });
+    });
+
+    it('should not inherit the workflow model when a step changes provider', () => {
+      expect(
+        resolveModelSelection({ provider: 'claude', model: 'sonnet' }, { provider: 'codex' }, {})
+      ).toEqual({ success: true, selection: { provider: 'codex' } });
+    });
+
+    it('should reject unknown providers and conflicting step providers', () => {
+      const unknown = resolveModelSelection({}, { model: 'broken' }, registry);
+      expect(unknown.success).toBe(false);
+      expect(!unknown.success && unknown.error).toContain("Model 'broken'");
+
+      const conflict = resolveModelSelection({}, { provider: 'claude', model: 'alt' }, registry);
+      expect(!conflict.success && conflict.error).toBe(
+        "Model 'alt' runs on codex, but the step sets provider: claude"
+      );
+    });
+  });
+
+  describe('formatModelSelection', () => {
+    it('should include the model only when set', () => {
+      expect(formatModelSelection({ provider: 'claude', model: 'haiku' })).toBe('claude/haiku');
+      expect(formatModelSelection({ provider: 'codex' })).toBe('codex');
+    });
+  });
+
+  describe('resolveWorkflowModels', () => {
+    it('should resolve every AI step by id, including parallel and hook steps', () => {
+      const workflow: WorkflowDefinition = {
+        name: 'review',
+        description: 'Review',
+        model: 'sonnet',
+        steps: [
+          { command: 'scope', model: 'fast' },
+          { parallel: [{ command: 'review-a' }, { command: 'review-b', model: 'alt' }] },
+          { run: 'bun test' },
+        ],
+        finally: [{ command: 'summarize' }],
+      };
+
+      expect(resolveWorkflowModels(workflow, registry)).toEqual({
+        success: true,
+        models: {
+          scope: 'claude/haiku',
+          'review-a': 'claude/sonnet',
+          'review-b': 'codex/gpt-5',
+          summarize: 'claude/sonnet',
+        },
+      });
+    });
+
+    it('should report every invalid model', () => {
+      const workflow: WorkflowDefinition = {
+        name: 'loop',
+        description: 'Loop',
+        model: 'broken',
+        loop: { until: 'DONE', max_iterations: 2 },
+        prompt: 'Go',
+        on_failure: [{ command: 'report', model: 'broken' }],
+      };
+
+      const result = resolveWorkflowModels(workflow, registry);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.errors).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Model selection - which provider and model an AI step runs on
+ *
+ *   provider: claude
+ *   model: sonnet                  # workflow default
+ *   steps:
+ *     - command: pr-review-scope
+ *       model: fast                # name from the `models:` registry
+ *     - command: synthesize-review
+ *       model: claude/opus         # or <provider>/<model> directly
+ *
+ * The registry (`models:` in ~/.archon/config.yaml) maps names to `<provider>/<model>`.
+ * A bare model name runs on the step's provider, or the workflow's.
+ */
+import { getStepId } from './dag';
+import { isCommandStep, isParallelBlock } from './types';
+import type { AssistantProvider, CommandStep, WorkflowDefinition, WorkflowStep } from './types';
+
+const PROVIDERS: readonly AssistantProvider[] = ['claude', 'codex'];
+
+/**
+ * Provider and (optional) model for one AI query. Without a model the provider's
+ * default model is used.
+ */
+export interface ModelSelection {
+  provider: AssistantProvider;
+  model?: string;
+}
+
+/**
+ * Result of resolving a step's model
+ */
+export type ResolveModelResult =
+  | { success: true; selection: ModelSelection }
+  | { success: false; error: string };
+
+/**
+ * Check a provider name (also used by the loader)
+ */
+export function isAssistantProvider(value: unknown): value is AssistantProvider {
+  return PROVIDERS.includes(value as AssistantProvider);
+}
+
+/**
+ * Resolve the provider and model for an AI step (or a loop iteration when `step`
+ * is undefined). Step settings override the workflow's; a step that only changes
+ * the provider does not inherit the workflow's model.
+ *
+ * @param registry - Named models from the global config (`models:`)
+ */
+export function resolveModelSelection(
+  workflow: { provider?: AssistantProvider; model?: string },
+  step: { provider?: AssistantProvider; model?: string } | undefined,
+  registry: Readonly<Record<string, string>>
+): ResolveModelResult {
+  const workflowProvider = workflow.provider ?? 'claude';
+  const provider = step?.provider ?? workflowProvider;
+  const modelName = step?.model ?? (provider === workflowProvider ? workflow.model : undefined);
+  if (!modelName) {
+    return { success: true, selection: { provider } };
+  }
+
+  const spec = Object.hasOwn(registry, modelName) ? registry[modelName] : modelName;
+  const slash = spec.indexOf('/');
+  if (slash === -1) {
+    return { success: true, selection: { provider, model: spec } };
+  }
+
+  const specProvider = spec.slice(0, slash);
+  const model = spec.slice(slash + 1);
+  if (!isAssistantProvider(specProvider) || !model) {
+    return {
+      success: false,
+      error: `Model '${modelName}' must be <provider>/<model> with provider claude or codex (got "${spec}")`,
+    };
+  }
+  if (step?.provider && step.provider !== specProvider) {
+    return {
+      success: false,
+      error: `Model '${modelName}' runs on ${specProvider}, but the step sets provider: ${step.provider}`,
+    };
+  }
+  return { success: true, selection: { provider: specProvider, model } };
+}
+
+/**
+ * Format a selection as `<provider>/<model>` (just the provider for its default model)
+ */
+export function formatModelSelection(selection: ModelSelection): string {
+  return selection.model ? `${selection.provider}/${selection.model}` : selection.provider;
+}
+
+/**
+ * Resolve the model of every AI step in a workflow (including parallel, on_failure and
+ * finally steps), keyed by step id - `loop` for a loop workflow's iterations.
+ * Stored in the run metadata as `models`; errors are all reported at once.
+ */
+export function resolveWorkflowModels(
+  workflow: WorkflowDefinition,
+  registry: Readonly<Record<string, string>>
+): { success: true; models: Record<string, string> } | { success: false; errors: string[] } {
+  const models: Record<string, string> = {};
+  const errors: string[] = [];
+
+  const resolve = (key: string, step: CommandStep | undefined): void => {
+    const result = resolveModelSelection(workflow, step, registry);
+    if (result.success) {
+      models[key] = formatModelSelection(result.selection);
+    } else {
+      errors.push(`${step ? `Step "${key}"` : 'Loop'}: ${result.error}`);
+    }
+  };
+
+  if (workflow.loop) {
+    resolve('loop', undefined);
+  }
+  const steps: WorkflowStep[] = [
+    ...(workflow.steps ?? []).flatMap(step => (isParallelBlock(step) ? step.parallel : step)),
+    ...(workflow.on_failure ?? []),
+    ...(workflow.finally ?? []),
+  ];
+  for (const step of steps) {
+    if (isCommandStep(step)) {
+      resolve(getStepId(step), step);
+    }
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, models };
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'bun:test';
+import { extractJsonBlock, serializeStepOutputs, substituteStepOutputs } from './outputs';
+import type { StepOutcome } from './types';
+
+describe('Step outputs', () => {
+  describe('extractJsonBlock', () => {
+    it('should parse the last fenced json block', () => {
+      const output = 'First:\n```json\n{"a": 1}\n```\nFinal:\n```json\n{"a": 2}\n```';
+      expect(extractJsonBlock(output)).toEqual({ a: 2 });
+    });
+
+    it('should parse a message that is itself JSON', () => {
+      expect(extractJsonBlock('  {"verdict": "approve"}\n')).toEqual({ verdict: 'approve' });
+      expect(extractJsonBlock('[1, 2]')).toEqual([1, 2]);
+    });
+
+    it('should return undefined for plain text', () => {
+      expect(extractJsonBlock('No structured data here')).toBeUndefined();
+    });
+
+    it('should return undefined for malformed JSON', () => {
+      expect(extractJsonBlock('```json\n{"a": \n```')).toBeUndefined();
+    });
+  });
+
+  describe('substituteStepOutputs', () => {
+    const outcomes = new Map<string, StepOutcome>([
+      [
+        'plan',
+        {
+          status: 'completed',
+          output: 'The plan',
+          json: { risk: 'high', files: ['a.ts'], meta: { owner: 'team-a', count: 3 } },
+        },
+      ],
+      ['lint', { status: 'skipped', output: '' }],
+      ['tests', { status: 'completed', output: '12 passed', exit_code: 1, stderr: '1 flaky' }],
+    ]);
+
+    it('should substitute step output text', () => {
+      expect(substituteStepOutputs('Use $steps.plan.output.', outcomes)).toBe('Use The plan.');
+    });
+
+    it('should substitute JSON fields, serializing non-strings', () => {
+      expect(substituteStepOutputs('$steps.plan.json.risk', outcomes)).toBe('high');
+      expect(substituteStepOutputs('$steps.plan.json.files', outcomes)).toBe('["a.ts"]');
+      expect(substituteStepOutputs('$steps.plan.json.meta.owner', outcomes)).toBe('team-a');
+      expect(substituteStepOutputs('$steps.plan.json.meta.count', outcomes)).toBe('3');
+    });
+
+    it('should substitute the whole JSON value', () => {
+      expect(substituteStepOutputs('$steps.plan.json', outcomes)).toBe(
+        JSON.stringify(outcomes.get('plan')?.json)
+      );
+    });
+
+    it('should substitute shell step stdout, stderr and exit code', () => {
+      expect(
+        substituteStepOutputs(
+          '$steps.tests.stdout / $steps.tests.stderr / $steps.tests.exit_code',
+          outcomes
+        )
+      ).toBe('12 passed / 1 flaky / 1');
+      expect(substituteStepOutputs('[$steps.plan.exit_code]', outcomes)).toBe('[]');
+    });
+
+    it('should clear unknown steps, skipped steps and missing fields', () => {
+      expect(
+        substituteStepOutputs(
+          '[$steps.missing.output][$steps.lint.output][$steps.plan.json.nope.deeper]',
+          outcomes
+        )
+      ).toBe('[][][]');
+    });
+
+    it('should leave unrelated variables untouched', () => {
+      expect(substituteStepOutputs('$USER_MESSAGE and $steps', outcomes)).toBe(
+        '$USER_MESSAGE and $steps'
+      );
+    });
+  });
+
+  describe('serializeStepOutputs', () => {
+    it('should convert outcomes to a plain object keyed by step id', () => {
+      const outcomes = new Map<string, StepOutcome>([
+        ['plan', { status: 'completed', output: 'text' }],
+      ]);
+      expect(serializeStepOutputs(outcomes)).toEqual({
+        plan: { status: 'completed', output: 'text' },
+      });
+    });
+  });
+});
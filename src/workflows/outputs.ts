@@ -0,0 +1,128 @@
+/**
+ * Step outputs - named results that later steps read through prompt variables
+ *
+ * Each executed step stores its final assistant message under its id. When that
+ * message contains a fenced ```json block (or is itself a JSON document), the
+ * parsed value is stored alongside it so prompts can pick individual fields:
+ *
+ *   $steps.<id>.output        - final assistant message of the step
+ *   $steps.<id>.json          - the whole JSON value (serialized)
+ *   $steps.<id>.json.a.b      - a nested field (strings inserted as-is, others serialized)
+ *
+ * Shell steps store stdout as their output (JSON is read from it the same way) and add:
+ *
+ *   $steps.<id>.stdout / .stderr / .exit_code
+ */
+import type { StepOutcome } from './types';
+
+/** Last fenced JSON block in a message */
+const JSON_BLOCK_PATTERN = /```json\s*\n([\s\S]*?)```/g;
+
+/** Pattern string for step output variables - used to create fresh regex instances */
+const STEP_OUTPUT_VAR_PATTERN_STR =
+  '\\$steps\\.([A-Za-z0-9_-]+)\\.(?:(output|stdout|stderr|exit_code)|json((?:\\.[A-Za-z0-9_-]+)*))';
+
+/** Value of a $steps.<id>.<field> variable */
+function getOutputField(outcome: StepOutcome | undefined, field: string): string | undefined {
+  switch (field) {
+    case 'stderr':
+      return outcome?.stderr;
+    case 'exit_code':
+      return outcome?.exit_code !== undefined ? String(outcome.exit_code) : undefined;
+    default:
+      return outcome?.output; // output and stdout
+  }
+}
+
+/**
+ * Extract the JSON value a step emitted: the last ```json fenced block, or the
+ * whole message when it is a JSON object/array. Returns undefined when there is none
+ * or it fails to parse.
+ */
+export function extractJsonBlock(output: string): unknown {
+  const blocks = [...output.matchAll(JSON_BLOCK_PATTERN)];
+  const lastBlock = blocks.length > 0 ? blocks[blocks.length - 1][1] : undefined;
+  const trimmed = output.trim();
+  const candidate =
+    lastBlock ?? (trimmed.startsWith('{') || trimmed.startsWith('[') ? trimmed : undefined);
+
+  if (candidate === undefined) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(candidate) as unknown;
+  } catch {
+    console.warn('[WorkflowOutputs] Ignoring malformed JSON block in step output', {
+      preview: candidate.slice(0, 100),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Walk a dotted field path into a JSON value
+ */
+export function getJsonField(value: unknown, fieldPath: readonly string[]): unknown {
+  let current = value;
+  for (const field of fieldPath) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[field];
+  }
+  return current;
+}
+
+/**
+ * Substitute $steps.<id>.output, $steps.<id>.json[.field...] and the shell step
+ * variables.
+ *
+ * References to steps that have not produced output (not run yet, skipped, failed
+ * or missing JSON fields) are replaced with an empty string so the AI never sees
+ * the literal variable.
+ */
+export function substituteStepOutputs(
+  prompt: string,
+  stepOutcomes: ReadonlyMap<string, StepOutcome>
+): string {
+  const unresolved: string[] = [];
+
+  const result = prompt.replace(
+    new RegExp(STEP_OUTPUT_VAR_PATTERN_STR, 'g'),
+    (variable: string, stepId: string, field: string | undefined, fieldPath: string) => {
+      const outcome = stepOutcomes.get(stepId);
+
+      if (field) {
+        const value = getOutputField(outcome, field);
+        if (outcome?.status !== 'completed' || value === undefined) unresolved.push(variable);
+        return value ?? '';
+      }
+
+      const value = getJsonField(outcome?.json, fieldPath.split('.').filter(Boolean));
+      if (value === undefined || value === null) {
+        unresolved.push(variable);
+        return '';
+      }
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    }
+  );
+
+  if (unresolved.length > 0) {
+    console.log('[WorkflowOutputs] Step output variables without a value', {
+      action: 'clearing variables',
+      variables: unresolved,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Serialize step outcomes for persistence in the workflow run metadata
+ */
+export function serializeStepOutputs(
+  stepOutcomes: ReadonlyMap<string, StepOutcome>
+): Record<string, StepOutcome> {
+  return Object.fromEntries(stepOutcomes);
+}
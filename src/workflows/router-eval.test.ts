@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  compareWithBaseline,
+  createRecordedClient,
+  formatRouterEvalReport,
+  hashRouterPrompt,
+  parseRouterEvalCorpus,
+  runRouterEval,
+  toRouterEvalBaseline,
+} from './router-eval';
+import type { RouterEvalCase } from './router-eval';
+import { buildRouterPrompt } from './router';
+import type { WorkflowDefinition } from './types';
+import type { IAssistantClient, MessageChunk } from '../types';
+
+describe('Router evaluation', () => {
+  const workflows: WorkflowDefinition[] = [
+    {
+      name: 'assist',
+      description: 'General help',
+      steps: [{ command: 'assist' }],
+    },
+    {
+      name: 'fix-issue',
+      description: 'Fix a GitHub issue',
+      steps: [{ command: 'fix' }],
+    },
+    {
+      name: 'pr-review',
+      description: 'Review a PR',
+      steps: [{ command: 'review' }],
+      triggers: { patterns: ['^review\\b'], target: 'pr' },
+    },
+  ];
+
+  /** A client answering each message with a canned decision */
+  function fakeClient(decisions: Record<string, string>): IAssistantClient {
+    return {
+      getType: () => 'fake',
+      async *sendQuery(prompt: string): AsyncGenerator<MessageChunk> {
+        const message = Object.keys(decisions).find(key => prompt.includes(`"${key}"`));
+        if (!message) throw new Error('Unexpected prompt');
+        yield { type: 'thinking', content: 'Routing...' };
+        yield { type: 'assistant', content: decisions[message] };
+      },
+    };
+  }
+
+  const decision = (workflow: string | null, confidence: number): string =>
+    JSON.stringify({ workflow, confidence, rationale: 'Because' });
+
+  const cases: RouterEvalCase[] = [
+    {
+      id: 'review',
+      message: 'review this',
+      context: { workflowType: 'pr' },
+      expected_workflow: 'pr-review',
+    },
+    { id: 'fix', message: 'fix issue 12', expected_workflow: 'fix-issue' },
+    { id: 'question', message: 'what does this do?', expected_workflow: 'assist' },
+    { id: 'vague', message: 'do the thing', expected_workflow: 'clarify' },
+  ];
+
+  describe('parseRouterEvalCorpus', () => {
+    it('should parse YAML and JSONL, defaulting ids to the message', () => {
+      const yaml = parseRouterEvalCorpus(
+        '- message: fix issue 12\n  context: { platformType: github }\n  expected_workflow: fix-issue\n',
+        'yaml'
+      );
+      const jsonl = parseRouterEvalCorpus(
+        '{"id": "q1", "message": "what?", "expected_workflow": "assist"}\n\n',
+        'jsonl'
+      );
+
+      expect(yaml).toEqual({
+        success: true,
+        cases: [
+          {
+            id: 'fix issue 12',
+            message: 'fix issue 12',
+            context: { platformType: 'github' },
+            expected_workflow: 'fix-issue',
+          },
+        ],
+      });
+      expect(jsonl.success && jsonl.cases[0].id).toBe('q1');
+    });
+
+    it('should report invalid and duplicate cases', () => {
+      const result = parseRouterEvalCorpus(
+        '- message: hi\n- expected_workflow: assist\n- message: a\n  expected_workflow: assist\n- message: a\n  expected_workflow: assist\n',
+        'yaml'
+      );
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          "Case 1: missing 'expected_workflow'",
+          "Case 2: missing 'message'",
+          'Case 4: duplicate case "a" - give one of them an \'id\'',
+        ],
+      });
+      expect(parseRouterEvalCorpus('message: hi', 'yaml')).toEqual({
+        success: false,
+        errors: ['Corpus must be a list of cases'],
+      });
+    });
+  });
+
+  describe('runRouterEval', () => {
+    it('should score rule matches, confident picks and clarifications', async () => {
+      const client = fakeClient({
+        'fix issue 12': decision('fix-issue', 0.9),
+        'what does this do?': decision('fix-issue', 0.8),
+        'do the thing': decision('assist', 0.3),
+      });
+
+      const report = await runRouterEval(cases, workflows, client, {
+        cwd: '/repo',
+        threshold: 0.6,
+      });
+
+      expect(report.results.map(result => [result.id, result.actual, result.path])).toEqual([
+        ['review', 'pr-review', 'rule'],
+        ['fix', 'fix-issue', 'llm'],
+        ['question', 'fix-issue', 'llm'],
+        ['vague', 'clarify', 'llm'],
+      ]);
+      expect(report.correct).toBe(3);
+      expect(report.accuracy).toBe(0.75);
+      expect(report.confusion).toEqual({
+        'pr-review': { 'pr-review': 1 },
+        'fix-issue': { 'fix-issue': 1 },
+        assist: { 'fix-issue': 1 },
+        clarify: { clarify: 1 },
+      });
+    });
+
+    it('should record responses and replay them with the recorded client', async () => {
+      const recordings = new Map<string, string>();
+      await runRouterEval(
+        cases.slice(1, 2),
+        workflows,
+        fakeClient({ 'fix issue 12': decision('fix-issue', 0.9) }),
+        {
+          cwd: '/repo',
+          threshold: 0.6,
+          onResponse: (prompt, response) => recordings.set(hashRouterPrompt(prompt), response),
+        }
+      );
+
+      expect([...recordings.keys()]).toEqual([
+        hashRouterPrompt(buildRouterPrompt('fix issue 12', workflows)),
+      ]);
+      const replayed = await runRouterEval(
+        cases.slice(1, 3),
+        workflows,
+        createRecordedClient(recordings),
+        {
+          cwd: '/repo',
+          threshold: 0.6,
+        }
+      );
+      expect(replayed.results[0].actual).toBe('fix-issue');
+      expect(replayed.results[1]).toMatchObject({
+        actual: 'unrecorded',
+        error: 'No recorded response for this prompt (descriptions changed?)',
+      });
+      expect(replayed.unrecorded).toBe(1);
+
+      // Missing recordings are listed on their own, not as misroutes or regressions
+      const comparison = compareWithBaseline(replayed, {
+        accuracy: 1,
+        outcomes: { fix: 'fix-issue', question: 'assist' },
+      });
+      expect(comparison.regressions).toEqual([]);
+      const output = formatRouterEvalReport(replayed, comparison);
+      expect(output).not.toContain('Misrouted:');
+      expect(output).toContain(
+        'No recorded response (record again with --assistant <name> --record):\n  - question'
+      );
+    });
+  });
+
+  describe('compareWithBaseline', () => {
+    it('should list regressions and fixes, ignoring new cases', async () => {
+      const client = fakeClient({
+        'fix issue 12': decision('assist', 0.9),
+        'what does this do?': decision('assist', 0.9),
+        'do the thing': decision(null, 0),
+      });
+      const report = await runRouterEval(cases, workflows, client, {
+        cwd: '/repo',
+        threshold: 0.6,
+      });
+      const baseline = {
+        accuracy: 0.5,
+        outcomes: { fix: 'fix-issue', question: 'fix-issue', review: 'pr-review' },
+      };
+
+      const comparison = compareWithBaseline(report, baseline);
+
+      expect(comparison.regressions.map(result => result.id)).toEqual(['fix']);
+      expect(comparison.fixes.map(result => result.id)).toEqual(['question']);
+      expect(toRouterEvalBaseline(report).outcomes).toEqual({
+        review: 'pr-review',
+        fix: 'assist',
+        question: 'assist',
+        vague: 'clarify',
+      });
+
+      const output = formatRouterEvalReport(report, comparison);
+      expect(output).toContain('Accuracy: 75.0% (3/4, 1 routed by trigger rules)');
+      expect(output).toContain('Baseline: 50.0% (+25.0 points)');
+      expect(output).toContain('Regressions against the baseline:');
+      expect(output).toContain(
+        '  - fix: expected fix-issue, got assist (llm, confidence 0.90) - Because'
+      );
+      expect(output).toContain('Fixed since the baseline:');
+    });
+  });
+});
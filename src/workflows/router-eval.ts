@@ -0,0 +1,379 @@
+/**
+ * Router evaluation - measures how well the workflow router picks workflows for a
+ * labeled corpus of messages, so changes to workflow descriptions become measurable
+ *
+ *   - message: review this PR
+ *     context: { platformType: github, workflowType: pr }
+ *     expected_workflow: comprehensive-pr-review
+ *
+ * Each message is routed like the orchestrator does: trigger rules first, then the AI
+ * router prompt through an assistant client - a real one, or a recorded one that replays
+ * saved responses. Reports carry the accuracy, a confusion matrix and the cases that
+ * changed against a saved baseline. Run it with `bun run eval:router`.
+ */
+import { createHash } from 'crypto';
+import type { IAssistantClient, MessageChunk } from '../types';
+import type { WorkflowDefinition } from './types';
+import { buildRouterPrompt, matchWorkflowTriggers, parseRouterDecision } from './router';
+import type { RouterContext } from './router';
+
+/** Outcome when the AI router is not confident enough and would ask the user */
+export const CLARIFY_OUTCOME = 'clarify';
+
+/** Outcome when the router produced no usable decision */
+export const NO_DECISION_OUTCOME = 'none';
+
+/** Outcome when a replay has no recorded response for the case's prompt */
+export const UNRECORDED_OUTCOME = 'unrecorded';
+
+/**
+ * One labeled message of the corpus
+ */
+export interface RouterEvalCase {
+  id: string; // Defaults to the message
+  message: string;
+  context?: RouterContext;
+  expected_workflow: string; // A workflow name, or 'clarify' for genuinely ambiguous messages
+}
+
+/**
+ * How the router handled one case
+ */
+export interface RouterEvalResult {
+  id: string;
+  expected: string;
+  actual: string; // Workflow name, 'clarify', 'none' or 'unrecorded'
+  path: 'rule' | 'llm';
+  confidence?: number;
+  rationale?: string;
+  error?: string;
+}
+
+/**
+ * Results of a whole corpus
+ */
+export interface RouterEvalReport {
+  total: number;
+  correct: number;
+  unrecorded: number; // Cases a replay had no response for - not scored as routes
+  accuracy: number; // 0-1
+  results: RouterEvalResult[];
+  confusion: Record<string, Record<string, number>>; // expected -> actual -> count
+}
+
+/**
+ * What a saved baseline records - the outcome of every case
+ */
+export interface RouterEvalBaseline {
+  accuracy: number;
+  outcomes: Record<string, string>; // case id -> actual
+}
+
+/**
+ * Cases whose correctness changed against a baseline
+ */
+export interface RouterEvalComparison {
+  baselineAccuracy: number;
+  regressions: RouterEvalResult[]; // Correct in the baseline, wrong now
+  fixes: RouterEvalResult[]; // Wrong in the baseline, correct now
+}
+
+/**
+ * Result of parsing a corpus file
+ */
+export type ParseRouterEvalCorpusResult =
+  | { success: true; cases: RouterEvalCase[] }
+  | { success: false; errors: string[] };
+
+/**
+ * Parse a corpus - a YAML list of cases, or JSONL with one case per line
+ * @param format - 'yaml' or 'jsonl' (from the file extension)
+ */
+export function parseRouterEvalCorpus(
+  content: string,
+  format: 'yaml' | 'jsonl'
+): ParseRouterEvalCorpusResult {
+  let entries: unknown[];
+  try {
+    if (format === 'jsonl') {
+      entries = content
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as unknown);
+    } else {
+      const parsed = Bun.YAML.parse(content);
+      if (!Array.isArray(parsed)) {
+        return { success: false, errors: ['Corpus must be a list of cases'] };
+      }
+      entries = parsed as unknown[];
+    }
+  } catch (error) {
+    return { success: false, errors: [`Invalid ${format}: ${(error as Error).message}`] };
+  }
+
+  const errors: string[] = [];
+  const cases: RouterEvalCase[] = [];
+  const seen = new Set<string>();
+  for (const [index, entry] of entries.entries()) {
+    const label = `Case ${String(index + 1)}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${label}: must be a mapping with 'message' and 'expected_workflow'`);
+      continue;
+    }
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw.message !== 'string' || !raw.message.trim()) {
+      errors.push(`${label}: missing 'message'`);
+      continue;
+    }
+    if (typeof raw.expected_workflow !== 'string' || !raw.expected_workflow.trim()) {
+      errors.push(`${label}: missing 'expected_workflow'`);
+      continue;
+    }
+    if (
+      raw.context !== undefined &&
+      (!raw.context || typeof raw.context !== 'object' || Array.isArray(raw.context))
+    ) {
+      errors.push(`${label}: 'context' must be a mapping of router context fields`);
+      continue;
+    }
+    const id = typeof raw.id === 'string' && raw.id ? raw.id : raw.message;
+    if (seen.has(id)) {
+      errors.push(`${label}: duplicate case "${id}" - give one of them an 'id'`);
+      continue;
+    }
+    seen.add(id);
+    cases.push({
+      id,
+      message: raw.message,
+      context: raw.context as RouterContext | undefined,
+      expected_workflow: raw.expected_workflow.trim(),
+    });
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, cases };
+}
+
+/**
+ * Key of a router prompt in a recording - the prompt changes with every description edit
+ */
+export function hashRouterPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex');
+}
+
+/**
+ * Error thrown by the recorded client for a prompt it has no response for
+ */
+export class MissingRecordingError extends Error {
+  constructor() {
+    super('No recorded response for this prompt (descriptions changed?)');
+    this.name = 'MissingRecordingError';
+  }
+}
+
+/**
+ * An assistant client that replays recorded router responses instead of calling a model
+ * @param recordings - Responses keyed by hashRouterPrompt of their prompt
+ */
+export function createRecordedClient(recordings: ReadonlyMap<string, string>): IAssistantClient {
+  return {
+    getType: () => 'recorded',
+    async *sendQuery(prompt: string): AsyncGenerator<MessageChunk> {
+      const response = recordings.get(hashRouterPrompt(prompt));
+      if (response === undefined) {
+        throw new MissingRecordingError();
+      }
+      yield { type: 'assistant', content: response };
+    },
+  };
+}
+
+/**
+ * Options for runRouterEval
+ */
+export interface RunRouterEvalOptions {
+  cwd: string; // Working directory for the assistant
+  threshold: number; // Router confidence threshold (workflows.routerConfidenceThreshold)
+  model?: string;
+  /** Called with every router prompt and response - used to record them */
+  onResponse?: (prompt: string, response: string) => void;
+}
+
+/**
+ * Route one case like the orchestrator: trigger rules, then the AI router
+ */
+async function evaluateCase(
+  testCase: RouterEvalCase,
+  workflows: WorkflowDefinition[],
+  client: IAssistantClient,
+  options: RunRouterEvalOptions
+): Promise<RouterEvalResult> {
+  const base = { id: testCase.id, expected: testCase.expected_workflow };
+  const match = matchWorkflowTriggers(testCase.message, workflows, testCase.context);
+  if (match) {
+    return { ...base, actual: match.workflow.name, path: 'rule', rationale: match.reason };
+  }
+
+  const prompt = buildRouterPrompt(testCase.message, workflows, testCase.context);
+  let response = '';
+  try {
+    for await (const chunk of client.sendQuery(prompt, options.cwd, undefined, {
+      model: options.model,
+    })) {
+      if (chunk.type === 'assistant' && chunk.content) {
+        response += chunk.content;
+      }
+    }
+  } catch (error) {
+    const actual =
+      error instanceof MissingRecordingError ? UNRECORDED_OUTCOME : NO_DECISION_OUTCOME;
+    return { ...base, actual, path: 'llm', error: (error as Error).message };
+  }
+  options.onResponse?.(prompt, response);
+
+  const decision = parseRouterDecision(response, workflows);
+  if (!decision) {
+    return { ...base, actual: NO_DECISION_OUTCOME, path: 'llm', error: 'No JSON decision' };
+  }
+  const confident = decision.workflow && decision.confidence >= options.threshold;
+  return {
+    ...base,
+    actual: confident && decision.workflow ? decision.workflow.name : CLARIFY_OUTCOME,
+    path: 'llm',
+    confidence: decision.confidence,
+    rationale: decision.rationale,
+  };
+}
+
+/**
+ * Route every case of a corpus and score the outcomes. Cases run one at a time, like
+ * messages of one conversation.
+ */
+export async function runRouterEval(
+  cases: readonly RouterEvalCase[],
+  workflows: WorkflowDefinition[],
+  client: IAssistantClient,
+  options: RunRouterEvalOptions
+): Promise<RouterEvalReport> {
+  const results: RouterEvalResult[] = [];
+  for (const testCase of cases) {
+    results.push(await evaluateCase(testCase, workflows, client, options));
+  }
+
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const { expected, actual } of results) {
+    confusion[expected] ??= {};
+    confusion[expected][actual] = (confusion[expected][actual] ?? 0) + 1;
+  }
+  const correct = results.filter(result => result.actual === result.expected).length;
+  return {
+    total: results.length,
+    correct,
+    unrecorded: results.filter(result => result.actual === UNRECORDED_OUTCOME).length,
+    accuracy: results.length > 0 ? correct / results.length : 0,
+    results,
+    confusion,
+  };
+}
+
+/**
+ * The baseline to save for a report
+ */
+export function toRouterEvalBaseline(report: RouterEvalReport): RouterEvalBaseline {
+  return {
+    accuracy: report.accuracy,
+    outcomes: Object.fromEntries(report.results.map(result => [result.id, result.actual])),
+  };
+}
+
+/**
+ * Compare a report with a saved baseline. Cases missing from the baseline are new and
+ * count as neither regressions nor fixes, like cases a replay has no recording for.
+ */
+export function compareWithBaseline(
+  report: RouterEvalReport,
+  baseline: RouterEvalBaseline
+): RouterEvalComparison {
+  const regressions: RouterEvalResult[] = [];
+  const fixes: RouterEvalResult[] = [];
+  for (const result of report.results) {
+    const before = baseline.outcomes[result.id] as string | undefined;
+    if (before === undefined || result.actual === UNRECORDED_OUTCOME) continue;
+    const wasCorrect = before === result.expected;
+    const isCorrect = result.actual === result.expected;
+    if (wasCorrect && !isCorrect) regressions.push(result);
+    if (!wasCorrect && isCorrect) fixes.push(result);
+  }
+  return { baselineAccuracy: baseline.accuracy, regressions, fixes };
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatOutcome(result: RouterEvalResult): string {
+  const confidence =
+    result.confidence !== undefined ? `, confidence ${result.confidence.toFixed(2)}` : '';
+  const detail = result.error ?? result.rationale;
+  return `  - ${result.id}: expected ${result.expected}, got ${result.actual} (${result.path}${confidence})${detail ? ` - ${detail}` : ''}`;
+}
+
+/**
+ * Format a report (and its comparison with the baseline) for the terminal
+ */
+export function formatRouterEvalReport(
+  report: RouterEvalReport,
+  comparison?: RouterEvalComparison
+): string {
+  const ruleCount = report.results.filter(result => result.path === 'rule').length;
+  const unrecorded = report.unrecorded > 0 ? `, ${String(report.unrecorded)} unrecorded` : '';
+  const lines = [
+    `Accuracy: ${formatPercent(report.accuracy)} (${String(report.correct)}/${String(report.total)}, ${String(ruleCount)} routed by trigger rules${unrecorded})`,
+  ];
+  if (comparison) {
+    const delta = report.accuracy - comparison.baselineAccuracy;
+    lines.push(
+      `Baseline: ${formatPercent(comparison.baselineAccuracy)} (${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)} points)`
+    );
+  }
+
+  // Confusion matrix - one row per expected workflow, one column per outcome
+  const expected = Object.keys(report.confusion).sort();
+  const actual = [
+    ...new Set(Object.values(report.confusion).flatMap(row => Object.keys(row))),
+  ].sort();
+  const width = Math.max(8, ...[...expected, ...actual].map(name => name.length));
+  const cell = (text: string): string => text.padStart(width);
+  lines.push('', 'Confusion matrix (rows: expected, columns: actual):');
+  lines.push(`${''.padEnd(width)} ${actual.map(cell).join(' ')}`);
+  for (const name of expected) {
+    const row = actual.map(column => cell(String(report.confusion[name][column] ?? 0)));
+    lines.push(`${name.padEnd(width)} ${row.join(' ')}`);
+  }
+
+  const misses = report.results.filter(
+    result => result.actual !== result.expected && result.actual !== UNRECORDED_OUTCOME
+  );
+  if (misses.length > 0) {
+    lines.push('', 'Misrouted:', ...misses.map(formatOutcome));
+  }
+  if (report.unrecorded > 0) {
+    lines.push(
+      '',
+      'No recorded response (record again with --assistant <name> --record):',
+      ...report.results
+        .filter(result => result.actual === UNRECORDED_OUTCOME)
+        .map(result => `  - ${result.id}`)
+    );
+  }
+  if (comparison?.regressions.length) {
+    lines.push(
+      '',
+      'Regressions against the baseline:',
+      ...comparison.regressions.map(formatOutcome)
+    );
+  }
+  if (comparison?.fixes.length) {
+    lines.push('', 'Fixed since the baseline:', ...comparison.fixes.map(formatOutcome));
+  }
+  return lines.join('\n');
+}
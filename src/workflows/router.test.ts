@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'bun:test';
-import { buildRouterPrompt, parseWorkflowInvocation, findWorkflow } from './router';
+import {
+  buildRouterPrompt,
+  parseRouterDecision,
+  resolveClarificationReply,
+  findWorkflow,
+  matchWorkflowTriggers,
+} from './router';
 import type { WorkflowDefinition } from './types';
 import type { RouterContext } from './router';
 
@@ -41,8 +47,8 @@ describe('Workflow Router', () => {
       expect(result).toContain('**add-feature**');
       expect(result).toContain('Add a new feature');
       expect(result).toContain('Help me fix this bug');
-      expect(result).toContain('/invoke-workflow');
-      expect(result).toContain('You MUST pick a workflow');
+      expect(result).toContain('"confidence"');
+      expect(result).toContain('never force a pick');
     });
 
     it('should include user message in request section', () => {
@@ -94,134 +100,145 @@ Capability: Full Claude Code agent.`,
     });
   });
 
-  describe('parseWorkflowInvocation', () => {
-    it('should detect /invoke-workflow pattern at start', () => {
-      const response = `/invoke-workflow feature-development
-The user wants to add a new authentication system.`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBe('feature-development');
-      expect(result.remainingMessage).toContain('authentication system');
-    });
-
-    it('should return null workflow when no /invoke-workflow pattern', () => {
-      const response = `I can help you with that. Let me explain how to add authentication.`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBeNull();
-      expect(result.remainingMessage).toBe(response);
-    });
-
-    it('should return null workflow when workflow name not found', () => {
-      const response = `/invoke-workflow non-existent-workflow
-Some intent here.`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBeNull();
-      expect(result.remainingMessage).toBe(response);
-    });
-
-    it('should extract remainingMessage from text after /invoke-workflow', () => {
-      const response = `/invoke-workflow fix-bug
-The user wants to fix issue X.
-They mentioned it should work with Y.`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBe('fix-bug');
-      expect(result.remainingMessage).toContain('fix issue X');
-      expect(result.remainingMessage).toContain('work with Y');
-    });
-
-    it('should handle /invoke-workflow with extra whitespace', () => {
-      const response = `/invoke-workflow   fix-bug
-Intent text here.`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBe('fix-bug');
-    });
-
-    it('should handle /invoke-workflow with no text after', () => {
-      const response = `/invoke-workflow add-feature`;
+  describe('buildRouterPrompt with inputs', () => {
+    it('should list declared inputs under the workflow', () => {
+      const workflows: WorkflowDefinition[] = [
+        {
+          name: 'fix-github-issue',
+          description: 'Fix a GitHub issue',
+          inputs: [
+            { name: 'issue', type: 'number', required: true, description: 'Issue number' },
+            { name: 'strict', type: 'boolean', default: false },
+          ],
+          steps: [{ command: 'fix' }],
+        },
+      ];
 
-      const result = parseWorkflowInvocation(response, testWorkflows);
+      const prompt = buildRouterPrompt('fix issue 42', workflows);
 
-      expect(result.workflowName).toBe('add-feature');
-      expect(result.remainingMessage).toBe('');
+      expect(prompt).toContain('Inputs:');
+      expect(prompt).toContain('`issue` (number, required) - Issue number');
+      expect(prompt).toContain('`strict` (boolean, default: false)');
+      expect(prompt).toContain('{"input-name": "value"}');
     });
+  });
 
-    it('should be case-insensitive for command pattern', () => {
-      const response = `/INVOKE-WORKFLOW fix-bug
-Some text`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBe('fix-bug');
+  describe('parseRouterDecision', () => {
+    const [fixBug, addFeature, featureDevelopment] = testWorkflows;
+
+    const fixIssue: WorkflowDefinition = {
+      name: 'fix-issue',
+      description: 'Fix a GitHub issue',
+      inputs: [
+        { name: 'issue', type: 'number', required: true },
+        { name: 'strict', type: 'boolean' },
+        { name: 'area', type: 'string' },
+        { name: 'ignored', type: 'string' },
+      ],
+      steps: [{ command: 'fix' }],
+    };
+
+    it('should parse a JSON decision', () => {
+      const response = JSON.stringify({
+        workflow: 'fix-issue',
+        confidence: 0.85,
+        inputs: { issue: 42, strict: true, area: 'login form', ignored: { nested: true } },
+        rationale: ' The login is broken ',
+        candidates: ['add-feature'],
+        question: '',
+      });
+
+      expect(parseRouterDecision(response, [...testWorkflows, fixIssue])).toEqual({
+        workflow: fixIssue,
+        confidence: 0.85,
+        inputs: { issue: '42', strict: 'true', area: 'login form' },
+        rationale: 'The login is broken',
+        candidates: [addFeature],
+      });
+    });
+
+    it('should drop inputs the chosen workflow does not declare or that do not fit its type', () => {
+      const decide = (workflow: string, inputs: Record<string, unknown>) =>
+        parseRouterDecision(JSON.stringify({ workflow, confidence: 0.9, inputs }), [
+          ...testWorkflows,
+          fixIssue,
+        ])?.inputs;
+
+      expect(decide('fix-bug', { issue: 42 })).toEqual({});
+      expect(decide('fix-issue', { issue: 42, branch: 'main', strict: 'maybe' })).toEqual({
+        issue: '42',
+      });
+    });
+
+    it('should find the decision inside a code fence or surrounding text', () => {
+      const json = '{"workflow": "fix-bug", "confidence": 0.9}';
+
+      for (const response of [
+        `\`\`\`json\n${json}\n\`\`\``,
+        `Let me analyze this request...\n${json}\nDone.`,
+      ]) {
+        expect(parseRouterDecision(response, testWorkflows)?.workflow).toBe(fixBug);
+      }
     });
 
-    it('should match /invoke-workflow at start of any line (multiline mode)', () => {
-      // AI models sometimes add analysis before the command, so we use multiline mode
-      // to match /invoke-workflow at the start of any line, not just the start of the message
-      const response = `Some text before
-/invoke-workflow fix-bug
-Some text after`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
+    it('should keep low-confidence decisions with their candidates and question', () => {
+      const response = JSON.stringify({
+        workflow: null,
+        confidence: 0.3,
+        candidates: ['add-feature', 'unknown', 'feature-development', 'add-feature'],
+        question: 'New feature or full feature workflow?',
+      });
 
-      expect(result.workflowName).toBe('fix-bug');
-      expect(result.remainingMessage).toBe('Some text after');
+      expect(parseRouterDecision(response, testWorkflows)).toMatchObject({
+        workflow: null,
+        confidence: 0.3,
+        candidates: [addFeature, featureDevelopment],
+        question: 'New feature or full feature workflow?',
+      });
     });
 
-    it('should handle workflow name with hyphens', () => {
-      const response = `/invoke-workflow feature-development
-Intent here`;
+    it('should drop unknown workflows', () => {
+      const response = '{"workflow": "non-existent-workflow", "confidence": 0.9}';
 
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBe('feature-development');
+      expect(parseRouterDecision(response, testWorkflows)?.workflow).toBeNull();
     });
 
-    it('should handle empty response', () => {
-      const result = parseWorkflowInvocation('', testWorkflows);
-
-      expect(result.workflowName).toBeNull();
-      expect(result.remainingMessage).toBe('');
+    it('should return null for replies without a valid decision', () => {
+      for (const response of [
+        'I can help you with that. What would you like to do?',
+        '/invoke-workflow fix-bug',
+        '{"answer": 42}',
+        '{"workflow": "fix-bug"}',
+        '{"workflow": "fix-bug", "confidence": 5}',
+        '{"workflow": "fix-bug", "confidence": 0.9',
+      ]) {
+        expect(parseRouterDecision(response, testWorkflows)).toBeNull();
+      }
     });
+  });
 
-    it('should handle response with only whitespace', () => {
-      const result = parseWorkflowInvocation('   \n\t  \n   ', testWorkflows);
+  describe('resolveClarificationReply', () => {
+    const candidates = ['fix-bug', 'add-feature', 'feature-development'];
 
-      expect(result.workflowName).toBeNull();
+    it('should pick a candidate by number', () => {
+      expect(resolveClarificationReply('2', candidates)).toBe('add-feature');
+      expect(resolveClarificationReply(' #3. ', candidates)).toBe('feature-development');
+      expect(resolveClarificationReply('4', candidates)).toBeNull();
     });
 
-    it('should handle /invoke-workflow: without name', () => {
-      const response = `/invoke-workflow
-No name provided`;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      // Pattern requires a name after the command
-      expect(result.workflowName).toBeNull();
+    it('should pick a candidate by name', () => {
+      expect(resolveClarificationReply('Add-Feature please', candidates)).toBe('add-feature');
+      expect(
+        resolveClarificationReply(
+          '[GitHub Issue Context]\nIssue #1: "fix-bug"\n\n---\n\nthe feature-development one',
+          candidates
+        )
+      ).toBe('feature-development');
     });
 
-    it('should preserve full intent text including code blocks', () => {
-      const response = `/invoke-workflow fix-bug
-User wants to fix this code:
-\`\`\`javascript
-function broken() {
-  return null;
-}
-\`\`\``;
-
-      const result = parseWorkflowInvocation(response, testWorkflows);
-
-      expect(result.workflowName).toBe('fix-bug');
-      expect(result.remainingMessage).toContain('```javascript');
-      expect(result.remainingMessage).toContain('function broken()');
+    it('should return null when the reply picks none or several', () => {
+      expect(resolveClarificationReply('never mind, add dark mode', candidates)).toBeNull();
+      expect(resolveClarificationReply('fix-bug or add-feature', candidates)).toBeNull();
     });
   });
 
@@ -387,4 +404,70 @@ function broken() {
       }
     });
   });
+
+  describe('matchWorkflowTriggers', () => {
+    const review: WorkflowDefinition = {
+      name: 'pr-review',
+      description: 'Review a PR',
+      steps: [{ command: 'review' }],
+      triggers: { patterns: ['^(code\\s+)?review\\b'], target: 'pr' },
+    };
+    const triage: WorkflowDefinition = {
+      name: 'triage',
+      description: 'Triage an issue',
+      steps: [{ command: 'triage' }],
+      triggers: { keywords: ['triage'], labels: ['Needs-Triage'], platforms: ['github'] },
+    };
+    const workflows = [...testWorkflows, review, triage];
+    const prContext: RouterContext = { platformType: 'github', workflowType: 'pr' };
+
+    it('should match patterns against the comment, not the GitHub context', () => {
+      const message =
+        '[GitHub Issue Context]\nIssue #42: "Review the docs"\nLabels: \n\nDescription:\nreview\n\n---\n\nreview';
+
+      expect(matchWorkflowTriggers(message, workflows, prContext)).toEqual({
+        workflow: review,
+        reason: 'pattern /^(code\\s+)?review\\b/',
+      });
+      expect(
+        matchWorkflowTriggers(message.replace(/review$/, 'what changed?'), workflows, prContext)
+      ).toBeNull();
+    });
+
+    it('should apply the target and platform filters', () => {
+      expect(matchWorkflowTriggers('review', workflows)).toBeNull();
+      expect(
+        matchWorkflowTriggers('review', workflows, {
+          platformType: 'github',
+          workflowType: 'issue',
+        })
+      ).toBeNull();
+      expect(
+        matchWorkflowTriggers('review', workflows, { platformType: 'github', isPullRequest: true })
+          ?.workflow
+      ).toBe(review);
+      expect(
+        matchWorkflowTriggers('please triage', workflows, { platformType: 'slack' })
+      ).toBeNull();
+    });
+
+    it('should match whole keywords and labels case-insensitively', () => {
+      const github: RouterContext = { platformType: 'github' };
+
+      expect(matchWorkflowTriggers('Please TRIAGE this', workflows, github)?.reason).toBe(
+        'keyword "triage"'
+      );
+      expect(matchWorkflowTriggers('the triaged bugs', workflows, github)).toBeNull();
+      expect(
+        matchWorkflowTriggers('look at this', workflows, { ...github, labels: ['needs-triage'] })
+          ?.reason
+      ).toBe('label "Needs-Triage"');
+    });
+
+    it('should leave the choice to the AI router when several workflows match', () => {
+      const labelled: RouterContext = { ...prContext, labels: ['needs-triage'] };
+
+      expect(matchWorkflowTriggers('review', workflows, labelled)).toBeNull();
+    });
+  });
 });
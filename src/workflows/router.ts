@@ -3,6 +3,8 @@
  */
 import type { WorkflowDefinition } from './types';
 import type { IsolationHints } from '../types';
+import { filterDeclaredInputs, formatInputDeclarations } from './inputs';
+import { escapeRegExp } from '../utils/regexp';
 
 /**
  * Optional context for router to make informed decisions.
@@ -61,7 +63,7 @@ function buildContextSection(context?: RouterContext): string {
 /**
  * Build the router prompt with available workflows and optional context.
  * Context helps the router make better routing decisions by understanding the situation.
- * Instructs AI to use /invoke-workflow command.
+ * Instructs AI to answer with a JSON decision (see parseRouterDecision).
  */
 export function buildRouterPrompt(
   userMessage: string,
@@ -77,7 +79,10 @@ export function buildRouterPrompt(
     .map(w => {
       // Format description, handling multi-line descriptions
       const desc = w.description.trim().replace(/\n/g, '\n  ');
-      return `**${w.name}**\n  ${desc}`;
+      const inputs = w.inputs?.length
+        ? `\n  Inputs:\n  ${formatInputDeclarations(w.inputs).replace(/\n/g, '\n  ')}`
+        : '';
+      return `**${w.name}**\n  ${desc}${inputs}`;
     })
     .join('\n\n');
 
@@ -114,66 +119,234 @@ ${workflowList}
    - "Fix this GitHub issue" (implement a solution to a tracked issue) → use "fix-github-issue"
    - Questions, exploration, explanations → use "assist"
    - PR reviews, code reviews → check for a PR review workflow in the list above
-5. If unsure, prefer "assist" (the catch-all)
-6. You MUST pick a workflow - never respond with just text
+5. Rate your confidence honestly. When the request could reasonably mean more than one workflow, give a low confidence and list the alternatives - the user is asked to choose, so never force a pick
 
 ## Response Format
 
-Your ENTIRE response must be ONLY this single line - no analysis, no explanation, no context:
-/invoke-workflow {workflow-name}
+Your ENTIRE response must be ONLY this JSON object - no analysis, no explanation, no code fence:
+{"workflow": "{workflow-name}", "confidence": 0.9, "inputs": {}, "rationale": "{one sentence}", "candidates": [], "question": ""}
+
+- workflow: the best matching workflow, or null when none fits
+- confidence: 0.0-1.0 - above 0.8 only when the request clearly matches, below 0.5 when it is ambiguous
+- inputs: values the request provides for the chosen workflow's inputs, as {"input-name": "value"}
+- rationale: why this workflow fits, in one sentence
+- candidates: up to 2 other workflows that could fit, best first ([] when none)
+- question: when unsure, a short question that would tell the candidates apart ("" otherwise)`;
+  // NOTE: We emphasize "ONLY this JSON object" because AI models sometimes add analysis
+  // around it. parseRouterDecision still finds the object inside surrounding text or a
+  // code fence, but cleaner output is preferred for GitHub comments.
+}
 
-Do NOT include any other text before or after. Just the command.`;
-  // NOTE: We emphasize "ONLY this single line" because AI models sometimes add analysis
-  // before the command. The parseWorkflowInvocation regex uses multiline mode as a fallback,
-  // but cleaner output is preferred for GitHub comments where the full response is posted.
+/**
+ * A workflow picked by its `triggers:` rules, with the rule that matched (for logging)
+ */
+export interface TriggerMatch {
+  workflow: WorkflowDefinition;
+  reason: string;
 }
 
+/** Separator between the GitHub issue/PR context and the user's comment */
+const GITHUB_CONTEXT_SEPARATOR = '\n---\n';
+
 /**
- * Result of parsing a message for workflow invocation
+ * Get the text triggers are matched against - for messages wrapped in GitHub
+ * issue/PR context, only the user's comment (the description could match anything)
  */
-export interface WorkflowInvocation {
-  workflowName: string | null;
-  remainingMessage: string;
+function getRequestText(message: string): string {
+  if (!message.startsWith('[GitHub ')) return message.trim();
+  const index = message.lastIndexOf(GITHUB_CONTEXT_SEPARATOR);
+  return index === -1
+    ? message.trim()
+    : message.slice(index + GITHUB_CONTEXT_SEPARATOR.length).trim();
+}
+
+/**
+ * Whether the conversation is about a pull request or an issue, or undefined outside GitHub.
+ * Isolation hints win over the context markers - comments on PRs carry issue context.
+ */
+function getTarget(context?: RouterContext): 'pr' | 'issue' | undefined {
+  const type = context?.workflowType;
+  if (type === 'pr' || type === 'review') return 'pr';
+  if (type === 'issue') return 'issue';
+  if (context?.isPullRequest === undefined) return undefined;
+  return context.isPullRequest ? 'pr' : 'issue';
+}
+
+/**
+ * Check one workflow's trigger rules - filters first, then patterns, keywords and labels
+ * @returns The rule that matched, or null
+ */
+function matchTriggers(
+  workflow: WorkflowDefinition,
+  text: string,
+  context?: RouterContext
+): string | null {
+  const triggers = workflow.triggers;
+  if (!triggers) return null;
+
+  if (triggers.platforms) {
+    const platform = context?.platformType?.toLowerCase();
+    if (!platform || !triggers.platforms.some(p => p.toLowerCase() === platform)) return null;
+  }
+  if (triggers.target && getTarget(context) !== triggers.target) return null;
+
+  for (const pattern of triggers.patterns ?? []) {
+    if (new RegExp(pattern, 'i').test(text)) return `pattern /${pattern}/`;
+  }
+  for (const keyword of triggers.keywords ?? []) {
+    // Whole words only - "review" does not match "preview"
+    if (new RegExp(`(^|\\W)${escapeRegExp(keyword.trim())}($|\\W)`, 'i').test(text)) {
+      return `keyword "${keyword}"`;
+    }
+  }
+  const labels = context?.labels?.map(label => label.toLowerCase()) ?? [];
+  for (const label of triggers.labels ?? []) {
+    if (labels.includes(label.toLowerCase())) return `label "${label}"`;
+  }
+  return null;
 }
 
 /**
- * Parse a message to detect /invoke-workflow command
+ * Pick a workflow by its `triggers:` rules, without asking the AI router.
+ * Returns null when no workflow's rules match, or when several do - the AI router decides then.
  */
-export function parseWorkflowInvocation(
+export function matchWorkflowTriggers(
   message: string,
+  workflows: WorkflowDefinition[],
+  context?: RouterContext
+): TriggerMatch | null {
+  const text = getRequestText(message);
+  const matches: TriggerMatch[] = [];
+  for (const workflow of workflows) {
+    const reason = matchTriggers(workflow, text, context);
+    if (reason) matches.push({ workflow, reason });
+  }
+
+  if (matches.length > 1) {
+    console.log(
+      `[Router] Trigger rules of several workflows match (${matches.map(m => m.workflow.name).join(', ')}), leaving the choice to the AI router`
+    );
+    return null;
+  }
+  return matches[0] ?? null;
+}
+
+/**
+ * The AI router's decision, parsed from its JSON reply
+ */
+export interface RouterDecision {
+  workflow: WorkflowDefinition | null; // null when the router found no (known) workflow
+  confidence: number; // 0-1
+  inputs: Record<string, string>; // Values for the workflow's inputs
+  rationale: string;
+  candidates: WorkflowDefinition[]; // Other plausible workflows, best first
+  question?: string; // Clarification question for ambiguous requests
+}
+
+/**
+ * Find the router's JSON object - the whole reply, a code fence or the outermost braces
+ * (models sometimes add analysis text despite the instructions)
+ */
+function extractJsonObject(response: string): Record<string, unknown> | null {
+  const trimmed = response.trim();
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)\n\s*```/.exec(trimmed)?.[1];
+  const braces = trimmed.slice(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1);
+  for (const text of [trimmed, fenced, braces]) {
+    if (!text) continue;
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse the AI router's JSON decision.
+ * Unknown workflow names are dropped (with a warning) rather than failing the decision,
+ * so the user can still be asked to pick among the known candidates. Likewise inputs the
+ * chosen workflow does not declare, or whose values do not fit the declared type.
+ *
+ * @returns The decision, or null when the reply holds no valid decision (e.g. a
+ * conversational answer)
+ */
+export function parseRouterDecision(
+  response: string,
   workflows: WorkflowDefinition[]
-): WorkflowInvocation {
-  const trimmed = message.trim();
-
-  // Check for /invoke-workflow pattern (at start of any line)
-  // Uses multiline flag ('m') because AI models sometimes add analysis text before the command
-  // despite instructions to only output the command. This ensures routing still works.
-  const match = /^\/invoke-workflow\s+(\S+)/im.exec(trimmed);
-
-  if (match) {
-    const workflowName = match[1];
-
-    // Validate workflow exists
-    const workflow = workflows.find(w => w.name === workflowName);
-
-    if (workflow) {
-      // Use match.index to handle multiline matches where command isn't at position 0
-      const remainingMessage = trimmed.slice(match.index + match[0].length).trim();
-      return {
-        workflowName,
-        remainingMessage,
-      };
+): RouterDecision | null {
+  const raw = extractJsonObject(response);
+  if (!raw || !('workflow' in raw)) {
+    return null;
+  }
+  if (typeof raw.confidence !== 'number' || raw.confidence < 0 || raw.confidence > 1) {
+    console.warn('[Router] Decision without a confidence between 0 and 1');
+    return null;
+  }
+
+  const findKnown = (name: unknown): WorkflowDefinition | undefined => {
+    if (typeof name !== 'string' || !name) return undefined;
+    const workflow = findWorkflow(name, workflows);
+    if (!workflow) {
+      console.warn(`[Router] Unknown workflow: ${name}`);
     }
+    return workflow;
+  };
 
-    console.warn(`[Router] Unknown workflow: ${workflowName}`);
+  const workflow = findKnown(raw.workflow) ?? null;
+  const candidates: WorkflowDefinition[] = [];
+  for (const name of Array.isArray(raw.candidates) ? (raw.candidates as unknown[]) : []) {
+    const candidate = findKnown(name);
+    if (candidate && candidate !== workflow && !candidates.includes(candidate)) {
+      candidates.push(candidate);
+    }
   }
 
+  const provided: Record<string, string> = {};
+  if (raw.inputs && typeof raw.inputs === 'object' && !Array.isArray(raw.inputs)) {
+    for (const [name, value] of Object.entries(raw.inputs as Record<string, unknown>)) {
+      if (['string', 'number', 'boolean'].includes(typeof value)) {
+        provided[name] = String(value);
+      }
+    }
+  }
+  // Only the chosen workflow's declared inputs - a guessed extra key must not stop it
+  const inputs = workflow ? filterDeclaredInputs(workflow.inputs, provided) : {};
+
+  const question = typeof raw.question === 'string' ? raw.question.trim() : '';
   return {
-    workflowName: null,
-    remainingMessage: message,
+    workflow,
+    confidence: raw.confidence,
+    inputs,
+    rationale: typeof raw.rationale === 'string' ? raw.rationale.trim() : '',
+    candidates,
+    ...(question ? { question } : {}),
   };
 }
 
+/**
+ * Pick the workflow a reply to a clarification question chose - by number ("2") or by name
+ * @param candidates - Workflow names offered, in the order they were listed
+ * @returns The chosen name, or null when the reply picks none (or several)
+ */
+export function resolveClarificationReply(
+  reply: string,
+  candidates: readonly string[]
+): string | null {
+  const text = getRequestText(reply);
+  const number = /^#?(\d+)[.)]?$/.exec(text)?.[1];
+  if (number) {
+    return candidates[Number(number) - 1] ?? null;
+  }
+  const named = candidates.filter(name =>
+    new RegExp(`(^|[^\\w-])${escapeRegExp(name)}($|[^\\w-])`, 'i').test(text)
+  );
+  return named.length === 1 ? named[0] : null;
+}
+
 /**
  * Find a workflow by name
  */
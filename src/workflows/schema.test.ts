@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'bun:test';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { WORKFLOW_SCHEMA_PATH, workflowJsonSchema } from './schema';
+
+describe('workflowJsonSchema', () => {
+  it('should match the published schema file', async () => {
+    const published = await readFile(
+      join(import.meta.dir, '..', '..', WORKFLOW_SCHEMA_PATH),
+      'utf-8'
+    );
+
+    // Run `bun run generate:schema` when this fails
+    expect(JSON.parse(published) as unknown).toEqual(workflowJsonSchema);
+  });
+
+  it('should resolve every $ref to a definition', () => {
+    const refs = JSON.stringify(workflowJsonSchema).match(/"\$ref":"[^"]+"/g) ?? [];
+    const definitions = Object.keys(workflowJsonSchema.definitions);
+
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      expect(definitions).toContain(ref.replace(/^"\$ref":"#\/definitions\//, '').slice(0, -1));
+    }
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * JSON Schema for workflow YAML files (`.archon/workflows/*.yaml`)
+ *
+ * Published as `schemas/workflow.schema.json` for editors and pre-commit hooks -
+ * regenerate it with `bun run generate:schema` after changing the workflow format.
+ * The schema checks the shape of a file; checks that need the whole workflow
+ * (unknown step references, dependency cycles, condition syntax) and the result of
+ * `extends:` are only checked by the loader (see validateWorkflowSource).
+ */
+
+/** Location of the published schema, relative to the repository root */
+export const WORKFLOW_SCHEMA_PATH = 'schemas/workflow.schema.json';
+
+const positiveNumber = { type: 'number', exclusiveMinimum: 0 };
+const positiveInteger = { type: 'integer', minimum: 1 };
+const nonEmptyString = { type: 'string', minLength: 1 };
+const scalar = { type: ['string', 'number', 'boolean'] };
+const stringList = { type: 'array', minItems: 1, items: nonEmptyString };
+
+const retryErrorClass = { enum: ['transient', 'rate_limit', 'any'] };
+
+/** Fields shared by command, shell and sub-workflow steps (StepBase) */
+const stepBaseProperties = {
+  id: {
+    description: 'Unique step identifier (defaults to the command name), referenced by depends_on',
+    type: 'string',
+    pattern: '^[A-Za-z0-9_-]+$',
+  },
+  depends_on: {
+    description: 'Step ids that must complete first - turns the steps into a dependency graph',
+    oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+  },
+  when: {
+    description: 'Condition expression - the step is skipped when it evaluates to false',
+    ...nonEmptyString,
+  },
+};
+
+/** Command names cannot contain path separators or '..', or start with '.' */
+const commandName = { type: 'string', pattern: '^(?!\\.)(?!.*\\.\\.)[^/\\\\]+$' };
+
+const commandStepProperties = {
+  ...stepBaseProperties,
+  command: {
+    description: 'Command file to run (`.archon/commands/<command>.md`)',
+    ...commandName,
+  },
+  step: { description: 'Older name for command', ...commandName },
+  clearContext: {
+    description: 'Start a fresh AI session for this step (parallel steps always do)',
+    type: 'boolean',
+  },
+  timeout_minutes: {
+    description: 'Wall-clock limit for the step, including retries',
+    ...positiveNumber,
+  },
+  provider: { $ref: '#/definitions/provider' },
+  model: { $ref: '#/definitions/model' },
+  retry: { $ref: '#/definitions/retryPolicy' },
+  budget: { $ref: '#/definitions/budget' },
+};
+
+const runStepProperties = {
+  ...stepBaseProperties,
+  run: { description: 'Shell command, run with sh -c in the worktree', ...nonEmptyString },
+  cwd: {
+    description: 'Working directory relative to the worktree root',
+    type: 'string',
+  },
+  env: {
+    description: 'Extra environment variables (workflow variables are substituted)',
+    type: 'object',
+    propertyNames: { pattern: '^[A-Za-z_][A-Za-z0-9_]*$' },
+    additionalProperties: scalar,
+  },
+  timeout: {
+    description: 'Seconds before the command is killed (default: 600)',
+    ...positiveNumber,
+  },
+  allow_failure: {
+    description: 'Continue the workflow when the command exits non-zero',
+    type: 'boolean',
+  },
+  retry: { $ref: '#/definitions/retryPolicy' },
+};
+
+const subWorkflowStepProperties = {
+  ...stepBaseProperties,
+  workflow: { description: 'Name of the workflow to run as a child run', ...nonEmptyString },
+  inputs: {
+    description: "Values for the child workflow's inputs (workflow variables are substituted)",
+    type: 'object',
+    propertyNames: { $ref: '#/definitions/inputName' },
+    additionalProperties: scalar,
+  },
+  message: {
+    description: "Child $USER_MESSAGE (default: the parent's message)",
+    type: 'string',
+  },
+  timeout_minutes: {
+    description: 'Wall-clock limit for the whole child run',
+    ...positiveNumber,
+  },
+  budget: { $ref: '#/definitions/budget' },
+};
+
+/**
+ * The workflow JSON Schema (draft-07, the version most YAML editors support)
+ */
+export const workflowJsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Archon workflow',
+  description: 'Workflow definition loaded from .archon/workflows/',
+  type: 'object',
+  required: ['name'],
+  properties: {
+    name: { description: 'Workflow name, used by the router and /workflow run', ...nonEmptyString },
+    description: {
+      description: 'What the workflow does and when to use it - read by the router',
+      ...nonEmptyString,
+    },
+    provider: { $ref: '#/definitions/provider' },
+    model: { $ref: '#/definitions/model' },
+    retry: { $ref: '#/definitions/retryPolicy' },
+    timeout_minutes: {
+      description: 'Wall-clock limit for the whole run',
+      ...positiveNumber,
+    },
+    inputs: {
+      description: 'Typed parameters, substituted as $inputs.<name>',
+      type: 'array',
+      items: { $ref: '#/definitions/input' },
+    },
+    triggers: { $ref: '#/definitions/triggers' },
+    budget: { $ref: '#/definitions/budget' },
+    steps: {
+      description: 'Steps run in order, or as a dependency graph when steps set depends_on',
+      type: 'array',
+      minItems: 1,
+      items: { $ref: '#/definitions/step' },
+    },
+    loop: { $ref: '#/definitions/loop' },
+    prompt: {
+      description: 'Prompt sent on every loop iteration',
+      ...nonEmptyString,
+    },
+    on_failure: {
+      description:
+        'Cleanup steps run after a failure, timeout or cancellation ($FAILED_STEP, $ERROR)',
+      type: 'array',
+      minItems: 1,
+      items: { $ref: '#/definitions/hookStep' },
+    },
+    finally: {
+      description: 'Steps run after every outcome except a pause for approval',
+      type: 'array',
+      minItems: 1,
+      items: { $ref: '#/definitions/hookStep' },
+    },
+    extends: {
+      description: 'Workflow to inherit from - fields set here replace the base workflow fields',
+      ...nonEmptyString,
+    },
+    remove: {
+      description: 'Base steps (or parallel branches) to drop, by step id - applied before insert',
+      oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+    },
+    insert: {
+      description: 'Steps to add to the base steps, next to a step or parallel branch',
+      type: 'array',
+      items: { $ref: '#/definitions/insertion' },
+    },
+  },
+  additionalProperties: false,
+  // Extending workflows inherit everything but their name
+  if: { required: ['extends'] },
+  then: {
+    not: {
+      required: ['steps'],
+      anyOf: [{ required: ['insert'] }, { required: ['remove'] }],
+    },
+  },
+  else: {
+    required: ['description'],
+    not: { anyOf: [{ required: ['insert'] }, { required: ['remove'] }] },
+    // Either step-based (steps) or loop-based (loop + prompt)
+    oneOf: [
+      {
+        required: ['steps'],
+        not: { anyOf: [{ required: ['loop'] }, { required: ['prompt'] }] },
+      },
+      {
+        required: ['loop', 'prompt'],
+        not: { required: ['steps'] },
+      },
+    ],
+  },
+  definitions: {
+    provider: {
+      description: 'AI assistant (default: claude)',
+      enum: ['claude', 'codex'],
+    },
+    model: {
+      description: 'Model name, <provider>/<model> or a name from the models: registry',
+      ...nonEmptyString,
+    },
+    inputName: { type: 'string', pattern: '^[A-Za-z_][A-Za-z0-9_-]*$' },
+    retryPolicy: {
+      description: 'Retry policy for AI calls',
+      type: 'object',
+      required: ['max_attempts'],
+      properties: {
+        max_attempts: { description: 'Total attempts including the first one', ...positiveInteger },
+        backoff_seconds: {
+          description: 'Delay before the first retry, doubled for each later retry (default: 10)',
+          type: 'number',
+          minimum: 0,
+        },
+        on: {
+          description: 'Error classes that trigger a retry (default: transient)',
+          oneOf: [retryErrorClass, { type: 'array', minItems: 1, items: retryErrorClass }],
+        },
+        fresh_context: {
+          description: "Retry in a fresh session instead of resuming the step's session",
+          type: 'boolean',
+        },
+      },
+      additionalProperties: false,
+    },
+    budget: {
+      description:
+        'Spending limits that fail the run (budget_exceeded) - tool calls, turns and (Claude) tokens abort the running query, cost is checked when a query finishes',
+      type: 'object',
+      properties: {
+        max_tokens: {
+          description: 'Input and output tokens, including cache writes',
+          ...positiveInteger,
+        },
+        max_cost_usd: {
+          description: 'Cost in USD (providers that report a cost)',
+          ...positiveNumber,
+        },
+        max_tool_calls: { description: 'Tool calls made by the AI', ...positiveInteger },
+        max_turns: { description: 'Assistant messages', ...positiveInteger },
+      },
+      additionalProperties: false,
+    },
+    input: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: { $ref: '#/definitions/inputName' },
+        type: { enum: ['string', 'number', 'boolean', 'enum'], default: 'string' },
+        description: { type: 'string' },
+        required: {
+          description: 'Must be provided when there is no default',
+          type: 'boolean',
+        },
+        default: scalar,
+        values: {
+          description: 'Allowed values (enum inputs only)',
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string' },
+        },
+      },
+      additionalProperties: false,
+      if: { properties: { type: { const: 'enum' } }, required: ['type'] },
+      then: { required: ['values'] },
+      else: { not: { required: ['values'] } },
+    },
+    triggers: {
+      description:
+        'Rules that route a message to this workflow without asking the AI router - a pattern, keyword or label must match, and every filter must hold',
+      type: 'object',
+      properties: {
+        patterns: {
+          description: 'Regular expressions tested against the request (case-insensitive)',
+          oneOf: [nonEmptyString, stringList],
+        },
+        keywords: {
+          description: 'Words or phrases found in the request (case-insensitive, whole words)',
+          oneOf: [nonEmptyString, stringList],
+        },
+        labels: {
+          description: 'GitHub issue/PR labels - any of them',
+          oneOf: [nonEmptyString, stringList],
+        },
+        platforms: {
+          description: 'Only match on these platforms (e.g. github, slack, telegram)',
+          oneOf: [nonEmptyString, stringList],
+        },
+        target: {
+          description: 'Only match on GitHub pull requests or issues',
+          enum: ['pr', 'issue'],
+        },
+      },
+      additionalProperties: false,
+      anyOf: [{ required: ['patterns'] }, { required: ['keywords'] }, { required: ['labels'] }],
+    },
+    commandStep: {
+      description: 'Runs a command prompt through the AI assistant',
+      type: 'object',
+      properties: commandStepProperties,
+      additionalProperties: false,
+      oneOf: [{ required: ['command'] }, { required: ['step'] }],
+    },
+    runStep: {
+      description: 'Runs a shell command in the worktree, without an AI agent',
+      type: 'object',
+      required: ['run'],
+      properties: runStepProperties,
+      additionalProperties: false,
+    },
+    subWorkflowStep: {
+      description: 'Runs another workflow as a child run in the same worktree',
+      type: 'object',
+      required: ['workflow'],
+      properties: subWorkflowStepProperties,
+      additionalProperties: false,
+    },
+    singleStep: {
+      oneOf: [
+        { $ref: '#/definitions/commandStep' },
+        { $ref: '#/definitions/runStep' },
+        { $ref: '#/definitions/subWorkflowStep' },
+      ],
+    },
+    parallelBlock: {
+      description: 'Steps run at the same time (separate agents, same worktree)',
+      type: 'object',
+      required: ['parallel'],
+      properties: {
+        parallel: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            oneOf: [{ $ref: '#/definitions/commandStep' }, { $ref: '#/definitions/runStep' }],
+            not: { required: ['depends_on'] },
+          },
+        },
+        for_each: {
+          description:
+            'Run the single step once per item ($item) - a list, or a variable resolving to a JSON array or comma/newline list',
+          oneOf: [{ type: 'array', minItems: 1, items: scalar }, nonEmptyString],
+        },
+        max_concurrency: {
+          description: 'Steps or instances running at once (for_each default: 4)',
+          ...positiveInteger,
+        },
+        on_failure: {
+          description: 'fail_fast, continue or quorum(<n>)',
+          type: 'string',
+          pattern: '^(fail_fast|continue|quorum\\(\\s*[1-9]\\d*\\s*\\))$',
+        },
+      },
+      additionalProperties: false,
+    },
+    approvalStep: {
+      description: 'Pauses the run until an authorized user replies /approve or /reject',
+      type: 'object',
+      required: ['approval'],
+      properties: {
+        approval: {
+          type: 'object',
+          required: ['message'],
+          properties: {
+            message: {
+              description: 'Prompt posted to the conversation',
+              ...nonEmptyString,
+            },
+            approvers: {
+              description: 'Platform user ids or GitHub usernames allowed to decide',
+              oneOf: [
+                { type: ['string', 'number'] },
+                { type: 'array', minItems: 1, items: { type: ['string', 'number'] } },
+              ],
+            },
+            timeout_hours: {
+              description: 'Fail the run when nobody decides in time',
+              ...positiveNumber,
+            },
+          },
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+    step: {
+      oneOf: [
+        { $ref: '#/definitions/singleStep' },
+        { $ref: '#/definitions/parallelBlock' },
+        { $ref: '#/definitions/approvalStep' },
+      ],
+    },
+    hookStep: {
+      allOf: [{ $ref: '#/definitions/singleStep' }, { not: { required: ['depends_on'] } }],
+    },
+    insertion: {
+      type: 'object',
+      required: ['steps'],
+      properties: {
+        before: { description: 'Insert before this step id', type: 'string' },
+        after: { description: 'Insert after this step id', type: 'string' },
+        steps: { type: 'array', minItems: 1, items: { $ref: '#/definitions/step' } },
+      },
+      additionalProperties: false,
+      oneOf: [{ required: ['before'] }, { required: ['after'] }],
+    },
+    loop: {
+      description: 'Iterate on the prompt until the completion signal or check passes',
+      type: 'object',
+      required: ['max_iterations'],
+      properties: {
+        until: {
+          description: 'Completion signal to detect in the AI output',
+          ...nonEmptyString,
+        },
+        until_command: {
+          description: 'Shell check run after an iteration - exit code 0 ends the loop',
+          ...nonEmptyString,
+        },
+        max_iterations: positiveInteger,
+        fresh_context: {
+          description: 'Start a fresh session every iteration',
+          type: 'boolean',
+        },
+      },
+      additionalProperties: false,
+      anyOf: [{ required: ['until'] }, { required: ['until_command'] }],
+    },
+  },
+};
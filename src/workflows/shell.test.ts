@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runShellCommand } from './shell';
+
+describe('runShellCommand', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `shell-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    await mkdir(join(testDir, 'sub'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should capture exit code, stdout and stderr', async () => {
+    const result = await runShellCommand('echo out; echo err >&2; exit 3', {
+      cwd: testDir,
+      env: {},
+      timeoutSeconds: 10,
+    });
+
+    expect(result).toEqual({ exitCode: 3, stdout: 'out\n', stderr: 'err\n', timedOut: false });
+  });
+
+  it('should run in cwd with the given environment', async () => {
+    const result = await runShellCommand('printf "%s %s" "$(basename "$PWD")" "$GREETING"', {
+      cwd: join(testDir, 'sub'),
+      env: { GREETING: 'hello' },
+      timeoutSeconds: 10,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toBe('sub hello');
+  });
+
+  it('should stop commands that exceed the timeout', async () => {
+    const result = await runShellCommand('sleep 5', {
+      cwd: testDir,
+      env: {},
+      timeoutSeconds: 0.2,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it('should stop commands when the signal aborts', async () => {
+    const controller = new AbortController();
+    setTimeout(() => {
+      controller.abort();
+    }, 100);
+
+    const result = await runShellCommand('sleep 5', {
+      cwd: testDir,
+      env: {},
+      timeoutSeconds: 10,
+      signal: controller.signal,
+    });
+
+    expect(result.timedOut).toBe(false);
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it('should reject when the command cannot be started', async () => {
+    let error: Error | undefined;
+    try {
+      await runShellCommand('true', { cwd: join(testDir, 'missing'), env: {}, timeoutSeconds: 10 });
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).toStartWith('Failed to start command:');
+  });
+});
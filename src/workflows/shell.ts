@@ -0,0 +1,113 @@
+/**
+ * Shell steps - run a command directly in the worktree, without an AI agent
+ *
+ *   - run: bun test
+ *     cwd: packages/api
+ *     env: { ISSUE: $inputs.issue }
+ *     timeout: 300
+ *     allow_failure: true
+ *
+ * Workflow variables are only substituted into `env` values, never into the command
+ * itself, so text produced by earlier steps cannot inject shell syntax.
+ */
+import { spawn } from 'child_process';
+import type { ShellCommandResult } from './types';
+
+/** Default limit for a shell step when `timeout` is not set */
+export const DEFAULT_SHELL_TIMEOUT_SECONDS = 600;
+
+/** Only the tail of long output is kept - that is where test and lint summaries are */
+const MAX_OUTPUT_CHARS = 50_000;
+
+/** Grace period between SIGTERM and SIGKILL when a command is stopped */
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Append a chunk to captured output, keeping only the last MAX_OUTPUT_CHARS characters
+ */
+function appendOutput(current: string, chunk: Buffer): string {
+  const combined = current + chunk.toString();
+  return combined.length > MAX_OUTPUT_CHARS ? combined.slice(-MAX_OUTPUT_CHARS) : combined;
+}
+
+/**
+ * Run a command with `sh -c` and capture its exit code, stdout and stderr.
+ * Non-zero exits resolve normally; only a command that cannot be started rejects.
+ *
+ * The command runs in its own process group so the whole tree (e.g. test workers)
+ * is stopped on timeout or when `signal` aborts.
+ */
+export function runShellCommand(
+  command: string,
+  options: {
+    cwd: string;
+    env: Readonly<Record<string, string>>;
+    timeoutSeconds: number;
+    signal?: AbortSignal;
+  }
+): Promise<ShellCommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('sh', ['-c', command], {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const stop = (): void => {
+      if (child.pid === undefined || child.exitCode !== null) return;
+      try {
+        process.kill(-child.pid, 'SIGTERM');
+      } catch {
+        child.kill('SIGTERM');
+      }
+      killTimer = setTimeout(() => {
+        try {
+          if (child.pid !== undefined) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Process group already gone
+        }
+      }, KILL_GRACE_MS);
+    };
+
+    const timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeoutSeconds * 1000);
+
+    if (options.signal?.aborted) {
+      stop();
+    } else {
+      options.signal?.addEventListener('abort', stop, { once: true });
+    }
+
+    const cleanup = (): void => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', stop);
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdout = appendOutput(stdout, chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr = appendOutput(stderr, chunk);
+    });
+
+    child.on('error', error => {
+      cleanup();
+      reject(new Error(`Failed to start command: ${error.message}`));
+    });
+
+    child.on('close', code => {
+      cleanup();
+      // Killed by a signal (timeout or abort) - report a failing exit code
+      resolve({ exitCode: code ?? 1, stdout, stderr, timedOut });
+    });
+  });
+}
@@ -2,37 +2,162 @@
  * Workflow Engine Type Definitions
  *
  * Core types for the workflow engine supporting two execution modes:
- * 1. Step-based: Sequential prompt chains with session continuity
+ * 1. Step-based: Sequential prompt chains with session continuity, or a dependency
+ *    graph (DAG) when steps declare `depends_on`
  * 2. Loop-based: Autonomous iteration until completion signal (Ralph pattern)
  *
  * The WorkflowDefinition type uses a discriminated union pattern with `never`
  * types to enforce mutual exclusivity between steps and loop at compile time.
  */
+import type { TokenUsage } from '../types';
+
+/** Error classes a retry policy can react to */
+export type RetryErrorClass = 'transient' | 'rate_limit' | 'any';
+
+/**
+ * Retry policy for AI calls - per step or as a workflow-level default
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  max_attempts: number;
+  /** Delay before the first retry; doubled for each later retry (default: 10) */
+  backoff_seconds?: number;
+  /** Error classes that trigger a retry (default: ['transient']). Auth errors never retry. */
+  on?: readonly RetryErrorClass[];
+  /** Retry in a fresh session instead of resuming the step's session (default: false) */
+  fresh_context?: boolean;
+}
+
+/**
+ * Spending limits for a workflow run or a step (`budget:`). Hitting one aborts the
+ * running query and fails the run with reason 'budget_exceeded'.
+ */
+export interface WorkflowBudget {
+  /** Input and output tokens, including cache writes (cache reads are only priced) */
+  max_tokens?: number;
+  /** Cost in USD - only providers that report a cost (Claude) count toward it */
+  max_cost_usd?: number;
+  /** Tool calls made by the AI */
+  max_tool_calls?: number;
+  /** Assistant messages */
+  max_turns?: number;
+}
+
+/** AI assistant a workflow or step runs on */
+export type AssistantProvider = 'claude' | 'codex';
+
+/** Value types a workflow input can declare */
+export type WorkflowInputType = 'string' | 'number' | 'boolean' | 'enum';
+
+/** Resolved value of a workflow input */
+export type WorkflowInputValue = string | number | boolean;
 
 /**
- * A single step with a command
+ * Typed input declared by a workflow. Filled by the router or the user as
+ * `name=value` pairs and substituted as `$inputs.<name>` in prompts.
  */
-export interface SingleStep {
+export interface WorkflowInput {
+  name: string;
+  type: WorkflowInputType;
+  description?: string;
+  required?: boolean; // Must be provided when there is no default (default: false)
+  default?: WorkflowInputValue;
+  values?: readonly string[]; // Allowed values (enum only)
+}
+
+/** Fields shared by command, shell and sub-workflow steps */
+interface StepBase {
+  id?: string; // Unique step identifier (defaults to command name) - referenced by depends_on
+  depends_on?: readonly string[]; // Step ids that must complete first (enables DAG scheduling)
+  when?: string; // Condition expression - step is skipped when it evaluates to false
+  retry?: RetryPolicy; // Overrides the workflow-level retry policy (shell steps: step-level only)
+}
+
+/**
+ * A step that runs a command prompt through the AI assistant
+ */
+export interface CommandStep extends StepBase {
   command: string;
   clearContext?: boolean; // For sequential: controls session. For parallel: always fresh (ignored)
+  timeout_minutes?: number; // Wall-clock limit for the step (all attempts) - aborts the AI query
+  provider?: AssistantProvider; // Overrides the workflow provider - another provider starts a fresh session
+  model?: string; // Model name, `<provider>/<model>` or a name from the `models:` registry
+  budget?: WorkflowBudget; // Limits for the step (all attempts)
 }
 
+/**
+ * A step that runs a shell command directly in the worktree, without an AI agent
+ */
+export interface RunStep extends StepBase {
+  run: string; // Shell command (run with sh -c)
+  cwd?: string; // Working directory relative to the worktree (default: worktree root)
+  env?: Readonly<Record<string, string>>; // Extra environment variables (workflow variables are substituted)
+  timeout?: number; // Seconds before the command is killed (default: 600)
+  allow_failure?: boolean; // Continue the workflow when the command exits non-zero
+}
+
+/**
+ * A step that runs another workflow as a child run in the same worktree
+ */
+export interface SubWorkflowStep extends StepBase {
+  workflow: string; // Name of the workflow to run
+  inputs?: Readonly<Record<string, string>>; // Child `inputs:` values (workflow variables are substituted)
+  message?: string; // Child $USER_MESSAGE / $ARGUMENTS (default: the parent's message)
+  timeout_minutes?: number; // Wall-clock limit for the whole child run
+  budget?: WorkflowBudget; // Limits for the whole child run
+}
+
+/**
+ * A single step - an AI command, a shell command or a sub-workflow
+ */
+export type SingleStep = CommandStep | RunStep | SubWorkflowStep;
+
 /**
  * Step definition from YAML workflow file (alias for backward compatibility)
  */
 export type StepDefinition = SingleStep;
 
 /**
- * A block of steps that execute in parallel (separate agents, same worktree)
+ * How a parallel block handles failed steps (`on_failure:`):
+ * - fail_fast: cancel the other steps at the first failure and fail the workflow
+ * - continue: record the failures and go on with the next step
+ * - { quorum: n }: go on when at least n steps completed (`quorum(n)` in YAML)
+ * Without a policy, every step finishes and any failure fails the workflow.
+ */
+export type ParallelFailurePolicy = 'fail_fast' | 'continue' | { quorum: number };
+
+/**
+ * A block of steps that execute in parallel (separate agents, same worktree).
+ * With `for_each`, the block holds one step that runs once per item (`$item`).
  */
 export interface ParallelBlock {
   parallel: readonly SingleStep[];
+  for_each?: readonly string[] | string; // Literal list, or a variable resolving to a JSON array or comma/newline list
+  max_concurrency?: number; // Steps/instances running at once (for_each default: 4, otherwise all)
+  on_failure?: ParallelFailurePolicy; // Counts for_each instances like steps
+}
+
+/**
+ * Human approval gate - pauses the run until an authorized user replies
+ * `/approve <run>` or `/reject <run> <reason>`
+ */
+export interface ApprovalConfig {
+  message: string; // Prompt posted to the conversation (workflow variables are substituted)
+  approvers?: readonly string[]; // Platform user ids / GitHub usernames allowed to decide (default: anyone)
+  timeout_hours?: number; // Fail the run when nobody decides in time
 }
 
 /**
- * A workflow step is either a single step or a parallel block
+ * A step that waits for human approval (step-based workflows without depends_on only)
  */
-export type WorkflowStep = SingleStep | ParallelBlock;
+export interface ApprovalStep {
+  approval: ApprovalConfig;
+}
+
+/**
+ * A workflow step is a single step, a parallel block or an approval gate
+ */
+export type WorkflowStep = SingleStep | ParallelBlock | ApprovalStep;
 
 /**
  * Type guard: check if step is a parallel block
@@ -41,11 +166,41 @@ export function isParallelBlock(step: WorkflowStep): step is ParallelBlock {
   return 'parallel' in step && Array.isArray(step.parallel);
 }
 
+/**
+ * Type guard: check if step is an approval gate
+ */
+export function isApprovalStep(step: WorkflowStep): step is ApprovalStep {
+  return 'approval' in step && typeof step.approval === 'object';
+}
+
 /**
  * Type guard: check if step is a single step
  */
 export function isSingleStep(step: WorkflowStep): step is SingleStep {
-  return 'command' in step && typeof step.command === 'string' && !('parallel' in step);
+  return (
+    (isCommandStep(step) || isRunStep(step) || isSubWorkflowStep(step)) && !('parallel' in step)
+  );
+}
+
+/**
+ * Type guard: check if step is an AI command step
+ */
+export function isCommandStep(step: WorkflowStep): step is CommandStep {
+  return 'command' in step && typeof step.command === 'string';
+}
+
+/**
+ * Type guard: check if step is a shell step
+ */
+export function isRunStep(step: WorkflowStep): step is RunStep {
+  return 'run' in step && typeof step.run === 'string';
+}
+
+/**
+ * Type guard: check if step runs a sub-workflow
+ */
+export function isSubWorkflowStep(step: WorkflowStep): step is SubWorkflowStep {
+  return 'workflow' in step && typeof step.workflow === 'string';
 }
 
 /**
@@ -53,19 +208,45 @@ export function isSingleStep(step: WorkflowStep): step is SingleStep {
  */
 export interface LoopConfig {
   /** Completion signal to detect in AI output (e.g., "COMPLETE") */
-  until: string;
+  until?: string;
+  /**
+   * Shell check run in the worktree after an iteration; exit code 0 ends the loop.
+   * With `until` as well, the check only runs once the signal is seen and both must pass.
+   * At least one of `until` and `until_command` is required.
+   */
+  until_command?: string;
   /** Maximum iterations allowed; exceeding this fails the workflow with an error */
   max_iterations: number;
   /** Whether to start fresh session each iteration (default: false) */
   fresh_context?: boolean;
 }
 
+/**
+ * Rules that route a message straight to the workflow, without asking the AI router
+ * (`triggers:`). A rule matches when one of its patterns, keywords or labels matches
+ * and every filter (platforms, target) holds.
+ */
+export interface WorkflowTriggers {
+  patterns?: readonly string[]; // Regular expressions (case-insensitive) tested against the request
+  keywords?: readonly string[]; // Words or phrases found in the request (case-insensitive)
+  labels?: readonly string[]; // GitHub issue/PR labels - any of them
+  platforms?: readonly string[]; // Only on these platforms (e.g. github, slack)
+  target?: 'pr' | 'issue'; // Only on GitHub pull requests or issues
+}
+
 /** Common fields shared by all workflow types */
 interface WorkflowBase {
   name: string;
   description: string;
-  provider?: 'claude' | 'codex'; // AI provider (default: claude)
-  model?: string; // Model override (future)
+  provider?: AssistantProvider; // AI provider (default: claude)
+  model?: string; // Default model for AI steps (same forms as CommandStep.model)
+  retry?: RetryPolicy; // Default retry policy for every step / loop iteration
+  timeout_minutes?: number; // Wall-clock limit for the whole run - aborts the in-flight AI query
+  inputs?: readonly WorkflowInput[]; // Typed parameters, substituted as $inputs.<name>
+  on_failure?: readonly SingleStep[]; // Cleanup after a failure, timeout or cancellation ($FAILED_STEP, $ERROR)
+  finally?: readonly SingleStep[]; // Runs after every outcome except an approval pause
+  triggers?: WorkflowTriggers; // Rule-based routing, checked before the AI router
+  budget?: WorkflowBudget; // Limits for the whole run (capped by the config's `budget:` ceilings)
 }
 
 /** Step-based workflow - sequential command execution */
@@ -99,20 +280,73 @@ export interface WorkflowRun {
   conversation_id: string;
   codebase_id: string | null;
   current_step_index: number;
-  status: 'running' | 'completed' | 'failed';
+  status: 'running' | 'completed' | 'failed' | 'interrupted' | 'waiting_approval'; // interrupted = process died mid-run
   user_message: string; // Original user intent
   metadata: Record<string, unknown>;
+  parent_run_id: string | null; // Set for runs started by a sub-workflow step
   started_at: Date;
   completed_at: Date | null;
   last_activity_at: Date | null; // For staleness detection
 }
 
+/**
+ * Token usage and AI activity of a run, stored as `usage` in the run metadata. A
+ * sub-workflow run's usage also counts toward the calling step. A resumed run's budget
+ * continues from these totals.
+ */
+export interface WorkflowRunUsage {
+  total: TokenUsage;
+  steps: Record<string, TokenUsage>; // Step (or loop iteration) name -> usage
+  toolCalls: number;
+  turns: number; // Assistant messages
+}
+
+/**
+ * Machine-readable reason stored as `failure_reason` in the run metadata
+ */
+export type WorkflowFailureReason =
+  | 'timeout'
+  | 'rejected'
+  | 'approval_timeout'
+  | 'cancelled'
+  | 'budget_exceeded';
+
 /**
  * Step execution result - discriminated union for type safety
  */
 export type StepResult =
-  | { success: true; commandName: string; sessionId?: string; artifacts?: string[] }
-  | { success: false; commandName: string; error: string };
+  | {
+      success: true;
+      commandName: string;
+      sessionId?: string;
+      artifacts?: string[];
+      output?: string; // Final assistant message of the step (shell steps: stdout)
+      skipped?: boolean; // True when the step's `when` condition was not met
+      shell?: ShellCommandResult; // Set for shell steps
+    }
+  | { success: false; commandName: string; error: string; shell?: ShellCommandResult };
+
+/**
+ * Result of running a shell step's command
+ */
+export interface ShellCommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean; // Killed after the step's `timeout`
+}
+
+/**
+ * Outcome of a step within a run, keyed by step id.
+ * Read by `when` conditions and `$steps.<id>.*` variables; persisted as `step_outputs` in run metadata.
+ */
+export interface StepOutcome {
+  status: 'completed' | 'failed' | 'skipped';
+  output: string; // Final assistant message (shell steps: stdout)
+  json?: unknown; // Parsed JSON block from the final message, if any
+  exit_code?: number; // Shell steps only
+  stderr?: string; // Shell steps only
+}
 
 /**
  * Result of loading a command prompt - discriminated union for specific error handling
@@ -126,3 +360,18 @@ export type LoadCommandResult =
       reason: 'invalid_name' | 'empty_file' | 'not_found' | 'permission_denied' | 'read_error';
       message: string;
     };
+
+/**
+ * Mapping keys and list indexes leading from a workflow file's root to a YAML node
+ * (e.g. `['steps', 2, 'parallel', 0, 'command']`)
+ */
+export type WorkflowNodePath = readonly (string | number)[];
+
+/**
+ * A problem that rejects a workflow file, with the node it is about - used to report
+ * the line and column of the error
+ */
+export interface WorkflowLoadError {
+  message: string;
+  path: WorkflowNodePath;
+}